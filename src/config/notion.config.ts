@@ -45,7 +45,8 @@ export const PROJECT_PROPERTY_IDS = {
   title: 'Nom',
   client: 'Client',
   status: 'Statut du projet',
-  tasks: 'Tâches'
+  tasks: 'Tâches',
+  projectLead: 'Chef de projet'
 };
 
 export const CLIENT_PROPERTY_IDS = {
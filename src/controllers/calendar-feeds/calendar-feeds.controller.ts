@@ -0,0 +1,172 @@
+import { Request, Response } from "express";
+import { AuthRequest } from "../../middleware/auth.middleware";
+import { UserRole } from "../../models/User.model";
+import {
+  calendarFeedService,
+  FEED_TARGET_NOT_FOUND_ERROR,
+  FEED_FORBIDDEN_ERROR
+} from "../../services/calendar-feed.service";
+import { createCalendarFeedSchema } from "../../validators/calendar-feeds.validator";
+import logger from "../../config/logger.config";
+
+/**
+ * Controller for iCalendar (ICS) feeds
+ */
+export class CalendarFeedsController {
+  /**
+   * Create a tokenized feed for a member, team or project
+   * POST /api/v1/calendar-feeds
+   */
+  createFeed = async (req: AuthRequest, res: Response) => {
+    try {
+      const validation = createCalendarFeedSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid calendar feed",
+          details: validation.error.errors
+        });
+      }
+
+      const { scope, targetId, label } = validation.data;
+      const { feed, token } = await calendarFeedService.createFeed(req.user!.userId, {
+        scope,
+        targetId,
+        ...(label && { label })
+      });
+
+      return res.status(201).json({
+        success: true,
+        data: {
+          ...feed,
+          // Le jeton n'est plus récupérable ensuite
+          url: `${this.getApiBaseUrl(req)}/calendar-feeds/${token}.ics`
+        },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === FEED_TARGET_NOT_FOUND_ERROR) {
+        return res.status(404).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      logger.error("Error creating calendar feed:", error);
+      return res.status(500).json({
+        success: false,
+        error: "Failed to create calendar feed"
+      });
+    }
+  }
+
+  /**
+   * List the feeds of the current user (every feed for admins with ?all=true)
+   * GET /api/v1/calendar-feeds
+   */
+  getFeeds = async (req: AuthRequest, res: Response) => {
+    try {
+      const all = req.query.all === 'true' && req.user!.role === UserRole.ADMIN;
+      const feeds = await calendarFeedService.listFeeds(all ? undefined : req.user!.userId);
+
+      return res.status(200).json({
+        success: true,
+        data: feeds,
+        count: feeds.length,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      logger.error("Error fetching calendar feeds:", error);
+      return res.status(500).json({
+        success: false,
+        error: "Failed to fetch calendar feeds"
+      });
+    }
+  }
+
+  /**
+   * Revoke a feed (owner or admin)
+   * DELETE /api/v1/calendar-feeds/:id
+   */
+  revokeFeed = async (req: AuthRequest, res: Response) => {
+    try {
+      const feed = await calendarFeedService.revokeFeed(req.params.id!, req.user!);
+
+      if (!feed) {
+        return res.status(404).json({
+          success: false,
+          error: "Calendar feed not found"
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: feed,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === FEED_FORBIDDEN_ERROR) {
+        return res.status(403).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      if (error instanceof Error && error.name === 'CastError') {
+        return res.status(404).json({
+          success: false,
+          error: "Calendar feed not found"
+        });
+      }
+
+      logger.error("Error revoking calendar feed:", error);
+      return res.status(500).json({
+        success: false,
+        error: "Failed to revoke calendar feed"
+      });
+    }
+  }
+
+  /**
+   * Serve the ICS document of a feed (public, authenticated by the token in the URL)
+   * GET /api/v1/calendar-feeds/:token.ics
+   */
+  getFeedIcs = async (req: Request, res: Response) => {
+    try {
+      const result = await calendarFeedService.renderFeed(req.params.token!);
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: "Calendar feed not found or revoked"
+        });
+      }
+
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Content-Disposition', `inline; filename="matter-${result.feed.scope}-${result.feed.targetId}.ics"`);
+      res.setHeader('Cache-Control', 'private, max-age=300');
+      return res.status(200).send(result.ics);
+    } catch (error) {
+      logger.error("Error rendering calendar feed:", error);
+
+      if (error instanceof Error && error.message.includes("rate limit")) {
+        return res.status(429).json({
+          success: false,
+          error: "Rate limit exceeded. Please try again later."
+        });
+      }
+
+      return res.status(500).json({
+        success: false,
+        error: "Failed to render calendar feed"
+      });
+    }
+  }
+
+  private getApiBaseUrl(req: Request): string {
+    return process.env.API_BASE_URL || `${req.protocol}://${req.get('host')}/api/v1`;
+  }
+}
+
+export const calendarFeedsController = new CalendarFeedsController();
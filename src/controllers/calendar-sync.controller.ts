@@ -0,0 +1,65 @@
+/**
+ * Controller for the calendar (Google Calendar) sync (admin)
+ */
+
+import { Request, Response } from 'express';
+import { calendarSyncService } from '../services/calendar/calendar-sync.service';
+import logger from '../config/logger.config';
+
+export class CalendarSyncController {
+  /**
+   * Get the calendar sync status
+   * GET /api/v1/admin/calendar-sync/status
+   */
+  async getStatus(_req: Request, res: Response) {
+    try {
+      return res.status(200).json({
+        success: true,
+        data: await calendarSyncService.getStatus(),
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      logger.error('Error fetching calendar sync status:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch calendar sync status'
+      });
+    }
+  }
+
+  /**
+   * Run a calendar sync now
+   * POST /api/v1/admin/calendar-sync/run
+   */
+  async runSync(_req: Request, res: Response) {
+    try {
+      if (!calendarSyncService.getProvider()) {
+        return res.status(503).json({
+          success: false,
+          error: 'No calendar provider configured'
+        });
+      }
+
+      const result = await calendarSyncService.runSync();
+
+      if (result.skipped) {
+        return res.status(409).json({
+          success: false,
+          error: 'A calendar sync is already running'
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      logger.error('Error running calendar sync:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to run calendar sync'
+      });
+    }
+  }
+}
@@ -1,8 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
 import { entityService } from '../../services/notion/entity.service';
 import logger from '../../config/logger.config';
+import { syncQueueService } from '../../services/sync-queue.service';
+import { tempIdRegistryService } from '../../services/temp-id-registry.service';
+import { createClientSchema, updateClientSchema } from '../../validators/clients.validator';
 import { ConfigModel } from '../../models/Config.model';
-import { NotionClient } from '../../types/notion.types';
+import { clientOverviewService, CLIENT_OVERVIEW_MONTHS } from '../../services/client-overview.service';
+import { NotionClient, CreateClientInput, UpdateClientInput } from '../../types/notion.types';
 
 class ClientsController {
   /**
@@ -79,6 +83,154 @@ class ClientsController {
       next(error);
     }
   }
+
+  /**
+   * Get a client overview: active projects, upcoming milestones, monthly hours and most involved members
+   * GET /api/v1/clients/:id/overview
+   */
+  async getClientOverview(req: Request, res: Response, next: NextFunction) {
+    try {
+      const overview = await clientOverviewService.getClientOverview(req.params.id!);
+
+      if (!overview) {
+        res.status(404).json({
+          success: false,
+          error: 'Client not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: overview,
+        meta: {
+          months: CLIENT_OVERVIEW_MONTHS,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to build client overview', { clientId: req.params.id, error });
+      next(error);
+    }
+  }
+
+  /**
+   * Create a client in Notion (queued with ?async=true)
+   * POST /api/v1/clients
+   */
+  async createClient(req: Request, res: Response, next: NextFunction) {
+    try {
+      const validation = createClientSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: validation.error.errors
+        });
+        return;
+      }
+
+      const input = validation.data as CreateClientInput;
+
+      if (req.query.async === 'true') {
+        const { id: tempId } = await syncQueueService.queueEntityCreate('client', input);
+
+        res.status(201).json({
+          success: true,
+          data: { id: tempId, ...input, _temporary: true, _pendingSync: true },
+          meta: { mode: 'async', tempId },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const client = await entityService.createClient(input);
+
+      res.status(201).json({
+        success: true,
+        data: client,
+        meta: { mode: 'sync' },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      logger.error('Failed to create client', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Update a client in Notion (queued with ?async=true or while its creation is pending)
+   * PUT /api/v1/clients/:id
+   */
+  async updateClient(req: Request, res: Response, next: NextFunction) {
+    try {
+      const validation = updateClientSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: validation.error.errors
+        });
+        return;
+      }
+
+      const id = await tempIdRegistryService.resolveId(req.params.id!);
+      const input = validation.data as UpdateClientInput;
+
+      if (req.query.async === 'true' || tempIdRegistryService.isTempId(id)) {
+        await syncQueueService.queueEntityUpdate('client', id, input);
+
+        res.json({
+          success: true,
+          data: { id, ...input, _pendingSync: true },
+          meta: { mode: 'async' },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const client = await entityService.updateClient(id, input);
+
+      res.json({
+        success: true,
+        data: client,
+        meta: { mode: 'sync' },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      logger.error('Failed to update client', { clientId: req.params.id, error });
+      next(error);
+    }
+  }
+
+  /**
+   * Archive a client in Notion (queued with ?async=true or while its creation is pending)
+   * DELETE /api/v1/clients/:id
+   */
+  async archiveClient(req: Request, res: Response, next: NextFunction) {
+    try {
+      const id = await tempIdRegistryService.resolveId(req.params.id!);
+      const useAsync = req.query.async === 'true' || tempIdRegistryService.isTempId(id);
+
+      if (useAsync) {
+        await syncQueueService.queueEntityArchive('client', id);
+      } else {
+        await entityService.archiveClient(id);
+      }
+
+      res.json({
+        success: true,
+        message: useAsync ? 'Client archive queued' : 'Client archived successfully',
+        meta: { mode: useAsync ? 'async' : 'sync' },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      logger.error('Failed to archive client', { clientId: req.params.id, error });
+      next(error);
+    }
+  }
 }
 
 export default new ClientsController();
\ No newline at end of file
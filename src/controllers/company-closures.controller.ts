@@ -0,0 +1,156 @@
+/**
+ * Controller for company closures (admin)
+ * Jours de fermeture de l'entreprise (ponts, fermeture annuelle), renvoyés avec les jours fériés
+ * et signalés en conflit pour les tâches planifiées ces jours-là
+ */
+
+import { Request, Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { holidaysService, CompanyClosureInput, CLOSURE_PERIOD_ERROR } from '../services/holidays.service';
+import { closuresQuerySchema, createClosureSchema, updateClosureSchema } from '../validators/holidays.validator';
+import logger from '../config/logger.config';
+
+export class CompanyClosuresController {
+  /**
+   * List company closures
+   * GET /api/v1/admin/company-closures?year=2025
+   */
+  async getClosures(req: Request, res: Response) {
+    try {
+      const validation = closuresQuerySchema.safeParse(req.query);
+
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid query parameters',
+          details: validation.error.errors
+        });
+      }
+
+      const closures = await holidaysService.listClosures(validation.data.year);
+
+      return res.status(200).json({
+        success: true,
+        data: closures,
+        count: closures.length,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      logger.error('Error fetching company closures:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch company closures'
+      });
+    }
+  }
+
+  /**
+   * Create a company closure
+   * POST /api/v1/admin/company-closures
+   */
+  async createClosure(req: AuthRequest, res: Response) {
+    try {
+      const validation = createClosureSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid closure',
+          details: validation.error.errors
+        });
+      }
+
+      const closure = await holidaysService.createClosure(validation.data, req.user?.email);
+
+      return res.status(201).json({
+        success: true,
+        data: closure,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      return this.handleError(res, error, 'Failed to create company closure');
+    }
+  }
+
+  /**
+   * Update a company closure
+   * PUT /api/v1/admin/company-closures/:id
+   */
+  async updateClosure(req: AuthRequest, res: Response) {
+    try {
+      const validation = updateClosureSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid closure',
+          details: validation.error.errors
+        });
+      }
+
+      const closure = await holidaysService.updateClosure(
+        req.params.id!,
+        validation.data as Partial<CompanyClosureInput>,
+        req.user?.email
+      );
+
+      if (!closure) {
+        return res.status(404).json({
+          success: false,
+          error: 'Closure not found'
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: closure,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      return this.handleError(res, error, 'Failed to update company closure');
+    }
+  }
+
+  /**
+   * Delete a company closure
+   * DELETE /api/v1/admin/company-closures/:id
+   */
+  async deleteClosure(req: Request, res: Response) {
+    try {
+      const deleted = await holidaysService.deleteClosure(req.params.id!);
+
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          error: 'Closure not found'
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        message: 'Closure deleted',
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      return this.handleError(res, error, 'Failed to delete company closure');
+    }
+  }
+
+  private handleError(res: Response, error: unknown, message: string) {
+    if (error instanceof Error) {
+      if (error.message === CLOSURE_PERIOD_ERROR) {
+        return res.status(400).json({ success: false, error: error.message });
+      }
+
+      if (error.name === 'CastError') {
+        return res.status(404).json({ success: false, error: 'Closure not found' });
+      }
+    }
+
+    logger.error(`${message}:`, error);
+    return res.status(500).json({
+      success: false,
+      error: message
+    });
+  }
+}
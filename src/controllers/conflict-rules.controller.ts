@@ -0,0 +1,252 @@
+/**
+ * Controller for scheduling conflict rule sets (admin)
+ * Brouillons modifiables, testables sur une période (dry-run) puis activés
+ */
+
+import { Request, Response } from 'express';
+import { parseISO, endOfDay } from 'date-fns';
+import { AuthRequest } from '../middleware/auth.middleware';
+import {
+  conflictRulesService,
+  ConflictRuleSetInput,
+  DEFAULT_CONFLICT_RULES,
+  RULE_SET_NOT_DRAFT_ERROR,
+  RULE_SET_ACTIVE_ERROR
+} from '../services/conflict-rules.service';
+import { tasksConflictService } from '../services/tasks-conflict.service';
+import {
+  createConflictRuleSetSchema,
+  updateConflictRuleSetSchema,
+  conflictRulesDryRunSchema
+} from '../validators/conflict-rules.validator';
+import logger from '../config/logger.config';
+
+export class ConflictRulesController {
+  /**
+   * List rule sets, with the built-in default rules
+   * GET /api/v1/admin/conflict-rules
+   */
+  async getRuleSets(_req: Request, res: Response) {
+    try {
+      const ruleSets = await conflictRulesService.listRuleSets();
+
+      return res.status(200).json({
+        success: true,
+        data: ruleSets,
+        count: ruleSets.length,
+        defaults: DEFAULT_CONFLICT_RULES,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      logger.error('Error fetching conflict rule sets:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch conflict rule sets'
+      });
+    }
+  }
+
+  /**
+   * Get a rule set
+   * GET /api/v1/admin/conflict-rules/:id
+   */
+  async getRuleSet(req: Request, res: Response) {
+    try {
+      const ruleSet = await conflictRulesService.getRuleSet(req.params.id!);
+
+      if (!ruleSet) {
+        return res.status(404).json({
+          success: false,
+          error: 'Rule set not found'
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: ruleSet,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      return this.handleError(res, error, 'Failed to fetch conflict rule set');
+    }
+  }
+
+  /**
+   * Create a draft rule set
+   * POST /api/v1/admin/conflict-rules
+   */
+  async createRuleSet(req: AuthRequest, res: Response) {
+    try {
+      const validation = createConflictRuleSetSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid rule set',
+          details: validation.error.errors
+        });
+      }
+
+      const ruleSet = await conflictRulesService.createRuleSet(
+        validation.data as ConflictRuleSetInput & { name: string },
+        req.user?.email
+      );
+
+      return res.status(201).json({
+        success: true,
+        data: ruleSet,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      return this.handleError(res, error, 'Failed to create conflict rule set');
+    }
+  }
+
+  /**
+   * Update a draft rule set
+   * PUT /api/v1/admin/conflict-rules/:id
+   */
+  async updateRuleSet(req: AuthRequest, res: Response) {
+    try {
+      const validation = updateConflictRuleSetSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid rule set',
+          details: validation.error.errors
+        });
+      }
+
+      const ruleSet = await conflictRulesService.updateRuleSet(
+        req.params.id!,
+        validation.data as ConflictRuleSetInput,
+        req.user?.email
+      );
+
+      if (!ruleSet) {
+        return res.status(404).json({
+          success: false,
+          error: 'Rule set not found'
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: ruleSet,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      return this.handleError(res, error, 'Failed to update conflict rule set');
+    }
+  }
+
+  /**
+   * Activate a rule set (the previously active one is archived)
+   * POST /api/v1/admin/conflict-rules/:id/activate
+   */
+  async activateRuleSet(req: AuthRequest, res: Response) {
+    try {
+      const ruleSet = await conflictRulesService.activateRuleSet(req.params.id!, req.user?.email);
+
+      if (!ruleSet) {
+        return res.status(404).json({
+          success: false,
+          error: 'Rule set not found'
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: ruleSet,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      return this.handleError(res, error, 'Failed to activate conflict rule set');
+    }
+  }
+
+  /**
+   * Re-evaluate a date range against a rule set, compared to the active rules
+   * POST /api/v1/admin/conflict-rules/:id/dry-run
+   */
+  async dryRunRuleSet(req: Request, res: Response) {
+    try {
+      const validation = conflictRulesDryRunSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid date range',
+          details: validation.error.errors
+        });
+      }
+
+      const ruleSet = await conflictRulesService.getRuleSet(req.params.id!);
+
+      if (!ruleSet) {
+        return res.status(404).json({
+          success: false,
+          error: 'Rule set not found'
+        });
+      }
+
+      const result = await tasksConflictService.dryRunRules(
+        ruleSet.rules,
+        parseISO(validation.data.startDate),
+        endOfDay(parseISO(validation.data.endDate))
+      );
+
+      return res.status(200).json({
+        success: true,
+        data: { ruleSetId: ruleSet.id, ...result },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      return this.handleError(res, error, 'Failed to dry-run conflict rule set');
+    }
+  }
+
+  /**
+   * Delete a draft or archived rule set
+   * DELETE /api/v1/admin/conflict-rules/:id
+   */
+  async deleteRuleSet(req: Request, res: Response) {
+    try {
+      const deleted = await conflictRulesService.deleteRuleSet(req.params.id!);
+
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          error: 'Rule set not found'
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        message: 'Rule set deleted',
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      return this.handleError(res, error, 'Failed to delete conflict rule set');
+    }
+  }
+
+  private handleError(res: Response, error: unknown, message: string) {
+    if (error instanceof Error) {
+      if (error.message === RULE_SET_NOT_DRAFT_ERROR || error.message === RULE_SET_ACTIVE_ERROR) {
+        return res.status(409).json({ success: false, error: error.message });
+      }
+
+      if (error.name === 'CastError') {
+        return res.status(404).json({ success: false, error: 'Rule set not found' });
+      }
+    }
+
+    logger.error(`${message}:`, error);
+    return res.status(500).json({
+      success: false,
+      error: message
+    });
+  }
+}
@@ -1,14 +1,21 @@
 import { Request, Response, NextFunction } from 'express';
 import logger from '../config/logger.config';
+import {
+  holidaysService,
+  HolidayZone,
+  MIN_HOLIDAY_YEAR,
+  MAX_HOLIDAY_YEAR
+} from '../services/holidays.service';
+import { holidaysQuerySchema } from '../validators/holidays.validator';
 
 /**
  * Controller pour les jours fériés français
- * Proxy vers l'API officielle data.gouv.fr
+ * Calculés localement par holidaysService, avec les fermetures de l'entreprise
  */
 export class HolidaysController {
   /**
    * Récupère les jours fériés français pour une année donnée
-   * GET /api/v1/holidays/:year
+   * GET /api/v1/holidays/:year?zone=metropole|alsace-moselle
    */
   async getHolidays(
     req: Request<{ year: string }>,
@@ -19,41 +26,42 @@ export class HolidaysController {
       const { year } = req.params;
       
       // Valider l'année
-      const yearNumber = parseInt(year, 10);
-      if (isNaN(yearNumber) || yearNumber < 2020 || yearNumber > 2030) {
+      const yearNumber = Number(year);
+      if (!Number.isInteger(yearNumber) || yearNumber < MIN_HOLIDAY_YEAR || yearNumber > MAX_HOLIDAY_YEAR) {
         res.status(400).json({
           success: false,
-          error: 'Année invalide. Doit être entre 2020 et 2030.',
+          error: `Année invalide. Doit être entre ${MIN_HOLIDAY_YEAR} et ${MAX_HOLIDAY_YEAR}.`,
         });
         return;
       }
 
-      logger.info(`Récupération des jours fériés pour l'année ${year}`);
-
-      // Appel à l'API officielle data.gouv.fr
-      const apiUrl = `https://calendrier.api.gouv.fr/jours-feries/metropole/${year}.json`;
-      const response = await fetch(apiUrl);
-
-      if (!response.ok) {
-        logger.error(`Erreur API data.gouv.fr: ${response.status} ${response.statusText}`);
-        res.status(502).json({
+      const validation = holidaysQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        res.status(400).json({
           success: false,
-          error: 'Service des jours fériés temporairement indisponible',
+          error: 'Zone invalide. Valeurs acceptées : metropole, alsace-moselle.',
+          details: validation.error.errors,
         });
         return;
       }
 
-      const holidays = await response.json();
-      
-      logger.info(`${Object.keys(holidays).length} jours fériés récupérés pour ${year}`);
+      const zone = (validation.data.zone as HolidayZone | undefined) || holidaysService.defaultZone;
+      const holidays = holidaysService.getHolidays(yearNumber, zone);
+      const closures = holidaysService.getClosuresForRange(
+        new Date(yearNumber, 0, 1),
+        new Date(yearNumber, 11, 31)
+      );
 
       res.json({
         success: true,
         data: holidays,
+        closures,
         meta: {
           year: yearNumber,
+          zone,
           count: Object.keys(holidays).length,
-          source: 'calendrier.api.gouv.fr',
+          closedDays: Object.keys(closures).length,
+          source: 'computed',
         },
       });
 
@@ -64,4 +72,4 @@ export class HolidaysController {
   }
 }
 
-export const holidaysController = new HolidaysController();
\ No newline at end of file
+export const holidaysController = new HolidaysController();
@@ -0,0 +1,161 @@
+/**
+ * Controller for member working schedules (admin)
+ * Versions successives par membre : jours travaillés, heures/jour, temps partiel, plage horaire
+ */
+
+import { Request, Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import {
+  memberScheduleService,
+  MemberScheduleInput,
+  SCHEDULE_OVERLAP_ERROR,
+  SCHEDULE_PERIOD_ERROR,
+  SCHEDULE_HOURS_ERROR
+} from '../services/member-schedule.service';
+import { createMemberScheduleSchema, updateMemberScheduleSchema } from '../validators/workload.validator';
+import logger from '../config/logger.config';
+
+export class MemberSchedulesController {
+  /**
+   * List member schedules
+   * GET /api/v1/admin/member-schedules?memberId=...
+   */
+  async getSchedules(req: Request, res: Response) {
+    try {
+      const memberId = typeof req.query.memberId === 'string' ? req.query.memberId : undefined;
+      const schedules = await memberScheduleService.listSchedules(memberId);
+
+      return res.status(200).json({
+        success: true,
+        data: schedules,
+        count: schedules.length,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      logger.error('Error fetching member schedules:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch member schedules'
+      });
+    }
+  }
+
+  /**
+   * Create a schedule for a member
+   * POST /api/v1/admin/member-schedules
+   */
+  async createSchedule(req: AuthRequest, res: Response) {
+    try {
+      const validation = createMemberScheduleSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid schedule',
+          details: validation.error.errors
+        });
+      }
+
+      const { memberId, ...settings } = validation.data;
+      const schedule = await memberScheduleService.createSchedule(
+        memberId,
+        settings as MemberScheduleInput,
+        req.user?.email
+      );
+
+      return res.status(201).json({
+        success: true,
+        data: schedule,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      return this.handleError(res, error, 'Failed to create member schedule');
+    }
+  }
+
+  /**
+   * Update a member schedule
+   * PUT /api/v1/admin/member-schedules/:id
+   */
+  async updateSchedule(req: AuthRequest, res: Response) {
+    try {
+      const validation = updateMemberScheduleSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid schedule',
+          details: validation.error.errors
+        });
+      }
+
+      const schedule = await memberScheduleService.updateSchedule(
+        req.params.id!,
+        validation.data as MemberScheduleInput,
+        req.user?.email
+      );
+
+      if (!schedule) {
+        return res.status(404).json({
+          success: false,
+          error: 'Schedule not found'
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: schedule,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      return this.handleError(res, error, 'Failed to update member schedule');
+    }
+  }
+
+  /**
+   * Delete a member schedule (the member falls back to the default schedule for that period)
+   * DELETE /api/v1/admin/member-schedules/:id
+   */
+  async deleteSchedule(req: Request, res: Response) {
+    try {
+      const deleted = await memberScheduleService.deleteSchedule(req.params.id!);
+
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          error: 'Schedule not found'
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        message: 'Schedule deleted',
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      return this.handleError(res, error, 'Failed to delete member schedule');
+    }
+  }
+
+  private handleError(res: Response, error: unknown, message: string) {
+    if (error instanceof Error) {
+      if (error.message === SCHEDULE_OVERLAP_ERROR) {
+        return res.status(409).json({ success: false, error: error.message });
+      }
+
+      if (error.message === SCHEDULE_PERIOD_ERROR || error.message === SCHEDULE_HOURS_ERROR) {
+        return res.status(400).json({ success: false, error: error.message });
+      }
+
+      if (error.name === 'CastError') {
+        return res.status(404).json({ success: false, error: 'Schedule not found' });
+      }
+    }
+
+    logger.error(`${message}:`, error);
+    return res.status(500).json({
+      success: false,
+      error: message
+    });
+  }
+}
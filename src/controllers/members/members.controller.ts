@@ -2,6 +2,12 @@ import { Request, Response, NextFunction } from 'express';
 import { entityService } from '../../services/notion/entity.service';
 import logger from '../../config/logger.config';
 import { NotionMember } from '../../types/notion.types';
+import { AuthRequest } from '../../middleware/auth.middleware';
+import { workloadService } from '../../services/workload.service';
+import { memberScheduleService, MemberScheduleUpdate } from '../../services/member-schedule.service';
+import { memberDetailService } from '../../services/member-detail.service';
+import { workloadQuerySchema, memberCapacitySchema } from '../../validators/workload.validator';
+import { memberDetailQuerySchema } from '../../validators/members.validator';
 
 /**
  * Controller for members operations
@@ -55,6 +61,156 @@ class MembersController {
       next(error);
     }
   }
+
+  /**
+   * Get a member with their teams, upcoming tasks, absences, remote days and active conflicts
+   * GET /api/v1/members/:id?weeks=4
+   */
+  async getMemberById(req: Request, res: Response, next: NextFunction) {
+    try {
+      const validation = memberDetailQuerySchema.safeParse(req.query);
+
+      if (!validation.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid query parameters',
+          details: validation.error.errors
+        });
+        return;
+      }
+
+      const detail = await memberDetailService.getMemberDetail(req.params.id!, validation.data);
+
+      if (!detail) {
+        res.status(404).json({
+          success: false,
+          error: 'Member not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: detail,
+        meta: {
+          weeks: validation.data.weeks,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to fetch member detail', { memberId: req.params.id, error });
+      next(error);
+    }
+  }
+
+  /**
+   * Get planned hours versus capacity of a member, per day and per week
+   * GET /api/v1/members/:id/workload?startDate=2025-03-03&endDate=2025-03-30
+   */
+  async getMemberWorkload(req: Request, res: Response, next: NextFunction) {
+    try {
+      const validation = workloadQuerySchema.safeParse(req.query);
+
+      if (!validation.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid query parameters',
+          details: validation.error.errors
+        });
+        return;
+      }
+
+      const workload = await workloadService.getMemberWorkload(req.params.id!, validation.data);
+
+      if (!workload) {
+        res.status(404).json({
+          success: false,
+          error: 'Member not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: workload,
+        meta: {
+          ...validation.data,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to compute member workload', { memberId: req.params.id, error });
+      next(error);
+    }
+  }
+
+  /**
+   * Get the capacity settings of a member in effect today (defaults if never configured)
+   * GET /api/v1/members/:id/capacity
+   */
+  async getMemberCapacity(req: Request, res: Response, next: NextFunction) {
+    try {
+      const memberId = req.params.id!;
+
+      res.json({
+        success: true,
+        data: {
+          current: memberScheduleService.getScheduleForDate(memberId),
+          schedules: await memberScheduleService.listSchedules(memberId)
+        },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      logger.error('Failed to fetch member capacity', { memberId: req.params.id, error });
+      next(error);
+    }
+  }
+
+  /**
+   * Update the capacity settings of a member from today on
+   * Past schedules are kept so past workloads stay unchanged
+   * PUT /api/v1/members/:id/capacity
+   */
+  async updateMemberCapacity(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const validation = memberCapacitySchema.safeParse(req.body);
+
+      if (!validation.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid capacity settings',
+          details: validation.error.errors
+        });
+        return;
+      }
+
+      const memberId = req.params.id!;
+      const members = await entityService.getAllMembers();
+
+      if (!members.some((member: NotionMember) => member.id === memberId)) {
+        res.status(404).json({
+          success: false,
+          error: 'Member not found'
+        });
+        return;
+      }
+
+      const schedule = await memberScheduleService.updateCurrentCapacity(
+        memberId,
+        validation.data as MemberScheduleUpdate,
+        req.user?.email
+      );
+
+      res.json({
+        success: true,
+        data: schedule,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      logger.error('Failed to update member capacity', { memberId: req.params.id, error });
+      next(error);
+    }
+  }
 }
 
 export default new MembersController();
@@ -99,6 +99,7 @@ export class MetricsController {
             processed: status.metrics.processed,
             failed: status.metrics.failed,
             retries: status.metrics.retries,
+            coalesced: status.metrics.coalesced,
             avgProcessingTime: Math.round(status.metrics.avgProcessingTime * 100) / 100
           },
           items: status.items
@@ -141,6 +142,7 @@ export class MetricsController {
             length: queue.queueLength,
             processed: queue.metrics.processed,
             failed: queue.metrics.failed,
+            coalesced: queue.metrics.coalesced,
             avgProcessingTime: Math.round(queue.metrics.avgProcessingTime * 100) / 100
           },
           memory: cacheMetricsService.getMemoryEstimate()
@@ -168,7 +170,7 @@ export class MetricsController {
       if (!type || type === 'all') {
         cacheMetricsService.resetMetrics();
         latencyMetricsService.reset();
-        syncQueueService.clearQueue();
+        await syncQueueService.clearQueue();
         
         return res.status(200).json({
           success: true,
@@ -184,7 +186,7 @@ export class MetricsController {
           latencyMetricsService.reset();
           break;
         case 'queue':
-          syncQueueService.clearQueue();
+          await syncQueueService.clearQueue();
           break;
         default:
           return res.status(400).json({
@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import { Client } from '@notionhq/client';
 import NotionConfigModel, { IFieldMapping, IDatabaseMapping } from '../models/NotionConfig.model';
 import NotionDiscoveryService from '../services/NotionDiscoveryService';
+import { propertyMappingService } from '../services/notion/property-mapping.service';
 import mongoose from 'mongoose';
 
 /**
@@ -89,6 +90,11 @@ export const autoDetectMapping = async (
         'État': { app: 'status', required: true },
         'Utilisateurs': { app: 'users', required: true },
         'Projets': { app: 'project', required: true },
+        '📁 Projets': { app: 'project', required: true },
+        'Type de tache': { app: 'taskType', required: false },
+        'Nombre de heures facturés': { app: 'billedHours', required: false },
+        'Nombre de heures effectives': { app: 'actualHours', required: false },
+        'Équipe': { app: 'team', required: false },
         'Ajouter au Calendrier': { app: 'addToCalendar', required: false },
         'Ajouter au rétroplanning client': { app: 'addToRetroplanning', required: false },
         'Google Event ID': { app: 'googleEventId', required: false },
@@ -110,6 +116,10 @@ export const autoDetectMapping = async (
         'Date de début': { app: 'startDate', required: false },
         'Date de fin': { app: 'endDate', required: false },
         'Statut': { app: 'status', required: true },
+        'Statut du projet': { app: 'status', required: true },
+        'Tâches': { app: 'tasks', required: false },
+        '✅ Tâches': { app: 'tasks', required: false },
+        'Chef de projet': { app: 'projectLead', required: false },
         
         // Clients mappings
         'Nom du client': { app: 'clientName', required: true },
@@ -169,6 +179,9 @@ export const autoDetectMapping = async (
       
       config.lastAutoDetectDate = new Date();
       await config.save();
+
+      // Hot reload du mapping utilisé par le mapper et les filtres
+      await propertyMappingService.reload();
       
       // Log detection info
       console.log(`Auto-detected ${detectedFields.length} fields for ${databaseName}`);
@@ -256,7 +269,8 @@ export const getMapping = async (
           mappings: mappingSummary,
           totalMapped: config.mappings.length,
           lastAutoDetectDate: config.lastAutoDetectDate,
-          autoDetectEnabled: config.autoDetectEnabled
+          autoDetectEnabled: config.autoDetectEnabled,
+          activeProperties: propertyMappingService.getStatus()
         }
       });
     }
@@ -357,6 +371,9 @@ export const saveMapping = async (
     (config as any).addAuditEntry(userId, 'SAVE_MAPPING', changes, ipAddress);
     
     await config.save();
+
+    // Hot reload du mapping utilisé par le mapper et les filtres
+    await propertyMappingService.reload();
     
     res.status(200).json({
       success: true,
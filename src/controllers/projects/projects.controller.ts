@@ -1,7 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
 import { entityService } from '../../services/notion/entity.service';
 import logger from '../../config/logger.config';
-import { NotionProject } from '../../types/notion.types';
+import { syncQueueService } from '../../services/sync-queue.service';
+import { tempIdRegistryService } from '../../services/temp-id-registry.service';
+import { NotionProject, CreateProjectInput, UpdateProjectInput } from '../../types/notion.types';
+import { retroplanningService } from '../../services/retroplanning.service';
+import { retroplanningExportService } from '../../services/retroplanning-export.service';
+import { projectDetailService } from '../../services/project-detail.service';
+import { retroplanningQuerySchema, createProjectSchema, updateProjectSchema } from '../../validators/projects.validator';
 
 /**
  * Controller for projects operations
@@ -84,6 +90,204 @@ class ProjectsController {
       next(error);
     }
   }
+
+  /**
+   * Get a project with its client, tasks by status and team, hours, members and open conflicts
+   * GET /api/v1/projects/:id
+   */
+  async getProjectById(req: Request, res: Response, next: NextFunction) {
+    try {
+      const detail = await projectDetailService.getProjectDetail(req.params.id!);
+
+      if (!detail) {
+        res.status(404).json({
+          success: false,
+          error: 'Project not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: detail,
+        count: detail.progress.total,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      logger.error('Failed to fetch project detail', { projectId: req.params.id, error });
+      next(error);
+    }
+  }
+
+  /**
+   * Get the client retroplanning of a project (tasks flagged "Ajouter au rétroplanning client")
+   * GET /api/v1/projects/:id/retroplanning?format=html&download=true
+   */
+  async getProjectRetroplanning(req: Request, res: Response, next: NextFunction) {
+    try {
+      const validation = retroplanningQuerySchema.safeParse(req.query);
+
+      if (!validation.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid query parameters',
+          details: validation.error.errors
+        });
+        return;
+      }
+
+      const retroplanning = await retroplanningService.getProjectRetroplanning(req.params.id!);
+
+      if (!retroplanning) {
+        res.status(404).json({
+          success: false,
+          error: 'Project not found'
+        });
+        return;
+      }
+
+      logger.info(`Retroplanning built for project ${retroplanning.project.name}`, {
+        projectId: retroplanning.project.id,
+        milestones: retroplanning.milestones.length
+      });
+
+      if (validation.data.format === 'html') {
+        const disposition = validation.data.download ? 'attachment' : 'inline';
+        res.setHeader('Content-Type', 'text/html; charset=utf-8');
+        res.setHeader('Content-Disposition', `${disposition}; filename="retroplanning-${retroplanning.project.id}.html"`);
+        res.send(retroplanningExportService.toHtml(retroplanning));
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: retroplanning,
+        count: retroplanning.milestones.length,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      logger.error('Failed to build project retroplanning', { projectId: req.params.id, error });
+      next(error);
+    }
+  }
+
+  /**
+   * Create a project in Notion (queued with ?async=true)
+   * POST /api/v1/projects
+   */
+  async createProject(req: Request, res: Response, next: NextFunction) {
+    try {
+      const validation = createProjectSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: validation.error.errors
+        });
+        return;
+      }
+
+      const input = validation.data as CreateProjectInput;
+
+      if (req.query.async === 'true') {
+        const { id: tempId } = await syncQueueService.queueEntityCreate('project', input);
+
+        res.status(201).json({
+          success: true,
+          data: { id: tempId, ...input, _temporary: true, _pendingSync: true },
+          meta: { mode: 'async', tempId },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const project = await entityService.createProject(input);
+
+      res.status(201).json({
+        success: true,
+        data: project,
+        meta: { mode: 'sync' },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      logger.error('Failed to create project', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Update a project in Notion (queued with ?async=true or while its creation is pending)
+   * PUT /api/v1/projects/:id
+   */
+  async updateProject(req: Request, res: Response, next: NextFunction) {
+    try {
+      const validation = updateProjectSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: validation.error.errors
+        });
+        return;
+      }
+
+      const id = await tempIdRegistryService.resolveId(req.params.id!);
+      const input = validation.data as UpdateProjectInput;
+
+      if (req.query.async === 'true' || tempIdRegistryService.isTempId(id)) {
+        await syncQueueService.queueEntityUpdate('project', id, input);
+
+        res.json({
+          success: true,
+          data: { id, ...input, _pendingSync: true },
+          meta: { mode: 'async' },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const project = await entityService.updateProject(id, input);
+
+      res.json({
+        success: true,
+        data: project,
+        meta: { mode: 'sync' },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      logger.error('Failed to update project', { projectId: req.params.id, error });
+      next(error);
+    }
+  }
+
+  /**
+   * Archive a project in Notion (queued with ?async=true or while its creation is pending)
+   * DELETE /api/v1/projects/:id
+   */
+  async archiveProject(req: Request, res: Response, next: NextFunction) {
+    try {
+      const id = await tempIdRegistryService.resolveId(req.params.id!);
+      const useAsync = req.query.async === 'true' || tempIdRegistryService.isTempId(id);
+
+      if (useAsync) {
+        await syncQueueService.queueEntityArchive('project', id);
+      } else {
+        await entityService.archiveProject(id);
+      }
+
+      res.json({
+        success: true,
+        message: useAsync ? 'Project archive queued' : 'Project archived successfully',
+        meta: { mode: useAsync ? 'async' : 'sync' },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      logger.error('Failed to archive project', { projectId: req.params.id, error });
+      next(error);
+    }
+  }
 }
 
 export default new ProjectsController();
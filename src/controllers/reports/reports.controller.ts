@@ -0,0 +1,72 @@
+import { Request, Response } from "express";
+import { reportsService, HoursReportFilters } from "../../services/reports.service";
+import { reportsExportService } from "../../services/reports-export.service";
+import { hoursReportQuerySchema } from "../../validators/reports.validator";
+
+/**
+ * Controller for reporting endpoints
+ */
+export class ReportsController {
+  /**
+   * Billed vs actual hours grouped by project, client, team or member
+   * GET /api/v1/reports/hours?startDate=2025-01-01&endDate=2025-03-31&groupBy=client&format=xlsx
+   */
+  getHoursReport = async (req: Request, res: Response) => {
+    const startTime = performance.now();
+
+    try {
+      const validation = hoursReportQuerySchema.safeParse(req.query);
+
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid query parameters",
+          details: validation.error.errors
+        });
+      }
+
+      const { format, ...filters } = validation.data;
+      const report = await reportsService.getHoursReport(filters as HoursReportFilters);
+      const filename = `heures-${report.groupBy}-${report.startDate}-${report.endDate}`;
+
+      if (format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+        return res.status(200).send(reportsExportService.hoursReportToCsv(report));
+      }
+
+      if (format === 'xlsx') {
+        res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}.xlsx"`);
+        return res.status(200).send(await reportsExportService.hoursReportToXlsx(report));
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: report,
+        meta: {
+          count: report.rows.length,
+          timestamp: new Date().toISOString(),
+          performance: `${(performance.now() - startTime).toFixed(0)}ms`
+        }
+      });
+
+    } catch (error) {
+      console.error("Error building hours report:", error);
+
+      if (error instanceof Error && error.message.includes("rate limit")) {
+        return res.status(429).json({
+          success: false,
+          error: "Rate limit exceeded. Please try again later."
+        });
+      }
+
+      return res.status(500).json({
+        success: false,
+        error: "Failed to build hours report"
+      });
+    }
+  }
+}
+
+export const reportsController = new ReportsController();
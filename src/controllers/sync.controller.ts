@@ -3,6 +3,7 @@ import syncQueueService from '../services/sync-queue.service';
 import { ConflictLogModel } from '../models/ConflictLog.model';
 import { redisService } from '../services/redis.service';
 import logger from '../config/logger.config';
+import { pollingReconciliationJob } from '../jobs/polling-reconciliation.job';
 
 export class SyncController {
   /**
@@ -13,6 +14,7 @@ export class SyncController {
     try {
       // Get queue status
       const queueStatus = syncQueueService.getStatus();
+      const deadLetters = await syncQueueService.getDeadLetters();
       
       // Get pending conflicts count
       const pendingConflicts = await ConflictLogModel.countDocuments({
@@ -42,7 +44,7 @@ export class SyncController {
         queueStatus.queueLength,
         queueStatus.processing,
         pendingConflicts,
-        recentFailed
+        recentFailed + deadLetters.count
       );
       
       // Calculate next retry if there are failures
@@ -61,7 +63,7 @@ export class SyncController {
         data: {
           status,
           pending: queueStatus.queueLength,
-          failed: queueStatus.metrics.failed,
+          failed: deadLetters.count,
           conflicts: pendingConflicts,
           lastSync: lastSync || new Date().toISOString(),
           nextRetry,
@@ -69,7 +71,21 @@ export class SyncController {
             processing: queueStatus.processing,
             avgProcessingTime: Math.round(queueStatus.metrics.avgProcessingTime),
             processed: queueStatus.metrics.processed,
-            itemsInQueue: queueStatus.items.slice(0, 10) // First 10 items only
+            itemsInQueue: queueStatus.items
+          },
+          deadLetter: {
+            count: deadLetters.count,
+            items: deadLetters.items.map(item => ({
+              queueId: item.queueId,
+              id: item.entityId,
+              type: item.type,
+              entityType: item.entityType,
+              attempts: item.attempts,
+              error: item.error,
+              queuedAt: item.queuedAt,
+              failedAt: item.failedAt,
+              data: item.data
+            }))
           }
         },
         meta: {
@@ -114,19 +130,22 @@ export class SyncController {
   
   /**
    * Clear sync queue (admin only)
-   * POST /api/sync/clear-queue
+   * POST /api/sync/clear-queue?includeDeadLetters=true
    */
   async clearQueue(req: Request, res: Response) {
     try {
-      syncQueueService.clearQueue();
+      const includeDeadLetters = req.query.includeDeadLetters === 'true';
+      const result = await syncQueueService.clearQueue({ includeDeadLetters });
       
       logger.info('Sync queue cleared by admin', {
-        userId: (req as any).userId
+        userId: (req as any).userId,
+        ...result
       });
       
       return res.status(200).json({
         success: true,
         message: 'Sync queue cleared successfully',
+        data: result,
         meta: {
           timestamp: new Date().toISOString()
         }
@@ -143,18 +162,16 @@ export class SyncController {
   }
   
   /**
-   * Retry failed items
+   * Retry failed items from the dead-letter collection
    * POST /api/sync/retry-failed
+   * Body (optional): { ids: string[] } - queue IDs to retry, all failed items otherwise
    */
-  async retryFailed(_req: Request, res: Response) {
+  async retryFailed(req: Request, res: Response) {
     try {
-      // Get failed items from queue
-      const queueStatus = syncQueueService.getStatus();
-      const failedItems = queueStatus.items.filter(
-        item => item.attempts >= 3
-      );
+      const ids = Array.isArray(req.body?.ids) ? req.body.ids.map(String) : undefined;
+      const retriedCount = await syncQueueService.retryDeadLetters(ids);
       
-      if (failedItems.length === 0) {
+      if (retriedCount === 0) {
         return res.status(200).json({
           success: true,
           message: 'No failed items to retry',
@@ -164,14 +181,10 @@ export class SyncController {
         });
       }
       
-      // Reset attempts and re-queue
-      let retriedCount = 0;
-      for (const item of failedItems) {
-        // This would need a method in syncQueueService to reset specific items
-        // For now, we'll just log it
-        logger.info('Would retry item:', item.id);
-        retriedCount++;
-      }
+      logger.info('Dead-letter items requeued by admin', {
+        userId: (req as any).userId,
+        retried: retriedCount
+      });
       
       return res.status(200).json({
         success: true,
@@ -193,6 +206,48 @@ export class SyncController {
       });
     }
   }
+
+  /**
+   * Run the polling reconciliation now
+   * POST /api/sync/reconcile
+   * Query (optional): force=true - poll every entity type, even with a healthy webhook
+   */
+  async reconcile(req: Request, res: Response) {
+    try {
+      if (pollingReconciliationJob.isRunning()) {
+        return res.status(409).json({
+          success: false,
+          error: 'A polling reconciliation is already running'
+        });
+      }
+
+      const force = req.query.force === 'true';
+      const results = await pollingReconciliationJob.runOnce({ force });
+
+      logger.info('Polling reconciliation triggered by admin', {
+        userId: (req as any).userId,
+        force
+      });
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          results
+        },
+        meta: {
+          timestamp: new Date().toISOString()
+        }
+      });
+
+    } catch (error) {
+      logger.error('Error running polling reconciliation:', error);
+
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to run polling reconciliation'
+      });
+    }
+  }
 }
 
 export default new SyncController();
\ No newline at end of file
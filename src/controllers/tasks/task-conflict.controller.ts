@@ -1,6 +1,7 @@
 import { Request, Response } from "express";
 import { tasksConflictService } from "../../services/tasks-conflict.service";
 import { redisService } from "../../services/redis.service";
+import { taskIndexService } from "../../services/notion/task-index.service";
 import { notionRateLimiter } from "../../middleware/rate-limit.middleware";
 import notionService from "../../services/notion.service";
 
@@ -28,14 +29,17 @@ export class TaskConflictController {
 
       console.log('[CONFLICT CHECK] Starting conflict detection...');
       
-      // Try cache first
-      const cacheKey = `tasks:calendar:start=2025-08-26:end=2025-10-25`;
-      const cachedTasks = await redisService.get(cacheKey);
+      // Try the member/day index first, for exactly the task's work period
+      const cachedTasks = await taskIndexService.getTasksForMembers(
+        taskData.assignedMembers,
+        taskData.workPeriod.startDate,
+        taskData.workPeriod.endDate
+      );
       
       let schedulingConflicts: any[] = [];
       
-      if (cachedTasks && Array.isArray(cachedTasks)) {
-        console.log(`[CONFLICT CHECK] Using cache: ${cachedTasks.length} tasks found`);
+      if (cachedTasks) {
+        console.log(`[CONFLICT CHECK] Using task index: ${cachedTasks.length} tasks found`);
         
         // Filter for relevant tasks
         const relevantTasks = cachedTasks.filter((task: any) => 
@@ -51,7 +55,7 @@ export class TaskConflictController {
         );
         
       } else {
-        console.log('[CONFLICT CHECK] Cache empty, fetching from Notion...');
+        console.log('[CONFLICT CHECK] Task index incomplete for this period, fetching from Notion...');
         
         // HYBRID: Direct Notion query for specific members WITH RATE LIMITING
         try {
@@ -160,13 +164,16 @@ export class TaskConflictController {
         const relevantTasks: any[] = [];
         
         try {
-          // Get all tasks and filter for relevant ones
-          // We'll use the existing calendar cache if available
-          const cacheKey = `tasks:calendar:start=2025-08-26:end=2025-10-25`;
-          const cachedTasks = await redisService.get(cacheKey);
+          // Get the members' tasks for the task's work period from the member/day index
+          const cachedTasks = await taskIndexService.getTasksForMembers(
+            membersToCheck,
+            taskForConflictCheck.workPeriod.startDate,
+            taskForConflictCheck.workPeriod.endDate,
+            id
+          );
           
-          if (cachedTasks && Array.isArray(cachedTasks)) {
-            console.log(`[UPDATE CONFLICT CHECK] Using cached tasks: ${cachedTasks.length} total tasks`);
+          if (cachedTasks) {
+            console.log(`[UPDATE CONFLICT CHECK] Using task index: ${cachedTasks.length} total tasks`);
             
             // Filter for tasks with overlapping members
             for (const task of cachedTasks) {
@@ -180,7 +187,7 @@ export class TaskConflictController {
             
             console.log(`[UPDATE CONFLICT CHECK] Found ${relevantTasks.length} relevant tasks for conflict check`);
           } else {
-            console.log('[UPDATE CONFLICT CHECK] No cache available, using HYBRID approach...');
+            console.log('[UPDATE CONFLICT CHECK] Task index incomplete for this period, using HYBRID approach...');
             
             // HYBRID: Direct Notion query for specific period WITH RATE LIMITING
             try {
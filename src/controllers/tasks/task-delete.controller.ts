@@ -3,6 +3,7 @@ import notionService from "../../services/notion.service";
 import syncQueueService from "../../services/sync-queue.service";
 import { redisService } from "../../services/redis.service";
 import { tasksConflictService } from "../../services/tasks-conflict.service";
+import { tempIdRegistryService } from "../../services/temp-id-registry.service";
 
 /**
  * Controller for deleting tasks
@@ -14,16 +15,16 @@ export class TaskDeleteController {
    */
   deleteTask = async (req: Request, res: Response) => {
     try {
-      const { id } = req.params;
-      
-      if (!id) {
+      if (!req.params.id) {
         return res.status(400).json({
           success: false,
           error: "Task ID is required"
         });
       }
 
-      const useAsync = req.query.async === 'true';
+      const id = await tempIdRegistryService.resolveId(req.params.id);
+      // Tant que la création n'est pas synchronisée, seule la queue connaît la tâche
+      const useAsync = req.query.async === 'true' || tempIdRegistryService.isTempId(id);
 
       if (useAsync) {
         // ASYNC MODE: Queue for background deletion
@@ -1,6 +1,9 @@
 import { Request, Response } from "express";
 import notionService from "../../services/notion.service";
 import { tasksConflictService } from "../../services/tasks-conflict.service";
+import { tempIdRegistryService } from "../../services/temp-id-registry.service";
+import syncQueueService from "../../services/sync-queue.service";
+import { unplannedTasksQuerySchema } from "../../validators/tasks.validator";
 
 /**
  * Controller for reading tasks
@@ -12,15 +15,15 @@ export class TaskReadController {
    */
   getTaskById = async (req: Request, res: Response) => {
     try {
-      const { id } = req.params;
-
-      if (!id) {
+      if (!req.params.id) {
         return res.status(400).json({
           success: false,
           error: "Task ID is required"
         });
       }
 
+      const id = await tempIdRegistryService.resolveId(req.params.id);
+
       // Get from cache or Notion
       const task = await notionService.getTask(id);
 
@@ -54,66 +57,118 @@ export class TaskReadController {
   }
 
   /**
-   * Get unplanned tasks (tasks without startDate) with caching
-   * GET /api/v1/tasks/unplanned
+   * Resolve a temporary ID returned by an async creation
+   * GET /api/v1/tasks/:tempId/resolve
    */
-  getUnplannedTasks = async (_req: Request, res: Response) => {
+  resolveTempId = async (req: Request, res: Response) => {
     try {
-      // Import required services
-      const { cacheManagerService } = await import('../../services/notion/cache-manager.service');
-      const { notion, DATABASES } = await import('../../config/notion.config');
-      const { notionPageToTask } = await import('../../mappers/notion.mapper');
-      const { retryWithBackoff } = await import('../../utils/retryWithBackoff');
-
-      const cacheKey = 'tasks:unplanned:all';
-
-      const unplannedTasks = await cacheManagerService.getCachedOrFetch(
-        cacheKey,
-        'tasks',
-        async () => {
-          // Query Notion database for tasks without workPeriod or without startDate
-          let allResults: any[] = [];
-          let hasMore = true;
-          let startCursor: string | undefined = undefined;
-
-          while (hasMore) {
-            const queryParams: any = {
-              database_id: DATABASES.traffic,
-              // Filter for tasks where workPeriod is empty (not set)
-              filter: {
-                property: 'Période de travail', // workPeriod property name
-                date: {
-                  is_empty: true
-                }
-              },
-              page_size: 100
-            };
-
-            if (startCursor) {
-              queryParams.start_cursor = startCursor;
-            }
-
-            const response = await retryWithBackoff(() =>
-              notion.databases.query(queryParams)
-            );
-
-            allResults = allResults.concat(response.results);
-            hasMore = response.has_more;
-            startCursor = response.next_cursor || undefined;
-          }
+      const { tempId } = req.params;
+
+      if (!tempId || !tempIdRegistryService.isTempId(tempId)) {
+        return res.status(400).json({
+          success: false,
+          error: "A temporary task ID is required"
+        });
+      }
+
+      const resolution = await tempIdRegistryService.resolve(tempId);
+
+      if (!resolution) {
+        return res.status(404).json({
+          success: false,
+          error: "Temporary ID not found"
+        });
+      }
+
+      // Opérations encore en attente pour cette tâche (sous l'ID temporaire ou réel)
+      const pendingOperations = syncQueueService.getStatus().items.filter(item =>
+        item.id === tempId || (resolution.notionId !== null && item.id === resolution.notionId)
+      ).length;
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          tempId: resolution.tempId,
+          notionId: resolution.notionId,
+          status: resolution.status,
+          synced: resolution.status === 'synced',
+          pendingOperations,
+          ...(resolution.error && { error: resolution.error }),
+          ...(resolution.syncedAt && { syncedAt: resolution.syncedAt })
+        },
+        meta: {
+          timestamp: new Date().toISOString()
+        }
+      });
 
-          // Map Notion pages to tasks
-          return allResults.map(notionPageToTask);
+    } catch (error) {
+      console.error("Error resolving temporary task ID:", error);
+      return res.status(500).json({
+        success: false,
+        error: "Failed to resolve temporary task ID"
+      });
+    }
+  }
+
+  /**
+   * Get the unplanned tasks backlog (tasks without work period) with resolved relations
+   * GET /api/v1/tasks/unplanned?sortBy=project&order=asc&teamId=...
+   */
+  getUnplannedTasks = async (req: Request, res: Response) => {
+    try {
+      const validation = unplannedTasksQuerySchema.safeParse(req.query);
+
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid query parameters",
+          details: validation.error.errors
+        });
+      }
+
+      const { sortBy, order, teamId } = validation.data;
+
+      const unplannedTasks = await notionService.getUnplannedTasks();
+
+      const { resolvedTasks } = await notionService.batchResolveRelations({
+        tasks: unplannedTasks
+      });
+
+      // Une tâche appartient à l'équipe via sa relation directe ou via un membre assigné
+      const tasks: any[] = teamId
+        ? resolvedTasks.filter((task: any) => task.involvedTeamIds.includes(teamId))
+        : resolvedTasks;
+
+      const direction = order === 'asc' ? 1 : -1;
+      const createdAtOf = (task: any) => new Date(task.createdAt).getTime();
+
+      tasks.sort((a, b) => {
+        if (sortBy === 'project') {
+          // Les tâches sans projet restent en fin de liste quel que soit l'ordre
+          const nameA = a.projectData?.name;
+          const nameB = b.projectData?.name;
+          if (nameA !== nameB) {
+            if (!nameA) return 1;
+            if (!nameB) return -1;
+            return nameA.localeCompare(nameB, 'fr') * direction;
+          }
+          return createdAtOf(b) - createdAtOf(a);
         }
-      );
+
+        return (createdAtOf(a) - createdAtOf(b)) * direction;
+      });
 
       return res.status(200).json({
         success: true,
         data: {
-          tasks: unplannedTasks,
-          count: unplannedTasks.length
+          tasks,
+          count: tasks.length
         },
         meta: {
+          total: unplannedTasks.length,
+          sortBy,
+          order,
+          ...(teamId && { teamId }),
           timestamp: new Date().toISOString(),
           cached: true
         }
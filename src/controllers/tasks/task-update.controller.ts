@@ -6,6 +6,7 @@ import { UpdateTaskInput } from "../../types/notion.types";
 import { latencyMetricsService } from "../../services/latency-metrics.service";
 import { tasksConflictService } from "../../services/tasks-conflict.service";
 import { conflictDetectionService } from "../../services/conflict-detection.service";
+import { tempIdRegistryService } from "../../services/temp-id-registry.service";
 import {
   updateTaskSchema,
   UpdateTaskInput as ValidatedUpdateTaskInput
@@ -21,15 +22,16 @@ export class TaskUpdateController {
    */
   updateTask = async (req: Request, res: Response) => {
     try {
-      const { id } = req.params;
-      
-      if (!id) {
+      if (!req.params.id) {
         return res.status(400).json({
           success: false,
           error: "Task ID is required"
         });
       }
 
+      // Un ID temporaire déjà créé dans Notion est remplacé par l'ID réel
+      const id = await tempIdRegistryService.resolveId(req.params.id);
+
       // Validate request body
       const validation = updateTaskSchema.safeParse(req.body);
       
@@ -42,7 +44,8 @@ export class TaskUpdateController {
       }
 
       const { expectedUpdatedAt, force, ...updateData } = validation.data;
-      const useAsync = req.query.async === 'true';
+      // Tant que la création n'est pas synchronisée, seule la queue connaît la tâche
+      const useAsync = req.query.async === 'true' || tempIdRegistryService.isTempId(id);
 
       // Si expectedUpdatedAt est fourni, vérifier les conflits
       if (expectedUpdatedAt && !force && !useAsync) {
@@ -3,6 +3,8 @@ import notionService from "../../services/notion.service";
 import { parseISO } from "date-fns";
 import { calendarQuerySchema } from "../../validators/tasks.validator";
 import { tasksConflictService } from "../../services/tasks-conflict.service";
+import { accessScopeService } from "../../services/access-scope.service";
+import { ScopedRequest } from "../../middleware/scope.middleware";
 
 /**
  * Controller for calendar-related task operations
@@ -68,10 +70,12 @@ export class TasksCalendarController {
       const conflictsMap = await tasksConflictService.getConflictsForTasks(taskIds);
       console.log(`📅 [CALENDAR] STEP 3: Got conflicts in ${(performance.now() - step3Start).toFixed(0)}ms`);
       
-      // Attach conflicts to tasks
+      // Attach conflicts to tasks, flag tasks the user may edit
+      const { accessScope } = req as ScopedRequest;
       const tasksWithConflicts = resolvedTasks.map((task: any) => ({
         ...task,
-        conflicts: conflictsMap.get(task.id) || undefined
+        conflicts: conflictsMap.get(task.id) || undefined,
+        ...(accessScope && { editable: accessScopeService.canEditProject(accessScope, task.projectId) })
       }));
 
       // Format response avec les données enrichies  
@@ -1,15 +1,29 @@
 import { Request, Response } from "express";
 import { tasksConflictService } from "../../services/tasks-conflict.service";
 import { redisService } from "../../services/redis.service";
+import {
+  conflictDecisionService,
+  CONFLICT_NOT_FOUND_ERROR,
+  CONFLICT_REASON_REQUIRED_ERROR
+} from "../../services/conflict-decision.service";
+import { SCHEDULING_CONFLICT_TYPES, SchedulingConflictType } from "../../models/TaskSchedulingConflict.model";
+import { AuthRequest } from "../../middleware/auth.middleware";
+import { conflictDecisionSchema } from "../../validators/tasks.validator";
 
 export interface SchedulingConflict {
-  type: 'overlap' | 'holiday' | 'school' | 'overload';
+  type: SchedulingConflictType;
   message: string;
   memberId: string;
   memberName?: string;
   conflictingTaskId?: string;
   conflictingTaskTitle?: string;
   severity: 'low' | 'medium' | 'high';
+  date?: string; // Jour concerné (férié, week-end, fermeture, surcharge)
+  fingerprint?: string;
+  status?: 'active' | 'acknowledged' | 'ignored';
+  decisionReason?: string;
+  decidedBy?: string;
+  decidedAt?: Date;
 }
 
 /**
@@ -42,15 +56,16 @@ export class TasksConflictController {
         });
       }
 
-      // Check scheduling conflicts
-      const conflicts = await tasksConflictService.checkSchedulingConflicts(task);
+      // Check scheduling conflicts, with the decisions already taken on them
+      const detected = await tasksConflictService.checkSchedulingConflicts(task);
+      const conflicts = await conflictDecisionService.applyDecisions(id, detected);
 
       return res.status(200).json({
         success: true,
         data: {
           taskId: id,
           conflicts,
-          hasConflicts: conflicts.length > 0
+          hasConflicts: conflicts.some(conflict => conflict.status !== 'ignored')
         }
       });
     } catch (error) {
@@ -62,6 +77,99 @@ export class TasksConflictController {
     }
   };
 
+  /**
+   * Acknowledge, ignore or reopen a conflict of a task
+   * POST /api/tasks/:id/conflicts/decisions
+   */
+  recordConflictDecision = async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        return res.status(400).json({
+          success: false,
+          error: "Task ID is required"
+        });
+      }
+
+      const validation = conflictDecisionSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid request data",
+          details: validation.error.errors
+        });
+      }
+
+      // Conflits actuels de la tâche, au cas où ils ne sont pas encore enregistrés
+      const task = await redisService.get(`task:${id}`);
+      const detected = task ? await tasksConflictService.checkSchedulingConflicts(task) : [];
+
+      const { user } = req as AuthRequest;
+      const decision = await conflictDecisionService.recordDecision(
+        id,
+        validation.data,
+        { ...(user?.userId && { userId: user.userId }), ...(user?.email && { email: user.email }) },
+        detected
+      );
+
+      return res.status(201).json({
+        success: true,
+        data: decision
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === CONFLICT_NOT_FOUND_ERROR) {
+        return res.status(404).json({
+          success: false,
+          error: error.message
+        });
+      }
+      if (error instanceof Error && error.message === CONFLICT_REASON_REQUIRED_ERROR) {
+        return res.status(400).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      console.error('Error recording conflict decision:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to record conflict decision'
+      });
+    }
+  };
+
+  /**
+   * Get the conflict and decision history of a task
+   * GET /api/tasks/:id/conflicts/history
+   */
+  getConflictHistory = async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        return res.status(400).json({
+          success: false,
+          error: "Task ID is required"
+        });
+      }
+
+      const history = await conflictDecisionService.getHistory(id);
+
+      return res.status(200).json({
+        success: true,
+        data: history
+      });
+    } catch (error) {
+      console.error('Error getting conflict history:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get conflict history'
+      });
+    }
+  };
+
   /**
    * Check conflicts for a task update (preview before save)
    * POST /api/tasks/conflicts/preview
@@ -168,12 +276,7 @@ export class TasksConflictController {
           success: true,
           data: {
             totalConflicts: 0,
-            conflictsByType: {
-              overlap: 0,
-              holiday: 0,
-              school: 0,
-              overload: 0
-            },
+            conflictsByType: this.emptyConflictsByType(),
             membersWithConflictsCount: 0,
             dateRange: { startDate, endDate },
             warning: "No cached data available - stats will be updated on next sync"
@@ -184,12 +287,7 @@ export class TasksConflictController {
       const tasks = cachedTasks;
 
       let totalConflicts = 0;
-      const conflictsByType: Record<string, number> = {
-        overlap: 0,
-        holiday: 0,
-        school: 0,
-        overload: 0
-      };
+      const conflictsByType = this.emptyConflictsByType();
       const membersWithConflicts = new Set<string>();
 
       // Check conflicts for each task
@@ -234,6 +332,13 @@ export class TasksConflictController {
     }
   };
 
+  /**
+   * Helper to get a zeroed counter for every conflict type
+   */
+  private emptyConflictsByType(): Record<string, number> {
+    return Object.fromEntries(SCHEDULING_CONFLICT_TYPES.map(type => [type, 0]));
+  }
+
   /**
    * Helper to get maximum severity from conflicts
    */
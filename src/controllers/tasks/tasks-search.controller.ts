@@ -0,0 +1,97 @@
+import { Request, Response } from "express";
+import notionService from "../../services/notion.service";
+import { parseISO, endOfDay } from "date-fns";
+import { taskSearchQuerySchema } from "../../validators/tasks.validator";
+import { TaskSearchFilters } from "../../types/notion.types";
+
+/**
+ * Controller for task search
+ */
+export class TasksSearchController {
+  /**
+   * Search tasks with free text and facets
+   * GET /api/v1/tasks/search?q=logo&status=in_progress&memberId=...&cursor=...
+   */
+  searchTasks = async (req: Request, res: Response) => {
+    const startTime = performance.now();
+
+    try {
+      const validation = taskSearchQuerySchema.safeParse(req.query);
+
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid query parameters",
+          details: validation.error.errors
+        });
+      }
+
+      const { startDate, endDate, ...filters } = validation.data;
+      const start = startDate ? parseISO(startDate) : undefined;
+      // Une date de fin sans heure couvre toute la journée
+      const end = endDate ? (endDate.length === 10 ? endOfDay(parseISO(endDate)) : parseISO(endDate)) : undefined;
+
+      if (start && end && start > end) {
+        return res.status(400).json({
+          success: false,
+          error: "startDate must be before endDate"
+        });
+      }
+
+      const result = await notionService.searchTasks({
+        ...filters,
+        ...(start && { startDate: start }),
+        ...(end && { endDate: end })
+      } as TaskSearchFilters);
+
+      // Enrichir la page de résultats avec les noms des relations
+      const { resolvedTasks } = await notionService.batchResolveRelations({
+        tasks: result.tasks
+      });
+
+      const totalTime = performance.now() - startTime;
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          tasks: resolvedTasks,
+          facets: result.facets
+        },
+        meta: {
+          count: resolvedTasks.length,
+          total: result.total,
+          hasMore: result.hasMore,
+          nextCursor: result.nextCursor,
+          timestamp: new Date().toISOString(),
+          performance: `${totalTime.toFixed(0)}ms`
+        }
+      });
+
+    } catch (error) {
+      console.error("Error searching tasks:", error);
+
+      if (error instanceof Error) {
+        if (error.message === "Invalid search cursor") {
+          return res.status(400).json({
+            success: false,
+            error: "Invalid cursor"
+          });
+        }
+
+        if (error.message.includes("rate limit")) {
+          return res.status(429).json({
+            success: false,
+            error: "Rate limit exceeded. Please try again later."
+          });
+        }
+      }
+
+      return res.status(500).json({
+        success: false,
+        error: "Failed to search tasks"
+      });
+    }
+  }
+}
+
+export const tasksSearchController = new TasksSearchController();
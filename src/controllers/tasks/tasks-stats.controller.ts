@@ -66,50 +66,9 @@ export class TasksStatsController {
    */
   async getUnplannedCount(_req: Request, res: Response) {
     try {
-      // Import required services
-      const { cacheManagerService } = await import('../../services/notion/cache-manager.service');
-      const { notion, DATABASES } = await import('../../config/notion.config');
-      const { retryWithBackoff } = await import('../../utils/retryWithBackoff');
-
-      const cacheKey = 'tasks:unplanned:count';
-
-      const count = await cacheManagerService.getCachedOrFetch(
-        cacheKey,
-        'tasks',
-        async () => {
-          // Query Notion database for tasks without workPeriod
-          let totalCount = 0;
-          let hasMore = true;
-          let startCursor: string | undefined = undefined;
-
-          while (hasMore) {
-            const queryParams: any = {
-              database_id: DATABASES.traffic,
-              filter: {
-                property: 'Période de travail',
-                date: {
-                  is_empty: true
-                }
-              },
-              page_size: 100
-            };
-
-            if (startCursor) {
-              queryParams.start_cursor = startCursor;
-            }
-
-            const response = await retryWithBackoff(() =>
-              notion.databases.query(queryParams)
-            );
-
-            totalCount += response.results.length;
-            hasMore = response.has_more;
-            startCursor = response.next_cursor || undefined;
-          }
-
-          return totalCount;
-        }
-      );
+      // Même source que la liste du backlog : un seul cache à invalider
+      const unplannedTasks = await notionService.getUnplannedTasks();
+      const count = unplannedTasks.length;
 
       return res.status(200).json({
         success: true,
@@ -1,7 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
 import { entityService } from '../../services/notion/entity.service';
 import logger from '../../config/logger.config';
-import { NotionTeam } from '../../types/notion.types';
+import { syncQueueService } from '../../services/sync-queue.service';
+import { tempIdRegistryService } from '../../services/temp-id-registry.service';
+import { createTeamSchema, updateTeamSchema } from '../../validators/teams.validator';
+import { NotionTeam, CreateTeamInput, UpdateTeamInput } from '../../types/notion.types';
+import { workloadService } from '../../services/workload.service';
+import { workloadQuerySchema } from '../../validators/workload.validator';
 
 /**
  * Controller for teams operations
@@ -33,6 +38,165 @@ class TeamsController {
       next(error);
     }
   }
+
+  /**
+   * Get planned hours versus capacity of a team and of each of its members
+   * GET /api/v1/teams/:id/workload?startDate=2025-03-03&endDate=2025-03-30
+   */
+  async getTeamWorkload(req: Request, res: Response, next: NextFunction) {
+    try {
+      const validation = workloadQuerySchema.safeParse(req.query);
+
+      if (!validation.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid query parameters',
+          details: validation.error.errors
+        });
+        return;
+      }
+
+      const workload = await workloadService.getTeamWorkload(req.params.id!, validation.data);
+
+      if (!workload) {
+        res.status(404).json({
+          success: false,
+          error: 'Team not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: workload,
+        meta: {
+          ...validation.data,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to compute team workload', { teamId: req.params.id, error });
+      next(error);
+    }
+  }
+
+  /**
+   * Create a team in Notion (queued with ?async=true)
+   * POST /api/v1/teams
+   */
+  async createTeam(req: Request, res: Response, next: NextFunction) {
+    try {
+      const validation = createTeamSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: validation.error.errors
+        });
+        return;
+      }
+
+      const input = validation.data as CreateTeamInput;
+
+      if (req.query.async === 'true') {
+        const { id: tempId } = await syncQueueService.queueEntityCreate('team', input);
+
+        res.status(201).json({
+          success: true,
+          data: { id: tempId, ...input, _temporary: true, _pendingSync: true },
+          meta: { mode: 'async', tempId },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const team = await entityService.createTeam(input);
+
+      res.status(201).json({
+        success: true,
+        data: team,
+        meta: { mode: 'sync' },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      logger.error('Failed to create team', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Update a team in Notion (queued with ?async=true or while its creation is pending)
+   * PUT /api/v1/teams/:id
+   */
+  async updateTeam(req: Request, res: Response, next: NextFunction) {
+    try {
+      const validation = updateTeamSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request data',
+          details: validation.error.errors
+        });
+        return;
+      }
+
+      const id = await tempIdRegistryService.resolveId(req.params.id!);
+      const input = validation.data as UpdateTeamInput;
+
+      if (req.query.async === 'true' || tempIdRegistryService.isTempId(id)) {
+        await syncQueueService.queueEntityUpdate('team', id, input);
+
+        res.json({
+          success: true,
+          data: { id, ...input, _pendingSync: true },
+          meta: { mode: 'async' },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const team = await entityService.updateTeam(id, input);
+
+      res.json({
+        success: true,
+        data: team,
+        meta: { mode: 'sync' },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      logger.error('Failed to update team', { teamId: req.params.id, error });
+      next(error);
+    }
+  }
+
+  /**
+   * Archive a team in Notion (queued with ?async=true or while its creation is pending)
+   * DELETE /api/v1/teams/:id
+   */
+  async archiveTeam(req: Request, res: Response, next: NextFunction) {
+    try {
+      const id = await tempIdRegistryService.resolveId(req.params.id!);
+      const useAsync = req.query.async === 'true' || tempIdRegistryService.isTempId(id);
+
+      if (useAsync) {
+        await syncQueueService.queueEntityArchive('team', id);
+      } else {
+        await entityService.archiveTeam(id);
+      }
+
+      res.json({
+        success: true,
+        message: useAsync ? 'Team archive queued' : 'Team archived successfully',
+        meta: { mode: useAsync ? 'async' : 'sync' },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      logger.error('Failed to archive team', { teamId: req.params.id, error });
+      next(error);
+    }
+  }
 }
 
 export default new TeamsController();
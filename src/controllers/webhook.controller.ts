@@ -1,7 +1,9 @@
 import { Request, Response } from 'express';
 import { NotionConfigModel } from '../models/NotionConfig.model';
 import { SyncLogModel } from '../models/SyncLog.model';
+import { WebhookEventModel, WebhookEventStatus } from '../models/WebhookEvent.model';
 import { redisService } from '../services/redis.service';
+import { taskCachePatchService, TaskCachePatchResult } from '../services/notion/task-cache-patch.service';
 import crypto from 'crypto';
 
 export class WebhookController {
@@ -13,46 +15,186 @@ export class WebhookController {
    * Handle incoming Notion webhook events
    */
   handleNotionWebhook = async (req: Request, res: Response): Promise<void> => {
-    const startTime = Date.now();
-    
+    // Check if this is the initial verification request
+    if (req.body.verification_token) {
+      console.log('\n' + '🎉'.repeat(30));
+      console.log('✅ NOTION WEBHOOK VERIFICATION TOKEN RECEIVED!');
+      console.log('='.repeat(60));
+      console.log('📝 Token:', req.body.verification_token);
+      console.log('='.repeat(60));
+      console.log('⚠️ IMPORTANT STEPS:');
+      console.log('1. Copy the token above');
+      console.log('2. Add it to Azure App Service Configuration:');
+      console.log('   - Name: WEBHOOK_VERIFICATION_TOKEN');
+      console.log('   - Value: [paste the token]');
+      console.log('3. Restart the App Service');
+      console.log('4. The webhook will be ready to receive events');
+      console.log('🎉'.repeat(30) + '\n');
+      
+      // Respond with success for verification
+      res.status(200).json({ 
+        received: true,
+        verification: true,
+        message: 'Token captured. Please add it to environment variables.'
+      });
+      return;
+    }
+
+    // Respond immediately to meet 3-second timeout requirement
+    res.status(200).json({ received: true });
+
+    const webhookEventId = this.getEventId(req.body);
+
+    // Notion peut livrer plusieurs fois le même événement : on ne le traite qu'une fois
+    const isDuplicate = await this.recordDelivery(webhookEventId, req.body);
+    if (isDuplicate) {
+      console.log(`♻️ Duplicate webhook delivery ignored: ${webhookEventId}`);
+      return;
+    }
+
+    await this.processEvent(req.body, webhookEventId);
+  };
+
+  /**
+   * List stored webhook events (Admin only)
+   */
+  getWebhookEvents = async (req: Request, res: Response): Promise<void> => {
     try {
-      // Check if this is the initial verification request
-      if (req.body.verification_token) {
-        console.log('\n' + '🎉'.repeat(30));
-        console.log('✅ NOTION WEBHOOK VERIFICATION TOKEN RECEIVED!');
-        console.log('='.repeat(60));
-        console.log('📝 Token:', req.body.verification_token);
-        console.log('='.repeat(60));
-        console.log('⚠️ IMPORTANT STEPS:');
-        console.log('1. Copy the token above');
-        console.log('2. Add it to Azure App Service Configuration:');
-        console.log('   - Name: WEBHOOK_VERIFICATION_TOKEN');
-        console.log('   - Value: [paste the token]');
-        console.log('3. Restart the App Service');
-        console.log('4. The webhook will be ready to receive events');
-        console.log('🎉'.repeat(30) + '\n');
-        
-        // Respond with success for verification
-        res.status(200).json({ 
-          received: true,
-          verification: true,
-          message: 'Token captured. Please add it to environment variables.'
+      const { page = 1, limit = 20, status, type } = req.query;
+
+      const pageNum = parseInt(page as string);
+      const limitNum = parseInt(limit as string);
+      const skip = (pageNum - 1) * limitNum;
+
+      const filter: any = {};
+      if (status) {
+        filter.status = status;
+      }
+      if (type) {
+        filter.type = type;
+      }
+
+      const total = await WebhookEventModel.countDocuments(filter);
+      const events = await WebhookEventModel.find(filter)
+        .select('-payload')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limitNum)
+        .lean();
+
+      res.json({
+        success: true,
+        data: {
+          events,
+          pagination: {
+            page: pageNum,
+            limit: limitNum,
+            total,
+            totalPages: Math.ceil(total / limitNum),
+          },
+        }
+      });
+    } catch (error) {
+      console.error('❌ Error fetching webhook events:', error);
+      res.status(500).json({
+        error: 'Failed to fetch webhook events',
+        code: 'EVENTS_ERROR',
+      });
+    }
+  };
+
+  /**
+   * Get a stored webhook event with its payload (Admin only)
+   */
+  getWebhookEvent = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const event = await WebhookEventModel.findOne({ eventId: req.params.eventId }).lean();
+
+      if (!event) {
+        res.status(404).json({
+          error: 'Webhook event not found',
+          code: 'EVENT_NOT_FOUND',
         });
         return;
       }
 
-      // Respond immediately to meet 3-second timeout requirement
-      res.status(200).json({ received: true });
+      const syncLogs = await SyncLogModel.find({ webhookEventId: event.eventId })
+        .sort({ createdAt: -1 })
+        .lean();
+
+      res.json({
+        success: true,
+        data: { event, syncLogs }
+      });
+    } catch (error) {
+      console.error('❌ Error fetching webhook event:', error);
+      res.status(500).json({
+        error: 'Failed to fetch webhook event',
+        code: 'EVENT_ERROR',
+      });
+    }
+  };
 
+  /**
+   * Replay a stored webhook event against the current handler (Admin only)
+   */
+  replayWebhookEvent = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const event = await WebhookEventModel.findOneAndUpdate(
+        { eventId: req.params.eventId },
+        {
+          $set: { status: 'processing', lastReplayedAt: new Date() },
+          $inc: { replayCount: 1 },
+        },
+        { new: true }
+      );
+
+      if (!event) {
+        res.status(404).json({
+          error: 'Webhook event not found',
+          code: 'EVENT_NOT_FOUND',
+        });
+        return;
+      }
+
+      console.log(`🔁 Replaying webhook event ${event.eventId}`);
+      const result = await this.processEvent(event.payload, event.eventId);
+
+      res.json({
+        success: true,
+        data: {
+          eventId: event.eventId,
+          replayCount: event.replayCount,
+          ...result,
+        }
+      });
+    } catch (error) {
+      console.error('❌ Error replaying webhook event:', error);
+      res.status(500).json({
+        error: 'Failed to replay webhook event',
+        code: 'REPLAY_ERROR',
+      });
+    }
+  };
+
+  /**
+   * Process a webhook payload: patch/invalidate the cache and log the sync
+   */
+  private async processEvent(
+    payload: any,
+    webhookEventId: string
+  ): Promise<{ status: WebhookEventStatus; entityType?: string; cachePatch?: TaskCachePatchResult; error?: string }> {
+    const startTime = Date.now();
+    
+    try {
       // Extract webhook event data
-      const { type, data } = req.body;
-      const webhookEventId = crypto.randomUUID();
+      const { type, data } = payload;
 
       console.log(`\n${'='.repeat(50)}`);
       console.log(`📨 WEBHOOK RECEIVED: ${type}`);
       console.log(`🆔 Event ID: ${webhookEventId}`);
       console.log(`📅 Time: ${new Date().toISOString()}`);
-      console.log(`📦 Full Payload:`, JSON.stringify(req.body, null, 2));
+      console.log(`📦 Full Payload:`, JSON.stringify(payload, null, 2));
       console.log(`📄 Data Object:`, JSON.stringify(data, null, 2));
 
       // Identify the source database - prioritize parent.id over data_source_id
@@ -60,7 +202,8 @@ export class WebhookController {
       
       if (!databaseId) {
         console.error('❌ No database ID found in webhook event');
-        return;
+        await this.updateEventStatus(webhookEventId, 'ignored', { error: 'No database ID found' });
+        return { status: 'ignored', error: 'No database ID found' };
       }
 
       console.log(`🔍 Looking up database ID: ${databaseId}`);
@@ -70,13 +213,33 @@ export class WebhookController {
       
       if (!entityType) {
         console.error(`❌ Unknown database ID: ${databaseId}`);
-        return;
+        await this.updateEventStatus(webhookEventId, 'ignored', { error: `Unknown database ID: ${databaseId}` });
+        return { status: 'ignored', error: `Unknown database ID: ${databaseId}` };
+      }
+
+      // L'ID de la page est dans `entity` pour les événements Notion, `data.id` pour les anciens payloads
+      const pageId: string | undefined = payload.entity?.id || data?.id;
+      let cachePatch: TaskCachePatchResult | undefined;
+      const syncErrors: string[] = [];
+
+      if (entityType === 'Task' && pageId) {
+        // Patch ciblé : seules les fenêtres calendrier et l'index de la tâche sont mis à jour
+        try {
+          cachePatch = type === 'page.deleted'
+            ? await taskCachePatchService.removeTask(pageId)
+            : await taskCachePatchService.refreshTask(pageId);
+          console.log(`🩹 Task ${pageId} ${cachePatch.action}: ${cachePatch.windowsPatched} windows patched, ${cachePatch.windowsLeft} left`);
+        } catch (patchError) {
+          console.error(`❌ Cache patch failed for task ${pageId}, falling back to invalidation:`, patchError);
+          syncErrors.push(patchError instanceof Error ? patchError.message : 'Cache patch failed');
+          await this.invalidateCacheForEntity(entityType, pageId);
+        }
+      } else {
+        // Invalidate Redis cache for the affected entity type
+        await this.invalidateCacheForEntity(entityType, pageId);
+        console.log(`🗑️ Cache invalidated for ${entityType}`);
       }
 
-      // Invalidate Redis cache for the affected entity type
-      await this.invalidateCacheForEntity(entityType, data?.id);
-      
-      console.log(`🗑️ Cache invalidated for ${entityType}`);
       console.log(`${'='.repeat(50)}\n`);
 
       // Log webhook reception
@@ -84,18 +247,24 @@ export class WebhookController {
         entityType,
         databaseId,
         syncMethod: 'webhook',
-        syncStatus: 'success',
+        syncStatus: syncErrors.length > 0 ? 'partial' : 'success',
         webhookEventId,
         itemsProcessed: 1,
         itemsFailed: 0,
         startTime: new Date(startTime),
         endTime: new Date(),
         duration: Date.now() - startTime,
+        ...(cachePatch && { cachePatch }),
+        ...(syncErrors.length > 0 && { syncErrors }),
       });
 
-      console.log(`✅ Webhook processed and cache invalidated for ${entityType}`);
+      await this.updateEventStatus(webhookEventId, 'processed', { entityType, databaseId });
+
+      console.log(`✅ Webhook processed for ${entityType}`);
+      return { status: 'processed', entityType, ...(cachePatch && { cachePatch }) };
     } catch (error) {
       console.error('❌ Error handling webhook:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
       
       // Log failed webhook
       await SyncLogModel.create({
@@ -103,15 +272,84 @@ export class WebhookController {
         databaseId: 'unknown',
         syncMethod: 'webhook',
         syncStatus: 'failed',
+        webhookEventId,
         itemsProcessed: 0,
         itemsFailed: 1,
         startTime: new Date(startTime),
         endTime: new Date(),
         duration: Date.now() - startTime,
-        syncErrors: [error instanceof Error ? error.message : 'Unknown error'],
+        syncErrors: [message],
       });
+
+      await this.updateEventStatus(webhookEventId, 'failed', { error: message });
+      return { status: 'failed', error: message };
     }
-  };
+  }
+
+  /**
+   * Notion's event ID, or a fingerprint of the payload for events without one
+   */
+  private getEventId(payload: any): string {
+    if (typeof payload?.id === 'string' && payload.id.length > 0) {
+      return payload.id;
+    }
+
+    return `sha256:${crypto.createHash('sha256').update(JSON.stringify(payload)).digest('hex')}`;
+  }
+
+  /**
+   * Store the delivery and tell whether the event was already handled
+   */
+  private async recordDelivery(eventId: string, payload: any): Promise<boolean> {
+    try {
+      const previous = await WebhookEventModel.findOneAndUpdate(
+        { eventId },
+        {
+          $setOnInsert: {
+            type: payload.type,
+            entityId: payload.entity?.id || payload.data?.id,
+            payload,
+          },
+          $set: { lastDeliveredAt: new Date() },
+          $inc: { deliveries: 1 },
+        },
+        { upsert: true, new: false }
+      );
+
+      if (!previous) {
+        return false;
+      }
+
+      // Un événement en échec peut être retraité par une nouvelle livraison
+      if (previous.status === 'failed') {
+        await this.updateEventStatus(eventId, 'processing');
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      // Sans stockage, mieux vaut traiter deux fois que perdre l'événement
+      console.error('❌ Error recording webhook delivery:', error);
+      return false;
+    }
+  }
+
+  private async updateEventStatus(
+    eventId: string,
+    status: WebhookEventStatus,
+    details: { entityType?: string; databaseId?: string; error?: string } = {}
+  ): Promise<void> {
+    try {
+      const update: any = { $set: { status, ...details } };
+      if (status === 'processed') {
+        update.$set.processedAt = new Date();
+        update.$unset = { error: '' };
+      }
+      await WebhookEventModel.updateOne({ eventId }, update);
+    } catch (error) {
+      console.error(`❌ Error updating webhook event ${eventId}:`, error);
+    }
+  }
 
   /**
    * Handle webhook capture for initial setup
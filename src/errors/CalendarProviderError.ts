@@ -0,0 +1,49 @@
+export class CalendarProviderError extends Error {
+  public code: string;
+  public status: number;
+  public details?: any;
+
+  constructor(
+    message: string,
+    code: string,
+    status: number,
+    details?: any
+  ) {
+    super(message);
+    this.name = 'CalendarProviderError';
+    this.code = code;
+    this.status = status;
+    this.details = details;
+
+    Error.captureStackTrace(this, this.constructor);
+  }
+
+  /**
+   * The sync token is no longer valid (HTTP 410): a full resync is required
+   */
+  get isSyncTokenExpired(): boolean {
+    return this.status === 410;
+  }
+
+  static fromResponse(status: number, body: any): CalendarProviderError {
+    const message = body?.error?.message || body?.error_description || `Calendar API error (${status})`;
+
+    if (status === 410) {
+      return new CalendarProviderError(message, 'SYNC_TOKEN_EXPIRED', 410, body);
+    }
+
+    if (status === 429 || (status === 403 && /rate limit/i.test(message))) {
+      return new CalendarProviderError('Calendar API rate limit exceeded', 'RATE_LIMIT_EXCEEDED', 429, body);
+    }
+
+    if (status === 401) {
+      return new CalendarProviderError('Calendar API authentication failed', 'AUTHENTICATION_FAILED', 401, body);
+    }
+
+    if (status === 404) {
+      return new CalendarProviderError('Calendar or event not found', 'NOT_FOUND', 404, body);
+    }
+
+    return new CalendarProviderError(message, status >= 500 ? 'SERVICE_ERROR' : 'BAD_REQUEST', status, body);
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Cron job de synchronisation avec les agendas (Google Calendar)
+ *
+ * Reporte les modifications faites dans les agendas sur les tâches Notion,
+ * puis pousse les tâches "Ajouter au calendrier" vers l'agenda de leurs assignés.
+ */
+
+import * as cron from 'node-cron';
+import logger from '../config/logger.config';
+import { calendarSyncService } from '../services/calendar/calendar-sync.service';
+
+class CalendarSyncJob {
+  private syncTask: cron.ScheduledTask | null = null;
+  private readonly SCHEDULE = process.env.CALENDAR_SYNC_CRON || '*/10 * * * *';
+
+  /**
+   * Start the calendar sync cron job (no-op when no provider is configured)
+   */
+  start(): void {
+    if (!calendarSyncService.getProvider()) {
+      logger.warn('Calendar sync enabled but no calendar provider configured, job not started');
+      return;
+    }
+
+    this.syncTask = cron.schedule(this.SCHEDULE, async () => {
+      try {
+        await calendarSyncService.runSync();
+      } catch (error) {
+        logger.error('[CRON] Calendar sync error:', error);
+      }
+    });
+
+    logger.info(`Calendar sync cron job started (${this.SCHEDULE})`);
+  }
+
+  /**
+   * Stop the calendar sync cron job
+   */
+  stop(): void {
+    if (this.syncTask) {
+      this.syncTask.stop();
+      this.syncTask = null;
+    }
+
+    logger.info('Calendar sync cron job stopped');
+  }
+}
+
+export const calendarSyncJob = new CalendarSyncJob();
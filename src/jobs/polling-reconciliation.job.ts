@@ -0,0 +1,256 @@
+/**
+ * Cron job de réconciliation par polling
+ *
+ * Filet de sécurité quand les webhooks Notion se taisent : pour chaque type
+ * d'entité dont le webhook n'est plus "healthy", on récupère les pages
+ * modifiées depuis la dernière synchro (filtre last_edited_time) et on
+ * réconcilie le cache. Chaque passage est tracé dans un SyncLog 'polling'.
+ */
+
+import * as cron from 'node-cron';
+import logger from '../config/logger.config';
+import { notion, DATABASES } from '../config/notion.config';
+import { SyncLogModel, ISyncLog } from '../models/SyncLog.model';
+import { notionRateLimiter } from '../middleware/rate-limit.middleware';
+import { retryWithBackoff } from '../utils/retryWithBackoff';
+import { redisService } from '../services/redis.service';
+import { taskCachePatchService } from '../services/notion/task-cache-patch.service';
+import { notionPageToTask } from '../mappers/notion.mapper';
+
+type PolledEntityType = ISyncLog['entityType'];
+
+interface PolledEntity {
+  entityType: PolledEntityType;
+  databaseKey: keyof typeof DATABASES;
+  cacheKeyPrefix: string; // Clé unitaire `${prefix}:${id}`
+  listPatterns: string[]; // Listes à invalider si au moins une page a changé
+}
+
+const POLLED_ENTITIES: PolledEntity[] = [
+  { entityType: 'Task', databaseKey: 'traffic', cacheKeyPrefix: 'task', listPatterns: [] },
+  // Les rollups client et équipes des tâches dépendent du projet, comme côté webhook
+  { entityType: 'Project', databaseKey: 'projects', cacheKeyPrefix: 'project', listPatterns: ['projects:*', 'tasks:*'] },
+  { entityType: 'Member', databaseKey: 'users', cacheKeyPrefix: 'member', listPatterns: ['users:*'] },
+  { entityType: 'Team', databaseKey: 'teams', cacheKeyPrefix: 'team', listPatterns: ['teams:*'] },
+  { entityType: 'Client', databaseKey: 'clients', cacheKeyPrefix: 'client', listPatterns: ['clients:*'] },
+];
+
+export interface PollingRunResult {
+  entityType: PolledEntityType;
+  skipped: boolean;
+  itemsProcessed: number;
+  itemsFailed: number;
+  since?: Date;
+}
+
+class PollingReconciliationJob {
+  private pollingTask: cron.ScheduledTask | null = null;
+  private running = false;
+  private readonly SCHEDULE = process.env.POLLING_RECONCILIATION_CRON || '*/5 * * * *';
+  private readonly DEFAULT_LOOKBACK_MS = 60 * 60 * 1000; // 1h sans historique de synchro
+  private readonly OVERLAP_MS = 60 * 1000; // last_edited_time est arrondi à la minute
+
+  /**
+   * Start the polling cron job
+   */
+  start(): void {
+    this.pollingTask = cron.schedule(this.SCHEDULE, async () => {
+      try {
+        await this.runOnce();
+      } catch (error) {
+        logger.error('[CRON] Polling reconciliation error:', error);
+      }
+    });
+
+    logger.info(`Polling reconciliation cron job started (${this.SCHEDULE})`);
+  }
+
+  /**
+   * Stop the polling cron job
+   */
+  stop(): void {
+    if (this.pollingTask) {
+      this.pollingTask.stop();
+      this.pollingTask = null;
+    }
+
+    logger.info('Polling reconciliation cron job stopped');
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Poll every entity type whose webhook went quiet (every type with force)
+   */
+  async runOnce(options: { force?: boolean } = {}): Promise<PollingRunResult[]> {
+    if (this.running) {
+      logger.warn('[CRON] Polling reconciliation already running, skipping');
+      return [];
+    }
+
+    this.running = true;
+    const results: PollingRunResult[] = [];
+
+    try {
+      for (const entity of POLLED_ENTITIES) {
+        if (!options.force && await SyncLogModel.isWebhookHealthy(entity.entityType)) {
+          results.push({ entityType: entity.entityType, skipped: true, itemsProcessed: 0, itemsFailed: 0 });
+          continue;
+        }
+
+        results.push(await this.reconcileEntity(entity));
+      }
+    } finally {
+      this.running = false;
+    }
+
+    return results;
+  }
+
+  /**
+   * Fetch the pages edited since the last sync and reconcile the cache
+   */
+  private async reconcileEntity(entity: PolledEntity): Promise<PollingRunResult> {
+    const startTime = new Date();
+    const databaseId = DATABASES[entity.databaseKey];
+    const since = await this.getLastSyncTime(entity.entityType);
+    let itemsProcessed = 0;
+    let itemsFailed = 0;
+    const syncErrors: string[] = [];
+
+    logger.info('[CRON] Polling Notion for edited pages', {
+      entityType: entity.entityType,
+      since: since.toISOString()
+    });
+
+    try {
+      const pages = await this.fetchEditedPages(databaseId, since);
+
+      for (const page of pages) {
+        try {
+          await this.reconcilePage(entity, page);
+          itemsProcessed++;
+        } catch (error) {
+          itemsFailed++;
+          syncErrors.push(`${page.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+
+      if (pages.length > 0) {
+        for (const pattern of entity.listPatterns) {
+          await redisService.invalidatePattern(pattern);
+        }
+      }
+    } catch (error) {
+      syncErrors.push(error instanceof Error ? error.message : 'Unknown error');
+      logger.error('[CRON] Polling query failed', { entityType: entity.entityType, error });
+    }
+
+    const endTime = new Date();
+    const queryFailed = syncErrors.length > itemsFailed;
+
+    await SyncLogModel.create({
+      entityType: entity.entityType,
+      databaseId,
+      syncMethod: 'polling',
+      syncStatus: queryFailed ? 'failed' : itemsFailed > 0 ? 'partial' : 'success',
+      itemsProcessed,
+      itemsFailed,
+      startTime,
+      endTime,
+      duration: endTime.getTime() - startTime.getTime(),
+      // Point de reprise du prochain passage, seulement si la requête a abouti
+      ...(!queryFailed && { lastPollingUpdate: startTime }),
+      ...(syncErrors.length > 0 && { syncErrors: syncErrors.slice(0, 20) }),
+    });
+
+    logger.info('[CRON] Polling reconciliation done', {
+      entityType: entity.entityType,
+      itemsProcessed,
+      itemsFailed
+    });
+
+    return { entityType: entity.entityType, skipped: false, itemsProcessed, itemsFailed, since };
+  }
+
+  /**
+   * Last point in time the cache is known to be in sync for an entity type
+   */
+  private async getLastSyncTime(entityType: PolledEntityType): Promise<Date> {
+    const [lastPolling, lastWebhook] = await Promise.all([
+      SyncLogModel.findOne({ entityType, syncMethod: 'polling', lastPollingUpdate: { $exists: true } })
+        .sort({ createdAt: -1 })
+        .lean(),
+      SyncLogModel.findOne({ entityType, syncMethod: 'webhook', syncStatus: { $ne: 'failed' } })
+        .sort({ createdAt: -1 })
+        .lean(),
+    ]);
+
+    const candidates = [
+      lastPolling?.lastPollingUpdate?.getTime(),
+      lastWebhook?.createdAt?.getTime(),
+    ].filter((time): time is number => typeof time === 'number');
+
+    const lastSync = candidates.length > 0
+      ? Math.max(...candidates)
+      : Date.now() - this.DEFAULT_LOOKBACK_MS;
+
+    return new Date(lastSync - this.OVERLAP_MS);
+  }
+
+  /**
+   * Query a database for pages edited since a date (all pages, paginated)
+   */
+  private async fetchEditedPages(databaseId: string, since: Date): Promise<any[]> {
+    const pages: any[] = [];
+    let hasMore = true;
+    let startCursor: string | undefined = undefined;
+
+    while (hasMore) {
+      const queryParams: any = {
+        database_id: databaseId,
+        filter: {
+          timestamp: 'last_edited_time',
+          last_edited_time: { on_or_after: since.toISOString() },
+        },
+        page_size: 100,
+      };
+
+      if (startCursor) {
+        queryParams.start_cursor = startCursor;
+      }
+
+      const response = await retryWithBackoff(() =>
+        notionRateLimiter.scheduleLowPriority(() => notion.databases.query(queryParams))
+      );
+
+      pages.push(...response.results);
+      hasMore = response.has_more;
+      startCursor = response.next_cursor || undefined;
+    }
+
+    return pages;
+  }
+
+  /**
+   * Reconcile one page: tasks are patched in place, other entities are invalidated
+   */
+  private async reconcilePage(entity: PolledEntity, page: any): Promise<void> {
+    const archived = page.archived || page.in_trash;
+
+    if (entity.entityType === 'Task') {
+      if (archived) {
+        await taskCachePatchService.removeTask(page.id);
+      } else {
+        await taskCachePatchService.applyTask(notionPageToTask(page));
+      }
+      return;
+    }
+
+    await redisService.del(`${entity.cacheKeyPrefix}:${page.id}`);
+  }
+}
+
+export const pollingReconciliationJob = new PollingReconciliationJob();
@@ -5,13 +5,8 @@ import {
   NotionClient,
   NotionTeam,
 } from '../types/notion.types';
-import {
-  TASK_PROPERTY_IDS,
-  USER_PROPERTY_IDS,
-  PROJECT_PROPERTY_IDS,
-  CLIENT_PROPERTY_IDS,
-  TEAM_PROPERTY_IDS,
-} from '../config/notion.config';
+import { propertyMappingService } from '../services/notion/property-mapping.service';
+import { memberScheduleService } from '../services/member-schedule.service';
 import logger from '../config/logger.config';
 
 export function extractTitle(property: any): string {
@@ -78,6 +73,39 @@ export function mapTaskType(notionTaskType: string | null): 'task' | 'holiday' |
   return mappedType;
 }
 
+/**
+ * Notion names written for our task type / status values
+ */
+export const TASK_TYPE_TO_NOTION: Record<string, string> = {
+  'task': 'Tache',
+  'holiday': 'Congé',
+  'school': 'Formation',
+  'remote': 'TT' // Utiliser TT comme valeur dans Notion pour télétravail
+};
+
+export const TASK_STATUS_TO_NOTION: Record<string, string> = {
+  'not_started': 'Pas commencé',
+  'in_progress': 'A valider',
+  'completed': 'Terminé'
+};
+
+/**
+ * Map a Notion status name (État) back to our status value
+ * Returns the value unchanged when it already is one of ours
+ */
+export function mapTaskStatus(notionStatus: string | null): 'not_started' | 'in_progress' | 'completed' | null {
+  if (!notionStatus) return null;
+
+  if (notionStatus in TASK_STATUS_TO_NOTION) {
+    return notionStatus as 'not_started' | 'in_progress' | 'completed';
+  }
+
+  const entry = Object.entries(TASK_STATUS_TO_NOTION).find(
+    ([, name]) => name.toLowerCase() === notionStatus.trim().toLowerCase()
+  );
+  return entry ? entry[0] as 'not_started' | 'in_progress' | 'completed' : null;
+}
+
 export function extractDate(property: any): { start: Date | null; end: Date | null } {
   if (!property?.date) {
     return { start: null, end: null };
@@ -119,6 +147,7 @@ export function extractEmail(property: any): string {
 
 export function notionPageToTask(page: any): NotionTask {
   const props = page.properties;
+  const TASK_PROPERTY_IDS = propertyMappingService.task;
   const dateRange = extractDate(props[TASK_PROPERTY_IDS.workPeriod]);
 
   // Extract and map task type from French to English
@@ -153,14 +182,17 @@ export function notionPageToTask(page: any): NotionTask {
     // Tâches normales sans heures sont aussi all-day mais NE sont PAS splittées
     isAllDay = true;
     shouldSplitDaily = false;
-    // Si pas de date de fin, on étend sur la journée de travail
+    // Si pas de date de fin, on étend sur la journée de travail du premier membre assigné
     if (!endDate && startDate) {
+      const assignedMembers = extractRelationIds(props[TASK_PROPERTY_IDS.assignedMembers]);
+      const { start, end } = memberScheduleService.getWorkingWindow(assignedMembers[0], startDate);
+
       const newStartDate = new Date(startDate);
-      newStartDate.setHours(7, 0, 0, 0);
+      newStartDate.setHours(start[0], start[1], 0, 0);
       startDate = newStartDate;
       
       endDate = new Date(startDate);
-      endDate.setHours(22, 0, 0, 0);
+      endDate.setHours(end[0], end[1], 0, 0);
     }
   } else if (!endDate && startDate) {
     // Tâche d'un seul jour avec heures ou sans type spécial
@@ -189,6 +221,7 @@ export function notionPageToTask(page: any): NotionTask {
     isAllDay, // Ajout du flag isAllDay
     shouldSplitDaily, // Ajout du flag shouldSplitDaily pour différencier les types spéciaux
     notionUrl: page.url || null, // URL de la page Notion
+    ...((page.archived || page.in_trash) && { archived: true }),
     createdAt: new Date(page.created_time),
     updatedAt: new Date(page.last_edited_time),
   };
@@ -204,6 +237,7 @@ export function notionPageToTask(page: any): NotionTask {
 
 export function notionPageToUser(page: any): NotionMember {
   const props = page.properties;
+  const USER_PROPERTY_IDS = propertyMappingService.user;
 
   return {
     id: page.id,
@@ -216,6 +250,7 @@ export function notionPageToUser(page: any): NotionMember {
 
 export function notionPageToProject(page: any): NotionProject {
   const props = page.properties;
+  const PROJECT_PROPERTY_IDS = propertyMappingService.project;
 
   return {
     id: page.id,
@@ -223,11 +258,13 @@ export function notionPageToProject(page: any): NotionProject {
     client: extractRelationIds(props[PROJECT_PROPERTY_IDS.client])[0] || null,
     status: extractSelect(props[PROJECT_PROPERTY_IDS.status]) || 'not_started',
     tasks: extractRelationIds(props[PROJECT_PROPERTY_IDS.tasks]),
+    projectLeads: extractRelationIds(props[PROJECT_PROPERTY_IDS.projectLead]),
   };
 }
 
 export function notionPageToClient(page: any): NotionClient {
   const props = page.properties;
+  const CLIENT_PROPERTY_IDS = propertyMappingService.client;
 
   return {
     id: page.id,
@@ -238,6 +275,7 @@ export function notionPageToClient(page: any): NotionClient {
 
 export function notionPageToTeam(page: any): NotionTeam {
   const props = page.properties;
+  const TEAM_PROPERTY_IDS = propertyMappingService.team;
 
   return {
     id: page.id,
@@ -248,6 +286,7 @@ export function notionPageToTeam(page: any): NotionTeam {
 
 export function createNotionTaskProperties(input: any) {
   const properties: any = {};
+  const TASK_PROPERTY_IDS = propertyMappingService.task;
 
   if (input.title !== undefined) {
     properties[TASK_PROPERTY_IDS.title] = {
@@ -279,27 +318,16 @@ export function createNotionTaskProperties(input: any) {
   if (input.taskType !== undefined) {
     // Type de tache is a status field in Notion, not select
     // Map our taskType values to the French names used in Notion
-    const taskTypeMap: { [key: string]: string } = {
-      'task': 'Tache',
-      'holiday': 'Congé', 
-      'school': 'Formation',
-      'remote': 'TT' // Utiliser TT comme valeur dans Notion pour télétravail
-    };
     properties[TASK_PROPERTY_IDS.taskType] = {
-      status: { name: taskTypeMap[input.taskType] || 'Tache' },
+      status: { name: TASK_TYPE_TO_NOTION[input.taskType] || 'Tache' },
     };
   }
 
   if (input.status !== undefined) {
     // État is a status field in Notion, not select
     // Map our status values to the French names used in Notion
-    const statusMap: { [key: string]: string } = {
-      'not_started': 'Pas commencé',
-      'in_progress': 'A valider',
-      'completed': 'Terminé'
-    };
     properties[TASK_PROPERTY_IDS.status] = {
-      status: { name: statusMap[input.status] || 'Pas commencé' },
+      status: { name: TASK_STATUS_TO_NOTION[input.status] || 'Pas commencé' },
     };
   }
 
@@ -327,6 +355,12 @@ export function createNotionTaskProperties(input: any) {
     };
   }
 
+  if (input.googleEventId !== undefined) {
+    properties[TASK_PROPERTY_IDS.googleEventId] = {
+      rich_text: input.googleEventId ? [{ text: { content: input.googleEventId } }] : [],
+    };
+  }
+
   if (input.clientPlanning !== undefined) {
     properties[TASK_PROPERTY_IDS.clientPlanning] = {
       checkbox: input.clientPlanning,
@@ -335,3 +369,60 @@ export function createNotionTaskProperties(input: any) {
 
   return properties;
 }
+
+export function createNotionProjectProperties(input: any) {
+  const properties: any = {};
+  const PROJECT_PROPERTY_IDS = propertyMappingService.project;
+
+  if (input.name !== undefined) {
+    properties[PROJECT_PROPERTY_IDS.title] = {
+      title: [{ text: { content: input.name } }],
+    };
+  }
+
+  if (input.clientId !== undefined) {
+    properties[PROJECT_PROPERTY_IDS.client] = {
+      relation: input.clientId ? [{ id: input.clientId }] : [],
+    };
+  }
+
+  if (input.status !== undefined) {
+    properties[PROJECT_PROPERTY_IDS.status] = {
+      select: { name: input.status },
+    };
+  }
+
+  return properties;
+}
+
+export function createNotionClientProperties(input: any) {
+  const properties: any = {};
+  const CLIENT_PROPERTY_IDS = propertyMappingService.client;
+
+  if (input.name !== undefined) {
+    properties[CLIENT_PROPERTY_IDS.title] = {
+      title: [{ text: { content: input.name } }],
+    };
+  }
+
+  return properties;
+}
+
+export function createNotionTeamProperties(input: any) {
+  const properties: any = {};
+  const TEAM_PROPERTY_IDS = propertyMappingService.team;
+
+  if (input.name !== undefined) {
+    properties[TEAM_PROPERTY_IDS.title] = {
+      title: [{ text: { content: input.name } }],
+    };
+  }
+
+  if (input.memberIds !== undefined) {
+    properties[TEAM_PROPERTY_IDS.members] = {
+      relation: input.memberIds.map((id: string) => ({ id })),
+    };
+  }
+
+  return properties;
+}
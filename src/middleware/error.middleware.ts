@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { ZodError } from 'zod';
 import logger from '../config/logger.config';
+import { NotionAPIError } from '../errors/NotionAPIError';
 
 /**
  * Custom error interface for application errors
@@ -51,6 +52,11 @@ export const errorHandler = (
     error = createError(`Validation error: ${message}`, 400);
   }
 
+  // Notion API errors keep their status (404 page not found, 429 rate limit...)
+  if (err instanceof NotionAPIError) {
+    error = createError(err.toUserMessage(), err.status);
+  }
+
   // Log error with context
   logger.error('Application error', {
     message: error.message,
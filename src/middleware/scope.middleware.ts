@@ -0,0 +1,108 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from './auth.middleware';
+import logger from '../config/logger.config';
+import {
+  accessScopeService,
+  AccessScope,
+  READ_ONLY_SCOPE_ERROR,
+  TASK_OUT_OF_SCOPE_ERROR
+} from '../services/access-scope.service';
+
+/**
+ * Request carrying the write scope of the authenticated user
+ */
+export interface ScopedRequest extends AuthRequest {
+  accessScope?: AccessScope;
+}
+
+/**
+ * Middleware to check the user may write the targeted tasks
+ * Handles single task routes (:id, body.projectId) and batch updates (body.updates)
+ */
+export async function authorizeTaskWrite(req: ScopedRequest, res: Response, next: NextFunction): Promise<void> {
+  if (!req.user) {
+    logger.warn(`Task scope check failed - No user object for ${req.method} ${req.path}`);
+    res.status(401).json({
+      success: false,
+      message: 'Not authenticated',
+    });
+    return;
+  }
+
+  try {
+    const scope = await accessScopeService.getScope(req.user);
+    req.accessScope = scope;
+
+    if (scope.allProjects) {
+      next();
+      return;
+    }
+
+    if (accessScopeService.isReadOnly(scope)) {
+      logger.warn(`Write attempt by ${req.user.email} (role: ${req.user.role}) with read-only scope on ${req.path}`);
+      res.status(403).json({
+        success: false,
+        message: READ_ONLY_SCOPE_ERROR,
+      });
+      return;
+    }
+
+    const forbiddenTaskIds: string[] = [];
+    const body = req.body || {};
+
+    if (req.params.id && !(await accessScopeService.canEditTask(scope, req.params.id))) {
+      forbiddenTaskIds.push(req.params.id);
+    }
+
+    // Création (POST sans :id), ou déplacement de la tâche vers un autre projet
+    const movesProject = (req.method === 'POST' && !req.params.id) || 'projectId' in body;
+    if (!Array.isArray(body.updates) && movesProject && !accessScopeService.canEditProject(scope, body.projectId)) {
+      forbiddenTaskIds.push(req.params.id || 'new');
+    }
+
+    if (Array.isArray(body.updates)) {
+      for (const update of body.updates) {
+        const allowed = await accessScopeService.canEditTask(scope, String(update?.id))
+          && (!update?.data || !('projectId' in update.data) || accessScopeService.canEditProject(scope, update.data.projectId));
+
+        if (!allowed) {
+          forbiddenTaskIds.push(String(update?.id));
+        }
+      }
+    }
+
+    if (forbiddenTaskIds.length > 0) {
+      logger.warn(`Task write out of scope by ${req.user.email} on ${req.path}`, { forbiddenTaskIds });
+      res.status(403).json({
+        success: false,
+        message: TASK_OUT_OF_SCOPE_ERROR,
+        forbiddenTaskIds: Array.from(new Set(forbiddenTaskIds)),
+      });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    logger.error('Task scope middleware error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Authorization error',
+    });
+  }
+}
+
+/**
+ * Attach the write scope without restricting access (read endpoints flag editable tasks)
+ */
+export async function attachAccessScope(req: ScopedRequest, _res: Response, next: NextFunction): Promise<void> {
+  if (req.user) {
+    try {
+      req.accessScope = await accessScopeService.getScope(req.user);
+    } catch (error) {
+      // Sans périmètre, les tâches ne sont simplement pas marquées
+      logger.warn('Failed to load access scope', { userId: req.user.userId, error });
+    }
+  }
+
+  next();
+}
@@ -0,0 +1,79 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Interface for the link between a Notion task and the calendar event of one assignee
+ * A task assigned to several members has one event (and one link) per member
+ */
+export interface ICalendarEventLink extends Document {
+  taskId: string;
+  memberId: string;
+  calendarId: string; // Email du membre (agenda principal)
+  eventId: string;
+  provider: string;
+  status: 'active' | 'deleted_remotely'; // Supprimé par le membre : on ne le recrée pas
+  payloadHash: string; // Empreinte du dernier contenu poussé ou reçu
+  snapshot: {
+    summary: string;
+    start: string;
+    end: string;
+  };
+  lastSyncedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose schema for calendar event links
+ */
+const CalendarEventLinkSchema: Schema = new Schema(
+  {
+    taskId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    memberId: {
+      type: String,
+      required: true,
+    },
+    calendarId: {
+      type: String,
+      required: true,
+    },
+    eventId: {
+      type: String,
+      required: true,
+    },
+    provider: {
+      type: String,
+      required: true,
+      default: 'google',
+    },
+    status: {
+      type: String,
+      enum: ['active', 'deleted_remotely'],
+      default: 'active',
+    },
+    payloadHash: {
+      type: String,
+      required: true,
+    },
+    snapshot: {
+      summary: { type: String, default: '' },
+      start: { type: String, default: '' },
+      end: { type: String, default: '' },
+    },
+    lastSyncedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+CalendarEventLinkSchema.index({ taskId: 1, memberId: 1 }, { unique: true });
+CalendarEventLinkSchema.index({ calendarId: 1, eventId: 1 });
+
+export const CalendarEventLinkModel = mongoose.model<ICalendarEventLink>('CalendarEventLink', CalendarEventLinkSchema);
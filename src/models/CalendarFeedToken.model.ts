@@ -0,0 +1,65 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type CalendarFeedScope = 'member' | 'team' | 'project';
+
+/**
+ * Interface for a calendar (ICS) feed token
+ * Only the SHA-256 hash of the token is stored: the feed URL is shown once at creation
+ */
+export interface ICalendarFeedToken extends Document {
+  tokenHash: string;
+  scope: CalendarFeedScope;
+  targetId: string; // ID Notion du membre, de l'équipe ou du projet
+  ownerId: string; // Utilisateur ayant créé le flux
+  label?: string;
+  revokedAt: Date | null;
+  lastAccessedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose schema for calendar feed tokens
+ */
+const CalendarFeedTokenSchema: Schema = new Schema(
+  {
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    scope: {
+      type: String,
+      enum: ['member', 'team', 'project'],
+      required: [true, 'Feed scope is required'],
+    },
+    targetId: {
+      type: String,
+      required: [true, 'Feed target ID is required'],
+    },
+    ownerId: {
+      type: String,
+      required: [true, 'Feed owner is required'],
+      index: true,
+    },
+    label: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Label cannot exceed 100 characters'],
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+    lastAccessedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const CalendarFeedTokenModel = mongoose.model<ICalendarFeedToken>('CalendarFeedToken', CalendarFeedTokenSchema);
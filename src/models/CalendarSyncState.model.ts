@@ -0,0 +1,45 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Interface for the incremental sync state of a calendar
+ */
+export interface ICalendarSyncState extends Document {
+  calendarId: string;
+  provider: string;
+  syncToken: string | null;
+  lastPulledAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose schema for calendar sync states
+ */
+const CalendarSyncStateSchema: Schema = new Schema(
+  {
+    calendarId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    provider: {
+      type: String,
+      required: true,
+      default: 'google',
+    },
+    syncToken: {
+      type: String,
+      default: null,
+    },
+    lastPulledAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const CalendarSyncStateModel = mongoose.model<ICalendarSyncState>('CalendarSyncState', CalendarSyncStateSchema);
@@ -0,0 +1,52 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Interface for a company closure (office closed: bridge days, year-end break...)
+ * Closures apply to every member, between startDate and endDate (inclusive)
+ */
+export interface ICompanyClosure extends Document {
+  label: string;
+  startDate: string; // YYYY-MM-DD, jour calendaire sans fuseau
+  endDate: string; // YYYY-MM-DD
+  updatedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Mongoose schema for company closures
+ */
+const CompanyClosureSchema: Schema = new Schema(
+  {
+    label: {
+      type: String,
+      required: [true, 'Label is required'],
+      trim: true,
+    },
+    startDate: {
+      type: String,
+      required: [true, 'Start date is required'],
+      match: [DAY_PATTERN, 'startDate must use the YYYY-MM-DD format'],
+    },
+    endDate: {
+      type: String,
+      required: [true, 'End date is required'],
+      match: [DAY_PATTERN, 'endDate must use the YYYY-MM-DD format'],
+    },
+    updatedBy: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+CompanyClosureSchema.index({ startDate: 1, endDate: 1 });
+
+export const CompanyClosureModel = mongoose.model<ICompanyClosure>('CompanyClosure', CompanyClosureSchema);
+
+export default CompanyClosureModel;
@@ -360,6 +360,36 @@ ConfigSchema.statics.initDefaults = async function(): Promise<void> {
       },
       isEditable: true,
     },
+    {
+      key: 'CONFLICT_SEVERITY_PUBLIC_HOLIDAY',
+      value: 'high',
+      description: 'Sévérité des conflits pour une tâche planifiée un jour férié',
+      category: 'calendar',
+      dataType: 'string',
+      defaultValue: 'high',
+      validValues: ['low', 'medium', 'high'],
+      isEditable: true,
+    },
+    {
+      key: 'CONFLICT_SEVERITY_COMPANY_CLOSURE',
+      value: 'high',
+      description: 'Sévérité des conflits pour une tâche planifiée un jour de fermeture de l\'entreprise',
+      category: 'calendar',
+      dataType: 'string',
+      defaultValue: 'high',
+      validValues: ['low', 'medium', 'high'],
+      isEditable: true,
+    },
+    {
+      key: 'CONFLICT_SEVERITY_WEEKEND',
+      value: 'medium',
+      description: 'Sévérité des conflits pour une tâche commençant ou finissant un week-end',
+      category: 'calendar',
+      dataType: 'string',
+      defaultValue: 'medium',
+      validValues: ['low', 'medium', 'high'],
+      isEditable: true,
+    },
   ];
   
   for (const config of defaultConfigs) {
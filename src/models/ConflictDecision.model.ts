@@ -0,0 +1,69 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Interface for a decision taken on a scheduling conflict
+ * Append-only: the latest decision of a (taskId, fingerprint) pair applies,
+ * the previous ones form the history of the conflict
+ */
+export interface IConflictDecision extends Document {
+  taskId: string;
+  fingerprint: string; // type:memberId:tâche en conflit ou jour, stable d'une détection à l'autre
+  conflictType: string;
+  memberId: string;
+  decision: 'acknowledged' | 'ignored' | 'reopened';
+  reason?: string;
+  actorId?: string;
+  actorEmail?: string;
+  createdAt: Date;
+}
+
+/**
+ * Mongoose schema for conflict decisions
+ */
+const ConflictDecisionSchema: Schema = new Schema(
+  {
+    taskId: {
+      type: String,
+      required: [true, 'Task ID is required'],
+      index: true,
+    },
+    fingerprint: {
+      type: String,
+      required: [true, 'Conflict fingerprint is required'],
+    },
+    conflictType: {
+      type: String,
+      required: [true, 'Conflict type is required'],
+    },
+    memberId: {
+      type: String,
+      required: [true, 'Member ID is required'],
+    },
+    decision: {
+      type: String,
+      enum: ['acknowledged', 'ignored', 'reopened'],
+      required: [true, 'Decision is required'],
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Reason cannot exceed 500 characters'],
+    },
+    actorId: {
+      type: String,
+    },
+    actorEmail: {
+      type: String,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    versionKey: false,
+  }
+);
+
+ConflictDecisionSchema.index({ taskId: 1, fingerprint: 1, createdAt: -1 });
+
+export const ConflictDecisionModel = mongoose.model<IConflictDecision>('ConflictDecision', ConflictDecisionSchema);
+
+export default ConflictDecisionModel;
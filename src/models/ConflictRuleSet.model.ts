@@ -0,0 +1,128 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * A rule of a conflict rule set
+ * Empty criteria lists match everything; the first matching rule of the set wins
+ */
+export interface IConflictRule {
+  description?: string;
+  conflictTypes: string[]; // overlap, holiday, school, overload, public_holiday, weekend, company_closure
+  taskTypes: string[]; // Type de la tâche vérifiée (task, holiday, school, remote)
+  otherTaskTypes: string[]; // Type de la tâche en conflit (chevauchements uniquement)
+  teams: string[]; // Équipes de la tâche vérifiée
+  enabled: boolean; // false : la combinaison n'est jamais un conflit
+  severity: 'low' | 'medium' | 'high' | null; // null : sévérité par défaut du type
+  minOverlapMinutes: number | null; // Chevauchements plus courts ignorés
+  overloadToleranceHours: number | null; // Dépassements de capacité tolérés
+}
+
+/**
+ * Interface for a conflict rule set
+ * A single set is active at a time; drafts can be dry-run before activation
+ */
+export interface IConflictRuleSet extends Document {
+  name: string;
+  description?: string;
+  status: 'draft' | 'active' | 'archived';
+  rules: IConflictRule[];
+  createdBy?: string;
+  updatedBy?: string;
+  activatedAt: Date | null;
+  activatedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ConflictRuleSchema = new Schema<IConflictRule>(
+  {
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [300, 'Description cannot exceed 300 characters'],
+    },
+    conflictTypes: {
+      type: [String],
+      default: [],
+    },
+    taskTypes: {
+      type: [String],
+      default: [],
+    },
+    otherTaskTypes: {
+      type: [String],
+      default: [],
+    },
+    teams: {
+      type: [String],
+      default: [],
+    },
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+    severity: {
+      type: String,
+      enum: ['low', 'medium', 'high', null],
+      default: null,
+    },
+    minOverlapMinutes: {
+      type: Number,
+      min: [0, 'minOverlapMinutes cannot be negative'],
+      default: null,
+    },
+    overloadToleranceHours: {
+      type: Number,
+      min: [0, 'overloadToleranceHours cannot be negative'],
+      default: null,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Mongoose schema for conflict rule sets
+ */
+const ConflictRuleSetSchema: Schema = new Schema(
+  {
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    status: {
+      type: String,
+      enum: ['draft', 'active', 'archived'],
+      default: 'draft',
+      index: true,
+    },
+    rules: {
+      type: [ConflictRuleSchema],
+      default: [],
+    },
+    createdBy: {
+      type: String,
+    },
+    updatedBy: {
+      type: String,
+    },
+    activatedAt: {
+      type: Date,
+      default: null,
+    },
+    activatedBy: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+export const ConflictRuleSetModel = mongoose.model<IConflictRuleSet>('ConflictRuleSet', ConflictRuleSetSchema);
+
+export default ConflictRuleSetModel;
@@ -0,0 +1,98 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Interface for a member working schedule (capacity settings)
+ * A member can have several successive schedules, each one applying between
+ * effectiveFrom and effectiveTo (inclusive, null = open-ended).
+ * Members without a schedule for a given day fall back to DEFAULT_MEMBER_SCHEDULE
+ */
+export interface IMemberSchedule extends Document {
+  memberId: string;
+  workingDays: number[]; // Jours ISO travaillés (1 = lundi ... 7 = dimanche)
+  dailyHours: number;
+  partTimePercentage: number;
+  startTime: string; // HH:mm, début de la journée (tâches journée entière)
+  endTime: string; // HH:mm, fin de la journée
+  effectiveFrom: string | null; // YYYY-MM-DD, jour calendaire sans fuseau
+  effectiveTo: string | null; // YYYY-MM-DD
+  updatedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const DEFAULT_MEMBER_SCHEDULE = {
+  workingDays: [1, 2, 3, 4, 5],
+  dailyHours: 8,
+  partTimePercentage: 100,
+  startTime: '07:00',
+  endTime: '22:00',
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Mongoose schema for member schedules
+ */
+const MemberScheduleSchema: Schema = new Schema(
+  {
+    memberId: {
+      type: String,
+      required: [true, 'Member ID is required'],
+      index: true,
+    },
+    workingDays: {
+      type: [Number],
+      default: DEFAULT_MEMBER_SCHEDULE.workingDays,
+      validate: {
+        validator: (days: number[]) => days.every(day => Number.isInteger(day) && day >= 1 && day <= 7),
+        message: 'Working days must be ISO weekdays (1-7)',
+      },
+    },
+    dailyHours: {
+      type: Number,
+      default: DEFAULT_MEMBER_SCHEDULE.dailyHours,
+      min: [0, 'Daily hours cannot be negative'],
+      max: [24, 'Daily hours cannot exceed 24'],
+    },
+    partTimePercentage: {
+      type: Number,
+      default: DEFAULT_MEMBER_SCHEDULE.partTimePercentage,
+      min: [0, 'Part-time percentage cannot be negative'],
+      max: [100, 'Part-time percentage cannot exceed 100'],
+    },
+    startTime: {
+      type: String,
+      default: DEFAULT_MEMBER_SCHEDULE.startTime,
+      match: [TIME_PATTERN, 'Start time must use the HH:mm format'],
+    },
+    endTime: {
+      type: String,
+      default: DEFAULT_MEMBER_SCHEDULE.endTime,
+      match: [TIME_PATTERN, 'End time must use the HH:mm format'],
+    },
+    effectiveFrom: {
+      type: String,
+      default: null,
+      match: [DAY_PATTERN, 'effectiveFrom must use the YYYY-MM-DD format'],
+    },
+    effectiveTo: {
+      type: String,
+      default: null,
+      match: [DAY_PATTERN, 'effectiveTo must use the YYYY-MM-DD format'],
+    },
+    updatedBy: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+MemberScheduleSchema.index({ memberId: 1, effectiveFrom: 1 });
+
+export const MemberScheduleModel = mongoose.model<IMemberSchedule>('MemberSchedule', MemberScheduleSchema);
+
+export default MemberScheduleModel;
@@ -0,0 +1,95 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { SyncQueueOperation, SyncQueueEntityType } from './SyncQueueItem.model';
+
+/**
+ * Interface for sync queue items that exhausted their retries
+ */
+export interface ISyncDeadLetter extends Document {
+  queueId: string;
+  entityId: string;
+  type: SyncQueueOperation;
+  entityType: SyncQueueEntityType;
+  data: any;
+  attempts: number;
+  maxRetries: number;
+  error?: string;
+  queuedAt: Date;
+  failedAt: Date;
+  status: 'failed' | 'retried';
+  retriedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose schema for the sync dead-letter collection
+ */
+const SyncDeadLetterSchema: Schema = new Schema(
+  {
+    queueId: {
+      type: String,
+      required: [true, 'Queue ID is required'],
+      index: true,
+    },
+    entityId: {
+      type: String,
+      required: [true, 'Entity ID is required'],
+      index: true,
+    },
+    type: {
+      type: String,
+      enum: ['create', 'update', 'delete'],
+      required: [true, 'Operation type is required'],
+    },
+    entityType: {
+      type: String,
+      enum: ['task', 'project', 'client', 'team', 'member'],
+      required: [true, 'Entity type is required'],
+    },
+    data: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    maxRetries: {
+      type: Number,
+      required: true,
+    },
+    error: {
+      type: String,
+    },
+    queuedAt: {
+      type: Date,
+      required: true,
+    },
+    failedAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    status: {
+      type: String,
+      enum: ['failed', 'retried'],
+      default: 'failed',
+      index: true,
+    },
+    retriedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+    minimize: false,
+    collection: 'syncdeadletters',
+  }
+);
+
+SyncDeadLetterSchema.index({ status: 1, failedAt: -1 });
+
+export const SyncDeadLetterModel = mongoose.model<ISyncDeadLetter>('SyncDeadLetter', SyncDeadLetterSchema);
+
+export default SyncDeadLetterModel;
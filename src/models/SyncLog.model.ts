@@ -22,6 +22,14 @@ export interface ISyncLog extends Document {
     current: number;
     total: number;
   };
+  cachePatch?: {
+    entityId: string;
+    action: 'upserted' | 'removed' | 'skipped';
+    windowsScanned: number;
+    windowsPatched: number; // Fenêtres où la tâche a été ajoutée ou mise à jour
+    windowsLeft: number; // Fenêtres d'où la tâche a été retirée
+    indexUpdated: boolean;
+  };
   createdAt: Date;
   updatedAt: Date;
 }
@@ -120,6 +128,17 @@ const SyncLogSchema: Schema = new Schema(
         type: Number,
         min: 0,
       }
+    },
+    cachePatch: {
+      entityId: String,
+      action: {
+        type: String,
+        enum: ['upserted', 'removed', 'skipped'],
+      },
+      windowsScanned: Number,
+      windowsPatched: Number,
+      windowsLeft: Number,
+      indexUpdated: Boolean,
     }
   },
   {
@@ -0,0 +1,85 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type SyncQueueOperation = 'create' | 'update' | 'delete';
+export type SyncQueueEntityType = 'task' | 'project' | 'client' | 'team' | 'member';
+
+/**
+ * Interface for a pending item of the Notion sync queue
+ * Persisted so that a restart doesn't lose edits made in ?async=true mode
+ */
+export interface ISyncQueueItem extends Document {
+  queueId: string; // Identifiant unique de l'opération dans la queue
+  entityId: string; // ID Notion (ou temporaire) de l'entité ciblée
+  type: SyncQueueOperation;
+  entityType: SyncQueueEntityType;
+  data: any;
+  attempts: number;
+  maxRetries: number;
+  lastAttempt?: Date;
+  error?: string;
+  queuedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose schema for sync queue items
+ */
+const SyncQueueItemSchema: Schema = new Schema(
+  {
+    queueId: {
+      type: String,
+      required: [true, 'Queue ID is required'],
+      unique: true,
+    },
+    entityId: {
+      type: String,
+      required: [true, 'Entity ID is required'],
+      index: true,
+    },
+    type: {
+      type: String,
+      enum: ['create', 'update', 'delete'],
+      required: [true, 'Operation type is required'],
+    },
+    entityType: {
+      type: String,
+      enum: ['task', 'project', 'client', 'team', 'member'],
+      required: [true, 'Entity type is required'],
+    },
+    data: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    maxRetries: {
+      type: Number,
+      required: true,
+    },
+    lastAttempt: {
+      type: Date,
+    },
+    error: {
+      type: String,
+    },
+    queuedAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+      index: true,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+    minimize: false,
+  }
+);
+
+export const SyncQueueItemModel = mongoose.model<ISyncQueueItem>('SyncQueueItem', SyncQueueItemSchema);
+
+export default SyncQueueItemModel;
@@ -1,30 +1,58 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+export const SCHEDULING_CONFLICT_TYPES = [
+  'overlap',
+  'holiday',
+  'school',
+  'overload',
+  'public_holiday',
+  'weekend',
+  'company_closure'
+] as const;
+
+export type SchedulingConflictType = typeof SCHEDULING_CONFLICT_TYPES[number];
+
 /**
- * Interface for scheduling conflicts (overlap, holiday, school, overload)
+ * Interface for scheduling conflicts (overlap, holiday, school, overload, public holiday, weekend, company closure)
  * These are different from sync conflicts - they represent planning issues
  */
 export interface ITaskSchedulingConflict extends Document {
   taskId: string; // Notion ID of the task
-  type: 'overlap' | 'holiday' | 'school' | 'overload';
+  type: SchedulingConflictType;
   severity: 'low' | 'medium' | 'high';
   message: string;
   memberId: string;
   memberName?: string;
   conflictingTaskId?: string;
   conflictingTaskTitle?: string;
-  status: 'active' | 'resolved' | 'ignored';
+  date?: string; // YYYY-MM-DD pour les conflits d'un jour (férié, week-end, fermeture, surcharge)
+  fingerprint?: string; // Identifie le conflit d'une détection à l'autre (décisions)
+  status: 'active' | 'acknowledged' | 'resolved' | 'ignored';
+  decisionReason?: string;
+  decidedBy?: string;
+  decidedAt?: Date;
   detectedAt: Date;
   resolvedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Scope of the active conflicts of a member: conflicts of the given tasks or dated within the range
+ */
+export interface MemberConflictQueryOptions {
+  taskIds: string[];
+  startDate: string; // YYYY-MM-DD, inclusif
+  endDate: string; // YYYY-MM-DD, inclusif
+  limit: number;
+}
+
 /**
  * Interface for the model with static methods
  */
 export interface ITaskSchedulingConflictModel extends mongoose.Model<ITaskSchedulingConflict> {
   findActiveForTasks(taskIds: string[]): Promise<ITaskSchedulingConflict[]>;
+  findActiveForMember(memberId: string, options: MemberConflictQueryOptions): Promise<ITaskSchedulingConflict[]>;
   resolveForTask(taskId: string): Promise<any>;
   deleteForTask(taskId: string): Promise<any>;
   bulkSaveConflicts(taskId: string, conflicts: any[]): Promise<ITaskSchedulingConflict[]>;
@@ -42,7 +70,7 @@ const TaskSchedulingConflictSchema: Schema = new Schema(
     },
     type: {
       type: String,
-      enum: ['overlap', 'holiday', 'school', 'overload'],
+      enum: SCHEDULING_CONFLICT_TYPES,
       required: [true, 'Conflict type is required'],
       index: true,
     },
@@ -74,9 +102,16 @@ const TaskSchedulingConflictSchema: Schema = new Schema(
       type: String,
       trim: true,
     },
+    date: {
+      type: String,
+    },
+    fingerprint: {
+      type: String,
+      index: true,
+    },
     status: {
       type: String,
-      enum: ['active', 'resolved', 'ignored'],
+      enum: ['active', 'acknowledged', 'resolved', 'ignored'],
       default: 'active',
       required: true,
       index: true,
@@ -89,6 +124,16 @@ const TaskSchedulingConflictSchema: Schema = new Schema(
     resolvedAt: {
       type: Date,
     },
+    decisionReason: {
+      type: String,
+      trim: true,
+    },
+    decidedBy: {
+      type: String,
+    },
+    decidedAt: {
+      type: Date,
+    },
   },
   {
     timestamps: true,
@@ -104,15 +149,29 @@ TaskSchedulingConflictSchema.index({ memberId: 1, status: 1, detectedAt: -1 });
 // No TTL index needed since we delete conflicts immediately when resolved
 
 /**
- * Static method to find active conflicts for tasks
+ * Static method to find active conflicts for tasks (acknowledged ones included, ignored ones excluded)
  */
 TaskSchedulingConflictSchema.statics.findActiveForTasks = function(taskIds: string[]) {
   return this.find({
     taskId: { $in: taskIds },
-    status: 'active'
+    status: { $in: ['active', 'acknowledged'] }
   });
 };
 
+/**
+ * Static method to find active conflicts of a member on some tasks or dates, most recent first (ignored ones excluded)
+ */
+TaskSchedulingConflictSchema.statics.findActiveForMember = function(memberId: string, options: MemberConflictQueryOptions) {
+  return this.find({
+    memberId,
+    status: { $in: ['active', 'acknowledged'] },
+    $or: [
+      { taskId: { $in: options.taskIds } },
+      { date: { $gte: options.startDate, $lte: options.endDate } }
+    ]
+  }).sort({ detectedAt: -1 }).limit(options.limit);
+};
+
 /**
  * Static method to resolve all conflicts for a task
  */
@@ -135,6 +194,7 @@ TaskSchedulingConflictSchema.statics.deleteForTask = function(taskId: string) {
 
 /**
  * Static method to bulk save conflicts
+ * Conflicts keep the status given by a previous decision (acknowledged, ignored)
  */
 TaskSchedulingConflictSchema.statics.bulkSaveConflicts = async function(
   taskId: string, 
@@ -142,7 +202,7 @@ TaskSchedulingConflictSchema.statics.bulkSaveConflicts = async function(
 ) {
   // First, mark existing conflicts as resolved
   await this.updateMany(
-    { taskId, status: 'active' },
+    { taskId, status: { $in: ['active', 'acknowledged', 'ignored'] } },
     { 
       status: 'resolved',
       resolvedAt: new Date()
@@ -154,7 +214,7 @@ TaskSchedulingConflictSchema.statics.bulkSaveConflicts = async function(
     const docs = conflicts.map(conflict => ({
       taskId,
       ...conflict,
-      status: 'active',
+      status: conflict.status || 'active',
       detectedAt: new Date()
     }));
     
@@ -0,0 +1,63 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { SyncQueueEntityType } from './SyncQueueItem.model';
+
+export type TempIdStatus = 'pending' | 'synced' | 'failed' | 'cancelled';
+
+/**
+ * Interface for the temporary ID registry
+ * Maps the ID returned by an async creation (?async=true) to the real Notion page ID
+ */
+export interface ITempIdMapping extends Document {
+  tempId: string;
+  entityType: SyncQueueEntityType;
+  notionId?: string;
+  status: TempIdStatus;
+  error?: string;
+  syncedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose schema for temporary ID mappings
+ */
+const TempIdMappingSchema: Schema = new Schema(
+  {
+    tempId: {
+      type: String,
+      required: [true, 'Temporary ID is required'],
+      unique: true,
+    },
+    entityType: {
+      type: String,
+      enum: ['task', 'project', 'client', 'team', 'member'],
+      default: 'task',
+    },
+    notionId: {
+      type: String,
+      index: true,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'synced', 'failed', 'cancelled'],
+      default: 'pending',
+    },
+    error: {
+      type: String,
+    },
+    syncedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// Les clients n'ont besoin du mapping que le temps de récupérer l'ID réel
+TempIdMappingSchema.index({ createdAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+export const TempIdMappingModel = mongoose.model<ITempIdMapping>('TempIdMapping', TempIdMappingSchema);
+
+export default TempIdMappingModel;
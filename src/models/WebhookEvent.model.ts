@@ -0,0 +1,99 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type WebhookEventStatus = 'received' | 'processing' | 'processed' | 'ignored' | 'failed';
+
+/**
+ * Interface for stored Notion webhook events
+ * Keyed on Notion's own event ID so that redeliveries are processed only once
+ */
+export interface IWebhookEvent extends Document {
+  eventId: string; // ID de l'événement fourni par Notion (ou empreinte du payload)
+  type?: string;
+  entityId?: string;
+  databaseId?: string;
+  entityType?: 'Task' | 'Project' | 'Member' | 'Team' | 'Client';
+  payload: any;
+  status: WebhookEventStatus;
+  deliveries: number;
+  lastDeliveredAt: Date;
+  processedAt?: Date;
+  replayCount: number;
+  lastReplayedAt?: Date;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose schema for webhook events
+ */
+const WebhookEventSchema: Schema = new Schema(
+  {
+    eventId: {
+      type: String,
+      required: [true, 'Event ID is required'],
+      unique: true,
+    },
+    type: {
+      type: String,
+      index: true,
+    },
+    entityId: {
+      type: String,
+      index: true,
+    },
+    databaseId: {
+      type: String,
+    },
+    entityType: {
+      type: String,
+      enum: ['Task', 'Project', 'Member', 'Team', 'Client'],
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['received', 'processing', 'processed', 'ignored', 'failed'],
+      default: 'received',
+      index: true,
+    },
+    deliveries: {
+      type: Number,
+      default: 1,
+      min: 0,
+    },
+    lastDeliveredAt: {
+      type: Date,
+      default: Date.now,
+    },
+    processedAt: {
+      type: Date,
+    },
+    replayCount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    lastReplayedAt: {
+      type: Date,
+    },
+    error: {
+      type: String,
+      maxlength: [1000, 'Error message cannot exceed 1000 characters'],
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+    minimize: false,
+  }
+);
+
+// Index TTL : même rétention que les SyncLog (30 jours)
+WebhookEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+export const WebhookEventModel = mongoose.model<IWebhookEvent>('WebhookEvent', WebhookEventSchema);
+
+export default WebhookEventModel;
@@ -0,0 +1,127 @@
+import { Router } from 'express';
+import { CalendarSyncController } from '../../controllers/calendar-sync.controller';
+import { authenticate } from '../../middleware/auth.middleware';
+import { requireAdmin } from '../../middleware/auth.middleware';
+
+const router = Router();
+const calendarSyncController = new CalendarSyncController();
+
+router.use(authenticate);
+router.use(requireAdmin);
+
+/**
+ * @swagger
+ * /api/v1/admin/calendar-sync/status:
+ *   get:
+ *     summary: Get the calendar sync status
+ *     description: Provider configuration, last run result, number of linked events and last pull of each calendar
+ *     tags: [Calendar Sync]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Status retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     configured:
+ *                       type: boolean
+ *                     provider:
+ *                       type: string
+ *                       nullable: true
+ *                       example: google
+ *                     running:
+ *                       type: boolean
+ *                     lastRun:
+ *                       $ref: '#/components/schemas/CalendarSyncRunResult'
+ *                     links:
+ *                       type: object
+ *                       properties:
+ *                         active:
+ *                           type: integer
+ *                         deletedRemotely:
+ *                           type: integer
+ *                           description: Events deleted by the assignee, not recreated
+ *                     calendars:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           calendarId:
+ *                             type: string
+ *                           lastPulledAt:
+ *                             type: string
+ *                             format: date-time
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin role required
+ */
+router.get('/status', calendarSyncController.getStatus.bind(calendarSyncController));
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     CalendarSyncRunResult:
+ *       type: object
+ *       properties:
+ *         skipped:
+ *           type: boolean
+ *         tasksChecked:
+ *           type: integer
+ *         created:
+ *           type: integer
+ *         updated:
+ *           type: integer
+ *         deleted:
+ *           type: integer
+ *         remoteChangesApplied:
+ *           type: integer
+ *           description: Calendar-side edits (title, dates) written back to Notion
+ *         conflicts:
+ *           type: integer
+ *           description: Events changed on both sides, the Notion version was kept
+ *         errors:
+ *           type: array
+ *           items:
+ *             type: string
+ *
+ * /api/v1/admin/calendar-sync/run:
+ *   post:
+ *     summary: Run a calendar sync now
+ *     description: Pulls the changes made on the assignees' calendars, then pushes the tasks flagged "Ajouter au calendrier" from the last 7 days to the next 90 days
+ *     tags: [Calendar Sync]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sync completed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/CalendarSyncRunResult'
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin role required
+ *       409:
+ *         description: A sync is already running
+ *       503:
+ *         description: No calendar provider configured
+ */
+router.post('/run', calendarSyncController.runSync.bind(calendarSyncController));
+
+export default router;
@@ -0,0 +1,127 @@
+import { Router } from 'express';
+import { CompanyClosuresController } from '../../controllers/company-closures.controller';
+import { authenticate } from '../../middleware/auth.middleware';
+import { requireAdmin } from '../../middleware/auth.middleware';
+
+const router = Router();
+const companyClosuresController = new CompanyClosuresController();
+
+router.use(authenticate);
+router.use(requireAdmin);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     CompanyClosure:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         label:
+ *           type: string
+ *           example: Fermeture de fin d'année
+ *         startDate:
+ *           type: string
+ *           format: date
+ *           description: First closed day
+ *           example: "2025-12-24"
+ *         endDate:
+ *           type: string
+ *           format: date
+ *           description: Last closed day (inclusive)
+ *           example: "2026-01-02"
+ */
+
+/**
+ * @swagger
+ * /api/v1/admin/company-closures:
+ *   get:
+ *     summary: List company closures (Admin only)
+ *     description: Closed days are returned alongside the public holidays by GET /api/v1/holidays/{year} and raise a company_closure conflict for tasks scheduled on them.
+ *     tags: [Company Closures]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: year
+ *         schema:
+ *           type: integer
+ *         description: Only the closures touching this year
+ *     responses:
+ *       200:
+ *         description: Closures retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Admin only
+ *   post:
+ *     summary: Create a company closure (Admin only)
+ *     tags: [Company Closures]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/CompanyClosure'
+ *               - required: [label, startDate, endDate]
+ *     responses:
+ *       201:
+ *         description: Closure created
+ *       400:
+ *         description: Invalid closure
+ */
+router.get('/', companyClosuresController.getClosures.bind(companyClosuresController));
+router.post('/', companyClosuresController.createClosure.bind(companyClosuresController));
+
+/**
+ * @swagger
+ * /api/v1/admin/company-closures/{id}:
+ *   put:
+ *     summary: Update a company closure (Admin only)
+ *     tags: [Company Closures]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CompanyClosure'
+ *     responses:
+ *       200:
+ *         description: Closure updated
+ *       400:
+ *         description: Invalid closure
+ *       404:
+ *         description: Closure not found
+ *   delete:
+ *     summary: Delete a company closure (Admin only)
+ *     tags: [Company Closures]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Closure deleted
+ *       404:
+ *         description: Closure not found
+ */
+router.put('/:id', companyClosuresController.updateClosure.bind(companyClosuresController));
+router.delete('/:id', companyClosuresController.deleteClosure.bind(companyClosuresController));
+
+export default router;
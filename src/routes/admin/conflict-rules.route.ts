@@ -0,0 +1,272 @@
+import { Router } from 'express';
+import { ConflictRulesController } from '../../controllers/conflict-rules.controller';
+import { authenticate } from '../../middleware/auth.middleware';
+import { requireAdmin } from '../../middleware/auth.middleware';
+
+const router = Router();
+const conflictRulesController = new ConflictRulesController();
+
+router.use(authenticate);
+router.use(requireAdmin);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ConflictRule:
+ *       type: object
+ *       description: Empty criteria match everything. The first matching rule of a set decides; conflicts matching no rule are kept with their default severity.
+ *       properties:
+ *         description:
+ *           type: string
+ *         conflictTypes:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [overlap, holiday, school, overload, public_holiday, weekend, company_closure]
+ *         taskTypes:
+ *           type: array
+ *           description: Type of the checked task
+ *           items:
+ *             type: string
+ *             enum: [task, holiday, school, remote]
+ *         otherTaskTypes:
+ *           type: array
+ *           description: Type of the conflicting task (overlaps only)
+ *           items:
+ *             type: string
+ *             enum: [task, holiday, school, remote]
+ *         teams:
+ *           type: array
+ *           description: Team IDs of the checked task
+ *           items:
+ *             type: string
+ *         enabled:
+ *           type: boolean
+ *           description: false - matching combinations are never conflicts
+ *         severity:
+ *           type: string
+ *           enum: [low, medium, high]
+ *           nullable: true
+ *         minOverlapMinutes:
+ *           type: integer
+ *           nullable: true
+ *           description: Shorter overlaps are ignored
+ *         overloadToleranceHours:
+ *           type: number
+ *           nullable: true
+ *           description: Capacity overruns up to this many hours are ignored
+ *     ConflictRuleSet:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         name:
+ *           type: string
+ *         description:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [draft, active, archived]
+ *         rules:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/ConflictRule'
+ *         activatedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ */
+
+/**
+ * @swagger
+ * /api/v1/admin/conflict-rules:
+ *   get:
+ *     summary: List conflict rule sets (Admin only)
+ *     description: Returns the rule sets (active first) and the built-in rules used when none is active.
+ *     tags: [Conflict Rules]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Rule sets retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Admin only
+ *   post:
+ *     summary: Create a draft conflict rule set (Admin only)
+ *     description: Starts from the built-in rules when no rules are given.
+ *     tags: [Conflict Rules]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               rules:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/ConflictRule'
+ *     responses:
+ *       201:
+ *         description: Rule set created
+ *       400:
+ *         description: Invalid rule set
+ */
+router.get('/', conflictRulesController.getRuleSets.bind(conflictRulesController));
+router.post('/', conflictRulesController.createRuleSet.bind(conflictRulesController));
+
+/**
+ * @swagger
+ * /api/v1/admin/conflict-rules/{id}:
+ *   get:
+ *     summary: Get a conflict rule set (Admin only)
+ *     tags: [Conflict Rules]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rule set retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ConflictRuleSet'
+ *       404:
+ *         description: Rule set not found
+ *   put:
+ *     summary: Update a draft conflict rule set (Admin only)
+ *     tags: [Conflict Rules]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               rules:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/ConflictRule'
+ *     responses:
+ *       200:
+ *         description: Rule set updated
+ *       400:
+ *         description: Invalid rule set
+ *       404:
+ *         description: Rule set not found
+ *       409:
+ *         description: Only draft rule sets can be modified
+ *   delete:
+ *     summary: Delete a draft or archived conflict rule set (Admin only)
+ *     tags: [Conflict Rules]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rule set deleted
+ *       404:
+ *         description: Rule set not found
+ *       409:
+ *         description: The active rule set cannot be deleted
+ */
+router.get('/:id', conflictRulesController.getRuleSet.bind(conflictRulesController));
+router.put('/:id', conflictRulesController.updateRuleSet.bind(conflictRulesController));
+router.delete('/:id', conflictRulesController.deleteRuleSet.bind(conflictRulesController));
+
+/**
+ * @swagger
+ * /api/v1/admin/conflict-rules/{id}/dry-run:
+ *   post:
+ *     summary: Dry-run a conflict rule set on a date range (Admin only)
+ *     description: Re-evaluates the conflicts of the tasks in the range with the rule set and with the active rules, without saving anything. Returns both summaries and the conflicts added, removed or whose severity changes.
+ *     tags: [Conflict Rules]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [startDate, endDate]
+ *             properties:
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *                 description: At most 93 days after startDate
+ *     responses:
+ *       200:
+ *         description: Dry run result
+ *       400:
+ *         description: Invalid date range
+ *       404:
+ *         description: Rule set not found
+ */
+router.post('/:id/dry-run', conflictRulesController.dryRunRuleSet.bind(conflictRulesController));
+
+/**
+ * @swagger
+ * /api/v1/admin/conflict-rules/{id}/activate:
+ *   post:
+ *     summary: Activate a conflict rule set (Admin only)
+ *     description: The previously active rule set is archived. Conflict detection uses the new rules within a minute.
+ *     tags: [Conflict Rules]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rule set activated
+ *       404:
+ *         description: Rule set not found
+ */
+router.post('/:id/activate', conflictRulesController.activateRuleSet.bind(conflictRulesController));
+
+export default router;
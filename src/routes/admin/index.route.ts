@@ -4,6 +4,10 @@ import metricsRouter from './metrics.route';
 import conflictsRouter from './conflicts.route';
 import syncRouter from './sync.route';
 import configRouter from './config.route';
+import memberSchedulesRouter from './member-schedules.route';
+import calendarSyncRouter from './calendar-sync.route';
+import companyClosuresRouter from './company-closures.route';
+import conflictRulesRouter from './conflict-rules.route';
 
 const router = Router();
 
@@ -21,6 +25,18 @@ router.use('/admin/metrics', metricsRouter);
 // Conflicts management routes
 router.use('/admin/conflicts', conflictsRouter);
 
+// Scheduling conflict rule sets routes
+router.use('/admin/conflict-rules', conflictRulesRouter);
+
+// Member working schedules routes
+router.use('/admin/member-schedules', memberSchedulesRouter);
+
+// Company closure days routes
+router.use('/admin/company-closures', companyClosuresRouter);
+
+// Calendar (Google Calendar) sync routes
+router.use('/admin/calendar-sync', calendarSyncRouter);
+
 // Sync status routes
 router.use('/sync', syncRouter);
 
@@ -0,0 +1,151 @@
+import { Router } from 'express';
+import { MemberSchedulesController } from '../../controllers/member-schedules.controller';
+import { authenticate } from '../../middleware/auth.middleware';
+import { requireAdmin } from '../../middleware/auth.middleware';
+
+const router = Router();
+const memberSchedulesController = new MemberSchedulesController();
+
+router.use(authenticate);
+router.use(requireAdmin);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     MemberSchedule:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         memberId:
+ *           type: string
+ *         workingDays:
+ *           type: array
+ *           items:
+ *             type: integer
+ *             minimum: 1
+ *             maximum: 7
+ *           description: ISO weekdays worked (1 = Monday)
+ *           example: [1, 2, 3, 4]
+ *         dailyHours:
+ *           type: number
+ *           example: 7.5
+ *         partTimePercentage:
+ *           type: number
+ *           example: 80
+ *         startTime:
+ *           type: string
+ *           description: Start of the working day (HH:mm), used to place all-day tasks
+ *           example: "09:00"
+ *         endTime:
+ *           type: string
+ *           example: "18:00"
+ *         effectiveFrom:
+ *           type: string
+ *           format: date
+ *           nullable: true
+ *           description: First day the schedule applies (null = since always)
+ *         effectiveTo:
+ *           type: string
+ *           format: date
+ *           nullable: true
+ *           description: Last day the schedule applies (null = open-ended)
+ */
+
+/**
+ * @swagger
+ * /api/v1/admin/member-schedules:
+ *   get:
+ *     summary: List member working schedules (Admin only)
+ *     description: Schedules drive overload detection, all-day task placement and workload capacity. Members without a schedule for a day use Monday-Friday, 8h, 07:00-22:00.
+ *     tags: [Member Schedules]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: memberId
+ *         schema:
+ *           type: string
+ *         description: Only the schedules of this member
+ *     responses:
+ *       200:
+ *         description: Schedules retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Admin only
+ *   post:
+ *     summary: Create a member working schedule (Admin only)
+ *     tags: [Member Schedules]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/MemberSchedule'
+ *               - required: [memberId]
+ *     responses:
+ *       201:
+ *         description: Schedule created
+ *       400:
+ *         description: Invalid schedule
+ *       409:
+ *         description: The period overlaps another schedule of the member
+ */
+router.get('/', memberSchedulesController.getSchedules.bind(memberSchedulesController));
+router.post('/', memberSchedulesController.createSchedule.bind(memberSchedulesController));
+
+/**
+ * @swagger
+ * /api/v1/admin/member-schedules/{id}:
+ *   put:
+ *     summary: Update a member working schedule (Admin only)
+ *     tags: [Member Schedules]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/MemberSchedule'
+ *     responses:
+ *       200:
+ *         description: Schedule updated
+ *       400:
+ *         description: Invalid schedule
+ *       404:
+ *         description: Schedule not found
+ *       409:
+ *         description: The period overlaps another schedule of the member
+ *   delete:
+ *     summary: Delete a member working schedule (Admin only)
+ *     tags: [Member Schedules]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Schedule deleted
+ *       404:
+ *         description: Schedule not found
+ */
+router.put('/:id', memberSchedulesController.updateSchedule.bind(memberSchedulesController));
+router.delete('/:id', memberSchedulesController.deleteSchedule.bind(memberSchedulesController));
+
+export default router;
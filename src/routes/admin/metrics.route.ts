@@ -68,6 +68,7 @@ router.get("/latency/history", metricsController.getLatencyHistory.bind(metricsC
  * /api/v1/admin/metrics/queue:
  *   get:
  *     summary: Get sync queue metrics
+ *     description: Includes the number of coalesced operations (updates merged into a pending item, create+delete pairs cancelled before sync)
  *     tags: [Metrics]
  *     security:
  *       - bearerAuth: []
@@ -59,6 +59,15 @@ const router = Router();
  *                           type: integer
  *                         itemsInQueue:
  *                           type: array
+ *                           description: Pending items with payload, attempts and last error
+ *                     deadLetter:
+ *                       type: object
+ *                       description: Items that exhausted their retries (persisted)
+ *                       properties:
+ *                         count:
+ *                           type: integer
+ *                         items:
+ *                           type: array
  *       401:
  *         description: Unauthorized
  *       500:
@@ -74,6 +83,12 @@ router.get('/status', authenticate, syncController.getSyncStatus.bind(syncContro
  *     tags: [Sync]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: includeDeadLetters
+ *         schema:
+ *           type: boolean
+ *         description: Also purge the dead-letter collection
  *     responses:
  *       200:
  *         description: Queue cleared successfully
@@ -96,9 +111,22 @@ router.post(
  * /api/v1/sync/retry-failed:
  *   post:
  *     summary: Retry failed synchronization items (Admin only)
+ *     description: Requeues dead-letter items. Retries every failed item when no IDs are given.
  *     tags: [Sync]
  *     security:
  *       - bearerAuth: []
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               ids:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Queue IDs of the dead-letter items to retry
  *     responses:
  *       200:
  *         description: Failed items queued for retry
@@ -131,4 +159,66 @@ router.post(
   syncController.retryFailed.bind(syncController)
 );
 
+/**
+ * @swagger
+ * /api/v1/sync/reconcile:
+ *   post:
+ *     summary: Run the polling reconciliation now (Admin only)
+ *     description: Reconciles the cache with the Notion pages edited since the last sync, for every entity type whose webhook is not healthy.
+ *     tags: [Sync]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: force
+ *         schema:
+ *           type: boolean
+ *         description: Also poll entity types whose webhook is healthy
+ *     responses:
+ *       200:
+ *         description: Reconciliation done
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     results:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           entityType:
+ *                             type: string
+ *                             enum: [Task, Project, Member, Team, Client]
+ *                           skipped:
+ *                             type: boolean
+ *                             description: Webhook healthy, nothing polled
+ *                           itemsProcessed:
+ *                             type: integer
+ *                           itemsFailed:
+ *                             type: integer
+ *                           since:
+ *                             type: string
+ *                             format: date-time
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Admin only
+ *       409:
+ *         description: A reconciliation is already running
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  '/reconcile',
+  authenticate,
+  requireAdmin,
+  syncController.reconcile.bind(syncController)
+);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,196 @@
+import { Router } from "express";
+import { calendarFeedsController } from "../../controllers/calendar-feeds/calendar-feeds.controller";
+import { authenticate } from "../../middleware/auth.middleware";
+
+const router = Router();
+
+/**
+ * Calendar Feeds Routes
+ * Base path: /api/v1/calendar-feeds
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     CalendarFeed:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         scope:
+ *           type: string
+ *           enum: [member, team, project]
+ *         targetId:
+ *           type: string
+ *           description: Notion ID of the member, team or project
+ *         ownerId:
+ *           type: string
+ *         label:
+ *           type: string
+ *           nullable: true
+ *         revokedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         lastAccessedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/v1/calendar-feeds:
+ *   get:
+ *     summary: List calendar feeds
+ *     description: Feeds created by the current user. Admins can list every feed with all=true.
+ *     tags:
+ *       - Calendar Feeds
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: all
+ *         schema:
+ *           type: string
+ *           enum: ["true", "false"]
+ *         description: Admin only, list the feeds of every user
+ *     responses:
+ *       200:
+ *         description: Feeds retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/CalendarFeed'
+ *                 count:
+ *                   type: number
+ *       401:
+ *         description: Unauthorized
+ *   post:
+ *     summary: Create a calendar feed
+ *     description: Creates a read-only iCalendar feed for a member, team or project. The returned URL embeds a secret token and is only shown once; subscribe to it from any calendar app.
+ *     tags:
+ *       - Calendar Feeds
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [scope, targetId]
+ *             properties:
+ *               scope:
+ *                 type: string
+ *                 enum: [member, team, project]
+ *               targetId:
+ *                 type: string
+ *               label:
+ *                 type: string
+ *                 maxLength: 100
+ *     responses:
+ *       201:
+ *         description: Feed created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/CalendarFeed'
+ *                     - type: object
+ *                       properties:
+ *                         url:
+ *                           type: string
+ *                           example: "https://api.example.com/api/v1/calendar-feeds/3f9c...e1.ics"
+ *       400:
+ *         description: Invalid body
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Member, team or project not found
+ */
+router.get("/", authenticate, calendarFeedsController.getFeeds);
+router.post("/", authenticate, calendarFeedsController.createFeed);
+
+/**
+ * @swagger
+ * /api/v1/calendar-feeds/{token}.ics:
+ *   get:
+ *     summary: Get an iCalendar feed
+ *     description: |
+ *       Public endpoint authenticated by the feed token. Covers the previous month and the next six months.
+ *       Timed tasks are exported in UTC, all-day tasks as dates; holiday, remote and school tasks produce one event per day.
+ *     tags:
+ *       - Calendar Feeds
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: ICS document
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Unknown or revoked feed
+ */
+router.get("/:token.ics", calendarFeedsController.getFeedIcs);
+
+/**
+ * @swagger
+ * /api/v1/calendar-feeds/{id}:
+ *   delete:
+ *     summary: Revoke a calendar feed
+ *     description: The feed URL stops working immediately. Only the feed owner or an admin can revoke it.
+ *     tags:
+ *       - Calendar Feeds
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Feed revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/CalendarFeed'
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not the owner of the feed
+ *       404:
+ *         description: Feed not found
+ */
+router.delete("/:id", authenticate, calendarFeedsController.revokeFeed);
+
+export default router;
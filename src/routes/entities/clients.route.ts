@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import clientsController from '../../controllers/clients/clients.controller';
-import { authenticate, requireAdmin } from '../../middleware/auth.middleware';
+import { authenticate, requireAdmin, requireManagerOrAbove } from '../../middleware/auth.middleware';
 
 const router = Router();
 
@@ -133,4 +133,268 @@ router.get('/colors', authenticate, clientsController.getClientColors);
  */
 router.put('/colors', authenticate, requireAdmin, clientsController.updateClientColors);
 
+/**
+ * @swagger
+ * /api/v1/clients/{id}/overview:
+ *   get:
+ *     summary: Get client overview
+ *     description: Dashboard to prepare client meetings. Active projects, upcoming client planning milestones, billed and actual hours per month over the last 12 months (by task start date) and the members most involved over the same period.
+ *     tags:
+ *       - Clients
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Notion client ID
+ *     responses:
+ *       200:
+ *         description: Client overview built successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     client:
+ *                       type: object
+ *                       properties:
+ *                         id:
+ *                           type: string
+ *                         name:
+ *                           type: string
+ *                     activeProjects:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                           name:
+ *                             type: string
+ *                           status:
+ *                             type: string
+ *                             example: "En cours"
+ *                           taskCount:
+ *                             type: number
+ *                     projectCount:
+ *                       type: number
+ *                       description: Number of projects of the client, all statuses
+ *                     upcomingMilestones:
+ *                       type: array
+ *                       description: Next 10 client planning tasks not finished yet, soonest first
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                           title:
+ *                             type: string
+ *                           project:
+ *                             type: object
+ *                             properties:
+ *                               id:
+ *                                 type: string
+ *                               name:
+ *                                 type: string
+ *                           startDate:
+ *                             type: string
+ *                             format: date
+ *                           endDate:
+ *                             type: string
+ *                             format: date
+ *                           isAllDay:
+ *                             type: boolean
+ *                           status:
+ *                             type: string
+ *                             enum: [not_started, in_progress, completed]
+ *                             nullable: true
+ *                     monthlyHours:
+ *                       type: array
+ *                       description: One entry per month, oldest first, empty months included
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           month:
+ *                             type: string
+ *                             example: "2025-03"
+ *                           billedHours:
+ *                             type: number
+ *                           actualHours:
+ *                             type: number
+ *                     totalHours:
+ *                       type: object
+ *                       properties:
+ *                         billedHours:
+ *                           type: number
+ *                         actualHours:
+ *                           type: number
+ *                     topMembers:
+ *                       type: array
+ *                       description: Top 5 members by number of tasks over the period
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                           name:
+ *                             type: string
+ *                           email:
+ *                             type: string
+ *                           taskCount:
+ *                             type: number
+ *                           actualHours:
+ *                             type: number
+ *                 meta:
+ *                   type: object
+ *                   properties:
+ *                     months:
+ *                       type: number
+ *                       example: 12
+ *                     timestamp:
+ *                       type: string
+ *                       format: date-time
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Client not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/overview', authenticate, clientsController.getClientOverview);
+
+/**
+ * @swagger
+ * /api/v1/clients:
+ *   post:
+ *     summary: Create a client
+ *     description: Create the client page in Notion. With async=true the creation is queued and a temporary ID is returned right away.
+ *     tags:
+ *       - Clients
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: async
+ *         schema:
+ *           type: boolean
+ *         description: Queue the creation for background sync
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Client created (or queued)
+ *       400:
+ *         description: Invalid request data
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Insufficient permissions
+ *       429:
+ *         description: Rate limit exceeded
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/', authenticate, requireManagerOrAbove, clientsController.createClient);
+
+/**
+ * @swagger
+ * /api/v1/clients/{id}:
+ *   put:
+ *     summary: Update a client
+ *     description: Rename the client
+ *     tags:
+ *       - Clients
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Notion client ID (or temporary ID of a queued creation)
+ *       - in: query
+ *         name: async
+ *         schema:
+ *           type: boolean
+ *         description: Queue the update for background sync
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Client updated (or queued)
+ *       400:
+ *         description: Invalid request data
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: Client not found
+ *       500:
+ *         description: Internal server error
+ */
+router.put('/:id', authenticate, requireManagerOrAbove, clientsController.updateClient);
+
+/**
+ * @swagger
+ * /api/v1/clients/{id}:
+ *   delete:
+ *     summary: Archive a client
+ *     description: Archive the client page in Notion (soft delete)
+ *     tags:
+ *       - Clients
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Notion client ID (or temporary ID of a queued creation)
+ *       - in: query
+ *         name: async
+ *         schema:
+ *           type: boolean
+ *         description: Queue the archive for background sync
+ *     responses:
+ *       200:
+ *         description: Client archived (or queued)
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: Client not found
+ *       500:
+ *         description: Internal server error
+ */
+router.delete('/:id', authenticate, requireManagerOrAbove, clientsController.archiveClient);
+
 export default router;
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import membersController from '../../controllers/members/members.controller';
-import { authenticate } from '../../middleware/auth.middleware';
+import { authenticate, requireManagerOrAbove } from '../../middleware/auth.middleware';
 
 const router = Router();
 
@@ -65,4 +65,338 @@ const router = Router();
  */
 router.get('/', authenticate, membersController.getAllMembers);
 
+/**
+ * @swagger
+ * /api/v1/members/{id}:
+ *   get:
+ *     summary: Get a member detail
+ *     description: Member profile with their teams, tasks, absences (holiday/school tasks) and remote days over the next weeks, active scheduling conflicts on the period (acknowledged included) and the linked application user, if any.
+ *     tags:
+ *       - Members
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Notion member ID
+ *       - in: query
+ *         name: weeks
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 12
+ *           default: 4
+ *         description: Number of weeks to look ahead, starting today
+ *     responses:
+ *       200:
+ *         description: Member detail retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     member:
+ *                       type: object
+ *                       properties:
+ *                         id:
+ *                           type: string
+ *                         name:
+ *                           type: string
+ *                         email:
+ *                           type: string
+ *                     teams:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                           name:
+ *                             type: string
+ *                     user:
+ *                       type: object
+ *                       nullable: true
+ *                       properties:
+ *                         id:
+ *                           type: string
+ *                         email:
+ *                           type: string
+ *                         firstName:
+ *                           type: string
+ *                         lastName:
+ *                           type: string
+ *                         role:
+ *                           type: string
+ *                         lastLogin:
+ *                           type: string
+ *                           format: date-time
+ *                           nullable: true
+ *                     range:
+ *                       type: object
+ *                       properties:
+ *                         startDate:
+ *                           type: string
+ *                           format: date
+ *                         endDate:
+ *                           type: string
+ *                           format: date
+ *                     upcomingTasks:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                           title:
+ *                             type: string
+ *                           startDate:
+ *                             type: string
+ *                             format: date-time
+ *                           endDate:
+ *                             type: string
+ *                             format: date-time
+ *                             nullable: true
+ *                           isAllDay:
+ *                             type: boolean
+ *                           taskType:
+ *                             type: string
+ *                             enum: [task, holiday, school, remote]
+ *                             nullable: true
+ *                           status:
+ *                             type: string
+ *                             enum: [not_started, in_progress, completed]
+ *                             nullable: true
+ *                           project:
+ *                             type: object
+ *                             nullable: true
+ *                             properties:
+ *                               id:
+ *                                 type: string
+ *                               name:
+ *                                 type: string
+ *                           notionUrl:
+ *                             type: string
+ *                             nullable: true
+ *                     absences:
+ *                       type: array
+ *                       description: Same fields as upcomingTasks
+ *                       items:
+ *                         type: object
+ *                     remoteDays:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                         format: date
+ *                     conflicts:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           taskId:
+ *                             type: string
+ *                           type:
+ *                             type: string
+ *                           severity:
+ *                             type: string
+ *                             enum: [low, medium, high]
+ *                           status:
+ *                             type: string
+ *                             enum: [active, acknowledged]
+ *                           message:
+ *                             type: string
+ *                           date:
+ *                             type: string
+ *                             format: date
+ *                 meta:
+ *                   type: object
+ *       400:
+ *         description: Invalid query parameters
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Member not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id', authenticate, membersController.getMemberById);
+
+/**
+ * @swagger
+ * /api/v1/members/{id}/workload:
+ *   get:
+ *     summary: Get a member workload
+ *     description: Planned hours versus capacity per day and per ISO week. Capacity follows the member schedule (working days, daily hours, part time) and drops to 0 on weekends, French public holidays and holiday/school tasks. Remote tasks are ignored.
+ *     tags:
+ *       - Members
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Notion member ID
+ *       - in: query
+ *         name: startDate
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *         example: "2025-03-03"
+ *       - in: query
+ *         name: endDate
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Inclusive, at most 366 days after startDate
+ *         example: "2025-03-30"
+ *     responses:
+ *       200:
+ *         description: Workload computed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     memberId:
+ *                       type: string
+ *                     memberName:
+ *                       type: string
+ *                     schedule:
+ *                       type: object
+ *                     days:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           date:
+ *                             type: string
+ *                             format: date
+ *                           isWorkingDay:
+ *                             type: boolean
+ *                           publicHoliday:
+ *                             type: string
+ *                             nullable: true
+ *                           absence:
+ *                             type: string
+ *                             enum: [holiday, school]
+ *                             nullable: true
+ *                           capacityHours:
+ *                             type: number
+ *                           plannedHours:
+ *                             type: number
+ *                           availableHours:
+ *                             type: number
+ *                           utilization:
+ *                             type: number
+ *                             nullable: true
+ *                           overloaded:
+ *                             type: boolean
+ *                     weeks:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                     totals:
+ *                       type: object
+ *       400:
+ *         description: Invalid date range
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       404:
+ *         description: Member not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/workload', authenticate, membersController.getMemberWorkload);
+
+/**
+ * @swagger
+ * /api/v1/members/{id}/capacity:
+ *   get:
+ *     summary: Get a member capacity settings
+ *     description: Returns the schedule in effect today (the default Monday-Friday, 8h, 100% schedule when none applies) and every stored schedule of the member
+ *     tags:
+ *       - Members
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Capacity settings retrieved successfully
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       500:
+ *         description: Internal server error
+ *   put:
+ *     summary: Update a member capacity settings from today on (Admin or traffic manager)
+ *     description: The schedule in effect today is closed yesterday and a new one starts today, so past workloads are unchanged. Periods and working hours are managed through /api/v1/admin/member-schedules.
+ *     tags:
+ *       - Members
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               workingDays:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *                   minimum: 1
+ *                   maximum: 7
+ *                 description: ISO weekdays worked (1 = Monday)
+ *                 example: [1, 2, 3, 4]
+ *               dailyHours:
+ *                 type: number
+ *                 example: 7
+ *               partTimePercentage:
+ *                 type: number
+ *                 example: 80
+ *     responses:
+ *       200:
+ *         description: Capacity settings updated successfully
+ *       400:
+ *         description: Invalid capacity settings
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: Member not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/capacity', authenticate, membersController.getMemberCapacity);
+router.put('/:id/capacity', authenticate, requireManagerOrAbove, membersController.updateMemberCapacity);
+
 export default router;
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import projectsController from '../../controllers/projects/projects.controller';
-import { authenticate } from '../../middleware/auth.middleware';
+import { authenticate, requireManagerOrAbove } from '../../middleware/auth.middleware';
 
 const router = Router();
 
@@ -112,4 +112,470 @@ router.get('/', authenticate, projectsController.getAllProjects);
  */
 router.get('/active', authenticate, projectsController.getActiveProjects);
 
+/**
+ * @swagger
+ * /api/v1/projects/{id}:
+ *   get:
+ *     summary: Get project detail
+ *     description: Project with its client, all its tasks grouped by status and by team, date span (start of the first task, end of the last one), billed versus actual hours, assigned members and open scheduling conflicts. Relations are resolved from the cache.
+ *     tags:
+ *       - Projects
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Notion project ID
+ *     responses:
+ *       200:
+ *         description: Project detail retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     project:
+ *                       type: object
+ *                       properties:
+ *                         id:
+ *                           type: string
+ *                         name:
+ *                           type: string
+ *                         status:
+ *                           type: string
+ *                     client:
+ *                       type: object
+ *                       nullable: true
+ *                       properties:
+ *                         id:
+ *                           type: string
+ *                         name:
+ *                           type: string
+ *                     startDate:
+ *                       type: string
+ *                       format: date
+ *                       nullable: true
+ *                     endDate:
+ *                       type: string
+ *                       format: date
+ *                       nullable: true
+ *                     hours:
+ *                       type: object
+ *                       properties:
+ *                         billedHours:
+ *                           type: number
+ *                         actualHours:
+ *                           type: number
+ *                         remainingHours:
+ *                           type: number
+ *                           description: Billed minus actual hours, negative when over budget
+ *                     progress:
+ *                       type: object
+ *                       properties:
+ *                         total:
+ *                           type: number
+ *                         completed:
+ *                           type: number
+ *                         ratio:
+ *                           type: number
+ *                           nullable: true
+ *                     tasksByStatus:
+ *                       type: object
+ *                       description: Tasks keyed by not_started, in_progress, completed and unknown, sorted by start date
+ *                       additionalProperties:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                           title:
+ *                             type: string
+ *                           startDate:
+ *                             type: string
+ *                             format: date
+ *                             nullable: true
+ *                           endDate:
+ *                             type: string
+ *                             format: date
+ *                             nullable: true
+ *                           isAllDay:
+ *                             type: boolean
+ *                           taskType:
+ *                             type: string
+ *                             enum: [task, holiday, school, remote]
+ *                             nullable: true
+ *                           status:
+ *                             type: string
+ *                             enum: [not_started, in_progress, completed, unknown]
+ *                           assignedMembers:
+ *                             type: array
+ *                             items:
+ *                               type: string
+ *                           teams:
+ *                             type: array
+ *                             items:
+ *                               type: string
+ *                           billedHours:
+ *                             type: number
+ *                             nullable: true
+ *                           actualHours:
+ *                             type: number
+ *                             nullable: true
+ *                           notionUrl:
+ *                             type: string
+ *                             nullable: true
+ *                     tasksByTeam:
+ *                       type: array
+ *                       description: One group per team (a task of several teams appears in each), tasks without team last
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           team:
+ *                             type: object
+ *                             nullable: true
+ *                             properties:
+ *                               id:
+ *                                 type: string
+ *                               name:
+ *                                 type: string
+ *                           tasks:
+ *                             type: array
+ *                             items:
+ *                               type: object
+ *                           billedHours:
+ *                             type: number
+ *                           actualHours:
+ *                             type: number
+ *                           remainingHours:
+ *                             type: number
+ *                     members:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                           name:
+ *                             type: string
+ *                           email:
+ *                             type: string
+ *                           taskCount:
+ *                             type: number
+ *                     conflicts:
+ *                       type: array
+ *                       description: Active and acknowledged scheduling conflicts of the project tasks
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           taskId:
+ *                             type: string
+ *                           type:
+ *                             type: string
+ *                           severity:
+ *                             type: string
+ *                             enum: [low, medium, high]
+ *                           status:
+ *                             type: string
+ *                           message:
+ *                             type: string
+ *                           memberId:
+ *                             type: string
+ *                           memberName:
+ *                             type: string
+ *                           date:
+ *                             type: string
+ *                             format: date
+ *                 count:
+ *                   type: number
+ *                   description: Number of tasks of the project
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Project not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id', authenticate, projectsController.getProjectById);
+
+/**
+ * @swagger
+ * /api/v1/projects/{id}/retroplanning:
+ *   get:
+ *     summary: Get the client retroplanning of a project
+ *     description: Ordered milestone timeline built from the project tasks flagged "Ajouter au rétroplanning client". Internal data (notes, hours, assigned members) is left out so the result can be shared with the client. With format=html, returns a standalone document that can be sent as is or printed to PDF from the browser.
+ *     tags:
+ *       - Projects
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Notion project ID
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, html]
+ *           default: json
+ *       - in: query
+ *         name: download
+ *         schema:
+ *           type: string
+ *           enum: ["true", "false"]
+ *           default: "false"
+ *         description: With format=html, send the document as an attachment instead of inline
+ *     responses:
+ *       200:
+ *         description: Retroplanning built successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     project:
+ *                       type: object
+ *                       properties:
+ *                         id:
+ *                           type: string
+ *                         name:
+ *                           type: string
+ *                         status:
+ *                           type: string
+ *                     client:
+ *                       type: object
+ *                       nullable: true
+ *                       properties:
+ *                         id:
+ *                           type: string
+ *                         name:
+ *                           type: string
+ *                     startDate:
+ *                       type: string
+ *                       format: date
+ *                       nullable: true
+ *                     endDate:
+ *                       type: string
+ *                       format: date
+ *                       nullable: true
+ *                     milestones:
+ *                       type: array
+ *                       description: Sorted by start date, undated milestones last
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                           title:
+ *                             type: string
+ *                           startDate:
+ *                             type: string
+ *                             format: date
+ *                             nullable: true
+ *                           endDate:
+ *                             type: string
+ *                             format: date
+ *                             nullable: true
+ *                           isAllDay:
+ *                             type: boolean
+ *                           status:
+ *                             type: string
+ *                             enum: [not_started, in_progress, completed]
+ *                             nullable: true
+ *                           overdue:
+ *                             type: boolean
+ *                           teams:
+ *                             type: array
+ *                             items:
+ *                               type: object
+ *                               properties:
+ *                                 id:
+ *                                   type: string
+ *                                 name:
+ *                                   type: string
+ *                     progress:
+ *                       type: object
+ *                       properties:
+ *                         total:
+ *                           type: number
+ *                         completed:
+ *                           type: number
+ *                         ratio:
+ *                           type: number
+ *                           nullable: true
+ *                     generatedAt:
+ *                       type: string
+ *                       format: date-time
+ *                 count:
+ *                   type: number
+ *           text/html:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid query parameters
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Project not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/retroplanning', authenticate, projectsController.getProjectRetroplanning);
+
+/**
+ * @swagger
+ * /api/v1/projects:
+ *   post:
+ *     summary: Create a project
+ *     description: Create the project page in Notion. With async=true the creation is queued and a temporary ID is returned right away.
+ *     tags:
+ *       - Projects
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: async
+ *         schema:
+ *           type: boolean
+ *         description: Queue the creation for background sync
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *               clientId:
+ *                 type: string
+ *                 description: Notion client ID (null on update removes the client)
+ *               status:
+ *                 type: string
+ *                 example: "En cours"
+ *     responses:
+ *       201:
+ *         description: Project created (or queued)
+ *       400:
+ *         description: Invalid request data
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Insufficient permissions
+ *       429:
+ *         description: Rate limit exceeded
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/', authenticate, requireManagerOrAbove, projectsController.createProject);
+
+/**
+ * @swagger
+ * /api/v1/projects/{id}:
+ *   put:
+ *     summary: Update a project
+ *     description: Only the given fields are changed
+ *     tags:
+ *       - Projects
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Notion project ID (or temporary ID of a queued creation)
+ *       - in: query
+ *         name: async
+ *         schema:
+ *           type: boolean
+ *         description: Queue the update for background sync
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               clientId:
+ *                 type: string
+ *                 description: Notion client ID (null on update removes the client)
+ *               status:
+ *                 type: string
+ *                 example: "En cours"
+ *     responses:
+ *       200:
+ *         description: Project updated (or queued)
+ *       400:
+ *         description: Invalid request data
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: Project not found
+ *       500:
+ *         description: Internal server error
+ */
+router.put('/:id', authenticate, requireManagerOrAbove, projectsController.updateProject);
+
+/**
+ * @swagger
+ * /api/v1/projects/{id}:
+ *   delete:
+ *     summary: Archive a project
+ *     description: Archive the project page in Notion (soft delete)
+ *     tags:
+ *       - Projects
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Notion project ID (or temporary ID of a queued creation)
+ *       - in: query
+ *         name: async
+ *         schema:
+ *           type: boolean
+ *         description: Queue the archive for background sync
+ *     responses:
+ *       200:
+ *         description: Project archived (or queued)
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: Project not found
+ *       500:
+ *         description: Internal server error
+ */
+router.delete('/:id', authenticate, requireManagerOrAbove, projectsController.archiveProject);
+
 export default router;
\ No newline at end of file
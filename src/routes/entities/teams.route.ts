@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import teamsController from '../../controllers/teams/teams.controller';
-import { authenticate } from '../../middleware/auth.middleware';
+import { authenticate, requireManagerOrAbove } from '../../middleware/auth.middleware';
 
 const router = Router();
 
@@ -53,4 +53,227 @@ const router = Router();
  */
 router.get('/', authenticate, teamsController.getAllTeams);
 
+/**
+ * @swagger
+ * /api/v1/teams/{id}/workload:
+ *   get:
+ *     summary: Get a team workload
+ *     description: Planned hours versus capacity for the team and for each member, per day and per ISO week. A team day is overloaded as soon as one member is.
+ *     tags:
+ *       - Teams
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Notion team ID
+ *       - in: query
+ *         name: startDate
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *         example: "2025-03-03"
+ *       - in: query
+ *         name: endDate
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Inclusive, at most 366 days after startDate
+ *         example: "2025-03-30"
+ *     responses:
+ *       200:
+ *         description: Workload computed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     teamId:
+ *                       type: string
+ *                     teamName:
+ *                       type: string
+ *                     members:
+ *                       type: array
+ *                       description: Per-member schedule, weeks and totals
+ *                       items:
+ *                         type: object
+ *                     days:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           date:
+ *                             type: string
+ *                             format: date
+ *                           capacityHours:
+ *                             type: number
+ *                           plannedHours:
+ *                             type: number
+ *                           membersAbsent:
+ *                             type: integer
+ *                           membersOverloaded:
+ *                             type: integer
+ *                     weeks:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                     totals:
+ *                       type: object
+ *       400:
+ *         description: Invalid date range
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       404:
+ *         description: Team not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/workload', authenticate, teamsController.getTeamWorkload);
+
+/**
+ * @swagger
+ * /api/v1/teams:
+ *   post:
+ *     summary: Create a team
+ *     description: Create the team page in Notion. With async=true the creation is queued and a temporary ID is returned right away.
+ *     tags:
+ *       - Teams
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: async
+ *         schema:
+ *           type: boolean
+ *         description: Queue the creation for background sync
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *               memberIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Notion member IDs (replaces the whole list on update)
+ *     responses:
+ *       201:
+ *         description: Team created (or queued)
+ *       400:
+ *         description: Invalid request data
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Insufficient permissions
+ *       429:
+ *         description: Rate limit exceeded
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/', authenticate, requireManagerOrAbove, teamsController.createTeam);
+
+/**
+ * @swagger
+ * /api/v1/teams/{id}:
+ *   put:
+ *     summary: Update a team
+ *     description: Only the given fields are changed; memberIds replaces the member list
+ *     tags:
+ *       - Teams
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Notion team ID (or temporary ID of a queued creation)
+ *       - in: query
+ *         name: async
+ *         schema:
+ *           type: boolean
+ *         description: Queue the update for background sync
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               memberIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Notion member IDs (replaces the whole list on update)
+ *     responses:
+ *       200:
+ *         description: Team updated (or queued)
+ *       400:
+ *         description: Invalid request data
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: Team not found
+ *       500:
+ *         description: Internal server error
+ */
+router.put('/:id', authenticate, requireManagerOrAbove, teamsController.updateTeam);
+
+/**
+ * @swagger
+ * /api/v1/teams/{id}:
+ *   delete:
+ *     summary: Archive a team
+ *     description: Archive the team page in Notion (soft delete)
+ *     tags:
+ *       - Teams
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Notion team ID (or temporary ID of a queued creation)
+ *       - in: query
+ *         name: async
+ *         schema:
+ *           type: boolean
+ *         description: Queue the archive for background sync
+ *     responses:
+ *       200:
+ *         description: Team archived (or queued)
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: Team not found
+ *       500:
+ *         description: Internal server error
+ */
+router.delete('/:id', authenticate, requireManagerOrAbove, teamsController.archiveTeam);
+
 export default router;
@@ -5,6 +5,8 @@ import notionRouter from './notion/index.route';
 import { tasksRouter } from './tasks/index.route';
 import entitiesRouter from './entities/index.route';
 import adminRouter from './admin/index.route';
+import reportsRouter from './reports/index.route';
+import calendarFeedsRouter from './calendar-feeds/index.route';
 
 const router = Router();
 
@@ -27,6 +29,8 @@ router.get('/', (_, res) => {
       members: '/api/v1/members',
       projects: '/api/v1/projects',
       teams: '/api/v1/teams',
+      reports: '/api/v1/reports',
+      calendarFeeds: '/api/v1/calendar-feeds',
       sync: '/api/v1/sync',
       config: '/api/v1/config',
       admin: {
@@ -35,7 +39,10 @@ router.get('/', (_, res) => {
         notionDiscovery: '/api/v1/admin/notion-discovery',
         cache: '/api/v1/admin/cache',
         metrics: '/api/v1/admin/metrics',
-        conflicts: '/api/v1/admin/conflicts'
+        conflicts: '/api/v1/admin/conflicts',
+        conflictRules: '/api/v1/admin/conflict-rules',
+        calendarSync: '/api/v1/admin/calendar-sync',
+        companyClosures: '/api/v1/admin/company-closures'
       }
     },
     timestamp: new Date().toISOString()
@@ -57,6 +64,12 @@ router.use('/tasks', tasksRouter);
 // Entity routes (clients, members, projects, teams)
 router.use('/', entitiesRouter);
 
+// Reporting routes (hours)
+router.use('/reports', reportsRouter);
+
+// Calendar feeds routes (ICS)
+router.use('/calendar-feeds', calendarFeedsRouter);
+
 // Admin routes (cache, metrics, conflicts, sync, config)
 router.use('/', adminRouter);
 
@@ -0,0 +1,136 @@
+import { Router } from "express";
+import { reportsController } from "../../controllers/reports/reports.controller";
+import { authenticate, authorize } from "../../middleware/auth.middleware";
+import { UserRole } from "../../models/User.model";
+
+const router = Router();
+
+/**
+ * Reporting Routes
+ * Base path: /api/v1/reports
+ */
+
+/**
+ * @swagger
+ * /api/v1/reports/hours:
+ *   get:
+ *     summary: Billed vs actual hours report
+ *     description: |
+ *       Aggregates `billedHours` and `actualHours` of the tasks starting in the period, grouped by project, client, team or member.
+ *       Holiday, school and remote tasks are excluded. A task linked to several teams or members appears in each of their rows,
+ *       while totals count every task once.
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: startDate
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *         example: "2025-01-01"
+ *       - in: query
+ *         name: endDate
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *         example: "2025-03-31"
+ *         description: Inclusive, at most 366 days after startDate
+ *       - in: query
+ *         name: groupBy
+ *         schema:
+ *           type: string
+ *           enum: [project, client, team, member]
+ *           default: project
+ *       - in: query
+ *         name: projectId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: clientId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: teamId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: memberId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, csv, xlsx]
+ *           default: json
+ *         description: csv and xlsx return a file download
+ *     responses:
+ *       200:
+ *         description: Report built successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     groupBy:
+ *                       type: string
+ *                     rows:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           key:
+ *                             type: string
+ *                             nullable: true
+ *                             description: Project, client, team or member ID (null for unassigned tasks)
+ *                           name:
+ *                             type: string
+ *                           taskCount:
+ *                             type: integer
+ *                           completedTasks:
+ *                             type: integer
+ *                           billedHours:
+ *                             type: number
+ *                           actualHours:
+ *                             type: number
+ *                           variance:
+ *                             type: number
+ *                             description: actualHours - billedHours (positive = overrun)
+ *                           completionRatio:
+ *                             type: number
+ *                             nullable: true
+ *                             description: Completed tasks / tasks
+ *                     totals:
+ *                       type: object
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid query parameters or date range over 366 days
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Insufficient permissions
+ *       500:
+ *         description: Failed to build hours report
+ */
+router.get(
+  "/hours",
+  authenticate,
+  authorize(UserRole.ADMIN, UserRole.TRAFFIC_MANAGER, UserRole.DIRECTION),
+  reportsController.getHoursReport
+);
+
+export default router;
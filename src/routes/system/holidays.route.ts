@@ -8,7 +8,8 @@ const router = Router();
  * Base path: /api/v1
  */
 
-// GET /api/v1/holidays/:year - Récupérer les jours fériés pour une année
+// GET /api/v1/holidays/:year - Jours fériés (et fermetures de l'entreprise) d'une année
+// ?zone=metropole|alsace-moselle (HOLIDAYS_ZONE par défaut)
 router.get('/holidays/:year', holidaysController.getHolidays.bind(holidaysController));
 
 export default router;
\ No newline at end of file
@@ -151,4 +151,135 @@ router.get(
   webhookController.getWebhookLogs
 );
 
+/**
+ * @swagger
+ * /api/v1/webhooks/events:
+ *   get:
+ *     summary: List stored webhook events (Admin only)
+ *     description: Events are keyed on Notion's event ID; redeliveries increment `deliveries` and are processed once
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *         description: Page number
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *         description: Items per page
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [received, processing, processed, ignored, failed]
+ *         description: Filter by processing status
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *         description: Filter by Notion event type (e.g. page.properties_updated)
+ *     responses:
+ *       200:
+ *         description: Webhook events retrieved successfully (payloads omitted)
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Admin only
+ *       500:
+ *         description: Internal server error
+ */
+router.get(
+  '/webhooks/events',
+  authenticate,
+  requireAdmin,
+  webhookController.getWebhookEvents
+);
+
+/**
+ * @swagger
+ * /api/v1/webhooks/events/{eventId}:
+ *   get:
+ *     summary: Get a stored webhook event with its payload and sync logs (Admin only)
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Notion event ID
+ *     responses:
+ *       200:
+ *         description: Webhook event retrieved successfully
+ *       404:
+ *         description: Webhook event not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get(
+  '/webhooks/events/:eventId',
+  authenticate,
+  requireAdmin,
+  webhookController.getWebhookEvent
+);
+
+/**
+ * @swagger
+ * /api/v1/webhooks/events/{eventId}/replay:
+ *   post:
+ *     summary: Replay a stored webhook event against the current handler (Admin only)
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Notion event ID
+ *     responses:
+ *       200:
+ *         description: Event replayed, the processing outcome is returned
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     eventId:
+ *                       type: string
+ *                     replayCount:
+ *                       type: integer
+ *                     status:
+ *                       type: string
+ *                       enum: [processed, ignored, failed]
+ *                     entityType:
+ *                       type: string
+ *                     cachePatch:
+ *                       type: object
+ *       404:
+ *         description: Webhook event not found
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  '/webhooks/events/:eventId/replay',
+  authenticate,
+  requireAdmin,
+  webhookController.replayWebhookEvent
+);
+
 export default router;
\ No newline at end of file
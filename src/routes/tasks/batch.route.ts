@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { tasksBatchController } from "../../controllers/tasks/tasks-batch.controller";
 import { authenticate } from "../../middleware/auth.middleware";
+import { authorizeTaskWrite } from "../../middleware/scope.middleware";
 
 const router = Router();
 
@@ -13,7 +14,7 @@ const router = Router();
  * /api/v1/tasks/batch:
  *   post:
  *     summary: Batch update multiple tasks
- *     description: Update multiple tasks in a single transaction with individual success/failure tracking
+ *     description: Update multiple tasks in a single transaction with individual success/failure tracking. The whole batch is rejected when one of the tasks is outside the scope of the user (see POST /api/v1/tasks).
  *     tags: [Tasks - Batch]
  *     security:
  *       - bearerAuth: []
@@ -183,12 +184,30 @@ const router = Router();
  *                           example: 1
  *       400:
  *         description: Invalid request data
+ *       403:
+ *         description: Read-only role, or tasks outside the projects led by the project manager (chef_projet)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: false
+ *                 message:
+ *                   type: string
+ *                   example: "Task is outside your projects"
+ *                 forbiddenTaskIds:
+ *                   type: array
+ *                   items:
+ *                     type: string
  *       500:
  *         description: Failed to process batch update
  */
 router.post(
   "/",
   authenticate,
+  authorizeTaskWrite,
   tasksBatchController.batchUpdateTasks
 );
 
@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { tasksCalendarController } from "../../controllers/tasks/tasks-calendar.controller";
 import { authenticate } from "../../middleware/auth.middleware";
+import { attachAccessScope } from "../../middleware/scope.middleware";
 
 const router = Router();
 
@@ -13,7 +14,7 @@ const router = Router();
  * /api/v1/tasks/calendar:
  *   get:
  *     summary: Get tasks for calendar view
- *     description: Retrieve tasks within a date range formatted for calendar display with enriched data
+ *     description: Retrieve tasks within a date range formatted for calendar display with enriched data. Every task is flagged with editable according to the role of the user (project managers can only edit tasks of the projects they lead, direction is read-only).
  *     tags: [Tasks - Calendar]
  *     security:
  *       - bearerAuth: []
@@ -82,6 +83,9 @@ const router = Router();
  *                           taskType:
  *                             type: string
  *                             enum: [task, holiday, school, remote]
+ *                           editable:
+ *                             type: boolean
+ *                             description: Whether the user may update or delete the task
  *                           syncStatus:
  *                             type: object
  *                             properties:
@@ -151,6 +155,7 @@ const router = Router();
 router.get(
   "/",
   authenticate,
+  attachAccessScope,
   tasksCalendarController.getCalendarTasks
 );
 
@@ -4,7 +4,8 @@ import { taskCreateController } from "../../controllers/tasks/task-create.contro
 import { taskUpdateController } from "../../controllers/tasks/task-update.controller";
 import { taskDeleteController } from "../../controllers/tasks/task-delete.controller";
 import { taskConflictController } from "../../controllers/tasks/task-conflict.controller";
-import { authenticate, requireManagerOrAbove } from "../../middleware/auth.middleware";
+import { authenticate } from "../../middleware/auth.middleware";
+import { authorizeTaskWrite } from "../../middleware/scope.middleware";
 
 const router = Router();
 
@@ -12,6 +13,62 @@ const router = Router();
  * CRUD Routes for Tasks
  */
 
+/**
+ * @swagger
+ * /api/v1/tasks/{tempId}/resolve:
+ *   get:
+ *     summary: Resolve a temporary task ID
+ *     description: Return the Notion ID and sync state of a task created with ?async=true
+ *     tags: [Tasks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tempId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Temporary ID returned by the async creation
+ *         example: "temp_1735689600000_k3j9x2abc"
+ *     responses:
+ *       200:
+ *         description: Mapping retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     tempId:
+ *                       type: string
+ *                     notionId:
+ *                       type: string
+ *                       nullable: true
+ *                     status:
+ *                       type: string
+ *                       enum: [pending, synced, failed, cancelled]
+ *                     synced:
+ *                       type: boolean
+ *                     pendingOperations:
+ *                       type: integer
+ *       400:
+ *         description: Not a temporary task ID
+ *       404:
+ *         description: Temporary ID not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/:tempId/resolve",
+  authenticate,
+  taskReadController.resolveTempId
+);
+
 /**
  * @swagger
  * /api/v1/tasks/{id}:
@@ -70,7 +127,7 @@ router.get(
  * /api/v1/tasks:
  *   post:
  *     summary: Create a new task
- *     description: Create a new task in the system with optional async mode
+ *     description: Create a new task in the system with optional async mode. Project managers (chef_projet) can only create tasks in the projects they lead; direction is read-only.
  *     tags: [Tasks]
  *     security:
  *       - bearerAuth: []
@@ -159,6 +216,8 @@ router.get(
  *                   type: object
  *       400:
  *         description: Invalid request data
+ *       403:
+ *         description: Read-only role, or project not led by the project manager (chef_projet)
  *       429:
  *         description: Rate limit exceeded
  *       500:
@@ -167,7 +226,7 @@ router.get(
 router.post(
   "/",
   authenticate,
-  requireManagerOrAbove,
+  authorizeTaskWrite,
   taskCreateController.createTask
 );
 
@@ -176,7 +235,7 @@ router.post(
  * /api/v1/tasks/{id}:
  *   put:
  *     summary: Update an existing task
- *     description: Update task properties with optimistic update support
+ *     description: Update task properties with optimistic update support. Project managers (chef_projet) can only update tasks of the projects they lead, and only move them to one of those projects.
  *     tags: [Tasks]
  *     security:
  *       - bearerAuth: []
@@ -260,6 +319,8 @@ router.post(
  *                   type: object
  *       400:
  *         description: Invalid request data
+ *       403:
+ *         description: Read-only role, or task outside the projects led by the project manager (chef_projet)
  *       404:
  *         description: Task not found
  *       409:
@@ -272,7 +333,7 @@ router.post(
 router.put(
   "/:id",
   authenticate,
-  requireManagerOrAbove,
+  authorizeTaskWrite,
   taskUpdateController.updateTask
 );
 
@@ -281,7 +342,7 @@ router.put(
  * /api/v1/tasks/{id}:
  *   delete:
  *     summary: Delete (archive) a task
- *     description: Soft delete a task by archiving it in Notion
+ *     description: Soft delete a task by archiving it in Notion. Project managers (chef_projet) can only delete tasks of the projects they lead.
  *     tags: [Tasks]
  *     security:
  *       - bearerAuth: []
@@ -319,6 +380,8 @@ router.put(
  *                   type: object
  *       400:
  *         description: Task ID is required
+ *       403:
+ *         description: Read-only role, or task outside the projects led by the project manager (chef_projet)
  *       404:
  *         description: Task not found
  *       500:
@@ -327,7 +390,7 @@ router.put(
 router.delete(
   "/:id",
   authenticate,
-  requireManagerOrAbove,
+  authorizeTaskWrite,
   taskDeleteController.deleteTask
 );
 
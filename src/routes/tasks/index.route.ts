@@ -3,6 +3,9 @@ import { tasksCrudRouter } from "./crud.route";
 import { tasksCalendarRouter } from "./calendar.route";
 import { tasksBatchRouter } from "./batch.route";
 import { tasksStatsRouter } from "./stats.route";
+import { tasksSearchRouter } from "./search.route";
+import { tasksUnplannedRouter } from "./unplanned.route";
+import tasksConflictsRouter from "./tasks-conflicts.route";
 
 const router = Router();
 
@@ -20,6 +23,15 @@ router.use("/batch", tasksBatchRouter);
 // Mount stats routes at /stats
 router.use("/stats", tasksStatsRouter);
 
+// Mount search routes at /search
+router.use("/search", tasksSearchRouter);
+
+// Mount unplanned backlog routes at /unplanned
+router.use("/unplanned", tasksUnplannedRouter);
+
+// Mount conflict routes (/:id/conflicts*, /conflicts/*) before CRUD so /conflicts/stats is not taken as an :id
+router.use("/", tasksConflictsRouter);
+
 // Mount CRUD routes at root level (must be last due to /:id pattern)
 router.use("/", tasksCrudRouter);
 
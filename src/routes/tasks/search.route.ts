@@ -0,0 +1,133 @@
+import { Router } from "express";
+import { tasksSearchController } from "../../controllers/tasks/tasks-search.controller";
+import { authenticate } from "../../middleware/auth.middleware";
+
+const router = Router();
+
+/**
+ * Search Routes for Tasks
+ */
+
+/**
+ * @swagger
+ * /api/v1/tasks/search:
+ *   get:
+ *     summary: Search tasks
+ *     description: Free-text search on title and notes with facet filters and cursor pagination. Facet counts cover every matching task, not only the returned page.
+ *     tags: [Tasks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *         description: Text searched in the task title and notes (case-insensitive)
+ *         example: "logo"
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [not_started, in_progress, completed]
+ *       - in: query
+ *         name: taskType
+ *         schema:
+ *           type: string
+ *           enum: [task, holiday, school, remote]
+ *       - in: query
+ *         name: projectId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: clientId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: teamId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: memberId
+ *         schema:
+ *           type: string
+ *         description: Assigned member
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Only tasks overlapping the period starting at this date
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Only tasks overlapping the period ending at this date
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 100
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Value of meta.nextCursor from the previous page
+ *     responses:
+ *       200:
+ *         description: Search results
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     tasks:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                     facets:
+ *                       type: object
+ *                       properties:
+ *                         status:
+ *                           type: object
+ *                         taskType:
+ *                           type: object
+ *                         project:
+ *                           type: object
+ *                         client:
+ *                           type: object
+ *                         team:
+ *                           type: object
+ *                         member:
+ *                           type: object
+ *                 meta:
+ *                   type: object
+ *                   properties:
+ *                     count:
+ *                       type: number
+ *                     total:
+ *                       type: number
+ *                     hasMore:
+ *                       type: boolean
+ *                     nextCursor:
+ *                       type: string
+ *                       nullable: true
+ *       400:
+ *         description: Invalid query parameters or cursor
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/",
+  authenticate,
+  tasksSearchController.searchTasks
+);
+
+export { router as tasksSearchRouter };
@@ -1,21 +1,19 @@
 import { Router } from "express";
 import { tasksConflictController } from "../../controllers/tasks/tasks-conflict.controller";
 import { authenticate } from "../../middleware/auth.middleware";
+import { authorizeTaskWrite } from "../../middleware/scope.middleware";
 
 /**
  * Task conflicts routes
  */
 const router = Router();
 
-// Apply auth middleware to all routes
-router.use(authenticate);
-
 /**
  * @swagger
  * /api/v1/tasks/{id}/conflicts:
  *   get:
  *     summary: Check conflicts for a specific task
- *     description: Get all scheduling conflicts for a task (overlaps, holidays, overload)
+ *     description: Get all scheduling conflicts for a task (overlaps, leaves, overload, public holidays, weekends, company closures)
  *     tags: [Tasks - Conflicts]
  *     security:
  *       - bearerAuth: []
@@ -48,7 +46,7 @@ router.use(authenticate);
  *                         properties:
  *                           type:
  *                             type: string
- *                             enum: [overlap, holiday, school, overload]
+ *                             enum: [overlap, holiday, school, overload, public_holiday, weekend, company_closure]
  *                           message:
  *                             type: string
  *                           memberId:
@@ -62,14 +60,140 @@ router.use(authenticate);
  *                           severity:
  *                             type: string
  *                             enum: [low, medium, high]
+ *                           date:
+ *                             type: string
+ *                             description: Day concerned (public holiday, weekend, closure, overload)
+ *                           fingerprint:
+ *                             type: string
+ *                             description: Conflict identity used for decisions
+ *                           status:
+ *                             type: string
+ *                             enum: [active, acknowledged, ignored]
+ *                           decisionReason:
+ *                             type: string
+ *                           decidedBy:
+ *                             type: string
+ *                           decidedAt:
+ *                             type: string
+ *                             format: date-time
  *                     hasConflicts:
  *                       type: boolean
+ *                       description: True when at least one conflict is not ignored
  *       404:
  *         description: Task not found
  *       500:
  *         description: Failed to check conflicts
  */
-router.get("/:id/conflicts", tasksConflictController.checkTaskConflicts);
+router.get("/:id/conflicts", authenticate, tasksConflictController.checkTaskConflicts);
+
+/**
+ * @swagger
+ * /api/v1/tasks/{id}/conflicts/decisions:
+ *   post:
+ *     summary: Acknowledge, ignore or reopen a conflict
+ *     description: Record a decision on a conflict of the task. The decision is kept when the conflict is detected again; ignoring requires a reason. Same scope as task updates (project managers on the projects they lead, direction read-only).
+ *     tags: [Tasks - Conflicts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Task ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - fingerprint
+ *               - decision
+ *             properties:
+ *               fingerprint:
+ *                 type: string
+ *               decision:
+ *                 type: string
+ *                 enum: [acknowledged, ignored, reopened]
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *     responses:
+ *       201:
+ *         description: Decision recorded
+ *       400:
+ *         description: Invalid request data or missing reason
+ *       403:
+ *         description: Read-only role, or task outside the projects led by the project manager (chef_projet)
+ *       404:
+ *         description: Conflict not found for this task
+ *       500:
+ *         description: Failed to record the decision
+ */
+router.post("/:id/conflicts/decisions", authenticate, authorizeTaskWrite, tasksConflictController.recordConflictDecision);
+
+/**
+ * @swagger
+ * /api/v1/tasks/{id}/conflicts/history:
+ *   get:
+ *     summary: Get the conflict history of a task
+ *     description: Stored conflicts (resolved included) and decisions taken on them, most recent first
+ *     tags: [Tasks - Conflicts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Task ID
+ *     responses:
+ *       200:
+ *         description: Conflict history
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     taskId:
+ *                       type: string
+ *                     conflicts:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                     decisions:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           fingerprint:
+ *                             type: string
+ *                           conflictType:
+ *                             type: string
+ *                           memberId:
+ *                             type: string
+ *                           decision:
+ *                             type: string
+ *                             enum: [acknowledged, ignored, reopened]
+ *                           reason:
+ *                             type: string
+ *                           actorEmail:
+ *                             type: string
+ *                           createdAt:
+ *                             type: string
+ *                             format: date-time
+ *       500:
+ *         description: Failed to get the history
+ */
+router.get("/:id/conflicts/history", authenticate, tasksConflictController.getConflictHistory);
 
 /**
  * @swagger
@@ -131,7 +255,7 @@ router.get("/:id/conflicts", tasksConflictController.checkTaskConflicts);
  *       500:
  *         description: Failed to preview conflicts
  */
-router.post("/conflicts/preview", tasksConflictController.previewConflicts);
+router.post("/conflicts/preview", authenticate, tasksConflictController.previewConflicts);
 
 /**
  * @swagger
@@ -177,7 +301,7 @@ router.post("/conflicts/preview", tasksConflictController.previewConflicts);
  *       500:
  *         description: Failed to batch check conflicts
  */
-router.post("/conflicts/batch", tasksConflictController.batchCheckConflicts);
+router.post("/conflicts/batch", authenticate, tasksConflictController.batchCheckConflicts);
 
 /**
  * @swagger
@@ -229,6 +353,12 @@ router.post("/conflicts/batch", tasksConflictController.batchCheckConflicts);
  *                           type: number
  *                         overload:
  *                           type: number
+ *                         public_holiday:
+ *                           type: number
+ *                         weekend:
+ *                           type: number
+ *                         company_closure:
+ *                           type: number
  *                     membersWithConflictsCount:
  *                       type: number
  *                     dateRange:
@@ -243,6 +373,6 @@ router.post("/conflicts/batch", tasksConflictController.batchCheckConflicts);
  *       500:
  *         description: Failed to get conflict statistics
  */
-router.get("/conflicts/stats", tasksConflictController.getConflictStats);
+router.get("/conflicts/stats", authenticate, tasksConflictController.getConflictStats);
 
 export default router;
\ No newline at end of file
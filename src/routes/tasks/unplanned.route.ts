@@ -0,0 +1,120 @@
+import { Router } from "express";
+import { taskReadController } from "../../controllers/tasks/task-read.controller";
+import { tasksStatsController } from "../../controllers/tasks/tasks-stats.controller";
+import { authenticate } from "../../middleware/auth.middleware";
+
+const router = Router();
+
+/**
+ * Unplanned Tasks Routes (planning backlog)
+ */
+
+/**
+ * @swagger
+ * /api/v1/tasks/unplanned:
+ *   get:
+ *     summary: Get the unplanned tasks backlog
+ *     description: Tasks with an empty work period, with resolved project, client, member and team data so they can be dropped onto the calendar
+ *     tags: [Tasks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [createdAt, project]
+ *           default: createdAt
+ *         description: Sort by creation date, or by project name (tasks without project last)
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: desc
+ *       - in: query
+ *         name: teamId
+ *         schema:
+ *           type: string
+ *         description: Only tasks linked to this team, directly or through an assigned member
+ *     responses:
+ *       200:
+ *         description: Unplanned tasks retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     tasks:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                     count:
+ *                       type: integer
+ *                 meta:
+ *                   type: object
+ *                   properties:
+ *                     total:
+ *                       type: integer
+ *                       description: Unplanned tasks before the team filter
+ *                     sortBy:
+ *                       type: string
+ *                     order:
+ *                       type: string
+ *                     timestamp:
+ *                       type: string
+ *                       format: date-time
+ *       400:
+ *         description: Invalid query parameters
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Failed to fetch unplanned tasks
+ */
+router.get(
+  "/",
+  authenticate,
+  taskReadController.getUnplannedTasks
+);
+
+/**
+ * @swagger
+ * /api/v1/tasks/unplanned/count:
+ *   get:
+ *     summary: Count unplanned tasks
+ *     description: Dashboard counter, computed from the same cached backlog as GET /api/v1/tasks/unplanned
+ *     tags: [Tasks - Statistics]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Count retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     count:
+ *                       type: integer
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Failed to fetch unplanned tasks count
+ */
+router.get(
+  "/count",
+  authenticate,
+  tasksStatsController.getUnplannedCount
+);
+
+export { router as tasksUnplannedRouter };
@@ -241,6 +241,36 @@ const ALL_CONFIGS = [
     },
     isEditable: true,
   },
+  {
+    key: 'CONFLICT_SEVERITY_PUBLIC_HOLIDAY',
+    value: 'high',
+    description: 'Sévérité des conflits pour une tâche planifiée un jour férié',
+    category: 'calendar',
+    dataType: 'string',
+    defaultValue: 'high',
+    validValues: ['low', 'medium', 'high'],
+    isEditable: true,
+  },
+  {
+    key: 'CONFLICT_SEVERITY_COMPANY_CLOSURE',
+    value: 'high',
+    description: 'Sévérité des conflits pour une tâche planifiée un jour de fermeture de l\'entreprise',
+    category: 'calendar',
+    dataType: 'string',
+    defaultValue: 'high',
+    validValues: ['low', 'medium', 'high'],
+    isEditable: true,
+  },
+  {
+    key: 'CONFLICT_SEVERITY_WEEKEND',
+    value: 'medium',
+    description: 'Sévérité des conflits pour une tâche commençant ou finissant un week-end',
+    category: 'calendar',
+    dataType: 'string',
+    defaultValue: 'medium',
+    validValues: ['low', 'medium', 'high'],
+    isEditable: true,
+  },
 ];
 
 async function initConfigs() {
@@ -17,9 +17,15 @@ import { setupSwagger } from './config/swagger.config';
 import apiRoutes from './routes/index.route';
 import logger from './config/logger.config';
 import { cacheRefreshJob } from './jobs/cache-refresh.job';
+import { pollingReconciliationJob } from './jobs/polling-reconciliation.job';
+import { calendarSyncJob } from './jobs/calendar-sync.job';
 import { preloadService } from './services/preload.service';
 import { ConfigModel } from './models/Config.model';
 import { TaskSchedulingConflictModel } from './models/TaskSchedulingConflict.model';
+import { propertyMappingService } from './services/notion/property-mapping.service';
+import { syncQueueService } from './services/sync-queue.service';
+import { memberScheduleService } from './services/member-schedule.service';
+import { holidaysService } from './services/holidays.service';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -135,6 +141,18 @@ const startServer = async (): Promise<void> => {
       // Non-blocking error - continue server startup
     }
 
+    // Load Notion property mapping before any Notion page is mapped
+    await propertyMappingService.reload();
+    propertyMappingService.startAutoReload();
+
+    // Load member schedules (capacity, working hours) used by the mapper and conflict detection
+    await memberScheduleService.reload();
+    memberScheduleService.startAutoReload();
+
+    // Load company closure days (holidays endpoint, conflict detection)
+    await holidaysService.reload();
+    holidaysService.startAutoReload();
+
     // Ensure TaskSchedulingConflict collection exists (does NOT reinitialize if exists)
     try {
       // This only creates indexes, doesn't drop or reinitialize data
@@ -144,6 +162,9 @@ const startServer = async (): Promise<void> => {
       logger.debug('TaskSchedulingConflict model init error (non-blocking):', error);
     }
 
+    // Resume sync queue items persisted before the last shutdown
+    await syncQueueService.recover();
+
     // Start cache preloading if enabled
     if (process.env.PRELOAD_ON_STARTUP !== 'false') {
       logger.info('Starting cache preload on startup...');
@@ -155,6 +176,16 @@ const startServer = async (): Promise<void> => {
     // Start cache refresh cron jobs
     cacheRefreshJob.start();
 
+    // Fallback polling when Notion webhooks go quiet
+    if (process.env.POLLING_RECONCILIATION_ENABLED !== 'false') {
+      pollingReconciliationJob.start();
+    }
+
+    // Two-way sync of "Ajouter au calendrier" tasks with the assignees' calendars
+    if (process.env.GOOGLE_CALENDAR_SYNC_ENABLED === 'true') {
+      calendarSyncJob.start();
+    }
+
     const server = app.listen(PORT, () => {
       logger.info('Server started successfully', {
         port: PORT,
@@ -173,6 +204,9 @@ const startServer = async (): Promise<void> => {
 
       server.close(async () => {
         try {
+          syncQueueService.stop();
+          pollingReconciliationJob.stop();
+          calendarSyncJob.stop();
           await mongoose.connection.close();
           logger.info('Graceful shutdown completed');
           process.exit(0);
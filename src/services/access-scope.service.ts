@@ -0,0 +1,110 @@
+/**
+ * Périmètre d'accès aux tâches selon le rôle
+ *
+ * - admin, traffic_manager : lecture et écriture sur toutes les tâches
+ * - chef_projet : lecture partout, écriture sur les tâches des projets dont
+ *   son membre Notion (User.memberId) est « Chef de projet »
+ * - direction : lecture seule (planning et rapports)
+ *
+ * Les routes n'autorisent que des rôles entiers (authorize) ; ce service
+ * décide tâche par tâche et sert aux routes CRUD, batch et calendrier.
+ */
+
+import logger from '../config/logger.config';
+import notionService from './notion.service';
+import { entityService } from './notion/entity.service';
+import { redisService } from './redis.service';
+import { tempIdRegistryService } from './temp-id-registry.service';
+import { UserModel, UserRole } from '../models/User.model';
+
+export interface AccessScope {
+  role: UserRole;
+  memberId: string | null;
+  allProjects: boolean; // Écriture sur toutes les tâches
+  projectIds: string[]; // Projets modifiables quand allProjects est faux
+}
+
+export const READ_ONLY_SCOPE_ERROR = 'Read-only access';
+export const TASK_OUT_OF_SCOPE_ERROR = 'Task is outside your projects';
+
+class AccessScopeService {
+  /**
+   * Resolve the write scope of an authenticated user
+   */
+  async getScope(user: { userId: string; role: UserRole }): Promise<AccessScope> {
+    if (user.role === UserRole.ADMIN || user.role === UserRole.TRAFFIC_MANAGER) {
+      return { role: user.role, memberId: null, allProjects: true, projectIds: [] };
+    }
+
+    if (user.role !== UserRole.CHEF_PROJET) {
+      return { role: user.role, memberId: null, allProjects: false, projectIds: [] };
+    }
+
+    // Le token ne porte pas le membre Notion : on le relit sur le compte
+    const account = await UserModel.findById(user.userId).select('memberId').lean();
+    const memberId = account?.memberId || null;
+
+    if (!memberId) {
+      logger.warn('Project manager without linked member, read-only scope', { userId: user.userId });
+      return { role: user.role, memberId: null, allProjects: false, projectIds: [] };
+    }
+
+    const projects = await entityService.getAllProjects();
+
+    return {
+      role: user.role,
+      memberId,
+      allProjects: false,
+      projectIds: projects
+        .filter(project => project.projectLeads?.includes(memberId))
+        .map(project => project.id)
+    };
+  }
+
+  /**
+   * Whether the scope allows writing at all
+   */
+  isReadOnly(scope: AccessScope): boolean {
+    return !scope.allProjects && scope.projectIds.length === 0;
+  }
+
+  /**
+   * Whether tasks of a project (null: task without project) can be written
+   */
+  canEditProject(scope: AccessScope, projectId: string | null | undefined): boolean {
+    if (scope.allProjects) {
+      return true;
+    }
+
+    return !!projectId && scope.projectIds.includes(projectId);
+  }
+
+  /**
+   * Whether an existing task can be written
+   * Tasks waiting for sync are only known by the cache
+   */
+  async canEditTask(scope: AccessScope, taskId: string): Promise<boolean> {
+    if (scope.allProjects) {
+      return true;
+    }
+
+    if (this.isReadOnly(scope)) {
+      return false;
+    }
+
+    try {
+      const id = await tempIdRegistryService.resolveId(taskId);
+      const task = tempIdRegistryService.isTempId(id)
+        ? await redisService.get<{ projectId?: string | null }>(`task:${id}`)
+        : await notionService.getTask(id);
+
+      return this.canEditProject(scope, task?.projectId);
+    } catch (error) {
+      // Tâche introuvable : refusée sans révéler si elle existe
+      logger.warn('Failed to load task for scope check', { taskId, error });
+      return false;
+    }
+  }
+}
+
+export const accessScopeService = new AccessScopeService();
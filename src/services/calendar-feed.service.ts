@@ -0,0 +1,170 @@
+/**
+ * Flux iCalendar (ICS) en lecture seule par membre, équipe ou projet
+ *
+ * Chaque flux est protégé par un jeton aléatoire porté par l'URL, pour que les
+ * applications d'agenda puissent s'y abonner sans authentification. Seule
+ * l'empreinte du jeton est stockée ; un flux révoqué cesse immédiatement de
+ * répondre. Les tâches couvrent le mois précédent et les six mois à venir.
+ */
+
+import crypto from 'crypto';
+import { addMonths, endOfMonth, format, startOfMonth, subMonths } from 'date-fns';
+import logger from '../config/logger.config';
+import notionService from './notion.service';
+import { entityService } from './notion/entity.service';
+import { icsExportService } from './ics-export.service';
+import { CalendarFeedTokenModel, CalendarFeedScope } from '../models/CalendarFeedToken.model';
+import { UserRole } from '../models/User.model';
+import { NotionTask } from '../types/notion.types';
+
+export interface CalendarFeed {
+  id: string;
+  scope: CalendarFeedScope;
+  targetId: string;
+  ownerId: string;
+  label: string | null;
+  revokedAt: Date | null;
+  lastAccessedAt: Date | null;
+  createdAt: Date;
+}
+
+export const FEED_TARGET_NOT_FOUND_ERROR = 'Calendar feed target not found';
+export const FEED_FORBIDDEN_ERROR = 'Only the feed owner or an admin can revoke this feed';
+
+const FEED_PAST_MONTHS = 1;
+const FEED_FUTURE_MONTHS = 6;
+
+// Évite une écriture MongoDB à chaque synchronisation des agendas
+const LAST_ACCESS_WRITE_INTERVAL_MS = 60 * 60 * 1000;
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+const toFeed = (feed: any): CalendarFeed => ({
+  id: String(feed._id),
+  scope: feed.scope,
+  targetId: feed.targetId,
+  ownerId: feed.ownerId,
+  label: feed.label ?? null,
+  revokedAt: feed.revokedAt ?? null,
+  lastAccessedAt: feed.lastAccessedAt ?? null,
+  createdAt: feed.createdAt
+});
+
+class CalendarFeedService {
+  /**
+   * Create a feed; the clear token is only returned here
+   */
+  async createFeed(
+    ownerId: string,
+    input: { scope: CalendarFeedScope; targetId: string; label?: string }
+  ): Promise<{ feed: CalendarFeed; token: string }> {
+    if (!await this.getTargetName(input.scope, input.targetId)) {
+      throw new Error(FEED_TARGET_NOT_FOUND_ERROR);
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const created = await CalendarFeedTokenModel.create({
+      tokenHash: hashToken(token),
+      scope: input.scope,
+      targetId: input.targetId,
+      ownerId,
+      ...(input.label && { label: input.label })
+    });
+
+    logger.info('Calendar feed created', { feedId: String(created._id), scope: input.scope, targetId: input.targetId, ownerId });
+    return { feed: toFeed(created.toObject()), token };
+  }
+
+  /**
+   * List feeds, optionally restricted to one owner
+   */
+  async listFeeds(ownerId?: string): Promise<CalendarFeed[]> {
+    const feeds = await CalendarFeedTokenModel.find(ownerId ? { ownerId } : {})
+      .sort({ createdAt: -1 })
+      .lean();
+
+    return feeds.map(toFeed);
+  }
+
+  /**
+   * Revoke a feed (owner or admin); returns null when it does not exist
+   */
+  async revokeFeed(feedId: string, requester: { userId: string; role: UserRole }): Promise<CalendarFeed | null> {
+    const feed = await CalendarFeedTokenModel.findById(feedId);
+    if (!feed) {
+      return null;
+    }
+
+    if (feed.ownerId !== requester.userId && requester.role !== UserRole.ADMIN) {
+      throw new Error(FEED_FORBIDDEN_ERROR);
+    }
+
+    if (!feed.revokedAt) {
+      feed.revokedAt = new Date();
+      await feed.save();
+      logger.info('Calendar feed revoked', { feedId, revokedBy: requester.userId });
+    }
+
+    return toFeed(feed.toObject());
+  }
+
+  /**
+   * Build the ICS document of a feed from its token
+   * Returns null for unknown or revoked tokens
+   */
+  async renderFeed(token: string): Promise<{ feed: CalendarFeed; name: string; ics: string } | null> {
+    const feed = await CalendarFeedTokenModel.findOne({ tokenHash: hashToken(token), revokedAt: null }).lean();
+    if (!feed) {
+      return null;
+    }
+
+    const now = new Date();
+    const start = startOfMonth(subMonths(now, FEED_PAST_MONTHS));
+    const end = endOfMonth(addMonths(now, FEED_FUTURE_MONTHS));
+
+    const [tasks, targetName, projects] = await Promise.all([
+      notionService.getTasksForCalendarView(start, end, {
+        originalStartDate: format(start, 'yyyy-MM-dd'),
+        originalEndDate: format(end, 'yyyy-MM-dd')
+      }),
+      this.getTargetName(feed.scope, feed.targetId),
+      entityService.getAllProjects()
+    ]);
+
+    const name = `Matter — ${targetName || feed.label || feed.targetId}`;
+    const ics = icsExportService.tasksToIcs(
+      tasks.filter(task => this.matchesScope(task, feed.scope, feed.targetId)),
+      { name, projectNames: new Map(projects.map(project => [project.id, project.name])) }
+    );
+
+    if (!feed.lastAccessedAt || now.getTime() - new Date(feed.lastAccessedAt).getTime() > LAST_ACCESS_WRITE_INTERVAL_MS) {
+      CalendarFeedTokenModel.updateOne({ _id: feed._id }, { $set: { lastAccessedAt: now } })
+        .catch(error => logger.warn('Failed to record calendar feed access', { feedId: String(feed._id), error }));
+    }
+
+    return { feed: toFeed(feed), name, ics };
+  }
+
+  private matchesScope(task: NotionTask, scope: CalendarFeedScope, targetId: string): boolean {
+    switch (scope) {
+      case 'member':
+        return task.assignedMembers?.includes(targetId) ?? false;
+      case 'team':
+        return task.teams?.includes(targetId) ?? false;
+      case 'project':
+        return task.projectId === targetId;
+    }
+  }
+
+  private async getTargetName(scope: CalendarFeedScope, targetId: string): Promise<string | null> {
+    const entities: { id: string; name: string }[] = scope === 'member'
+      ? await entityService.getAllMembers()
+      : scope === 'team'
+        ? await entityService.getAllTeams()
+        : await entityService.getAllProjects();
+
+    return entities.find(entity => entity.id === targetId)?.name ?? null;
+  }
+}
+
+export const calendarFeedService = new CalendarFeedService();
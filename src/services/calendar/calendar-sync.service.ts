@@ -0,0 +1,425 @@
+/**
+ * Synchronisation bidirectionnelle des tâches "Ajouter au calendrier"
+ *
+ * Notion -> agenda : chaque tâche cochée a un événement dans l'agenda de chacun
+ * de ses assignés (créé, mis à jour quand le contenu change, supprimé quand la
+ * tâche est décochée, archivée ou le membre désassigné). L'ID de l'événement du premier
+ * assigné est recopié dans le champ "Google Event ID" de la tâche.
+ *
+ * Agenda -> Notion : les modifications faites dans l'agenda (titre, dates) sont
+ * reportées sur la tâche ; un événement supprimé par le membre n'est plus
+ * recréé pour lui. Si la tâche a aussi changé depuis la dernière synchro,
+ * Notion l'emporte et l'événement est écrasé.
+ *
+ * Le fournisseur d'agenda est injectable (setProvider) pour les tests.
+ */
+
+import crypto from 'crypto';
+import { addDays, format, parseISO, subDays } from 'date-fns';
+import logger from '../../config/logger.config';
+import notionService from '../notion.service';
+import { entityService } from '../notion/entity.service';
+import { createGoogleCalendarProvider } from './google-calendar.provider';
+import { CalendarProviderError } from '../../errors/CalendarProviderError';
+import { CalendarEventLinkModel, ICalendarEventLink } from '../../models/CalendarEventLink.model';
+import { CalendarSyncStateModel } from '../../models/CalendarSyncState.model';
+import { NotionTask, UpdateTaskInput } from '../../types/notion.types';
+import {
+  CalendarProvider,
+  CalendarEventPayload,
+  CalendarEventTime,
+  RemoteCalendarEvent,
+  CalendarSyncRunResult
+} from '../../types/calendar.types';
+
+const SYNC_PAST_DAYS = 7;
+const SYNC_FUTURE_DAYS = 90;
+
+type EventSnapshot = ICalendarEventLink['snapshot'];
+
+const timeKey = (time: CalendarEventTime | null): string => {
+  if (!time) return '';
+  return 'date' in time ? time.date : new Date(time.dateTime).toISOString();
+};
+
+const toSnapshot = (summary: string, start: CalendarEventTime | null, end: CalendarEventTime | null): EventSnapshot => ({
+  summary,
+  start: timeKey(start),
+  end: timeKey(end)
+});
+
+const emptyResult = (): CalendarSyncRunResult => ({
+  skipped: false,
+  tasksChecked: 0,
+  created: 0,
+  updated: 0,
+  deleted: 0,
+  remoteChangesApplied: 0,
+  conflicts: 0,
+  errors: []
+});
+
+class CalendarSyncService {
+  private provider: CalendarProvider | null | undefined = undefined; // undefined = pas encore résolu
+  private running = false;
+  private lastRun: (CalendarSyncRunResult & { startedAt: Date; finishedAt: Date }) | null = null;
+
+  /**
+   * Replace the calendar provider (tests, other backends)
+   */
+  setProvider(provider: CalendarProvider | null): void {
+    this.provider = provider;
+  }
+
+  getProvider(): CalendarProvider | null {
+    if (this.provider === undefined) {
+      this.provider = createGoogleCalendarProvider();
+    }
+    return this.provider;
+  }
+
+  /**
+   * Sync status for the admin endpoints
+   */
+  async getStatus() {
+    const [activeLinks, deletedRemotely, calendars] = await Promise.all([
+      CalendarEventLinkModel.countDocuments({ status: 'active' }),
+      CalendarEventLinkModel.countDocuments({ status: 'deleted_remotely' }),
+      CalendarSyncStateModel.find().sort({ calendarId: 1 }).select('calendarId lastPulledAt').lean()
+    ]);
+
+    return {
+      configured: this.getProvider() !== null,
+      provider: this.getProvider()?.name ?? null,
+      running: this.running,
+      lastRun: this.lastRun,
+      links: { active: activeLinks, deletedRemotely },
+      calendars: calendars.map(calendar => ({ calendarId: calendar.calendarId, lastPulledAt: calendar.lastPulledAt }))
+    };
+  }
+
+  /**
+   * Pull calendar-side changes, then push the flagged tasks of the sync window
+   */
+  async runSync(): Promise<CalendarSyncRunResult> {
+    const provider = this.getProvider();
+
+    if (!provider || this.running) {
+      if (this.running) {
+        logger.warn('[CALENDAR] Sync already running, skipping');
+      }
+      return { ...emptyResult(), skipped: true };
+    }
+
+    this.running = true;
+    const startedAt = new Date();
+    const result = emptyResult();
+
+    try {
+      // 1. Agenda -> Notion, avant de repousser les tâches
+      const calendarIds: string[] = await CalendarEventLinkModel.distinct('calendarId');
+      for (const calendarId of calendarIds) {
+        try {
+          await this.pullCalendar(provider, calendarId, result);
+        } catch (error) {
+          logger.error('[CALENDAR] Failed to pull calendar changes', { calendarId, error });
+          result.errors.push(`pull ${calendarId}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      // 2. Notion -> agenda
+      const windowStart = subDays(startedAt, SYNC_PAST_DAYS);
+      const windowEnd = addDays(startedAt, SYNC_FUTURE_DAYS);
+      const [tasks, members] = await Promise.all([
+        notionService.getTasksForCalendarView(windowStart, windowEnd, {
+          originalStartDate: format(windowStart, 'yyyy-MM-dd'),
+          originalEndDate: format(windowEnd, 'yyyy-MM-dd')
+        }),
+        entityService.getAllMembers()
+      ]);
+      const calendarByMember = new Map(
+        members.filter(member => member.email).map(member => [member.id, member.email.trim().toLowerCase()])
+      );
+
+      const links = await CalendarEventLinkModel.find({ taskId: { $in: tasks.map(task => task.id) } }).lean();
+
+      for (const task of tasks) {
+        const taskLinks = links.filter(link => link.taskId === task.id);
+        if (!task.addToCalendar && taskLinks.length === 0) {
+          continue;
+        }
+
+        result.tasksChecked++;
+        try {
+          await this.pushTask(provider, task, taskLinks, calendarByMember, result);
+        } catch (error) {
+          logger.error('[CALENDAR] Failed to sync task', { taskId: task.id, error });
+          result.errors.push(`task ${task.id}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      // 3. Tâches ayant encore des événements hors de la fenêtre (archivées, supprimées ou déplacées)
+      const windowTaskIds = tasks.map(task => task.id);
+      const outsideTaskIds: string[] = await CalendarEventLinkModel.distinct('taskId', {
+        status: 'active',
+        taskId: { $nin: windowTaskIds }
+      });
+
+      for (const taskId of outsideTaskIds) {
+        result.tasksChecked++;
+        try {
+          await this.syncOutsideTask(provider, taskId, calendarByMember, result);
+        } catch (error) {
+          logger.error('[CALENDAR] Failed to sync task', { taskId, error });
+          result.errors.push(`task ${taskId}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+
+    this.lastRun = { ...result, startedAt, finishedAt: new Date() };
+    logger.info('[CALENDAR] Sync completed', { ...result, errors: result.errors.length });
+    return result;
+  }
+
+  /**
+   * Create, update or delete the events of a task so they match its assignees
+   */
+  private async pushTask(
+    provider: CalendarProvider,
+    task: NotionTask,
+    taskLinks: ICalendarEventLink[],
+    calendarByMember: Map<string, string>,
+    result: CalendarSyncRunResult
+  ): Promise<void> {
+    const wanted = task.addToCalendar && task.workPeriod?.startDate
+      ? task.assignedMembers.filter(memberId => calendarByMember.has(memberId))
+      : [];
+    const payload = this.toPayload(task);
+    const payloadHash = this.hashPayload(payload);
+    const snapshot = toSnapshot(payload.summary, payload.start, payload.end);
+
+    // Membres désassignés, tâche décochée ou email du membre modifié
+    await this.deleteLinks(
+      provider,
+      taskLinks.filter(link => !wanted.includes(link.memberId) || calendarByMember.get(link.memberId) !== link.calendarId),
+      result
+    );
+
+    const eventIds: string[] = [];
+
+    for (const memberId of wanted) {
+      const calendarId = calendarByMember.get(memberId)!;
+      const link = taskLinks.find(candidate => candidate.memberId === memberId && candidate.calendarId === calendarId);
+
+      if (link?.status === 'deleted_remotely') {
+        continue;
+      }
+
+      if (!link) {
+        const event = await provider.createEvent(calendarId, payload);
+        await CalendarEventLinkModel.create({
+          taskId: task.id,
+          memberId,
+          calendarId,
+          eventId: event.id,
+          provider: provider.name,
+          payloadHash,
+          snapshot,
+          lastSyncedAt: new Date()
+        });
+        result.created++;
+        eventIds.push(event.id);
+        continue;
+      }
+
+      if (link.payloadHash !== payloadHash) {
+        let eventId = link.eventId;
+        try {
+          await provider.updateEvent(calendarId, link.eventId, payload);
+        } catch (error) {
+          // Événement disparu sans notification : on le recrée
+          if (!(error instanceof CalendarProviderError && error.status === 404)) {
+            throw error;
+          }
+          eventId = (await provider.createEvent(calendarId, payload)).id;
+        }
+        await CalendarEventLinkModel.updateOne(
+          { _id: link._id },
+          { $set: { eventId, payloadHash, snapshot, lastSyncedAt: new Date() } }
+        );
+        result.updated++;
+        eventIds.push(eventId);
+        continue;
+      }
+
+      eventIds.push(link.eventId);
+    }
+
+    const primaryEventId = eventIds[0] ?? null;
+    if ((task.googleEventId || null) !== primaryEventId) {
+      await notionService.updateTask(task.id, { googleEventId: primaryEventId });
+    }
+  }
+
+  /**
+   * Sync a task whose events lie outside the window: an archived or deleted task
+   * loses its events, any other task is pushed as usual
+   */
+  private async syncOutsideTask(
+    provider: CalendarProvider,
+    taskId: string,
+    calendarByMember: Map<string, string>,
+    result: CalendarSyncRunResult
+  ): Promise<void> {
+    const taskLinks = await CalendarEventLinkModel.find({ taskId }).lean();
+    let task: NotionTask | null;
+
+    try {
+      task = await notionService.getTask(taskId, { forceRefresh: true });
+    } catch (error: any) {
+      // Page supprimée définitivement
+      if (error?.status !== 404) {
+        throw error;
+      }
+      task = null;
+    }
+
+    if (!task || task.archived) {
+      await this.deleteLinks(provider, taskLinks, result);
+      logger.info('[CALENDAR] Events of an archived task deleted', { taskId, links: taskLinks.length });
+      return;
+    }
+
+    await this.pushTask(provider, task, taskLinks, calendarByMember, result);
+  }
+
+  private async deleteLinks(provider: CalendarProvider, links: ICalendarEventLink[], result: CalendarSyncRunResult): Promise<void> {
+    for (const link of links) {
+      if (link.status === 'active') {
+        await provider.deleteEvent(link.calendarId, link.eventId);
+        result.deleted++;
+      }
+      await CalendarEventLinkModel.deleteOne({ _id: link._id });
+    }
+  }
+
+  /**
+   * Apply the changes made on a calendar since the last pull
+   */
+  private async pullCalendar(provider: CalendarProvider, calendarId: string, result: CalendarSyncRunResult): Promise<void> {
+    const state = await CalendarSyncStateModel.findOne({ calendarId }).lean();
+    let changes;
+
+    try {
+      changes = await provider.listChanges(calendarId, state?.syncToken ?? null);
+    } catch (error) {
+      if (!(error instanceof CalendarProviderError && error.isSyncTokenExpired)) {
+        throw error;
+      }
+      logger.warn('[CALENDAR] Sync token expired, full resync', { calendarId });
+      changes = await provider.listChanges(calendarId, null);
+    }
+
+    for (const event of changes.events) {
+      if (event.taskId) {
+        await this.applyRemoteChange(calendarId, event, result);
+      }
+    }
+
+    await CalendarSyncStateModel.updateOne(
+      { calendarId },
+      { $set: { provider: provider.name, syncToken: changes.nextSyncToken || null, lastPulledAt: new Date() } },
+      { upsert: true }
+    );
+  }
+
+  private async applyRemoteChange(calendarId: string, event: RemoteCalendarEvent, result: CalendarSyncRunResult): Promise<void> {
+    const link = await CalendarEventLinkModel.findOne({ calendarId, eventId: event.id }).lean();
+    if (!link || link.status !== 'active') {
+      return;
+    }
+
+    if (event.status === 'cancelled') {
+      await CalendarEventLinkModel.updateOne({ _id: link._id }, { $set: { status: 'deleted_remotely', lastSyncedAt: new Date() } });
+      logger.info('[CALENDAR] Event deleted on the calendar side', { taskId: link.taskId, calendarId });
+      return;
+    }
+
+    const remote = toSnapshot(event.summary, event.start, event.end);
+    if (remote.summary === link.snapshot.summary && remote.start === link.snapshot.start && remote.end === link.snapshot.end) {
+      return;
+    }
+
+    const task = await notionService.getTask(link.taskId, { forceRefresh: true });
+    if (this.hashPayload(this.toPayload(task)) !== link.payloadHash) {
+      result.conflicts++;
+      logger.warn('[CALENDAR] Task and event both changed, keeping the Notion version', { taskId: link.taskId, calendarId });
+      return;
+    }
+
+    const update: UpdateTaskInput = {};
+    if (remote.summary !== link.snapshot.summary) {
+      update.title = event.summary;
+    }
+    if ((remote.start !== link.snapshot.start || remote.end !== link.snapshot.end) && event.start && event.end) {
+      update.workPeriod = this.toWorkPeriod(event.start, event.end);
+    }
+
+    const updatedTask = await notionService.updateTask(link.taskId, update);
+    const payload = this.toPayload(updatedTask);
+
+    // Les autres assignés recevront la modification au prochain push (empreinte différente)
+    await CalendarEventLinkModel.updateOne(
+      { _id: link._id },
+      {
+        $set: {
+          payloadHash: this.hashPayload(payload),
+          snapshot: toSnapshot(payload.summary, payload.start, payload.end),
+          lastSyncedAt: new Date()
+        }
+      }
+    );
+    result.remoteChangesApplied++;
+    logger.info('[CALENDAR] Calendar change applied to task', { taskId: link.taskId, calendarId, fields: Object.keys(update) });
+  }
+
+  /**
+   * Event content of a task: all-day tasks become date events (end exclusive)
+   */
+  private toPayload(task: NotionTask): CalendarEventPayload {
+    const start = task.workPeriod?.startDate ? new Date(task.workPeriod.startDate) : new Date();
+    const end = task.workPeriod?.endDate ? new Date(task.workPeriod.endDate) : start;
+
+    return {
+      summary: task.title || 'Sans titre',
+      description: [task.notes, task.notionUrl].filter(Boolean).join('\n\n'),
+      start: task.isAllDay ? { date: format(start, 'yyyy-MM-dd') } : { dateTime: start.toISOString() },
+      end: task.isAllDay
+        ? { date: format(addDays(end > start ? end : start, 1), 'yyyy-MM-dd') }
+        : { dateTime: (end > start ? end : start).toISOString() },
+      taskId: task.id
+    };
+  }
+
+  private toWorkPeriod(start: CalendarEventTime, end: CalendarEventTime): { startDate: string; endDate: string } {
+    if ('date' in start && 'date' in end) {
+      // Fin exclusive côté agenda, inclusive côté Notion
+      const lastDay = format(subDays(parseISO(end.date), 1), 'yyyy-MM-dd');
+      return { startDate: start.date, endDate: lastDay < start.date ? start.date : lastDay };
+    }
+
+    return {
+      startDate: new Date('dateTime' in start ? start.dateTime : start.date).toISOString(),
+      endDate: new Date('dateTime' in end ? end.dateTime : end.date).toISOString()
+    };
+  }
+
+  private hashPayload(payload: CalendarEventPayload): string {
+    const { summary, description, start, end } = payload;
+    return crypto.createHash('sha256').update(JSON.stringify({ summary, description, start, end })).digest('hex');
+  }
+}
+
+export const calendarSyncService = new CalendarSyncService();
@@ -0,0 +1,230 @@
+/**
+ * Client Google Calendar (API REST v3)
+ *
+ * Authentification par compte de service avec délégation sur le domaine : un
+ * jeton d'accès est demandé par agenda (sub = email du membre) pour écrire
+ * dans l'agenda principal de chaque assigné. Les URLs de l'API et du serveur
+ * OAuth sont configurables pour pouvoir tester contre un faux serveur local.
+ */
+
+import jwt from 'jsonwebtoken';
+import logger from '../../config/logger.config';
+import { CalendarProviderError } from '../../errors/CalendarProviderError';
+import {
+  CalendarProvider,
+  CalendarEventPayload,
+  RemoteCalendarEvent,
+  CalendarChanges
+} from '../../types/calendar.types';
+
+export interface GoogleCalendarProviderOptions {
+  clientEmail: string;
+  privateKey: string;
+  apiUrl?: string;
+  tokenUrl?: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_API_URL = 'https://www.googleapis.com/calendar/v3';
+const DEFAULT_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const DEFAULT_TIMEOUT_MS = 15000;
+const CALENDAR_SCOPE = 'https://www.googleapis.com/auth/calendar.events';
+const TASK_ID_PROPERTY = 'matterTaskId';
+
+export class GoogleCalendarProvider implements CalendarProvider {
+  readonly name = 'google';
+  private readonly apiUrl: string;
+  private readonly tokenUrl: string;
+  private readonly timeoutMs: number;
+  private accessTokens: Map<string, { token: string; expiresAt: number }> = new Map();
+
+  constructor(private readonly options: GoogleCalendarProviderOptions) {
+    this.apiUrl = (options.apiUrl || DEFAULT_API_URL).replace(/\/$/, '');
+    this.tokenUrl = options.tokenUrl || DEFAULT_TOKEN_URL;
+    this.timeoutMs = options.timeoutMs || DEFAULT_TIMEOUT_MS;
+  }
+
+  async createEvent(calendarId: string, payload: CalendarEventPayload): Promise<RemoteCalendarEvent> {
+    const event = await this.request(calendarId, 'POST', this.eventsPath(calendarId), this.toGoogleEvent(payload));
+    return this.fromGoogleEvent(event);
+  }
+
+  async updateEvent(calendarId: string, eventId: string, payload: CalendarEventPayload): Promise<RemoteCalendarEvent> {
+    const event = await this.request(
+      calendarId,
+      'PATCH',
+      `${this.eventsPath(calendarId)}/${encodeURIComponent(eventId)}`,
+      this.toGoogleEvent(payload)
+    );
+    return this.fromGoogleEvent(event);
+  }
+
+  async deleteEvent(calendarId: string, eventId: string): Promise<void> {
+    try {
+      await this.request(calendarId, 'DELETE', `${this.eventsPath(calendarId)}/${encodeURIComponent(eventId)}`);
+    } catch (error) {
+      // Déjà supprimé côté agenda
+      if (error instanceof CalendarProviderError && (error.status === 404 || error.status === 410)) {
+        return;
+      }
+      throw error;
+    }
+  }
+
+  async listChanges(calendarId: string, syncToken: string | null): Promise<CalendarChanges> {
+    const events: RemoteCalendarEvent[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const params = new URLSearchParams({ showDeleted: 'true', maxResults: '250' });
+      if (syncToken) params.set('syncToken', syncToken);
+      if (pageToken) params.set('pageToken', pageToken);
+
+      const page = await this.request(calendarId, 'GET', `${this.eventsPath(calendarId)}?${params}`);
+      events.push(...(page.items || []).map((event: any) => this.fromGoogleEvent(event)));
+      pageToken = page.nextPageToken;
+
+      if (!pageToken) {
+        return { events, nextSyncToken: page.nextSyncToken };
+      }
+    } while (pageToken);
+
+    return { events, nextSyncToken: syncToken || '' };
+  }
+
+  private eventsPath(calendarId: string): string {
+    return `/calendars/${encodeURIComponent(calendarId)}/events`;
+  }
+
+  private toGoogleEvent(payload: CalendarEventPayload): any {
+    return {
+      summary: payload.summary,
+      description: payload.description,
+      start: payload.start,
+      end: payload.end,
+      extendedProperties: { private: { [TASK_ID_PROPERTY]: payload.taskId } }
+    };
+  }
+
+  private fromGoogleEvent(event: any): RemoteCalendarEvent {
+    const toTime = (time: any) => time?.date
+      ? { date: time.date }
+      : time?.dateTime ? { dateTime: time.dateTime } : null;
+
+    return {
+      id: event.id,
+      status: event.status || 'confirmed',
+      summary: event.summary || '',
+      start: toTime(event.start),
+      end: toTime(event.end),
+      taskId: event.extendedProperties?.private?.[TASK_ID_PROPERTY] || null,
+      updated: event.updated || null
+    };
+  }
+
+  private async request(calendarId: string, method: string, path: string, body?: any): Promise<any> {
+    const response = await this.fetchWithTimeout(`${this.apiUrl}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${await this.getAccessToken(calendarId)}`,
+        ...(body && { 'Content-Type': 'application/json' })
+      },
+      ...(body && { body: JSON.stringify(body) })
+    });
+
+    if (response.status === 204) {
+      return null;
+    }
+
+    const data = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      throw CalendarProviderError.fromResponse(response.status, data);
+    }
+
+    return data;
+  }
+
+  /**
+   * fetch bounded by the provider timeout, so a hanging Google endpoint cannot block the sync job
+   */
+  private async fetchWithTimeout(url: string, init: RequestInit): Promise<Response> {
+    try {
+      return await fetch(url, { ...init, signal: AbortSignal.timeout(this.timeoutMs) });
+    } catch (error) {
+      if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+        throw new CalendarProviderError(
+          `Calendar API request timed out after ${this.timeoutMs}ms`,
+          'TIMEOUT',
+          504
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * OAuth access token impersonating the calendar owner, cached until shortly before expiry
+   */
+  private async getAccessToken(subject: string): Promise<string> {
+    const cached = this.accessTokens.get(subject);
+    if (cached && cached.expiresAt > Date.now() + 60000) {
+      return cached.token;
+    }
+
+    const assertion = jwt.sign(
+      { scope: CALENDAR_SCOPE },
+      this.options.privateKey,
+      {
+        algorithm: 'RS256',
+        issuer: this.options.clientEmail,
+        subject,
+        audience: this.tokenUrl,
+        expiresIn: 3600
+      }
+    );
+
+    const response = await this.fetchWithTimeout(this.tokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+        assertion
+      })
+    });
+    const data: any = await response.json().catch(() => null);
+
+    if (!response.ok || !data?.access_token) {
+      logger.error('Google Calendar token request failed', { subject, status: response.status });
+      throw CalendarProviderError.fromResponse(response.status === 200 ? 401 : response.status, data);
+    }
+
+    this.accessTokens.set(subject, {
+      token: data.access_token,
+      expiresAt: Date.now() + (data.expires_in || 3600) * 1000
+    });
+
+    return data.access_token;
+  }
+}
+
+/**
+ * Provider configured from the environment, null when the sync is not configured
+ */
+export const createGoogleCalendarProvider = (): GoogleCalendarProvider | null => {
+  const clientEmail = process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL;
+  const privateKey = process.env.GOOGLE_SERVICE_ACCOUNT_PRIVATE_KEY;
+
+  if (!clientEmail || !privateKey) {
+    return null;
+  }
+
+  return new GoogleCalendarProvider({
+    clientEmail,
+    // Les clés passées en variable d'environnement ont leurs retours à la ligne échappés
+    privateKey: privateKey.replace(/\\n/g, '\n'),
+    ...(process.env.GOOGLE_CALENDAR_API_URL && { apiUrl: process.env.GOOGLE_CALENDAR_API_URL }),
+    ...(process.env.GOOGLE_OAUTH_TOKEN_URL && { tokenUrl: process.env.GOOGLE_OAUTH_TOKEN_URL }),
+    ...(process.env.GOOGLE_CALENDAR_TIMEOUT_MS && { timeoutMs: parseInt(process.env.GOOGLE_CALENDAR_TIMEOUT_MS) })
+  });
+};
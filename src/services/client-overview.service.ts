@@ -0,0 +1,203 @@
+/**
+ * Vue d'ensemble d'un client (préparation des rendez-vous client)
+ *
+ * Regroupe les projets en cours du client, les prochains jalons du
+ * rétroplanning client, les heures vendues/passées par mois sur les 12 derniers
+ * mois et les membres les plus impliqués. Les tâches viennent du cache par
+ * projet (tasks:list:project:*).
+ */
+
+import { addMonths, format, startOfDay, startOfMonth, subMonths } from 'date-fns';
+import notionService from './notion.service';
+import { entityService } from './notion/entity.service';
+import { NotionMember, NotionTask } from '../types/notion.types';
+import { getTaskLastDay } from '../utils/taskDates';
+
+export const CLIENT_OVERVIEW_MONTHS = 12;
+const UPCOMING_MILESTONES_LIMIT = 10;
+const TOP_MEMBERS_LIMIT = 5;
+
+export interface ClientMilestone {
+  id: string;
+  title: string;
+  project: { id: string; name: string };
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, inclusif
+  isAllDay: boolean;
+  status: NotionTask['status'];
+}
+
+export interface ClientMonthlyHours {
+  month: string; // YYYY-MM
+  billedHours: number;
+  actualHours: number;
+}
+
+export interface ClientOverview {
+  client: { id: string; name: string };
+  activeProjects: { id: string; name: string; status: string; taskCount: number }[];
+  projectCount: number; // Tous statuts confondus
+  upcomingMilestones: ClientMilestone[];
+  monthlyHours: ClientMonthlyHours[]; // Du plus ancien au mois en cours
+  totalHours: { billedHours: number; actualHours: number };
+  topMembers: { id: string; name: string; email: string; taskCount: number; actualHours: number }[];
+}
+
+const round = (hours: number): number => Math.round(hours * 100) / 100;
+
+class ClientOverviewService {
+  /**
+   * Projects, milestones, monthly hours and most involved members of a client
+   * Returns null when the client does not exist
+   */
+  async getClientOverview(clientId: string): Promise<ClientOverview | null> {
+    const [client] = await notionService.batchLoadClients([clientId]);
+
+    if (!client) {
+      return null;
+    }
+
+    // Le lien client/projet peut n'être renseigné que d'un côté selon les bases Notion
+    const projects = (await entityService.getAllProjects())
+      .filter(project => project.client === clientId || client.projects?.includes(project.id));
+
+    const tasksByProject = new Map(await Promise.all(
+      projects.map(async project => [project.id, await notionService.getProjectTasks(project.id)] as const)
+    ));
+    const tasks = Array.from(tasksByProject.values()).flat();
+
+    const now = new Date();
+    const firstMonth = startOfMonth(subMonths(now, CLIENT_OVERVIEW_MONTHS - 1));
+    const recentTasks = tasks.filter(task =>
+      task.workPeriod?.startDate && new Date(task.workPeriod.startDate) >= firstMonth && new Date(task.workPeriod.startDate) <= now
+    );
+    const monthlyHours = this.getMonthlyHours(recentTasks, firstMonth);
+
+    return {
+      client: { id: client.id, name: client.name },
+      activeProjects: projects
+        .filter(project => project.status === 'En cours')
+        .map(project => ({
+          id: project.id,
+          name: project.name,
+          status: project.status,
+          taskCount: tasksByProject.get(project.id)?.length ?? 0
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name, 'fr')),
+      projectCount: projects.length,
+      upcomingMilestones: this.getUpcomingMilestones(projects, tasksByProject, now),
+      monthlyHours,
+      totalHours: {
+        billedHours: round(monthlyHours.reduce((sum, month) => sum + month.billedHours, 0)),
+        actualHours: round(monthlyHours.reduce((sum, month) => sum + month.actualHours, 0))
+      },
+      topMembers: await this.getTopMembers(recentTasks)
+    };
+  }
+
+  /**
+   * Client planning tasks not finished yet, soonest first
+   */
+  private getUpcomingMilestones(
+    projects: { id: string; name: string }[],
+    tasksByProject: Map<string, NotionTask[]>,
+    now: Date
+  ): ClientMilestone[] {
+    const today = startOfDay(now);
+    const milestones: (ClientMilestone & { start: Date })[] = [];
+
+    for (const project of projects) {
+      for (const task of tasksByProject.get(project.id) || []) {
+        if (!task.clientPlanning || !task.workPeriod?.startDate) {
+          continue;
+        }
+
+        const start = new Date(task.workPeriod.startDate);
+        const end = getTaskLastDay(task)!;
+
+        if (end < today) {
+          continue;
+        }
+
+        milestones.push({
+          id: task.id,
+          title: task.title,
+          project: { id: project.id, name: project.name },
+          startDate: format(start, 'yyyy-MM-dd'),
+          endDate: format(end, 'yyyy-MM-dd'),
+          isAllDay: task.isAllDay ?? false,
+          status: task.status,
+          start
+        });
+      }
+    }
+
+    return milestones
+      .sort((a, b) => a.start.getTime() - b.start.getTime())
+      .slice(0, UPCOMING_MILESTONES_LIMIT)
+      .map(({ start: _start, ...milestone }) => milestone);
+  }
+
+  /**
+   * Billed and actual hours per month of task start, empty months included
+   */
+  private getMonthlyHours(tasks: NotionTask[], firstMonth: Date): ClientMonthlyHours[] {
+    const months = new Map<string, ClientMonthlyHours>();
+
+    for (let i = 0; i < CLIENT_OVERVIEW_MONTHS; i++) {
+      const month = format(addMonths(firstMonth, i), 'yyyy-MM');
+      months.set(month, { month, billedHours: 0, actualHours: 0 });
+    }
+
+    for (const task of tasks) {
+      const entry = months.get(format(new Date(task.workPeriod.startDate!), 'yyyy-MM'));
+      if (entry) {
+        entry.billedHours += task.billedHours ?? 0;
+        entry.actualHours += task.actualHours ?? 0;
+      }
+    }
+
+    return Array.from(months.values()).map(entry => ({
+      month: entry.month,
+      billedHours: round(entry.billedHours),
+      actualHours: round(entry.actualHours)
+    }));
+  }
+
+  /**
+   * Members assigned to the most tasks over the period
+   * Hours of a shared task are counted for each assigned member
+   */
+  private async getTopMembers(tasks: NotionTask[]): Promise<ClientOverview['topMembers']> {
+    const stats = new Map<string, { taskCount: number; actualHours: number }>();
+
+    for (const task of tasks) {
+      for (const memberId of task.assignedMembers || []) {
+        const entry = stats.get(memberId) || { taskCount: 0, actualHours: 0 };
+        entry.taskCount += 1;
+        entry.actualHours += task.actualHours ?? 0;
+        stats.set(memberId, entry);
+      }
+    }
+
+    if (stats.size === 0) {
+      return [];
+    }
+
+    const members = await notionService.batchLoadMembers(Array.from(stats.keys()));
+
+    return members
+      .filter((member): member is NotionMember => member !== null)
+      .map(member => ({
+        id: member.id,
+        name: member.name,
+        email: member.email,
+        taskCount: stats.get(member.id)!.taskCount,
+        actualHours: round(stats.get(member.id)!.actualHours)
+      }))
+      .sort((a, b) => b.taskCount - a.taskCount || b.actualHours - a.actualHours || a.name.localeCompare(b.name, 'fr'))
+      .slice(0, TOP_MEMBERS_LIMIT);
+  }
+}
+
+export const clientOverviewService = new ClientOverviewService();
@@ -0,0 +1,213 @@
+/**
+ * Décisions sur les conflits de planning : pris en compte (acknowledged),
+ * ignoré ou rouvert, avec motif et auteur.
+ *
+ * Les conflits sont recalculés à chaque modification de tâche ; une décision
+ * est rattachée à l'empreinte du conflit (type, membre, tâche en conflit ou
+ * jour) et réappliquée à chaque nouvelle détection du même conflit.
+ * L'historique est conservé (une entrée par décision).
+ */
+
+import logger from '../config/logger.config';
+import { ConflictDecisionModel, IConflictDecision } from '../models/ConflictDecision.model';
+import { TaskSchedulingConflictModel, ITaskSchedulingConflict } from '../models/TaskSchedulingConflict.model';
+import { SchedulingConflict } from '../controllers/tasks/tasks-conflict.controller';
+
+export type ConflictDecisionType = IConflictDecision['decision'];
+
+export interface ConflictDecisionInput {
+  fingerprint: string;
+  decision: ConflictDecisionType;
+  reason?: string | undefined;
+}
+
+export interface ConflictDecisionActor {
+  userId?: string;
+  email?: string;
+}
+
+export interface ConflictDecisionEntry {
+  id: string;
+  taskId: string;
+  fingerprint: string;
+  conflictType: string;
+  memberId: string;
+  decision: ConflictDecisionType;
+  reason?: string;
+  actorEmail?: string;
+  createdAt: Date;
+}
+
+export interface ConflictHistory {
+  taskId: string;
+  // Conflits enregistrés (résolus compris), du plus récent au plus ancien
+  conflicts: Array<Omit<SchedulingConflict, 'status'> & {
+    status: ITaskSchedulingConflict['status'];
+    detectedAt: Date;
+    resolvedAt?: Date;
+  }>;
+  decisions: ConflictDecisionEntry[]; // Décisions, de la plus récente à la plus ancienne
+}
+
+export const CONFLICT_NOT_FOUND_ERROR = 'Conflict not found for this task';
+export const CONFLICT_REASON_REQUIRED_ERROR = 'A reason is required to ignore a conflict';
+
+const HISTORY_LIMIT = 200;
+
+/**
+ * Identity of a conflict across detections
+ */
+export const getConflictFingerprint = (conflict: Pick<SchedulingConflict, 'type' | 'memberId' | 'conflictingTaskId' | 'date'>): string =>
+  [conflict.type, conflict.memberId, conflict.conflictingTaskId || conflict.date || ''].join(':');
+
+const toEntry = (decision: any): ConflictDecisionEntry => ({
+  id: String(decision._id),
+  taskId: decision.taskId,
+  fingerprint: decision.fingerprint,
+  conflictType: decision.conflictType,
+  memberId: decision.memberId,
+  decision: decision.decision,
+  ...(decision.reason && { reason: decision.reason }),
+  ...(decision.actorEmail && { actorEmail: decision.actorEmail }),
+  createdAt: decision.createdAt
+});
+
+class ConflictDecisionService {
+  /**
+   * Record a decision on a conflict of a task
+   * The conflict must be stored for the task or among the given detected conflicts
+   */
+  async recordDecision(
+    taskId: string,
+    input: ConflictDecisionInput,
+    actor: ConflictDecisionActor,
+    detectedConflicts: SchedulingConflict[] = []
+  ): Promise<ConflictDecisionEntry> {
+    if (input.decision === 'ignored' && !input.reason?.trim()) {
+      throw new Error(CONFLICT_REASON_REQUIRED_ERROR);
+    }
+
+    const stored = await TaskSchedulingConflictModel.findOne({
+      taskId,
+      fingerprint: input.fingerprint,
+      status: { $ne: 'resolved' }
+    }).lean();
+    const conflict = stored || detectedConflicts.find(candidate => getConflictFingerprint(candidate) === input.fingerprint);
+
+    if (!conflict) {
+      throw new Error(CONFLICT_NOT_FOUND_ERROR);
+    }
+
+    const created = await ConflictDecisionModel.create({
+      taskId,
+      fingerprint: input.fingerprint,
+      conflictType: conflict.type,
+      memberId: conflict.memberId,
+      decision: input.decision,
+      ...(input.reason && { reason: input.reason }),
+      ...(actor.userId && { actorId: actor.userId }),
+      ...(actor.email && { actorEmail: actor.email })
+    });
+
+    // Les conflits déjà enregistrés prennent le nouveau statut immédiatement
+    await TaskSchedulingConflictModel.updateMany(
+      { taskId, fingerprint: input.fingerprint, status: { $ne: 'resolved' } },
+      input.decision === 'reopened'
+        ? { $set: { status: 'active' }, $unset: { decisionReason: 1, decidedBy: 1, decidedAt: 1 } }
+        : {
+          $set: {
+            status: input.decision,
+            decisionReason: input.reason || '',
+            decidedBy: actor.email || actor.userId || '',
+            decidedAt: created.createdAt
+          }
+        }
+    );
+
+    logger.info('Conflict decision recorded', { taskId, fingerprint: input.fingerprint, decision: input.decision, actor: actor.email });
+    return toEntry(created.toObject());
+  }
+
+  /**
+   * Attach fingerprints and the latest decisions to detected conflicts
+   */
+  async applyDecisions(taskId: string, conflicts: SchedulingConflict[]): Promise<SchedulingConflict[]> {
+    const withFingerprints = conflicts.map(conflict => ({ ...conflict, fingerprint: getConflictFingerprint(conflict) }));
+    if (withFingerprints.length === 0) {
+      return withFingerprints;
+    }
+
+    let latest = new Map<string, ConflictDecisionEntry>();
+    try {
+      latest = await this.getLatestDecisions(taskId, withFingerprints.map(conflict => conflict.fingerprint));
+    } catch (error) {
+      // Sans décisions, les conflits restent actifs
+      logger.warn('Failed to load conflict decisions', { taskId, error });
+    }
+
+    return withFingerprints.map(conflict => {
+      const decision = latest.get(conflict.fingerprint);
+
+      if (!decision || decision.decision === 'reopened') {
+        return { ...conflict, status: 'active' as const };
+      }
+
+      return {
+        ...conflict,
+        status: decision.decision,
+        decisionReason: decision.reason || '',
+        decidedBy: decision.actorEmail || '',
+        decidedAt: decision.createdAt
+      };
+    });
+  }
+
+  /**
+   * Stored conflicts and decisions of a task, most recent first
+   */
+  async getHistory(taskId: string): Promise<ConflictHistory> {
+    const [conflicts, decisions] = await Promise.all([
+      TaskSchedulingConflictModel.find({ taskId }).sort({ detectedAt: -1 }).limit(HISTORY_LIMIT).lean(),
+      ConflictDecisionModel.find({ taskId }).sort({ createdAt: -1 }).limit(HISTORY_LIMIT).lean()
+    ]);
+
+    return {
+      taskId,
+      conflicts: conflicts.map((conflict: any) => ({
+        type: conflict.type,
+        message: conflict.message,
+        memberId: conflict.memberId,
+        ...(conflict.memberName && { memberName: conflict.memberName }),
+        ...(conflict.conflictingTaskId && { conflictingTaskId: conflict.conflictingTaskId }),
+        ...(conflict.conflictingTaskTitle && { conflictingTaskTitle: conflict.conflictingTaskTitle }),
+        severity: conflict.severity,
+        ...(conflict.date && { date: conflict.date }),
+        fingerprint: conflict.fingerprint || getConflictFingerprint(conflict),
+        status: conflict.status,
+        ...(conflict.decisionReason && { decisionReason: conflict.decisionReason }),
+        ...(conflict.decidedBy && { decidedBy: conflict.decidedBy }),
+        ...(conflict.decidedAt && { decidedAt: conflict.decidedAt }),
+        detectedAt: conflict.detectedAt,
+        ...(conflict.resolvedAt && { resolvedAt: conflict.resolvedAt })
+      })),
+      decisions: decisions.map(toEntry)
+    };
+  }
+
+  private async getLatestDecisions(taskId: string, fingerprints: string[]): Promise<Map<string, ConflictDecisionEntry>> {
+    const decisions = await ConflictDecisionModel.find({ taskId, fingerprint: { $in: fingerprints } })
+      .sort({ createdAt: -1 })
+      .lean();
+    const latest = new Map<string, ConflictDecisionEntry>();
+
+    for (const decision of decisions) {
+      if (!latest.has(decision.fingerprint)) {
+        latest.set(decision.fingerprint, toEntry(decision));
+      }
+    }
+
+    return latest;
+  }
+}
+
+export const conflictDecisionService = new ConflictDecisionService();
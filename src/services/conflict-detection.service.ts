@@ -1,4 +1,4 @@
-import { redisService } from "./redis.service";
+import { taskIndexService } from "./notion/task-index.service";
 import notionService from "./notion.service";
 import { tasksConflictService } from "./tasks-conflict.service";
 import { notionRateLimiter } from "../middleware/rate-limit.middleware";
@@ -20,12 +20,15 @@ export class ConflictDetectionService {
       
       console.log('[CREATE CONFLICT] Starting hybrid conflict detection...');
       
-      // Try cache first
-      const cacheKey = `tasks:calendar:start=2025-08-26:end=2025-10-25`;
-      const cachedTasks = await redisService.get(cacheKey);
+      // Try the member/day index first, for exactly the task's work period
+      const cachedTasks = await taskIndexService.getTasksForMembers(
+        taskData.assignedMembers,
+        taskData.workPeriod.startDate,
+        taskData.workPeriod.endDate
+      );
       
-      if (cachedTasks && Array.isArray(cachedTasks)) {
-        console.log(`[CREATE CONFLICT] Using cache: ${cachedTasks.length} tasks found`);
+      if (cachedTasks) {
+        console.log(`[CREATE CONFLICT] Using task index: ${cachedTasks.length} tasks found`);
         
         // Filter for relevant tasks
         const relevantTasks = cachedTasks.filter((task: any) => 
@@ -41,7 +44,7 @@ export class ConflictDetectionService {
         );
         
       } else {
-        console.log('[CREATE CONFLICT] Cache empty, fetching from Notion...');
+        console.log('[CREATE CONFLICT] Task index incomplete for this period, fetching from Notion...');
         
         // HYBRID: Direct Notion query for specific members WITH RATE LIMITING
         try {
@@ -111,12 +114,16 @@ export class ConflictDetectionService {
         const relevantTasks: any[] = [];
         
         try {
-          // 1. D'ABORD essayer le cache Redis
-          const cacheKey = `tasks:calendar:start=2025-08-26:end=2025-10-25`;
-          const cachedTasks = await redisService.get(cacheKey);
+          // 1. D'ABORD essayer l'index membre/jour sur la période exacte de la tâche
+          const cachedTasks = await taskIndexService.getTasksForMembers(
+            membersToCheck,
+            taskForConflictCheck.workPeriod.startDate,
+            taskForConflictCheck.workPeriod.endDate,
+            id
+          );
           
-          if (cachedTasks && Array.isArray(cachedTasks)) {
-            console.log(`[ASYNC CONFLICT CHECK] Using cached tasks: ${cachedTasks.length} total tasks`);
+          if (cachedTasks) {
+            console.log(`[ASYNC CONFLICT CHECK] Using task index: ${cachedTasks.length} total tasks`);
             conflictDetectionMethod = 'cache';
             
             // Filter for tasks with overlapping members
@@ -132,7 +139,7 @@ export class ConflictDetectionService {
             console.log(`[ASYNC CONFLICT CHECK] Found ${relevantTasks.length} relevant tasks for conflict check`);
           } else {
             // 2. SI PAS DE CACHE → Approche HYBRIDE avec Notion + rate limiter
-            console.log('[ASYNC CONFLICT CHECK] No cache available, using HYBRID approach...');
+            console.log('[ASYNC CONFLICT CHECK] Task index incomplete for this period, using HYBRID approach...');
             conflictDetectionMethod = 'notion-hybrid';
             
             try {
@@ -217,13 +224,16 @@ export class ConflictDetectionService {
         const relevantTasks: any[] = [];
         
         try {
-          // Get all tasks and filter for relevant ones
-          // We'll use the existing calendar cache if available
-          const cacheKey = `tasks:calendar:start=2025-08-26:end=2025-10-25`;
-          const cachedTasks = await redisService.get(cacheKey);
+          // Get the members' tasks for the task's work period from the member/day index
+          const cachedTasks = await taskIndexService.getTasksForMembers(
+            membersToCheck,
+            taskForConflictCheck.workPeriod.startDate,
+            taskForConflictCheck.workPeriod.endDate,
+            id
+          );
           
-          if (cachedTasks && Array.isArray(cachedTasks)) {
-            console.log(`[CONFLICT CHECK] Using cached tasks: ${cachedTasks.length} total tasks`);
+          if (cachedTasks) {
+            console.log(`[CONFLICT CHECK] Using task index: ${cachedTasks.length} total tasks`);
             
             // Filter for tasks with overlapping members
             for (const task of cachedTasks) {
@@ -237,7 +247,7 @@ export class ConflictDetectionService {
             
             console.log(`[CONFLICT CHECK] Found ${relevantTasks.length} relevant tasks for conflict check`);
           } else {
-            console.log('[CONFLICT CHECK] No cache available, using HYBRID approach...');
+            console.log('[CONFLICT CHECK] Task index incomplete for this period, using HYBRID approach...');
             
             // HYBRID: Direct Notion query for specific period WITH RATE LIMITING
             try {
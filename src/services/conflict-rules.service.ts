@@ -0,0 +1,260 @@
+/**
+ * Règles de détection des conflits de planning
+ *
+ * La détection (TasksConflictService) produit des conflits candidats avec leur
+ * contexte (type de la tâche, type de la tâche en conflit, équipes, durée du
+ * chevauchement, dépassement de capacité). Le jeu de règles actif décide
+ * ensuite lesquels sont des conflits et avec quelle sévérité : la première
+ * règle qui correspond l'emporte, un candidat sans règle est gardé tel quel.
+ *
+ * Sans jeu de règles actif, DEFAULT_CONFLICT_RULES reproduit le comportement
+ * historique (le télétravail n'est jamais en conflit, etc.).
+ */
+
+import logger from '../config/logger.config';
+import { ConflictRuleSetModel, IConflictRule } from '../models/ConflictRuleSet.model';
+import { SchedulingConflict } from '../controllers/tasks/tasks-conflict.controller';
+
+export type ConflictRule = IConflictRule;
+
+export interface ConflictRuleSet {
+  id: string;
+  name: string;
+  description?: string;
+  status: 'draft' | 'active' | 'archived';
+  rules: ConflictRule[];
+  createdBy?: string;
+  updatedBy?: string;
+  activatedAt: Date | null;
+  activatedBy?: string;
+  updatedAt?: Date;
+}
+
+export interface ConflictRuleSetInput {
+  name?: string;
+  description?: string;
+  rules?: Array<Partial<ConflictRule>>;
+}
+
+/**
+ * A detected conflict with the context rules are matched against
+ */
+export interface ConflictCandidate {
+  conflict: SchedulingConflict;
+  taskType: string; // 'task' quand le type n'est pas renseigné
+  otherTaskType: string | null; // null hors chevauchements
+  teams: string[];
+  overlapMinutes?: number;
+  excessHours?: number;
+}
+
+export const RULE_SET_NOT_DRAFT_ERROR = 'Only draft rule sets can be modified';
+export const RULE_SET_ACTIVE_ERROR = 'The active rule set cannot be deleted';
+
+const ACTIVE_RULES_CACHE_TTL_MS = 60000;
+
+const rule = (partial: Partial<ConflictRule>): ConflictRule => ({
+  ...(partial.description && { description: partial.description }),
+  conflictTypes: partial.conflictTypes ?? [],
+  taskTypes: partial.taskTypes ?? [],
+  otherTaskTypes: partial.otherTaskTypes ?? [],
+  teams: partial.teams ?? [],
+  enabled: partial.enabled ?? true,
+  severity: partial.severity ?? null,
+  minOverlapMinutes: partial.minOverlapMinutes ?? null,
+  overloadToleranceHours: partial.overloadToleranceHours ?? null
+});
+
+export const DEFAULT_CONFLICT_RULES: ConflictRule[] = [
+  rule({ description: 'Le télétravail n\'est jamais en conflit', taskTypes: ['remote'], enabled: false }),
+  rule({ description: 'Le télétravail ne bloque pas les autres tâches', otherTaskTypes: ['remote'], enabled: false }),
+  rule({
+    description: 'Congés et formations peuvent tomber un jour non travaillé',
+    conflictTypes: ['public_holiday', 'company_closure', 'weekend'],
+    taskTypes: ['holiday', 'school'],
+    enabled: false
+  })
+];
+
+const toRuleSet = (ruleSet: any): ConflictRuleSet => ({
+  id: String(ruleSet._id),
+  name: ruleSet.name,
+  ...(ruleSet.description && { description: ruleSet.description }),
+  status: ruleSet.status,
+  rules: (ruleSet.rules || []).map(rule),
+  ...(ruleSet.createdBy && { createdBy: ruleSet.createdBy }),
+  ...(ruleSet.updatedBy && { updatedBy: ruleSet.updatedBy }),
+  activatedAt: ruleSet.activatedAt ?? null,
+  ...(ruleSet.activatedBy && { activatedBy: ruleSet.activatedBy }),
+  updatedAt: ruleSet.updatedAt
+});
+
+class ConflictRulesService {
+  private activeRules: { rules: ConflictRule[]; expiresAt: number } | null = null;
+
+  /**
+   * Rules of the active rule set (cached one minute), defaults when none is active
+   */
+  async getActiveRules(): Promise<ConflictRule[]> {
+    if (this.activeRules && this.activeRules.expiresAt > Date.now()) {
+      return this.activeRules.rules;
+    }
+
+    let rules = DEFAULT_CONFLICT_RULES;
+    try {
+      const active = await ConflictRuleSetModel.findOne({ status: 'active' }).lean();
+      if (active) {
+        rules = toRuleSet(active).rules;
+      }
+    } catch (error) {
+      logger.error('Failed to load the active conflict rule set, using defaults', { error });
+    }
+
+    this.activeRules = { rules, expiresAt: Date.now() + ACTIVE_RULES_CACHE_TTL_MS };
+    return rules;
+  }
+
+  /**
+   * Keep the candidates the rules count as conflicts, with the rule severity
+   */
+  applyRules(candidates: ConflictCandidate[], rules: ConflictRule[]): SchedulingConflict[] {
+    const conflicts: SchedulingConflict[] = [];
+
+    for (const candidate of candidates) {
+      const match = rules.find(candidateRule => this.matches(candidateRule, candidate));
+
+      if (!match) {
+        conflicts.push(candidate.conflict);
+        continue;
+      }
+
+      if (!match.enabled) {
+        continue;
+      }
+      if (match.minOverlapMinutes !== null && candidate.overlapMinutes !== undefined
+        && candidate.overlapMinutes < match.minOverlapMinutes) {
+        continue;
+      }
+      if (match.overloadToleranceHours !== null && candidate.excessHours !== undefined
+        && candidate.excessHours <= match.overloadToleranceHours) {
+        continue;
+      }
+
+      conflicts.push(match.severity ? { ...candidate.conflict, severity: match.severity } : candidate.conflict);
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * List rule sets, the active one first
+   */
+  async listRuleSets(): Promise<ConflictRuleSet[]> {
+    const ruleSets = await ConflictRuleSetModel.find().sort({ updatedAt: -1 }).lean();
+    const statusOrder = { active: 0, draft: 1, archived: 2 };
+
+    return ruleSets.map(toRuleSet).sort((a, b) => statusOrder[a.status] - statusOrder[b.status]);
+  }
+
+  async getRuleSet(ruleSetId: string): Promise<ConflictRuleSet | null> {
+    const ruleSet = await ConflictRuleSetModel.findById(ruleSetId).lean();
+    return ruleSet ? toRuleSet(ruleSet) : null;
+  }
+
+  /**
+   * Create a draft rule set, starting from the default rules when none are given
+   */
+  async createRuleSet(input: ConflictRuleSetInput & { name: string }, createdBy?: string): Promise<ConflictRuleSet> {
+    const created = await ConflictRuleSetModel.create({
+      name: input.name,
+      ...(input.description && { description: input.description }),
+      status: 'draft',
+      rules: input.rules ? input.rules.map(rule) : DEFAULT_CONFLICT_RULES,
+      ...(createdBy && { createdBy, updatedBy: createdBy })
+    });
+
+    logger.info('Conflict rule set created', { ruleSetId: String(created._id), createdBy });
+    return toRuleSet(created.toObject());
+  }
+
+  /**
+   * Update a draft rule set; returns null when it does not exist
+   */
+  async updateRuleSet(ruleSetId: string, input: ConflictRuleSetInput, updatedBy?: string): Promise<ConflictRuleSet | null> {
+    const existing = await ConflictRuleSetModel.findById(ruleSetId).lean();
+    if (!existing) {
+      return null;
+    }
+    if (existing.status !== 'draft') {
+      throw new Error(RULE_SET_NOT_DRAFT_ERROR);
+    }
+
+    const updated = await ConflictRuleSetModel.findByIdAndUpdate(
+      ruleSetId,
+      {
+        $set: {
+          ...(input.name !== undefined && { name: input.name }),
+          ...(input.description !== undefined && { description: input.description }),
+          ...(input.rules && { rules: input.rules.map(rule) }),
+          ...(updatedBy && { updatedBy })
+        }
+      },
+      { new: true, runValidators: true }
+    ).lean();
+
+    logger.info('Conflict rule set updated', { ruleSetId, updatedBy });
+    return updated ? toRuleSet(updated) : null;
+  }
+
+  /**
+   * Make a rule set the active one; the previously active set is archived
+   */
+  async activateRuleSet(ruleSetId: string, activatedBy?: string): Promise<ConflictRuleSet | null> {
+    const existing = await ConflictRuleSetModel.findById(ruleSetId).lean();
+    if (!existing) {
+      return null;
+    }
+
+    await ConflictRuleSetModel.updateMany(
+      { status: 'active', _id: { $ne: existing._id } },
+      { $set: { status: 'archived' } }
+    );
+    const activated = await ConflictRuleSetModel.findByIdAndUpdate(
+      ruleSetId,
+      { $set: { status: 'active', activatedAt: new Date(), ...(activatedBy && { activatedBy }) } },
+      { new: true }
+    ).lean();
+
+    this.activeRules = null;
+    logger.info('Conflict rule set activated', { ruleSetId, activatedBy });
+    return activated ? toRuleSet(activated) : null;
+  }
+
+  /**
+   * Delete a draft or archived rule set; returns false when it does not exist
+   */
+  async deleteRuleSet(ruleSetId: string): Promise<boolean> {
+    const existing = await ConflictRuleSetModel.findById(ruleSetId).lean();
+    if (!existing) {
+      return false;
+    }
+    if (existing.status === 'active') {
+      throw new Error(RULE_SET_ACTIVE_ERROR);
+    }
+
+    await ConflictRuleSetModel.findByIdAndDelete(ruleSetId);
+    logger.info('Conflict rule set deleted', { ruleSetId });
+    return true;
+  }
+
+  private matches(candidateRule: ConflictRule, candidate: ConflictCandidate): boolean {
+    const { conflictTypes, taskTypes, otherTaskTypes, teams } = candidateRule;
+
+    return (!conflictTypes.length || conflictTypes.includes(candidate.conflict.type))
+      && (!taskTypes.length || taskTypes.includes(candidate.taskType))
+      && (!otherTaskTypes.length || (candidate.otherTaskType !== null && otherTaskTypes.includes(candidate.otherTaskType)))
+      && (!teams.length || candidate.teams.some(team => teams.includes(team)));
+  }
+}
+
+export const conflictRulesService = new ConflictRulesService();
@@ -0,0 +1,302 @@
+/**
+ * Jours fériés français et fermetures de l'entreprise
+ *
+ * Les jours fériés sont calculés localement (dates fixes + fêtes mobiles
+ * dérivées de Pâques), sans dépendance réseau, et mémorisés par zone/année.
+ * L'Alsace-Moselle ajoute le Vendredi saint et le 26 décembre.
+ *
+ * Les fermetures de l'entreprise (ponts, fermeture annuelle) sont stockées
+ * dans MongoDB et gardées en mémoire pour des lookups synchrones (calculs de
+ * charge, détection de conflits), avec rechargement à chaud après modification.
+ */
+
+import { addDays, eachDayOfInterval, eachYearOfInterval, format, parseISO } from 'date-fns';
+import logger from '../config/logger.config';
+import { CompanyClosureModel } from '../models/CompanyClosure.model';
+import { AutoReloader } from '../utils/autoReload';
+
+export type HolidayMap = Record<string, string>; // 'YYYY-MM-DD' -> nom du jour férié
+
+export type HolidayZone = 'metropole' | 'alsace-moselle';
+
+export const HOLIDAY_ZONES: HolidayZone[] = ['metropole', 'alsace-moselle'];
+
+export interface CompanyClosure {
+  id: string;
+  label: string;
+  startDate: string;
+  endDate: string;
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
+export type CompanyClosureInput = Pick<CompanyClosure, 'label' | 'startDate' | 'endDate'>;
+
+export const CLOSURE_PERIOD_ERROR = 'startDate must be before endDate';
+
+// Calendrier grégorien : le calcul de Pâques n'est valable qu'à partir de 1583
+export const MIN_HOLIDAY_YEAR = 1583;
+export const MAX_HOLIDAY_YEAR = 9999;
+
+const toDayKey = (date: Date | string): string =>
+  typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : format(new Date(date), 'yyyy-MM-dd');
+
+const toClosure = (closure: any): CompanyClosure => ({
+  id: String(closure._id),
+  label: closure.label,
+  startDate: closure.startDate,
+  endDate: closure.endDate,
+  updatedAt: closure.updatedAt,
+  ...(closure.updatedBy && { updatedBy: closure.updatedBy })
+});
+
+/**
+ * Easter Sunday of a year (anonymous Gregorian algorithm, Meeus/Jones/Butcher)
+ */
+export const getEasterSunday = (year: number): Date => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+  return new Date(year, month - 1, day);
+};
+
+const resolveDefaultZone = (): HolidayZone =>
+  process.env.HOLIDAYS_ZONE === 'alsace-moselle' ? 'alsace-moselle' : 'metropole';
+
+class HolidaysService {
+  private holidaysByYear: Map<string, HolidayMap> = new Map();
+  private closures: CompanyClosure[] = [];
+  private loadedSignature: string | null = null;
+  private readonly autoReloader = new AutoReloader({
+    name: 'company closures',
+    hasChanged: async () => await this.getSignature() !== this.loadedSignature,
+    reload: () => this.reload()
+  });
+
+  /**
+   * Zone used when none is given (HOLIDAYS_ZONE, metropole by default)
+   */
+  get defaultZone(): HolidayZone {
+    return resolveDefaultZone();
+  }
+
+  /**
+   * Get the public holidays of a year, in chronological order
+   */
+  getHolidays(year: number, zone: HolidayZone = this.defaultZone): HolidayMap {
+    const cacheKey = `${zone}:${year}`;
+    const cached = this.holidaysByYear.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const easter = getEasterSunday(year);
+    const day = (month: number, date: number) => format(new Date(year, month - 1, date), 'yyyy-MM-dd');
+    const fromEaster = (days: number) => format(addDays(easter, days), 'yyyy-MM-dd');
+
+    const holidays: Array<[string, string]> = [
+      [day(1, 1), '1er janvier'],
+      [fromEaster(1), 'Lundi de Pâques'],
+      [day(5, 1), '1er mai'],
+      [day(5, 8), '8 mai'],
+      [fromEaster(39), 'Ascension'],
+      [fromEaster(50), 'Lundi de Pentecôte'],
+      [day(7, 14), '14 juillet'],
+      [day(8, 15), 'Assomption'],
+      [day(11, 1), 'Toussaint'],
+      [day(11, 11), '11 novembre'],
+      [day(12, 25), 'Jour de Noël']
+    ];
+
+    if (zone === 'alsace-moselle') {
+      holidays.push([fromEaster(-2), 'Vendredi saint'], [day(12, 26), '26 décembre']);
+    }
+
+    const result: HolidayMap = Object.fromEntries(holidays.sort(([a], [b]) => a.localeCompare(b)));
+    this.holidaysByYear.set(cacheKey, result);
+
+    return result;
+  }
+
+  /**
+   * Get the public holidays falling between two dates (inclusive)
+   */
+  getHolidaysForRange(startDate: Date, endDate: Date, zone: HolidayZone = this.defaultZone): HolidayMap {
+    const from = format(startDate, 'yyyy-MM-dd');
+    const to = format(endDate, 'yyyy-MM-dd');
+    const result: HolidayMap = {};
+
+    for (const yearStart of eachYearOfInterval({ start: startDate, end: endDate })) {
+      for (const [date, name] of Object.entries(this.getHolidays(yearStart.getFullYear(), zone))) {
+        if (date >= from && date <= to) {
+          result[date] = name;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Name of the public holiday falling on a day, null otherwise
+   */
+  getPublicHoliday(date: Date | string, zone: HolidayZone = this.defaultZone): string | null {
+    const day = toDayKey(date);
+    return this.getHolidays(Number(day.slice(0, 4)), zone)[day] || null;
+  }
+
+  /**
+   * Company closure covering a day, null otherwise
+   */
+  getClosure(date: Date | string): CompanyClosure | null {
+    const day = toDayKey(date);
+    return this.closures.find(closure => closure.startDate <= day && closure.endDate >= day) || null;
+  }
+
+  /**
+   * Closed days between two dates (inclusive) -> label of the closure
+   */
+  getClosuresForRange(startDate: Date, endDate: Date): HolidayMap {
+    const from = format(startDate, 'yyyy-MM-dd');
+    const to = format(endDate, 'yyyy-MM-dd');
+    const result: HolidayMap = {};
+
+    for (const closure of this.closures) {
+      if (closure.endDate < from || closure.startDate > to) {
+        continue;
+      }
+
+      const days = eachDayOfInterval({
+        start: parseISO(closure.startDate > from ? closure.startDate : from),
+        end: parseISO(closure.endDate < to ? closure.endDate : to)
+      });
+      for (const day of days) {
+        result[format(day, 'yyyy-MM-dd')] = closure.label;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Recharge les fermetures depuis MongoDB
+   */
+  async reload(): Promise<void> {
+    try {
+      const closures = await CompanyClosureModel.find().sort({ startDate: 1 }).lean();
+
+      this.closures = closures.map(toClosure);
+      this.loadedSignature = await this.getSignature();
+
+      logger.info('Company closures loaded', { closures: closures.length });
+    } catch (error) {
+      // On garde les fermetures précédentes en cas d'erreur
+      logger.error('Failed to load company closures, keeping current ones', { error });
+    }
+  }
+
+  /**
+   * Recharge uniquement si les fermetures ont changé (autres instances)
+   */
+  reloadIfChanged(): Promise<boolean> {
+    return this.autoReloader.reloadIfChanged();
+  }
+
+  startAutoReload(intervalMs = 60000): void {
+    this.autoReloader.start(intervalMs);
+  }
+
+  stopAutoReload(): void {
+    this.autoReloader.stop();
+  }
+
+  /**
+   * List stored closures, optionally those touching a year
+   */
+  async listClosures(year?: number): Promise<CompanyClosure[]> {
+    const filter = year
+      ? { startDate: { $lte: `${year}-12-31` }, endDate: { $gte: `${year}-01-01` } }
+      : {};
+    const closures = await CompanyClosureModel.find(filter).sort({ startDate: 1 }).lean();
+
+    return closures.map(toClosure);
+  }
+
+  /**
+   * Create a company closure
+   */
+  async createClosure(input: CompanyClosureInput, updatedBy?: string): Promise<CompanyClosure> {
+    this.assertValid(input);
+
+    const created = await CompanyClosureModel.create({ ...input, ...(updatedBy && { updatedBy }) });
+
+    logger.info('Company closure created', { closureId: String(created._id), updatedBy });
+    await this.reload();
+    return toClosure(created.toObject());
+  }
+
+  /**
+   * Update a company closure; returns null when it does not exist
+   */
+  async updateClosure(closureId: string, input: Partial<CompanyClosureInput>, updatedBy?: string): Promise<CompanyClosure | null> {
+    const existing = await CompanyClosureModel.findById(closureId).lean();
+    if (!existing) {
+      return null;
+    }
+
+    this.assertValid({ ...toClosure(existing), ...input });
+
+    const updated = await CompanyClosureModel.findByIdAndUpdate(
+      closureId,
+      { $set: { ...input, ...(updatedBy && { updatedBy }) } },
+      { new: true, runValidators: true }
+    ).lean();
+
+    logger.info('Company closure updated', { closureId, updatedBy });
+    await this.reload();
+    return updated ? toClosure(updated) : null;
+  }
+
+  /**
+   * Delete a company closure; returns false when it does not exist
+   */
+  async deleteClosure(closureId: string): Promise<boolean> {
+    const deleted = await CompanyClosureModel.findByIdAndDelete(closureId).lean();
+    if (!deleted) {
+      return false;
+    }
+
+    logger.info('Company closure deleted', { closureId });
+    await this.reload();
+    return true;
+  }
+
+  private assertValid(candidate: { startDate: string; endDate: string }): void {
+    if (candidate.startDate > candidate.endDate) {
+      throw new Error(CLOSURE_PERIOD_ERROR);
+    }
+  }
+
+  private async getSignature(): Promise<string> {
+    const [count, latest] = await Promise.all([
+      CompanyClosureModel.countDocuments(),
+      CompanyClosureModel.findOne().sort({ updatedAt: -1 }).select('updatedAt').lean()
+    ]);
+
+    return `${count}:${latest?.updatedAt?.getTime() ?? 0}`;
+  }
+}
+
+export const holidaysService = new HolidaysService();
@@ -0,0 +1,136 @@
+/**
+ * Export des tâches au format iCalendar (RFC 5545)
+ *
+ * - tâche horaire : DTSTART/DTEND en UTC
+ * - tâche journée entière : dates sans heure, DTEND exclusif (lendemain du dernier jour)
+ * - congés, télétravail, formations (shouldSplitDaily) : un événement par jour,
+ *   comme les badges quotidiens du calendrier
+ */
+
+import { addDays, eachDayOfInterval, format } from 'date-fns';
+import { NotionTask } from '../types/notion.types';
+
+export interface IcsCalendarOptions {
+  name: string;
+  projectNames?: Map<string, string>;
+}
+
+const PRODID = '-//Matter//Traffic//FR';
+
+const TASK_TYPE_CATEGORIES: Record<string, string> = {
+  task: 'Tâche',
+  holiday: 'Congé',
+  remote: 'Télétravail',
+  school: 'Formation',
+};
+
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+/**
+ * Fold content lines longer than 75 octets (continuation lines start with a space)
+ */
+const foldLine = (line: string): string => {
+  const chunks: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    if (currentBytes + bytes > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+};
+
+const toUtcStamp = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const toDateValue = (date: Date): string => format(date, 'yyyyMMdd');
+
+class IcsExportService {
+  /**
+   * Render tasks as a VCALENDAR document
+   */
+  tasksToIcs(tasks: NotionTask[], options: IcsCalendarOptions): string {
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:${PRODID}`,
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${escapeText(options.name)}`,
+      ...tasks.flatMap(task => this.taskToEvents(task, options)),
+      'END:VCALENDAR'
+    ];
+
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+  }
+
+  private taskToEvents(task: NotionTask, options: IcsCalendarOptions): string[] {
+    if (!task.workPeriod?.startDate) {
+      return [];
+    }
+
+    const start = new Date(task.workPeriod.startDate);
+    const end = task.workPeriod.endDate ? new Date(task.workPeriod.endDate) : start;
+
+    if (!task.isAllDay) {
+      return this.buildEvent(task, options, task.id, [
+        `DTSTART:${toUtcStamp(start)}`,
+        `DTEND:${toUtcStamp(end > start ? end : start)}`
+      ]);
+    }
+
+    const days = eachDayOfInterval({ start, end: end > start ? end : start });
+
+    if (task.shouldSplitDaily) {
+      return days.flatMap(day => this.buildEvent(task, options, `${task.id}-${toDateValue(day)}`, [
+        `DTSTART;VALUE=DATE:${toDateValue(day)}`,
+        `DTEND;VALUE=DATE:${toDateValue(addDays(day, 1))}`
+      ]));
+    }
+
+    return this.buildEvent(task, options, task.id, [
+      `DTSTART;VALUE=DATE:${toDateValue(days[0]!)}`,
+      `DTEND;VALUE=DATE:${toDateValue(addDays(days[days.length - 1]!, 1))}`
+    ]);
+  }
+
+  private buildEvent(task: NotionTask, options: IcsCalendarOptions, uid: string, dates: string[]): string[] {
+    const projectName = task.projectId ? options.projectNames?.get(task.projectId) : undefined;
+    const description = [
+      projectName && `Projet : ${projectName}`,
+      task.notes,
+      task.notionUrl
+    ].filter(Boolean).join('\n');
+    const updatedAt = task.updatedAt ? new Date(task.updatedAt) : new Date();
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:${uid}@matter-traffic`,
+      `DTSTAMP:${toUtcStamp(updatedAt)}`,
+      `LAST-MODIFIED:${toUtcStamp(updatedAt)}`,
+      ...dates,
+      `SUMMARY:${escapeText(task.title || 'Sans titre')}`,
+      ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+      ...(task.notionUrl ? [`URL:${task.notionUrl}`] : []),
+      ...(task.taskType ? [`CATEGORIES:${escapeText(TASK_TYPE_CATEGORIES[task.taskType] || task.taskType)}`] : []),
+      // Le télétravail n'est pas une indisponibilité
+      `TRANSP:${task.taskType === 'remote' ? 'TRANSPARENT' : 'OPAQUE'}`,
+      'END:VEVENT'
+    ];
+  }
+}
+
+export const icsExportService = new IcsExportService();
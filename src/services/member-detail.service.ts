@@ -0,0 +1,177 @@
+/**
+ * Fiche détaillée d'un membre
+ *
+ * Regroupe pour les semaines à venir : tâches planifiées, absences (congés,
+ * formation), jours de télétravail et conflits de planning actifs, ainsi que
+ * les équipes du membre et le compte applicatif qui lui est rattaché.
+ */
+
+import { addDays, eachDayOfInterval, endOfDay, format, max, min, startOfDay } from 'date-fns';
+import notionService from './notion.service';
+import { entityService } from './notion/entity.service';
+import { UserModel, UserRole } from '../models/User.model';
+import { TaskSchedulingConflictModel, ITaskSchedulingConflict } from '../models/TaskSchedulingConflict.model';
+import { NotionTask } from '../types/notion.types';
+import { getTaskLastDay } from '../utils/taskDates';
+
+const CONFLICTS_LIMIT = 200;
+
+export interface MemberTaskSummary {
+  id: string;
+  title: string;
+  startDate: Date | null;
+  endDate: Date | null;
+  isAllDay: boolean;
+  taskType: NotionTask['taskType'];
+  status: NotionTask['status'];
+  project: { id: string; name: string } | null;
+  notionUrl: string | null;
+}
+
+export interface MemberConflictSummary {
+  taskId: string;
+  type: ITaskSchedulingConflict['type'];
+  severity: ITaskSchedulingConflict['severity'];
+  status: ITaskSchedulingConflict['status'];
+  message: string;
+  conflictingTaskId?: string;
+  conflictingTaskTitle?: string;
+  date?: string;
+  detectedAt: Date;
+}
+
+export interface MemberDetail {
+  member: { id: string; name: string; email: string };
+  teams: { id: string; name: string }[];
+  user: {
+    id: string;
+    email: string;
+    firstName: string;
+    lastName: string;
+    role: UserRole;
+    lastLogin: Date | null;
+  } | null;
+  range: { startDate: string; endDate: string }; // YYYY-MM-DD, inclusif
+  upcomingTasks: MemberTaskSummary[];
+  absences: MemberTaskSummary[]; // Congés et formations
+  remoteDays: string[]; // YYYY-MM-DD
+  conflicts: MemberConflictSummary[];
+}
+
+class MemberDetailService {
+  /**
+   * Member profile and schedule for the next weeks
+   * Returns null when the member does not exist
+   */
+  async getMemberDetail(memberId: string, options: { weeks: number }): Promise<MemberDetail | null> {
+    const members = await entityService.getAllMembers();
+    const member = members.find(m => m.id === memberId);
+
+    if (!member) {
+      return null;
+    }
+
+    const rangeStart = startOfDay(new Date());
+    const rangeEnd = endOfDay(addDays(rangeStart, options.weeks * 7 - 1));
+    const range = { startDate: format(rangeStart, 'yyyy-MM-dd'), endDate: format(rangeEnd, 'yyyy-MM-dd') };
+
+    const rangeTasks = notionService.getTasksForCalendarView(rangeStart, rangeEnd, {
+      originalStartDate: range.startDate,
+      originalEndDate: range.endDate
+    });
+
+    const [teams, projects, tasks, user, conflicts] = await Promise.all([
+      entityService.getAllTeams(),
+      entityService.getAllProjects(),
+      rangeTasks,
+      UserModel.findOne({ memberId }).select('email firstName lastName role lastLogin').lean(),
+      // Conflits des tâches du membre sur la période ou datés dans la période
+      rangeTasks.then(periodTasks => TaskSchedulingConflictModel.findActiveForMember(memberId, {
+        taskIds: periodTasks.filter(task => task.assignedMembers?.includes(memberId)).map(task => task.id),
+        ...range,
+        limit: CONFLICTS_LIMIT
+      }))
+    ]);
+
+    const projectNames = new Map(projects.map(project => [project.id, project.name]));
+    const memberTasks = tasks
+      .filter(task => task.assignedMembers?.includes(memberId) && task.workPeriod?.startDate)
+      .sort((a, b) => new Date(a.workPeriod.startDate!).getTime() - new Date(b.workPeriod.startDate!).getTime());
+
+    const toSummary = (task: NotionTask): MemberTaskSummary => ({
+      id: task.id,
+      title: task.title,
+      startDate: task.workPeriod.startDate,
+      endDate: task.workPeriod.endDate,
+      isAllDay: task.isAllDay ?? false,
+      taskType: task.taskType,
+      status: task.status,
+      project: task.projectId
+        ? { id: task.projectId, name: projectNames.get(task.projectId) || '' }
+        : null,
+      notionUrl: task.notionUrl ?? null
+    });
+
+    // Un membre est rattaché à l'équipe côté membre comme côté équipe selon les bases Notion
+    const memberTeams = teams
+      .filter(team => member.teams?.includes(team.id) || team.members?.includes(memberId))
+      .map(team => ({ id: team.id, name: team.name }));
+
+    const remoteDays = new Set<string>();
+    for (const task of memberTasks.filter(t => t.taskType === 'remote')) {
+      for (const day of this.getCoveredDays(task, rangeStart, rangeEnd)) {
+        remoteDays.add(day);
+      }
+    }
+
+    return {
+      member: { id: member.id, name: member.name, email: member.email },
+      teams: memberTeams,
+      user: user
+        ? {
+          id: String(user._id),
+          email: user.email,
+          firstName: user.firstName,
+          lastName: user.lastName,
+          role: user.role,
+          lastLogin: user.lastLogin ?? null
+        }
+        : null,
+      range,
+      upcomingTasks: memberTasks
+        .filter(task => !task.taskType || task.taskType === 'task')
+        .map(toSummary),
+      absences: memberTasks
+        .filter(task => task.taskType === 'holiday' || task.taskType === 'school')
+        .map(toSummary),
+      remoteDays: Array.from(remoteDays).sort(),
+      conflicts: conflicts.map(conflict => ({
+        taskId: conflict.taskId,
+        type: conflict.type,
+        severity: conflict.severity,
+        status: conflict.status,
+        message: conflict.message,
+        ...(conflict.conflictingTaskId && { conflictingTaskId: conflict.conflictingTaskId }),
+        ...(conflict.conflictingTaskTitle && { conflictingTaskTitle: conflict.conflictingTaskTitle }),
+        ...(conflict.date && { date: conflict.date }),
+        detectedAt: conflict.detectedAt
+      }))
+    };
+  }
+
+  /**
+   * Calendar days of a task within the range
+   */
+  private getCoveredDays(task: NotionTask, rangeStart: Date, rangeEnd: Date): string[] {
+    const start = new Date(task.workPeriod.startDate!);
+    const from = max([start, rangeStart]);
+    const to = min([getTaskLastDay(task)!, rangeEnd]);
+    if (from > to) {
+      return [];
+    }
+
+    return eachDayOfInterval({ start: from, end: to }).map(day => format(day, 'yyyy-MM-dd'));
+  }
+}
+
+export const memberDetailService = new MemberDetailService();
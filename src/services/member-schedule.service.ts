@@ -0,0 +1,281 @@
+/**
+ * Horaires de travail par membre (jours travaillés, heures/jour, temps partiel,
+ * plage horaire), versionnés par période d'application.
+ *
+ * Lecture synchrone depuis la mémoire : le mapper (expansion des tâches journée
+ * entière), la détection de surcharge et les calculs de charge l'utilisent sur
+ * des milliers de tâches. Rechargement à chaud après modification.
+ * Un membre sans horaire pour un jour donné suit DEFAULT_MEMBER_SCHEDULE.
+ */
+
+import { format, subDays, getISODay, parseISO } from 'date-fns';
+import logger from '../config/logger.config';
+import { MemberScheduleModel, DEFAULT_MEMBER_SCHEDULE } from '../models/MemberSchedule.model';
+import { AutoReloader } from '../utils/autoReload';
+
+export interface MemberScheduleSettings {
+  id: string | null; // null pour l'horaire par défaut
+  memberId: string;
+  workingDays: number[];
+  dailyHours: number;
+  partTimePercentage: number;
+  startTime: string;
+  endTime: string;
+  effectiveFrom: string | null;
+  effectiveTo: string | null;
+  isDefault: boolean;
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
+export type MemberScheduleInput = Partial<Pick<MemberScheduleSettings,
+  'workingDays' | 'dailyHours' | 'partTimePercentage' | 'startTime' | 'endTime' | 'effectiveFrom' | 'effectiveTo'
+>>;
+
+export type MemberScheduleUpdate = Partial<Pick<MemberScheduleSettings, 'workingDays' | 'dailyHours' | 'partTimePercentage'>>;
+
+export const SCHEDULE_OVERLAP_ERROR = 'Schedule period overlaps an existing schedule of this member';
+export const SCHEDULE_PERIOD_ERROR = 'effectiveFrom must be before effectiveTo';
+export const SCHEDULE_HOURS_ERROR = 'startTime must be before endTime';
+
+const toDayKey = (date: Date | string): string =>
+  typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : format(new Date(date), 'yyyy-MM-dd');
+
+const toSettings = (schedule: any): MemberScheduleSettings => ({
+  id: String(schedule._id),
+  memberId: schedule.memberId,
+  workingDays: schedule.workingDays,
+  dailyHours: schedule.dailyHours,
+  partTimePercentage: schedule.partTimePercentage,
+  startTime: schedule.startTime || DEFAULT_MEMBER_SCHEDULE.startTime,
+  endTime: schedule.endTime || DEFAULT_MEMBER_SCHEDULE.endTime,
+  effectiveFrom: schedule.effectiveFrom ?? null,
+  effectiveTo: schedule.effectiveTo ?? null,
+  isDefault: false,
+  updatedAt: schedule.updatedAt,
+  ...(schedule.updatedBy && { updatedBy: schedule.updatedBy })
+});
+
+class MemberScheduleService {
+  private schedulesByMember: Map<string, MemberScheduleSettings[]> = new Map();
+  private loadedSignature: string | null = null;
+  private readonly autoReloader = new AutoReloader({
+    name: 'member schedules',
+    hasChanged: async () => await this.getSignature() !== this.loadedSignature,
+    reload: () => this.reload()
+  });
+
+  /**
+   * Recharge tous les horaires depuis MongoDB
+   */
+  async reload(): Promise<void> {
+    try {
+      const schedules = await MemberScheduleModel.find().sort({ effectiveFrom: 1 }).lean();
+      const byMember = new Map<string, MemberScheduleSettings[]>();
+
+      for (const schedule of schedules) {
+        byMember.set(schedule.memberId, [...(byMember.get(schedule.memberId) || []), toSettings(schedule)]);
+      }
+
+      this.schedulesByMember = byMember;
+      this.loadedSignature = await this.getSignature();
+
+      logger.info('Member schedules loaded', { schedules: schedules.length, members: byMember.size });
+    } catch (error) {
+      // On garde les horaires précédents en cas d'erreur
+      logger.error('Failed to load member schedules, keeping current ones', { error });
+    }
+  }
+
+  /**
+   * Recharge uniquement si les horaires ont changé (autres instances)
+   */
+  reloadIfChanged(): Promise<boolean> {
+    return this.autoReloader.reloadIfChanged();
+  }
+
+  startAutoReload(intervalMs = 60000): void {
+    this.autoReloader.start(intervalMs);
+  }
+
+  stopAutoReload(): void {
+    this.autoReloader.stop();
+  }
+
+  /**
+   * Schedule applying to a member on a given day (defaults when none)
+   */
+  getScheduleForDate(memberId: string | null | undefined, date: Date | string = new Date()): MemberScheduleSettings {
+    const day = toDayKey(date);
+    const schedule = memberId
+      ? (this.schedulesByMember.get(memberId) || []).find(candidate =>
+        (!candidate.effectiveFrom || candidate.effectiveFrom <= day) &&
+        (!candidate.effectiveTo || candidate.effectiveTo >= day)
+      )
+      : undefined;
+
+    return schedule || {
+      id: null,
+      memberId: memberId || '',
+      ...DEFAULT_MEMBER_SCHEDULE,
+      effectiveFrom: null,
+      effectiveTo: null,
+      isDefault: true
+    };
+  }
+
+  /**
+   * Hours a member can work on a day (0 on days off)
+   */
+  getDailyCapacity(memberId: string, date: Date | string): number {
+    const schedule = this.getScheduleForDate(memberId, date);
+    return schedule.workingDays.includes(getISODay(parseISO(toDayKey(date))))
+      ? schedule.dailyHours * schedule.partTimePercentage / 100
+      : 0;
+  }
+
+  /**
+   * Start/end of the working day of a member, as [hours, minutes]
+   */
+  getWorkingWindow(memberId: string | null | undefined, date: Date | string): { start: [number, number]; end: [number, number] } {
+    const schedule = this.getScheduleForDate(memberId, date);
+    const parse = (time: string) => time.split(':').map(Number) as [number, number];
+
+    return { start: parse(schedule.startTime), end: parse(schedule.endTime) };
+  }
+
+  /**
+   * List stored schedules, optionally for one member
+   */
+  async listSchedules(memberId?: string): Promise<MemberScheduleSettings[]> {
+    const schedules = await MemberScheduleModel.find(memberId ? { memberId } : {})
+      .sort({ memberId: 1, effectiveFrom: 1 })
+      .lean();
+
+    return schedules.map(toSettings);
+  }
+
+  /**
+   * Create a schedule for a member; its period must not overlap another one
+   */
+  async createSchedule(memberId: string, input: MemberScheduleInput, updatedBy?: string): Promise<MemberScheduleSettings> {
+    const candidate = { ...DEFAULT_MEMBER_SCHEDULE, effectiveFrom: null, effectiveTo: null, ...input };
+    await this.assertValid(memberId, candidate);
+
+    const created = await MemberScheduleModel.create({ memberId, ...candidate, ...(updatedBy && { updatedBy }) });
+
+    logger.info('Member schedule created', { memberId, scheduleId: String(created._id), updatedBy });
+    await this.reload();
+    return toSettings(created.toObject());
+  }
+
+  /**
+   * Update a stored schedule; returns null when it does not exist
+   */
+  async updateSchedule(scheduleId: string, input: MemberScheduleInput, updatedBy?: string): Promise<MemberScheduleSettings | null> {
+    const existing = await MemberScheduleModel.findById(scheduleId).lean();
+    if (!existing) {
+      return null;
+    }
+
+    const candidate = { ...toSettings(existing), ...input };
+    await this.assertValid(existing.memberId, candidate, scheduleId);
+
+    const updated = await MemberScheduleModel.findByIdAndUpdate(
+      scheduleId,
+      { $set: { ...input, ...(updatedBy && { updatedBy }) } },
+      { new: true, runValidators: true }
+    ).lean();
+
+    logger.info('Member schedule updated', { memberId: existing.memberId, scheduleId, updatedBy });
+    await this.reload();
+    return updated ? toSettings(updated) : null;
+  }
+
+  /**
+   * Delete a stored schedule; returns false when it does not exist
+   */
+  async deleteSchedule(scheduleId: string): Promise<boolean> {
+    const deleted = await MemberScheduleModel.findByIdAndDelete(scheduleId).lean();
+    if (!deleted) {
+      return false;
+    }
+
+    logger.info('Member schedule deleted', { memberId: deleted.memberId, scheduleId });
+    await this.reload();
+    return true;
+  }
+
+  /**
+   * Change a member capacity from today on, keeping past schedules intact
+   * The schedule in effect today is closed yesterday (or edited if it starts today)
+   */
+  async updateCurrentCapacity(memberId: string, settings: MemberScheduleUpdate, updatedBy?: string): Promise<MemberScheduleSettings> {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const current = this.getScheduleForDate(memberId, today);
+
+    if (current.id && current.effectiveFrom === today) {
+      return (await this.updateSchedule(current.id, settings, updatedBy))!;
+    }
+
+    if (current.id) {
+      await MemberScheduleModel.findByIdAndUpdate(current.id, {
+        $set: { effectiveTo: format(subDays(new Date(), 1), 'yyyy-MM-dd') }
+      });
+    }
+
+    // La nouvelle version reprend l'horaire courant et s'arrête avant la prochaine version planifiée
+    const next = (this.schedulesByMember.get(memberId) || [])
+      .find(schedule => schedule.effectiveFrom !== null && schedule.effectiveFrom > today);
+
+    return this.createSchedule(memberId, {
+      workingDays: current.workingDays,
+      dailyHours: current.dailyHours,
+      partTimePercentage: current.partTimePercentage,
+      startTime: current.startTime,
+      endTime: current.endTime,
+      ...settings,
+      effectiveFrom: today,
+      effectiveTo: next ? format(subDays(parseISO(next.effectiveFrom!), 1), 'yyyy-MM-dd') : null
+    }, updatedBy);
+  }
+
+  private async assertValid(
+    memberId: string,
+    candidate: { startTime: string; endTime: string; effectiveFrom: string | null; effectiveTo: string | null },
+    excludeId?: string
+  ): Promise<void> {
+    if (candidate.startTime >= candidate.endTime) {
+      throw new Error(SCHEDULE_HOURS_ERROR);
+    }
+
+    if (candidate.effectiveFrom && candidate.effectiveTo && candidate.effectiveFrom > candidate.effectiveTo) {
+      throw new Error(SCHEDULE_PERIOD_ERROR);
+    }
+
+    const others = await MemberScheduleModel.find({
+      memberId,
+      ...(excludeId && { _id: { $ne: excludeId } })
+    }).lean();
+
+    const overlaps = others.some(other =>
+      (!candidate.effectiveFrom || !other.effectiveTo || candidate.effectiveFrom <= other.effectiveTo) &&
+      (!candidate.effectiveTo || !other.effectiveFrom || candidate.effectiveTo >= other.effectiveFrom)
+    );
+
+    if (overlaps) {
+      throw new Error(SCHEDULE_OVERLAP_ERROR);
+    }
+  }
+
+  private async getSignature(): Promise<string> {
+    const [count, latest] = await Promise.all([
+      MemberScheduleModel.countDocuments(),
+      MemberScheduleModel.findOne().sort({ updatedAt: -1 }).select('updatedAt').lean()
+    ]);
+
+    return `${count}:${latest?.updatedAt?.getTime() ?? 0}`;
+  }
+}
+
+export const memberScheduleService = new MemberScheduleService();
@@ -21,6 +21,14 @@ import type {
   DatabaseQueryResult,
   CreateTaskInput,
   UpdateTaskInput,
+  CreateProjectInput,
+  UpdateProjectInput,
+  CreateClientInput,
+  UpdateClientInput,
+  CreateTeamInput,
+  UpdateTeamInput,
+  TaskSearchFilters,
+  TaskSearchResult,
 } from '../types/notion.types';
 
 /**
@@ -153,10 +161,22 @@ class NotionService {
     return taskService.queryTasksWithFilters(filters);
   }
 
+  async searchTasks(filters: TaskSearchFilters): Promise<TaskSearchResult> {
+    return taskService.searchTasks(filters);
+  }
+
   async getAllTrafficTasks(): Promise<NotionTask[]> {
     return taskService.getAllTrafficTasks();
   }
 
+  async getUnplannedTasks(): Promise<NotionTask[]> {
+    return taskService.getUnplannedTasks();
+  }
+
+  async getProjectTasks(projectId: string, options?: { clientPlanningOnly?: boolean }): Promise<NotionTask[]> {
+    return taskService.getProjectTasks(projectId, options);
+  }
+
   // ============= CALENDAR OPERATIONS (delegate to calendarService) =============
 
   async getTasksForCalendarView(
@@ -242,6 +262,42 @@ class NotionService {
     return entityService.getAllTeams();
   }
 
+  async createProject(input: CreateProjectInput): Promise<NotionProject> {
+    return entityService.createProject(input);
+  }
+
+  async updateProject(projectId: string, input: UpdateProjectInput): Promise<NotionProject> {
+    return entityService.updateProject(projectId, input);
+  }
+
+  async archiveProject(projectId: string): Promise<void> {
+    return entityService.archiveProject(projectId);
+  }
+
+  async createClient(input: CreateClientInput): Promise<NotionClient> {
+    return entityService.createClient(input);
+  }
+
+  async updateClient(clientId: string, input: UpdateClientInput): Promise<NotionClient> {
+    return entityService.updateClient(clientId, input);
+  }
+
+  async archiveClient(clientId: string): Promise<void> {
+    return entityService.archiveClient(clientId);
+  }
+
+  async createTeam(input: CreateTeamInput): Promise<NotionTeam> {
+    return entityService.createTeam(input);
+  }
+
+  async updateTeam(teamId: string, input: UpdateTeamInput): Promise<NotionTeam> {
+    return entityService.updateTeam(teamId, input);
+  }
+
+  async archiveTeam(teamId: string): Promise<void> {
+    return entityService.archiveTeam(teamId);
+  }
+
   // ============= CACHE OPERATIONS (delegate to cacheManagerService) =============
 
   async getCacheStats(): Promise<any> {
@@ -1,6 +1,8 @@
 import { NotionBaseService } from './notion-base.service';
 import { cacheManagerService } from './cache-manager.service';
-import { notion, DATABASES, TASK_PROPERTY_IDS } from '../../config/notion.config';
+import { notion, DATABASES } from '../../config/notion.config';
+import { propertyMappingService } from './property-mapping.service';
+import { taskIndexService } from './task-index.service';
 import { retryWithBackoff } from '../../utils/retryWithBackoff';
 import { notionPageToTask } from '../../mappers/notion.mapper';
 import { NotionTask } from '../../types/notion.types';
@@ -51,14 +53,14 @@ export class CalendarService extends NotionBaseService {
             // Puis on affine avec le filtrage JS pour le chevauchement exact
             filter: {
               // Utiliser seulement on_or_after pour capturer les tâches sans date de fin
-              property: TASK_PROPERTY_IDS.workPeriod,
+              property: propertyMappingService.task.workPeriod,
               date: {
                 on_or_after: searchStartDate.toISOString(),
               },
             },
             sorts: [
               {
-                property: TASK_PROPERTY_IDS.workPeriod,
+                property: propertyMappingService.task.workPeriod,
                 direction: 'ascending',
               },
             ],
@@ -120,6 +122,9 @@ export class CalendarService extends NotionBaseService {
           notionDuration: `${notionDuration.toFixed(0)}ms`
         });
 
+        // Alimente l'index membre/jour utilisé par la détection de conflits
+        await taskIndexService.indexWindow(tasks, startDate, endDate);
+
         return tasks;
       },
       options
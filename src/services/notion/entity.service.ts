@@ -1,12 +1,17 @@
 import { NotionBaseService } from './notion-base.service';
 import { cacheManagerService } from './cache-manager.service';
 import { notion, DATABASES } from '../../config/notion.config';
+import { propertyMappingService } from './property-mapping.service';
 import { retryWithBackoff } from '../../utils/retryWithBackoff';
+import { NotionAPIError } from '../../errors/NotionAPIError';
 import {
   notionPageToUser,
   notionPageToProject,
   notionPageToClient,
   notionPageToTeam,
+  createNotionProjectProperties,
+  createNotionClientProperties,
+  createNotionTeamProperties,
 } from '../../mappers/notion.mapper';
 import {
   NotionMember,
@@ -14,9 +19,27 @@ import {
   NotionClient,
   NotionTeam,
   DatabaseQueryResult,
+  CreateProjectInput,
+  UpdateProjectInput,
+  CreateClientInput,
+  UpdateClientInput,
+  CreateTeamInput,
+  UpdateTeamInput,
 } from '../../types/notion.types';
 import logger from '../../config/logger.config';
 
+export type WritableEntityType = 'project' | 'client' | 'team';
+
+/**
+ * Notion database and caches of each writable entity
+ * `related` : caches dont les relations changent avec l'entité (client <-> projets, équipe <-> membres)
+ */
+const WRITABLE_ENTITIES: Record<WritableEntityType, { database: keyof typeof DATABASES; cacheType: string; related: string[] }> = {
+  project: { database: 'projects', cacheType: 'projects', related: ['clients'] },
+  client: { database: 'clients', cacheType: 'clients', related: ['projects'] },
+  team: { database: 'teams', cacheType: 'teams', related: ['users'] },
+};
+
 /**
  * Service handling all entity operations (Users, Projects, Teams, Clients)
  */
@@ -126,7 +149,7 @@ export class EntityService extends NotionBaseService {
 
         if (filters?.status) {
           queryParams.filter = {
-            property: 'Statut du projet',
+            property: propertyMappingService.project.status,
             select: {
               equals: filters.status,
             },
@@ -179,6 +202,27 @@ export class EntityService extends NotionBaseService {
     );
   }
 
+  /**
+   * Create a new project
+   */
+  async createProject(input: CreateProjectInput): Promise<NotionProject> {
+    return this.createEntityPage('project', createNotionProjectProperties(input), notionPageToProject);
+  }
+
+  /**
+   * Update an existing project
+   */
+  async updateProject(projectId: string, input: UpdateProjectInput): Promise<NotionProject> {
+    return this.updateEntityPage('project', projectId, createNotionProjectProperties(input), notionPageToProject);
+  }
+
+  /**
+   * Archive a project
+   */
+  async archiveProject(projectId: string): Promise<void> {
+    return this.archiveEntityPage('project', projectId);
+  }
+
   // ============= CLIENTS =============
 
   /**
@@ -250,6 +294,27 @@ export class EntityService extends NotionBaseService {
     );
   }
 
+  /**
+   * Create a new client
+   */
+  async createClient(input: CreateClientInput): Promise<NotionClient> {
+    return this.createEntityPage('client', createNotionClientProperties(input), notionPageToClient);
+  }
+
+  /**
+   * Update an existing client
+   */
+  async updateClient(clientId: string, input: UpdateClientInput): Promise<NotionClient> {
+    return this.updateEntityPage('client', clientId, createNotionClientProperties(input), notionPageToClient);
+  }
+
+  /**
+   * Archive a client
+   */
+  async archiveClient(clientId: string): Promise<void> {
+    return this.archiveEntityPage('client', clientId);
+  }
+
   // ============= TEAMS =============
 
   /**
@@ -314,6 +379,118 @@ export class EntityService extends NotionBaseService {
     });
   }
 
+  /**
+   * Create a new team
+   */
+  async createTeam(input: CreateTeamInput): Promise<NotionTeam> {
+    return this.createEntityPage('team', createNotionTeamProperties(input), notionPageToTeam);
+  }
+
+  /**
+   * Update an existing team
+   */
+  async updateTeam(teamId: string, input: UpdateTeamInput): Promise<NotionTeam> {
+    return this.updateEntityPage('team', teamId, createNotionTeamProperties(input), notionPageToTeam);
+  }
+
+  /**
+   * Archive a team
+   */
+  async archiveTeam(teamId: string): Promise<void> {
+    return this.archiveEntityPage('team', teamId);
+  }
+
+  // ============= WRITES =============
+
+  private async createEntityPage<T extends { id: string }>(
+    entityType: WritableEntityType,
+    properties: any,
+    toEntity: (page: any) => T
+  ): Promise<T> {
+    try {
+      const response = await retryWithBackoff(() =>
+        this.throttledNotionCall(
+          () => notion.pages.create({
+            parent: { database_id: DATABASES[WRITABLE_ENTITIES[entityType].database] },
+            properties,
+          }),
+          `create:${entityType}`
+        )
+      );
+
+      const entity = toEntity(response);
+      await this.refreshEntityCaches(entityType, entity.id, entity);
+
+      logger.info(`${entityType} created successfully`, { id: entity.id });
+      return entity;
+    } catch (error) {
+      logger.error(`Failed to create ${entityType}`, { error });
+      throw NotionAPIError.fromError(error);
+    }
+  }
+
+  private async updateEntityPage<T extends { id: string }>(
+    entityType: WritableEntityType,
+    entityId: string,
+    properties: any,
+    toEntity: (page: any) => T
+  ): Promise<T> {
+    try {
+      const response = await retryWithBackoff(() =>
+        this.throttledNotionCall(
+          () => notion.pages.update({ page_id: entityId, properties }),
+          `update:${entityType}`
+        )
+      );
+
+      const entity = toEntity(response);
+      await this.refreshEntityCaches(entityType, entityId, entity);
+
+      logger.info(`${entityType} updated successfully and cache invalidated`, {
+        id: entityId,
+        updatedFields: Object.keys(properties),
+      });
+      return entity;
+    } catch (error) {
+      logger.error(`Failed to update ${entityType}`, { id: entityId, error });
+      throw NotionAPIError.fromError(error);
+    }
+  }
+
+  private async archiveEntityPage(entityType: WritableEntityType, entityId: string): Promise<void> {
+    try {
+      await retryWithBackoff(() =>
+        this.throttledNotionCall(
+          () => notion.pages.update({ page_id: entityId, archived: true }),
+          `archive:${entityType}`
+        )
+      );
+
+      await this.refreshEntityCaches(entityType, entityId);
+
+      logger.info(`${entityType} archived successfully and cache invalidated`, { id: entityId });
+    } catch (error) {
+      logger.error(`Failed to archive ${entityType}`, { id: entityId, error });
+      throw NotionAPIError.fromError(error);
+    }
+  }
+
+  /**
+   * Invalidate list caches of the entity (and of related entities), then cache the written page
+   */
+  private async refreshEntityCaches<T>(entityType: WritableEntityType, entityId: string, entity?: T): Promise<void> {
+    const { cacheType, related } = WRITABLE_ENTITIES[entityType];
+
+    await Promise.all(
+      [cacheType, ...related].map(type => cacheManagerService.invalidateCachePattern(`${type}:*`))
+    );
+    await cacheManagerService.deleteCacheKey(`${entityType}:${entityId}`);
+
+    if (entity) {
+      await cacheManagerService.setCache(`${entityType}:${entityId}`, entity, cacheType);
+    }
+  }
+
   // ============= CACHE MANAGEMENT =============
 
   /**
@@ -7,6 +7,9 @@ export { cacheManagerService, CacheManagerService } from './cache-manager.servic
 export { taskService, TaskService } from './task.service';
 export { calendarService, CalendarService } from './calendar.service';
 export { entityService, EntityService } from './entity.service';
+export { propertyMappingService, PropertyMappingService } from './property-mapping.service';
+export { taskIndexService, TaskIndexService } from './task-index.service';
+export { taskCachePatchService, TaskCachePatchService } from './task-cache-patch.service';
 
 // Re-export types for convenience
 export * from '../../types/notion.types';
\ No newline at end of file
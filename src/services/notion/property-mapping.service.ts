@@ -0,0 +1,210 @@
+import NotionConfigModel, { IDatabaseMapping } from '../../models/NotionConfig.model';
+import {
+  TASK_PROPERTY_IDS,
+  USER_PROPERTY_IDS,
+  PROJECT_PROPERTY_IDS,
+  CLIENT_PROPERTY_IDS,
+  TEAM_PROPERTY_IDS,
+} from '../../config/notion.config';
+import logger from '../../config/logger.config';
+import { AutoReloader } from '../../utils/autoReload';
+
+export type TaskPropertyKey = keyof typeof TASK_PROPERTY_IDS;
+export type UserPropertyKey = keyof typeof USER_PROPERTY_IDS;
+export type ProjectPropertyKey = keyof typeof PROJECT_PROPERTY_IDS;
+export type ClientPropertyKey = keyof typeof CLIENT_PROPERTY_IDS;
+export type TeamPropertyKey = keyof typeof TEAM_PROPERTY_IDS;
+
+export type MappedDatabase = 'traffic' | 'users' | 'projects' | 'clients' | 'teams';
+
+export interface ResolvedPropertyMappings {
+  traffic: Record<TaskPropertyKey, string>;
+  users: Record<UserPropertyKey, string>;
+  projects: Record<ProjectPropertyKey, string>;
+  clients: Record<ClientPropertyKey, string>;
+  teams: Record<TeamPropertyKey, string>;
+}
+
+/**
+ * Alias des champs applicatifs (tels que produits par autoDetectMapping ou saisis
+ * dans l'écran de mapping) vers les clés internes utilisées par le mapper
+ */
+const APPLICATION_FIELD_ALIASES: Record<MappedDatabase, Record<string, string>> = {
+  traffic: {
+    title: 'title',
+    taskName: 'title',
+    workPeriod: 'workPeriod',
+    assignedMembers: 'assignedMembers',
+    users: 'assignedMembers',
+    projectId: 'projectId',
+    project: 'projectId',
+    taskType: 'taskType',
+    status: 'status',
+    notes: 'notes',
+    comment: 'notes',
+    billedHours: 'billedHours',
+    actualHours: 'actualHours',
+    addToCalendar: 'addToCalendar',
+    googleEventId: 'googleEventId',
+    clientPlanning: 'clientPlanning',
+    addToRetroplanning: 'clientPlanning',
+    client: 'client',
+    team: 'team',
+  },
+  users: {
+    title: 'title',
+    name: 'title',
+    email: 'email',
+    team: 'team',
+    teams: 'team',
+    tasks: 'tasks',
+  },
+  projects: {
+    title: 'title',
+    name: 'title',
+    projectName: 'title',
+    client: 'client',
+    status: 'status',
+    tasks: 'tasks',
+    projectLead: 'projectLead',
+    projectLeads: 'projectLead',
+  },
+  clients: {
+    title: 'title',
+    name: 'title',
+    clientName: 'title',
+    projects: 'projects',
+    project: 'projects',
+  },
+  teams: {
+    title: 'title',
+    name: 'title',
+    teamName: 'title',
+    members: 'members',
+    users: 'members',
+  },
+};
+
+const buildDefaults = (): ResolvedPropertyMappings => ({
+  traffic: { ...TASK_PROPERTY_IDS },
+  users: { ...USER_PROPERTY_IDS },
+  projects: { ...PROJECT_PROPERTY_IDS },
+  clients: { ...CLIENT_PROPERTY_IDS },
+  teams: { ...TEAM_PROPERTY_IDS },
+});
+
+/**
+ * Résout les noms de propriétés Notion à partir du mapping stocké dans NotionConfig.
+ * Les constantes *_PROPERTY_IDS servent de valeurs par défaut pour tout champ non mappé.
+ */
+export function resolvePropertyMappings(mappings: IDatabaseMapping[] = []): ResolvedPropertyMappings {
+  const resolved = buildDefaults();
+
+  for (const mapping of mappings) {
+    const databaseName = mapping.databaseName as MappedDatabase;
+    const aliases = APPLICATION_FIELD_ALIASES[databaseName];
+    if (!aliases) continue;
+
+    const target = resolved[databaseName] as Record<string, string>;
+    for (const field of mapping.fields || []) {
+      const key = aliases[field.applicationField];
+      const notionProperty = field.notionProperty?.trim();
+      if (key && notionProperty) {
+        target[key] = notionProperty;
+      }
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Service gardant en mémoire le mapping actif des propriétés Notion.
+ * Lecture synchrone pour le mapper, rechargement à chaud après sauvegarde du mapping.
+ */
+export class PropertyMappingService {
+  private properties: ResolvedPropertyMappings = buildDefaults();
+  private loadedVersion: number | null = null;
+  private loadedAt: Date | null = null;
+  private readonly autoReloader = new AutoReloader({
+    name: 'Notion property mapping',
+    hasChanged: async () => {
+      const environment = process.env.NODE_ENV || 'development';
+      const config = await NotionConfigModel.findOne({ environment }).select('version').lean();
+      return (config?.version ?? null) !== this.loadedVersion;
+    },
+    reload: () => this.reload()
+  });
+
+  /**
+   * Recharge le mapping depuis la configuration Notion active
+   */
+  async reload(): Promise<void> {
+    try {
+      const environment = process.env.NODE_ENV || 'development';
+      const config = await NotionConfigModel.findOne({ environment })
+        .select('mappings version')
+        .lean();
+
+      this.properties = resolvePropertyMappings((config?.mappings as IDatabaseMapping[]) || []);
+      this.loadedVersion = config?.version ?? null;
+      this.loadedAt = new Date();
+
+      logger.info('Notion property mapping loaded', {
+        version: this.loadedVersion,
+        mappedDatabases: (config?.mappings || []).map(m => m.databaseName),
+      });
+    } catch (error) {
+      // On garde le mapping précédent en cas d'erreur
+      logger.error('Failed to load Notion property mapping, keeping current mapping', { error });
+    }
+  }
+
+  /**
+   * Recharge uniquement si la version de la config a changé (autres instances)
+   */
+  reloadIfChanged(): Promise<boolean> {
+    return this.autoReloader.reloadIfChanged();
+  }
+
+  /**
+   * Démarre la vérification périodique du mapping
+   */
+  startAutoReload(intervalMs = 60000): void {
+    this.autoReloader.start(intervalMs);
+  }
+
+  stopAutoReload(): void {
+    this.autoReloader.stop();
+  }
+
+  get task(): Record<TaskPropertyKey, string> {
+    return this.properties.traffic;
+  }
+
+  get user(): Record<UserPropertyKey, string> {
+    return this.properties.users;
+  }
+
+  get project(): Record<ProjectPropertyKey, string> {
+    return this.properties.projects;
+  }
+
+  get client(): Record<ClientPropertyKey, string> {
+    return this.properties.clients;
+  }
+
+  get team(): Record<TeamPropertyKey, string> {
+    return this.properties.teams;
+  }
+
+  getStatus() {
+    return {
+      version: this.loadedVersion,
+      loadedAt: this.loadedAt,
+      properties: this.properties,
+    };
+  }
+}
+
+export const propertyMappingService = new PropertyMappingService();
@@ -0,0 +1,190 @@
+import { NotionBaseService } from './notion-base.service';
+import { cacheManagerService } from './cache-manager.service';
+import { taskIndexService } from './task-index.service';
+import { notion } from '../../config/notion.config';
+import { redisService } from '../redis.service';
+import { retryWithBackoff } from '../../utils/retryWithBackoff';
+import { notionPageToTask } from '../../mappers/notion.mapper';
+import { NotionTask } from '../../types/notion.types';
+import logger from '../../config/logger.config';
+
+const CALENDAR_KEY_PATTERN = /^tasks:calendar:start=(\d{4}-\d{2}-\d{2}):end=(\d{4}-\d{2}-\d{2})$/;
+
+// Listes non découpées par fenêtre : trop coûteuses à patcher, on les laisse se recharger
+const LIST_CACHE_PATTERNS = ['tasks:list:*', 'tasks:unplanned:*', 'tasks:all'];
+
+export interface TaskCachePatchResult {
+  entityId: string;
+  action: 'upserted' | 'removed' | 'skipped';
+  windowsScanned: number;
+  windowsPatched: number;
+  windowsLeft: number;
+  indexUpdated: boolean;
+}
+
+/**
+ * Incremental refresh of the cached task data after a single page change
+ * Patches the calendar windows and the member/day index instead of wiping `tasks:calendar:*`
+ */
+export class TaskCachePatchService extends NotionBaseService {
+  /**
+   * Fetch a task page from Notion and patch it into the caches
+   */
+  async refreshTask(taskId: string): Promise<TaskCachePatchResult> {
+    const page: any = await retryWithBackoff(() =>
+      this.throttledNotionCall(
+        () => notion.pages.retrieve({ page_id: taskId }),
+        'refreshTask'
+      )
+    );
+
+    if (page.archived || page.in_trash) {
+      return this.removeTask(taskId);
+    }
+
+    return this.applyTask(notionPageToTask(page));
+  }
+
+  /**
+   * Put the fresh version of a task into every cached window it overlaps,
+   * and remove it from the windows it left
+   */
+  async applyTask(task: NotionTask): Promise<TaskCachePatchResult> {
+    const previousTask = await redisService.get<NotionTask>(`task:${task.id}`);
+    const result = await this.patchWindows(task.id, (tasks, window) => {
+      const position = tasks.findIndex(cached => cached.id === task.id);
+
+      if (this.overlapsWindow(task, window)) {
+        if (position >= 0) {
+          tasks[position] = task;
+        } else {
+          tasks.push(task);
+          this.sortByStartDate(tasks);
+        }
+        return 'patched';
+      }
+
+      if (position >= 0) {
+        tasks.splice(position, 1);
+        return 'left';
+      }
+
+      return 'unchanged';
+    });
+
+    await cacheManagerService.setCache(`task:${task.id}`, task, 'task');
+    const indexUpdated = await this.updateIndex(() => taskIndexService.upsertTask(task, previousTask));
+    await this.invalidateLists();
+
+    return { entityId: task.id, action: 'upserted', ...result, indexUpdated };
+  }
+
+  /**
+   * Remove an archived / deleted task from every cached window
+   */
+  async removeTask(taskId: string): Promise<TaskCachePatchResult> {
+    const previousTask = await redisService.get<NotionTask>(`task:${taskId}`);
+    const result = await this.patchWindows(taskId, tasks => {
+      const position = tasks.findIndex(cached => cached.id === taskId);
+      if (position < 0) {
+        return 'unchanged';
+      }
+      tasks.splice(position, 1);
+      return 'left';
+    });
+
+    await cacheManagerService.deleteCacheKey(`task:${taskId}`);
+    const indexUpdated = await this.updateIndex(() => taskIndexService.removeTask(taskId, previousTask));
+    await this.invalidateLists();
+
+    return { entityId: taskId, action: 'removed', ...result, indexUpdated };
+  }
+
+  /**
+   * Apply a patch function to every cached calendar window
+   */
+  private async patchWindows(
+    taskId: string,
+    patch: (tasks: NotionTask[], window: { start: Date; end: Date }) => 'patched' | 'left' | 'unchanged'
+  ): Promise<Pick<TaskCachePatchResult, 'windowsScanned' | 'windowsPatched' | 'windowsLeft'>> {
+    const keys = await redisService.keys('tasks:calendar:*');
+    let windowsScanned = 0;
+    let windowsPatched = 0;
+    let windowsLeft = 0;
+
+    for (const key of keys) {
+      const match = CALENDAR_KEY_PATTERN.exec(key);
+      if (!match) {
+        continue;
+      }
+
+      const tasks = await redisService.get<NotionTask[]>(key);
+      if (!Array.isArray(tasks)) {
+        continue;
+      }
+      windowsScanned++;
+
+      const window = {
+        start: new Date(`${match[1]}T00:00:00.000Z`),
+        end: new Date(`${match[2]}T23:59:59.999Z`)
+      };
+      const outcome = patch(tasks, window);
+
+      if (outcome === 'unchanged') {
+        continue;
+      }
+
+      await cacheManagerService.setCache(key, tasks, 'tasks');
+      if (outcome === 'patched') {
+        windowsPatched++;
+      } else {
+        windowsLeft++;
+      }
+    }
+
+    logger.debug('Calendar windows patched', { taskId, windowsScanned, windowsPatched, windowsLeft });
+    return { windowsScanned, windowsPatched, windowsLeft };
+  }
+
+  /**
+   * Same overlap rule as CalendarService.getTasksForCalendarView
+   */
+  private overlapsWindow(task: NotionTask, window: { start: Date; end: Date }): boolean {
+    if (!task.workPeriod?.startDate) {
+      return false;
+    }
+
+    const taskStart = new Date(task.workPeriod.startDate);
+    const taskEnd = task.workPeriod.endDate ? new Date(task.workPeriod.endDate) : taskStart;
+
+    return taskEnd >= window.start && taskStart <= window.end;
+  }
+
+  private sortByStartDate(tasks: NotionTask[]): void {
+    tasks.sort((a, b) =>
+      new Date(a.workPeriod?.startDate || 0).getTime() - new Date(b.workPeriod?.startDate || 0).getTime()
+    );
+  }
+
+  /**
+   * The index service throws after dropping the affected days: report it instead of failing the patch
+   */
+  private async updateIndex(update: () => Promise<void>): Promise<boolean> {
+    try {
+      await update();
+      return true;
+    } catch (error) {
+      logger.error('Failed to update task index', { error });
+      return false;
+    }
+  }
+
+  private async invalidateLists(): Promise<void> {
+    for (const pattern of LIST_CACHE_PATTERNS) {
+      await cacheManagerService.invalidateCachePattern(pattern);
+    }
+  }
+}
+
+// Export singleton instance
+export const taskCachePatchService = new TaskCachePatchService();
@@ -0,0 +1,242 @@
+import { redisService } from '../redis.service';
+import { NotionTask } from '../../types/notion.types';
+import logger from '../../config/logger.config';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Les clés vivent sous le préfixe `tasks:` : l'invalidation `tasks:*` des webhooks
+// remet donc l'index à zéro, les écritures du TaskService le tiennent à jour.
+const DAY_KEY_PREFIX = 'tasks:index:day:';
+const TASK_KEY_PREFIX = 'tasks:index:task:';
+
+// Champ du hash de jour posé par la requête calendrier : sans lui, le jour n'est pas couvert
+const INDEXED_AT_FIELD = '__indexedAt';
+
+// Au-delà, on considère la période trop large pour l'index et on laisse le fallback Notion
+const MAX_INDEXED_DAYS = 366;
+
+/**
+ * Index des tâches par jour (UTC) stocké dans Redis.
+ * Chaque jour est un hash (un champ par tâche) modifié champ par champ avec HSET/HDEL,
+ * et chaque tâche garde la liste de ses jours indexés sous sa propre clé.
+ * Un jour n'est couvert que s'il a été entièrement compris dans une requête
+ * calendrier : l'absence du marqueur signifie "inconnu", pas "aucune tâche".
+ */
+export class TaskIndexService {
+  /**
+   * Clé de jour au format YYYY-MM-DD (UTC)
+   */
+  static toDayKey(date: Date): string {
+    return date.toISOString().split('T')[0]!;
+  }
+
+  /**
+   * Liste des jours (UTC) couverts par une période
+   */
+  getDaysInRange(start: Date, end: Date): string[] {
+    const days: string[] = [];
+    const cursor = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate()));
+
+    while (cursor <= end && days.length <= MAX_INDEXED_DAYS) {
+      days.push(TaskIndexService.toDayKey(cursor));
+      cursor.setTime(cursor.getTime() + DAY_MS);
+    }
+
+    return days;
+  }
+
+  /**
+   * Jours occupés par une tâche
+   */
+  getTaskDays(task: Pick<NotionTask, 'workPeriod'>): string[] {
+    const start = task.workPeriod?.startDate ? new Date(task.workPeriod.startDate) : null;
+    if (!start || isNaN(start.getTime())) {
+      return [];
+    }
+
+    const end = task.workPeriod?.endDate ? new Date(task.workPeriod.endDate) : start;
+    return this.getDaysInRange(start, end < start ? start : end).slice(0, MAX_INDEXED_DAYS);
+  }
+
+  /**
+   * Indexe le résultat d'une requête calendrier.
+   * Seuls les jours entièrement compris dans la fenêtre sont marqués comme couverts.
+   */
+  async indexWindow(tasks: NotionTask[], windowStart: Date, windowEnd: Date): Promise<void> {
+    try {
+      const firstDay = new Date(Math.ceil(windowStart.getTime() / DAY_MS) * DAY_MS);
+      const lastDayEnd = new Date(Math.floor((windowEnd.getTime() + 1) / DAY_MS) * DAY_MS - 1);
+      if (lastDayEnd < firstDay) {
+        return;
+      }
+
+      const coveredDays = this.getDaysInRange(firstDay, lastDayEnd);
+      if (coveredDays.length > MAX_INDEXED_DAYS) {
+        logger.debug('Calendar window too large for task index, skipping', {
+          days: coveredDays.length,
+        });
+        return;
+      }
+
+      const indexedAt = new Date().toISOString();
+      const dayFields = new Map<string, Record<string, any>>(
+        coveredDays.map(day => [day, { [INDEXED_AT_FIELD]: indexedAt }])
+      );
+      const taskDays = new Map<string, string[]>();
+
+      for (const task of tasks) {
+        const days = this.getTaskDays(task);
+        if (days.length === 0) continue;
+        taskDays.set(task.id, days);
+
+        for (const day of days) {
+          const fields = dayFields.get(day);
+          if (fields) {
+            fields[task.id] = task;
+          }
+        }
+      }
+
+      // Le jour est réécrit en entier : il repart avec un TTL neuf et sans les tâches disparues
+      await Promise.all(
+        Array.from(dayFields.entries()).map(async ([day, fields]) => {
+          const key = `${DAY_KEY_PREFIX}${day}`;
+          await redisService.del(key);
+          await redisService.hashSet(key, fields, 'tasks');
+        })
+      );
+      // Écrites après les jours : la clé d'une tâche n'expire jamais avant un jour qui la contient
+      await Promise.all(
+        Array.from(taskDays.entries()).map(([taskId, days]) =>
+          redisService.set(`${TASK_KEY_PREFIX}${taskId}`, days, 'tasks')
+        )
+      );
+
+      logger.debug('Task index updated from calendar window', {
+        days: coveredDays.length,
+        tasks: tasks.length,
+      });
+    } catch (error) {
+      logger.error('Failed to index calendar window', { error });
+    }
+  }
+
+  /**
+   * Met à jour l'index après création ou modification d'une tâche
+   */
+  async upsertTask(task: NotionTask, previous?: Partial<NotionTask> | null): Promise<void> {
+    await this.applyTaskChange(task.id, task, previous);
+  }
+
+  /**
+   * Retire une tâche de l'index (archivage / suppression)
+   */
+  async removeTask(taskId: string, previous?: Partial<NotionTask> | null): Promise<void> {
+    await this.applyTaskChange(taskId, null, previous);
+  }
+
+  /**
+   * Récupère les tâches des membres sur la période.
+   * Retourne null si un des jours n'est pas couvert par l'index (fallback nécessaire).
+   */
+  async getTasksForMembers(
+    memberIds: string[],
+    startDate: Date | string,
+    endDate: Date | string,
+    excludeTaskId?: string
+  ): Promise<NotionTask[] | null> {
+    const start = new Date(startDate);
+    const end = new Date(endDate);
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      return null;
+    }
+
+    const days = this.getDaysInRange(start, end < start ? start : end);
+    if (days.length > MAX_INDEXED_DAYS) {
+      return null;
+    }
+
+    try {
+      const entries = await Promise.all(
+        days.map(day => redisService.hashGetAll<NotionTask | string>(`${DAY_KEY_PREFIX}${day}`))
+      );
+
+      const missingDays = entries.filter(entry => !entry?.[INDEXED_AT_FIELD]).length;
+      if (missingDays > 0) {
+        logger.debug('Task index incomplete for period', {
+          start: days[0],
+          end: days[days.length - 1],
+          missingDays,
+        });
+        return null;
+      }
+
+      const tasks = new Map<string, NotionTask>();
+      for (const entry of entries) {
+        for (const [field, value] of Object.entries(entry!)) {
+          if (field === INDEXED_AT_FIELD || field === excludeTaskId || typeof value === 'string') continue;
+
+          if ((value.assignedMembers || []).some(memberId => memberIds.includes(memberId))) {
+            tasks.set(value.id, value);
+          }
+        }
+      }
+
+      return Array.from(tasks.values());
+    } catch (error) {
+      logger.error('Failed to read task index', { error });
+      return null;
+    }
+  }
+
+  /**
+   * Retire la tâche de ses anciens jours et l'ajoute sur ses nouveaux jours.
+   * Les jours non couverts sont ignorés : ils seront indexés à la prochaine requête calendrier.
+   * En cas d'échec, les jours concernés sont supprimés (la lecture retombe sur Notion)
+   * et l'erreur est remontée à l'appelant.
+   */
+  private async applyTaskChange(
+    taskId: string,
+    task: NotionTask | null,
+    previous?: Partial<NotionTask> | null
+  ): Promise<void> {
+    const taskKey = `${TASK_KEY_PREFIX}${taskId}`;
+    const newDays = task ? this.getTaskDays(task) : [];
+    const oldDays = new Set<string>(
+      previous?.workPeriod ? this.getTaskDays(previous as NotionTask) : []
+    );
+
+    try {
+      ((await redisService.get<string[]>(taskKey)) || []).forEach(day => oldDays.add(day));
+
+      const removedDays = Array.from(oldDays).filter(day => !newDays.includes(day));
+
+      // Un HSET sur un jour non couvert crée un hash sans marqueur, ignoré à la lecture
+      // jusqu'à ce qu'une requête calendrier le réécrive
+      await Promise.all([
+        ...removedDays.map(day => redisService.hashDelete(`${DAY_KEY_PREFIX}${day}`, taskId)),
+        ...newDays.map(day => redisService.hashSet(`${DAY_KEY_PREFIX}${day}`, { [taskId]: task }, 'tasks')),
+      ]);
+
+      if (task && newDays.length > 0) {
+        await redisService.set(taskKey, newDays, 'tasks');
+      } else {
+        await redisService.del(taskKey);
+      }
+    } catch (error) {
+      logger.error('Failed to update task index', { taskId, error });
+
+      const affectedDays = Array.from(new Set([...oldDays, ...newDays]));
+      await Promise.all(
+        affectedDays.map(day => redisService.del(`${DAY_KEY_PREFIX}${day}`))
+      ).catch(resetError => {
+        logger.error('Failed to reset task index days', { taskId, days: affectedDays, error: resetError });
+      });
+
+      throw error;
+    }
+  }
+}
+
+// Export singleton instance
+export const taskIndexService = new TaskIndexService();
@@ -1,17 +1,27 @@
 import { NotionBaseService } from './notion-base.service';
 import { cacheManagerService } from './cache-manager.service';
-import { notion, DATABASES, TASK_PROPERTY_IDS } from '../../config/notion.config';
+import { notion, DATABASES } from '../../config/notion.config';
+import { propertyMappingService } from './property-mapping.service';
+import { taskIndexService } from './task-index.service';
+import { entityService } from './entity.service';
+import { redisService } from '../redis.service';
 import { retryWithBackoff } from '../../utils/retryWithBackoff';
 import { NotionAPIError } from '../../errors/NotionAPIError';
 import {
   notionPageToTask,
-  createNotionTaskProperties
+  createNotionTaskProperties,
+  mapTaskStatus,
+  TASK_STATUS_TO_NOTION,
+  TASK_TYPE_TO_NOTION
 } from '../../mappers/notion.mapper';
 import {
   NotionTask,
   DatabaseQueryResult,
   CreateTaskInput,
-  UpdateTaskInput
+  UpdateTaskInput,
+  TaskSearchFilters,
+  TaskSearchFacets,
+  TaskSearchResult
 } from '../../types/notion.types';
 import logger from '../../config/logger.config';
 
@@ -41,10 +51,12 @@ export class TaskService extends NotionBaseService {
       // Invalidate list caches since a new task was added
       await cacheManagerService.invalidateCachePattern('tasks:calendar:*');
       await cacheManagerService.invalidateCachePattern('tasks:list:*');
+      await cacheManagerService.invalidateCachePattern('tasks:unplanned:*');
       
       // Cache the new task
       const taskCacheKey = `task:${task.id}`;
       await cacheManagerService.setCache(taskCacheKey, task, 'task');
+      await this.updateIndex(() => taskIndexService.upsertTask(task));
       
       logger.info('Task created successfully', { 
         taskId: task.id, 
@@ -93,6 +105,8 @@ export class TaskService extends NotionBaseService {
   async updateTask(taskId: string, input: UpdateTaskInput): Promise<NotionTask> {
     try {
       const properties = createNotionTaskProperties(input);
+      // Version précédente pour retirer la tâche de ses anciens jours dans l'index
+      const previousTask = await redisService.get<NotionTask>(`task:${taskId}`);
       
       const response = await retryWithBackoff(
         () => this.throttledNotionCall(
@@ -113,9 +127,11 @@ export class TaskService extends NotionBaseService {
       // Also invalidate related list caches (calendar views might be affected)
       await cacheManagerService.invalidateCachePattern('tasks:calendar:*');
       await cacheManagerService.invalidateCachePattern('tasks:list:*');
+      await cacheManagerService.invalidateCachePattern('tasks:unplanned:*');
       
       // Store the updated task in cache
       await cacheManagerService.setCache(taskCacheKey, task, 'task');
+      await this.updateIndex(() => taskIndexService.upsertTask(task, previousTask));
       
       logger.info('Task updated successfully and cache invalidated', { 
         taskId: task.id, 
@@ -135,6 +151,8 @@ export class TaskService extends NotionBaseService {
    */
   async archiveTask(taskId: string): Promise<void> {
     try {
+      const previousTask = await redisService.get<NotionTask>(`task:${taskId}`);
+
       await retryWithBackoff(
         () => this.throttledNotionCall(
           () => notion.pages.update({
@@ -149,6 +167,8 @@ export class TaskService extends NotionBaseService {
       await cacheManagerService.deleteCacheKey(`task:${taskId}`);
       await cacheManagerService.invalidateCachePattern('tasks:calendar:*');
       await cacheManagerService.invalidateCachePattern('tasks:list:*');
+      await cacheManagerService.invalidateCachePattern('tasks:unplanned:*');
+      await this.updateIndex(() => taskIndexService.removeTask(taskId, previousTask));
       
       logger.info('Task archived successfully and cache invalidated', { taskId });
     } catch (error) {
@@ -157,6 +177,18 @@ export class TaskService extends NotionBaseService {
     }
   }
 
+  /**
+   * L'écriture Notion a réussi : un index en échec (jours déjà vidés, erreur journalisée)
+   * ne fait pas échouer la requête, la lecture retombe sur Notion
+   */
+  private async updateIndex(update: () => Promise<void>): Promise<void> {
+    try {
+      await update();
+    } catch {
+      // Déjà journalisé par le TaskIndexService
+    }
+  }
+
   /**
    * Query tasks database with pagination
    */
@@ -216,45 +248,16 @@ export class TaskService extends NotionBaseService {
     dateRange?: { start: Date; end: Date };
     taskType?: string;
   }): Promise<NotionTask[]> {
-    const filter: any = { and: [] };
-    
-    if (filters.status) {
-      filter.and.push({
-        property: TASK_PROPERTY_IDS.status,
-        status: { equals: filters.status }
-      });
-    }
-    
-    if (filters.assignedTo) {
-      filter.and.push({
-        property: TASK_PROPERTY_IDS.assignedMembers,
-        relation: { contains: filters.assignedTo }
-      });
-    }
-    
-    if (filters.projectId) {
-      filter.and.push({
-        property: TASK_PROPERTY_IDS.projectId,
-        relation: { contains: filters.projectId }
-      });
-    }
-    
-    if (filters.taskType) {
-      filter.and.push({
-        property: TASK_PROPERTY_IDS.taskType,
-        select: { equals: filters.taskType }
-      });
-    }
-    
-    if (filters.dateRange) {
-      filter.and.push({
-        property: TASK_PROPERTY_IDS.workPeriod,
-        date: {
-          on_or_after: filters.dateRange.start.toISOString(),
-          on_or_before: filters.dateRange.end.toISOString()
-        }
-      });
-    }
+    const filter = this.buildTaskFilter({
+      ...(filters.status && { status: filters.status }),
+      ...(filters.assignedTo && { assignedTo: filters.assignedTo }),
+      ...(filters.projectId && { projectId: filters.projectId }),
+      ...(filters.taskType && { taskType: filters.taskType }),
+      ...(filters.dateRange && {
+        startsOnOrAfter: filters.dateRange.start,
+        startsOnOrBefore: filters.dateRange.end
+      })
+    });
 
     // Generate cache key based on filters
     const cacheKey = this.generateCacheKey('tasks', 'filtered', filters);
@@ -267,7 +270,7 @@ export class TaskService extends NotionBaseService {
           () => this.throttledNotionCall(
             () => notion.databases.query({
               database_id: DATABASES.traffic,
-              filter: filter.and.length > 0 ? filter : undefined,
+              filter,
               page_size: 100
             }),
             'queryTasksWithFilters'
@@ -286,6 +289,246 @@ export class TaskService extends NotionBaseService {
     );
   }
 
+  /**
+   * Search tasks with free text and facets, paginated with an opaque cursor
+   * Notion narrows the set (text, member, project, dates), the remaining facets
+   * are applied on the cached result so every facet count covers the full match set
+   */
+  async searchTasks(filters: TaskSearchFilters): Promise<TaskSearchResult> {
+    const limit = Math.min(Math.max(filters.limit || 50, 1), 100);
+    const offset = this.decodeSearchCursor(filters.cursor);
+
+    // Marge de 30 jours comme la vue calendrier, pour les tâches longues qui chevauchent
+    const searchStart = filters.startDate ? new Date(filters.startDate) : undefined;
+    searchStart?.setDate(searchStart.getDate() - 30);
+
+    const notionFilter = this.buildTaskFilter({
+      ...(filters.q && { text: filters.q }),
+      ...(filters.memberId && { assignedTo: filters.memberId }),
+      ...(filters.projectId && { projectId: filters.projectId }),
+      ...(searchStart && { startsOnOrAfter: searchStart }),
+      ...(filters.endDate && { startsOnOrBefore: filters.endDate })
+    });
+
+    // Préfixe tasks:list: pour profiter des invalidations existantes (create/update/webhook)
+    const cacheKey = this.generateCacheKey('tasks', 'list:search', {
+      q: filters.q?.trim().toLowerCase() || '',
+      memberId: filters.memberId || '',
+      projectId: filters.projectId || '',
+      after: searchStart?.toISOString() || '',
+      before: filters.endDate?.toISOString() || ''
+    });
+
+    const candidates = await cacheManagerService.getCachedOrFetch<NotionTask[]>(
+      cacheKey,
+      'tasks',
+      async () => {
+        const tasks: NotionTask[] = [];
+        let cursor: string | undefined = undefined;
+        let hasMore = true;
+
+        while (hasMore) {
+          const queryParams: any = {
+            database_id: DATABASES.traffic,
+            filter: notionFilter,
+            page_size: 100
+          };
+          if (cursor) {
+            queryParams.start_cursor = cursor;
+          }
+
+          const response = await retryWithBackoff(
+            () => this.throttledNotionCall(
+              () => notion.databases.query(queryParams),
+              'searchTasks'
+            )
+          );
+
+          tasks.push(...response.results.map(notionPageToTask));
+          hasMore = response.has_more;
+          cursor = response.next_cursor || undefined;
+        }
+
+        logger.info('Task search query successful', { filters: notionFilter, count: tasks.length });
+        return tasks;
+      }
+    );
+
+    // Le client est porté par le projet
+    const projects = await entityService.getAllProjects();
+    const clientByProject = new Map(projects.map(project => [project.id, project.client]));
+
+    const matches = candidates
+      .filter(task => this.matchesSearchFilters(task, filters, clientByProject))
+      .sort((a, b) => {
+        const aStart = a.workPeriod?.startDate ? new Date(a.workPeriod.startDate).getTime() : Infinity;
+        const bStart = b.workPeriod?.startDate ? new Date(b.workPeriod.startDate).getTime() : Infinity;
+        return aStart - bStart || a.id.localeCompare(b.id);
+      });
+
+    const page = matches.slice(offset, offset + limit);
+    const hasMore = offset + limit < matches.length;
+
+    return {
+      tasks: page,
+      total: matches.length,
+      facets: this.computeSearchFacets(matches, clientByProject),
+      nextCursor: hasMore ? this.encodeSearchCursor(offset + limit) : null,
+      hasMore
+    };
+  }
+
+  /**
+   * Build a Notion database filter for the traffic database
+   */
+  private buildTaskFilter(filters: {
+    text?: string;
+    status?: string;
+    assignedTo?: string;
+    projectId?: string;
+    taskType?: string;
+    clientPlanning?: boolean;
+    startsOnOrAfter?: Date;
+    startsOnOrBefore?: Date;
+  }): any {
+    const conditions: any[] = [];
+
+    if (filters.text) {
+      conditions.push({
+        or: [
+          { property: propertyMappingService.task.title, title: { contains: filters.text } },
+          { property: propertyMappingService.task.notes, rich_text: { contains: filters.text } }
+        ]
+      });
+    }
+
+    if (filters.status) {
+      conditions.push({
+        property: propertyMappingService.task.status,
+        status: { equals: TASK_STATUS_TO_NOTION[filters.status] || filters.status }
+      });
+    }
+
+    if (filters.assignedTo) {
+      conditions.push({
+        property: propertyMappingService.task.assignedMembers,
+        relation: { contains: filters.assignedTo }
+      });
+    }
+
+    if (filters.projectId) {
+      conditions.push({
+        property: propertyMappingService.task.projectId,
+        relation: { contains: filters.projectId }
+      });
+    }
+
+    if (filters.taskType) {
+      conditions.push({
+        property: propertyMappingService.task.taskType,
+        status: { equals: TASK_TYPE_TO_NOTION[filters.taskType] || filters.taskType }
+      });
+    }
+
+    if (filters.clientPlanning !== undefined) {
+      conditions.push({
+        property: propertyMappingService.task.clientPlanning,
+        checkbox: { equals: filters.clientPlanning }
+      });
+    }
+
+    if (filters.startsOnOrAfter || filters.startsOnOrBefore) {
+      conditions.push({
+        property: propertyMappingService.task.workPeriod,
+        date: {
+          ...(filters.startsOnOrAfter && { on_or_after: filters.startsOnOrAfter.toISOString() }),
+          ...(filters.startsOnOrBefore && { on_or_before: filters.startsOnOrBefore.toISOString() })
+        }
+      });
+    }
+
+    return conditions.length > 0 ? { and: conditions } : undefined;
+  }
+
+  private matchesSearchFilters(
+    task: NotionTask,
+    filters: TaskSearchFilters,
+    clientByProject: Map<string, string | null>
+  ): boolean {
+    if (filters.status && mapTaskStatus(task.status) !== filters.status) {
+      return false;
+    }
+    if (filters.taskType && task.taskType !== filters.taskType) {
+      return false;
+    }
+    if (filters.teamId && !task.teams?.includes(filters.teamId)) {
+      return false;
+    }
+    if (filters.clientId && (!task.projectId || clientByProject.get(task.projectId) !== filters.clientId)) {
+      return false;
+    }
+
+    if (filters.startDate || filters.endDate) {
+      if (!task.workPeriod?.startDate) {
+        return false;
+      }
+      const taskStart = new Date(task.workPeriod.startDate);
+      const taskEnd = task.workPeriod.endDate ? new Date(task.workPeriod.endDate) : taskStart;
+      if (filters.startDate && taskEnd < filters.startDate) {
+        return false;
+      }
+      if (filters.endDate && taskStart > filters.endDate) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private computeSearchFacets(
+    tasks: NotionTask[],
+    clientByProject: Map<string, string | null>
+  ): TaskSearchFacets {
+    const facets: TaskSearchFacets = { status: {}, taskType: {}, project: {}, client: {}, team: {}, member: {} };
+    const increment = (facet: Record<string, number>, key: string | null | undefined) => {
+      if (key) {
+        facet[key] = (facet[key] || 0) + 1;
+      }
+    };
+
+    for (const task of tasks) {
+      increment(facets.status, mapTaskStatus(task.status) || task.status);
+      increment(facets.taskType, task.taskType);
+      increment(facets.project, task.projectId);
+      increment(facets.client, task.projectId ? clientByProject.get(task.projectId) : null);
+      task.teams?.forEach(teamId => increment(facets.team, teamId));
+      task.assignedMembers?.forEach(memberId => increment(facets.member, memberId));
+    }
+
+    return facets;
+  }
+
+  private encodeSearchCursor(offset: number): string {
+    return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+  }
+
+  private decodeSearchCursor(cursor?: string): number {
+    if (!cursor) {
+      return 0;
+    }
+
+    try {
+      const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      if (Number.isInteger(offset) && offset >= 0) {
+        return offset;
+      }
+    } catch {
+      // Curseur illisible : traité plus bas
+    }
+
+    throw new Error('Invalid search cursor');
+  }
+
   /**
    * Get all tasks (handles pagination)
    */
@@ -312,6 +555,108 @@ export class TaskService extends NotionBaseService {
       }
     );
   }
+
+  /**
+   * Get every task without a work period (the planning backlog)
+   * Shared by the unplanned list and its dashboard count
+   */
+  async getUnplannedTasks(): Promise<NotionTask[]> {
+    const cacheKey = 'tasks:unplanned:all';
+
+    return await cacheManagerService.getCachedOrFetch<NotionTask[]>(
+      cacheKey,
+      'tasks',
+      async () => {
+        let allTasks: NotionTask[] = [];
+        let cursor: string | undefined = undefined;
+        let hasMore = true;
+
+        while (hasMore) {
+          const queryParams: any = {
+            database_id: DATABASES.traffic,
+            filter: {
+              property: propertyMappingService.task.workPeriod,
+              date: { is_empty: true }
+            },
+            page_size: 100
+          };
+
+          if (cursor) {
+            queryParams.start_cursor = cursor;
+          }
+
+          const response = await retryWithBackoff(
+            () => this.throttledNotionCall(
+              () => notion.databases.query(queryParams),
+              'getUnplannedTasks'
+            ),
+            3,
+            1000,
+            'getUnplannedTasks'
+          );
+
+          allTasks = allTasks.concat(response.results.map(notionPageToTask));
+          hasMore = response.has_more;
+          cursor = response.next_cursor || undefined;
+        }
+
+        logger.info(`Retrieved unplanned tasks: ${allTasks.length} total`);
+        return allTasks;
+      }
+    );
+  }
+
+  /**
+   * Get every task of a project, optionally only those added to the client retroplanning
+   * Cached under tasks:list:* so task mutations invalidate it
+   */
+  async getProjectTasks(projectId: string, options: { clientPlanningOnly?: boolean } = {}): Promise<NotionTask[]> {
+    const clientPlanningOnly = options.clientPlanningOnly ?? false;
+    const cacheKey = this.generateCacheKey('tasks', 'list:project', { projectId, clientPlanningOnly });
+
+    return await cacheManagerService.getCachedOrFetch<NotionTask[]>(
+      cacheKey,
+      'tasks',
+      async () => {
+        const filter = this.buildTaskFilter({
+          projectId,
+          ...(clientPlanningOnly && { clientPlanning: true })
+        });
+        let allTasks: NotionTask[] = [];
+        let cursor: string | undefined = undefined;
+        let hasMore = true;
+
+        while (hasMore) {
+          const queryParams: any = {
+            database_id: DATABASES.traffic,
+            filter,
+            page_size: 100
+          };
+
+          if (cursor) {
+            queryParams.start_cursor = cursor;
+          }
+
+          const response = await retryWithBackoff(
+            () => this.throttledNotionCall(
+              () => notion.databases.query(queryParams),
+              'getProjectTasks'
+            ),
+            3,
+            1000,
+            'getProjectTasks'
+          );
+
+          allTasks = allTasks.concat(response.results.map(notionPageToTask));
+          hasMore = response.has_more;
+          cursor = response.next_cursor || undefined;
+        }
+
+        logger.info('Project tasks retrieved', { projectId, clientPlanningOnly, count: allTasks.length });
+        return allTasks;
+      }
+    );
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,221 @@
+/**
+ * Fiche détaillée d'un projet (vue interne)
+ *
+ * Contrairement au rétroplanning client, toutes les tâches du projet sont
+ * retenues, avec les heures vendues/passées, les membres assignés et les
+ * conflits de planning ouverts. Les relations (client, membres, équipes) sont
+ * résolues depuis le cache via le BatchResolverService.
+ */
+
+import { format } from 'date-fns';
+import notionService from './notion.service';
+import { mapTaskStatus } from '../mappers/notion.mapper';
+import { TaskSchedulingConflictModel, ITaskSchedulingConflict } from '../models/TaskSchedulingConflict.model';
+import { NotionMember, NotionTask, NotionTeam } from '../types/notion.types';
+import { getTaskLastDay } from '../utils/taskDates';
+
+type ProjectTaskStatus = 'not_started' | 'in_progress' | 'completed' | 'unknown';
+
+export interface ProjectTaskSummary {
+  id: string;
+  title: string;
+  startDate: string | null; // YYYY-MM-DD
+  endDate: string | null; // YYYY-MM-DD, inclusif
+  isAllDay: boolean;
+  taskType: NotionTask['taskType'];
+  status: ProjectTaskStatus;
+  assignedMembers: string[];
+  teams: string[];
+  billedHours: number | null;
+  actualHours: number | null;
+  notionUrl: string | null;
+}
+
+export interface ProjectHours {
+  billedHours: number;
+  actualHours: number;
+  remainingHours: number; // vendu - passé, négatif en cas de dépassement
+}
+
+export interface ProjectTeamGroup extends ProjectHours {
+  team: { id: string; name: string } | null; // null : tâches sans équipe
+  tasks: ProjectTaskSummary[];
+}
+
+export interface ProjectDetail {
+  project: { id: string; name: string; status: string };
+  client: { id: string; name: string } | null;
+  startDate: string | null; // Début de la première tâche
+  endDate: string | null; // Fin de la dernière tâche
+  hours: ProjectHours;
+  progress: { total: number; completed: number; ratio: number | null };
+  tasksByStatus: Record<ProjectTaskStatus, ProjectTaskSummary[]>;
+  tasksByTeam: ProjectTeamGroup[];
+  members: { id: string; name: string; email: string; taskCount: number }[];
+  conflicts: {
+    taskId: string;
+    type: ITaskSchedulingConflict['type'];
+    severity: ITaskSchedulingConflict['severity'];
+    status: ITaskSchedulingConflict['status'];
+    message: string;
+    memberId: string;
+    memberName?: string;
+    date?: string;
+  }[];
+}
+
+class ProjectDetailService {
+  /**
+   * Tasks, hours, members and open conflicts of a project
+   * Returns null when the project does not exist
+   */
+  async getProjectDetail(projectId: string): Promise<ProjectDetail | null> {
+    const [project] = await notionService.batchLoadProjects([projectId]);
+
+    if (!project) {
+      return null;
+    }
+
+    const tasks = (await notionService.getProjectTasks(projectId))
+      .map(task => this.toSummary(task))
+      .sort((a, b) => this.compareTasks(a, b));
+
+    const memberIds = Array.from(new Set(tasks.flatMap(task => task.assignedMembers)));
+    const teamIds = Array.from(new Set(tasks.flatMap(task => task.teams)));
+
+    const [clients, members, teams, conflicts] = await Promise.all([
+      project.client ? notionService.batchLoadClients([project.client]) : Promise.resolve([]),
+      memberIds.length > 0 ? notionService.batchLoadMembers(memberIds) : Promise.resolve([]),
+      teamIds.length > 0 ? notionService.batchLoadTeams(teamIds) : Promise.resolve([]),
+      tasks.length > 0 ? TaskSchedulingConflictModel.findActiveForTasks(tasks.map(task => task.id)) : Promise.resolve([])
+    ]);
+
+    const tasksByStatus: Record<ProjectTaskStatus, ProjectTaskSummary[]> = {
+      not_started: [],
+      in_progress: [],
+      completed: [],
+      unknown: []
+    };
+    for (const task of tasks) {
+      tasksByStatus[task.status].push(task);
+    }
+
+    const client = clients[0];
+    const scheduled = tasks.filter(task => task.startDate !== null);
+    const completed = tasksByStatus.completed.length;
+
+    return {
+      project: { id: project.id, name: project.name, status: project.status },
+      client: client ? { id: client.id, name: client.name } : null,
+      startDate: scheduled[0]?.startDate ?? null,
+      endDate: scheduled.reduce<string | null>(
+        (last, task) => (!last || (task.endDate && task.endDate > last) ? task.endDate : last),
+        null
+      ),
+      hours: this.sumHours(tasks),
+      progress: {
+        total: tasks.length,
+        completed,
+        ratio: tasks.length > 0 ? Math.round(completed / tasks.length * 100) / 100 : null
+      },
+      tasksByStatus,
+      tasksByTeam: this.groupByTeam(tasks, teams),
+      members: members
+        .filter((member): member is NotionMember => member !== null)
+        .map(member => ({
+          id: member.id,
+          name: member.name,
+          email: member.email,
+          taskCount: tasks.filter(task => task.assignedMembers.includes(member.id)).length
+        }))
+        .sort((a, b) => b.taskCount - a.taskCount || a.name.localeCompare(b.name, 'fr')),
+      conflicts: conflicts.map(conflict => ({
+        taskId: conflict.taskId,
+        type: conflict.type,
+        severity: conflict.severity,
+        status: conflict.status,
+        message: conflict.message,
+        memberId: conflict.memberId,
+        ...(conflict.memberName && { memberName: conflict.memberName }),
+        ...(conflict.date && { date: conflict.date })
+      }))
+    };
+  }
+
+  private toSummary(task: NotionTask): ProjectTaskSummary {
+    const start = task.workPeriod?.startDate ? new Date(task.workPeriod.startDate) : null;
+    const lastDay = getTaskLastDay(task);
+
+    return {
+      id: task.id,
+      title: task.title,
+      startDate: start ? format(start, 'yyyy-MM-dd') : null,
+      endDate: lastDay ? format(lastDay, 'yyyy-MM-dd') : null,
+      isAllDay: task.isAllDay ?? false,
+      taskType: task.taskType,
+      status: mapTaskStatus(task.status) ?? 'unknown',
+      assignedMembers: task.assignedMembers || [],
+      teams: task.teams || [],
+      billedHours: task.billedHours,
+      actualHours: task.actualHours,
+      notionUrl: task.notionUrl ?? null
+    };
+  }
+
+  /**
+   * One group per team (a task of several teams appears in each), tasks without team last
+   */
+  private groupByTeam(
+    tasks: ProjectTaskSummary[],
+    teams: (NotionTeam | null)[]
+  ): ProjectTeamGroup[] {
+    const teamNames = new Map(
+      teams.filter((team): team is NotionTeam => team !== null).map(team => [team.id, team.name])
+    );
+    const groups = new Map<string | null, ProjectTaskSummary[]>();
+
+    for (const task of tasks) {
+      for (const teamId of task.teams.length > 0 ? task.teams : [null]) {
+        groups.set(teamId, [...(groups.get(teamId) || []), task]);
+      }
+    }
+
+    return Array.from(groups.entries())
+      .map(([teamId, groupTasks]) => ({
+        team: teamId ? { id: teamId, name: teamNames.get(teamId) || teamId } : null,
+        tasks: groupTasks,
+        ...this.sumHours(groupTasks)
+      }))
+      .sort((a, b) => {
+        if (!a.team) return 1;
+        if (!b.team) return -1;
+        return a.team.name.localeCompare(b.team.name, 'fr');
+      });
+  }
+
+  private sumHours(tasks: ProjectTaskSummary[]): ProjectHours {
+    const billedHours = tasks.reduce((sum, task) => sum + (task.billedHours ?? 0), 0);
+    const actualHours = tasks.reduce((sum, task) => sum + (task.actualHours ?? 0), 0);
+
+    return {
+      billedHours: Math.round(billedHours * 100) / 100,
+      actualHours: Math.round(actualHours * 100) / 100,
+      remainingHours: Math.round((billedHours - actualHours) * 100) / 100
+    };
+  }
+
+  /**
+   * Chronological order; undated tasks go last
+   */
+  private compareTasks(a: ProjectTaskSummary, b: ProjectTaskSummary): number {
+    if (a.startDate !== b.startDate) {
+      if (!a.startDate) return 1;
+      if (!b.startDate) return -1;
+      return a.startDate < b.startDate ? -1 : 1;
+    }
+
+    return a.title.localeCompare(b.title, 'fr');
+  }
+}
+
+export const projectDetailService = new ProjectDetailService();
@@ -11,6 +11,10 @@ interface IRedisClient {
   ping(): Promise<string>;
   flushdb(): Promise<any>;
   ttl(key: string): Promise<number>;
+  hset(key: string, values: Record<string, string>): Promise<number>;
+  hdel(key: string, ...fields: string[]): Promise<number>;
+  hgetall(key: string): Promise<Record<string, unknown> | null>;
+  expire(key: string, seconds: number, option?: 'NX'): Promise<number>;
 }
 
 interface RedisConfig {
@@ -307,6 +311,79 @@ export class RedisService {
     }
   }
 
+  /**
+   * Set hash fields (HSET), each value being serialized on its own.
+   * The TTL is only applied when the key has none: writing a field does not extend the hash lifetime.
+   */
+  async hashSet(key: string, fields: Record<string, any>, entityType?: string): Promise<void> {
+    try {
+      if (!this.isConnected || Object.keys(fields).length === 0) {
+        return;
+      }
+
+      const values: Record<string, string> = {};
+      for (const [field, value] of Object.entries(fields)) {
+        values[field] = JSON.stringify(value);
+      }
+
+      const ttl = this.getTTLForEntity(entityType || key.split(':')[0] || 'default');
+      await this.redis.hset(key, values);
+      await this.redis.expire(key, ttl, 'NX');
+      logger.debug(`Hash fields set for key: ${key} (${Object.keys(values).length})`);
+    } catch (error) {
+      logger.error('Redis hset error:', error);
+    }
+  }
+
+  /**
+   * Delete hash fields (HDEL)
+   */
+  async hashDelete(key: string, ...fields: string[]): Promise<void> {
+    try {
+      if (!this.isConnected || fields.length === 0) {
+        return;
+      }
+
+      await this.redis.hdel(key, ...fields);
+    } catch (error) {
+      logger.error('Redis hdel error:', error);
+    }
+  }
+
+  /**
+   * Get all fields of a hash (HGETALL), null when the key does not exist
+   */
+  async hashGetAll<T>(key: string): Promise<Record<string, T> | null> {
+    try {
+      if (!this.isConnected) {
+        return null;
+      }
+
+      const hash = await this.redis.hgetall(key);
+      if (!hash || Object.keys(hash).length === 0) {
+        return null;
+      }
+
+      // Le client Upstash désérialise déjà le JSON, les chaînes restantes sont parsées ici
+      const result: Record<string, T> = {};
+      for (const [field, value] of Object.entries(hash)) {
+        if (typeof value === 'string') {
+          try {
+            result[field] = JSON.parse(value) as T;
+          } catch {
+            result[field] = value as T;
+          }
+        } else {
+          result[field] = value as T;
+        }
+      }
+      return result;
+    } catch (error) {
+      logger.error('Redis hgetall error:', error);
+      return null;
+    }
+  }
+
   /**
    * Health check for Redis connection
    */
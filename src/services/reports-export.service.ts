@@ -0,0 +1,85 @@
+/**
+ * Export des rapports d'heures (CSV, XLSX)
+ */
+
+import ExcelJS from 'exceljs';
+import { HoursReport, HoursFigures } from './reports.service';
+
+const GROUP_LABELS: Record<HoursReport['groupBy'], string> = {
+  project: 'Projet',
+  client: 'Client',
+  team: 'Équipe',
+  member: 'Membre',
+};
+
+const FIGURE_COLUMNS: { key: keyof HoursFigures; header: string }[] = [
+  { key: 'taskCount', header: 'Tâches' },
+  { key: 'completedTasks', header: 'Tâches terminées' },
+  { key: 'billedHours', header: 'Heures vendues' },
+  { key: 'actualHours', header: 'Heures passées' },
+  { key: 'variance', header: 'Écart (h)' },
+  { key: 'completionRatio', header: 'Avancement' },
+];
+
+// Un texte commençant par ces caractères serait interprété comme une formule par le tableur
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+class ReportsExportService {
+  /**
+   * Export an hours report as CSV (UTF-8 with BOM so Excel keeps the accents)
+   * Les noms pouvant déclencher une formule sont préfixés d'une apostrophe
+   */
+  hoursReportToCsv(report: HoursReport): string {
+    const escape = (value: string | number | null) => {
+      let text = value === null ? '' : String(value);
+      if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+        text = `'${text}`;
+      }
+      return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const lines = [
+      [GROUP_LABELS[report.groupBy], ...FIGURE_COLUMNS.map(column => column.header)],
+      ...report.rows.map(row => [row.name, ...FIGURE_COLUMNS.map(column => row[column.key])]),
+      ['Total', ...FIGURE_COLUMNS.map(column => report.totals[column.key])],
+    ];
+
+    return '\uFEFF' + lines.map(line => line.map(escape).join(',')).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Export an hours report as an XLSX workbook
+   */
+  async hoursReportToXlsx(report: HoursReport): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+    workbook.created = new Date();
+
+    const sheet = workbook.addWorksheet('Heures');
+    sheet.columns = [
+      { header: GROUP_LABELS[report.groupBy], key: 'name', width: 36 },
+      ...FIGURE_COLUMNS.map(column => ({ header: column.header, key: column.key, width: 16 })),
+    ];
+    sheet.getRow(1).font = { bold: true };
+    sheet.views = [{ state: 'frozen', ySplit: 1 }];
+
+    for (const row of report.rows) {
+      sheet.addRow({ ...row });
+    }
+
+    const totalRow = sheet.addRow({ name: 'Total', ...report.totals });
+    totalRow.font = { bold: true };
+
+    for (const key of ['billedHours', 'actualHours', 'variance']) {
+      sheet.getColumn(key).numFmt = '0.00';
+    }
+    sheet.getColumn('completionRatio').numFmt = '0%';
+
+    // Période rappelée sous le tableau
+    sheet.addRow([]);
+    sheet.addRow([`Période du ${report.startDate} au ${report.endDate}`]);
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+}
+
+export const reportsExportService = new ReportsExportService();
@@ -0,0 +1,152 @@
+/**
+ * Rapports d'heures vendues / passées
+ *
+ * Agrège billedHours et actualHours des tâches Notion par projet, client,
+ * équipe ou membre sur une période. Une tâche est rattachée à la période de
+ * son jour de début, pour qu'elle ne soit comptée que dans un seul rapport
+ * mensuel. Congés, formations et télétravail ne portent pas d'heures.
+ */
+
+import { format, parseISO, endOfDay } from 'date-fns';
+import notionService from './notion.service';
+import { entityService } from './notion/entity.service';
+import { mapTaskStatus } from '../mappers/notion.mapper';
+import { NotionTask } from '../types/notion.types';
+
+export type HoursReportGroupBy = 'project' | 'client' | 'team' | 'member';
+
+export interface HoursReportFilters {
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  groupBy: HoursReportGroupBy;
+  projectId?: string;
+  clientId?: string;
+  teamId?: string;
+  memberId?: string;
+}
+
+export interface HoursFigures {
+  taskCount: number;
+  completedTasks: number;
+  billedHours: number;
+  actualHours: number;
+  variance: number; // passé - vendu, positif = dépassement
+  completionRatio: number | null; // tâches terminées / tâches
+}
+
+export interface HoursReportRow extends HoursFigures {
+  key: string | null; // null = tâches sans projet / client / équipe / membre
+  name: string;
+}
+
+export interface HoursReport {
+  groupBy: HoursReportGroupBy;
+  startDate: string;
+  endDate: string;
+  rows: HoursReportRow[];
+  totals: HoursFigures; // Sur les tâches distinctes (une tâche multi-équipes n'est comptée qu'une fois)
+}
+
+const UNASSIGNED_LABELS: Record<HoursReportGroupBy, string> = {
+  project: 'Sans projet',
+  client: 'Sans client',
+  team: 'Sans équipe',
+  member: 'Non assigné',
+};
+
+class ReportsService {
+  /**
+   * Billed vs actual hours grouped by project, client, team or member
+   */
+  async getHoursReport(filters: HoursReportFilters): Promise<HoursReport> {
+    const [tasks, projects, clients, teams, members] = await Promise.all([
+      notionService.getTasksForCalendarView(
+        parseISO(filters.startDate),
+        endOfDay(parseISO(filters.endDate)),
+        { originalStartDate: filters.startDate, originalEndDate: filters.endDate }
+      ),
+      entityService.getAllProjects(),
+      entityService.getAllClients(),
+      entityService.getAllTeams(),
+      entityService.getAllMembers(),
+    ]);
+
+    const clientByProject = new Map(projects.map(project => [project.id, project.client]));
+    const names = new Map<string, string>([
+      ...projects.map(project => [project.id, project.name] as [string, string]),
+      ...clients.map(client => [client.id, client.name] as [string, string]),
+      ...teams.map(team => [team.id, team.name] as [string, string]),
+      ...members.map(member => [member.id, member.name] as [string, string]),
+    ]);
+
+    const keysOf = (task: NotionTask): (string | null)[] => {
+      switch (filters.groupBy) {
+        case 'project':
+          return [task.projectId];
+        case 'client':
+          return [task.projectId ? clientByProject.get(task.projectId) ?? null : null];
+        case 'team':
+          return task.teams?.length ? task.teams : [null];
+        case 'member':
+          return task.assignedMembers?.length ? task.assignedMembers : [null];
+      }
+    };
+
+    const reportTasks = tasks.filter(task => {
+      if (task.taskType && task.taskType !== 'task') {
+        return false;
+      }
+
+      const startDay = task.workPeriod?.startDate ? format(new Date(task.workPeriod.startDate), 'yyyy-MM-dd') : null;
+      if (!startDay || startDay < filters.startDate || startDay > filters.endDate) {
+        return false;
+      }
+
+      return (!filters.projectId || task.projectId === filters.projectId) &&
+        (!filters.clientId || (task.projectId !== null && clientByProject.get(task.projectId) === filters.clientId)) &&
+        (!filters.teamId || task.teams?.includes(filters.teamId)) &&
+        (!filters.memberId || task.assignedMembers?.includes(filters.memberId));
+    });
+
+    const groups = new Map<string | null, NotionTask[]>();
+    for (const task of reportTasks) {
+      for (const key of keysOf(task)) {
+        groups.set(key, [...(groups.get(key) || []), task]);
+      }
+    }
+
+    const rows: HoursReportRow[] = Array.from(groups.entries())
+      .map(([key, groupTasks]) => ({
+        key,
+        name: key ? names.get(key) || key : UNASSIGNED_LABELS[filters.groupBy],
+        ...this.computeFigures(groupTasks)
+      }))
+      .sort((a, b) => b.billedHours - a.billedHours || a.name.localeCompare(b.name, 'fr'));
+
+    return {
+      groupBy: filters.groupBy,
+      startDate: filters.startDate,
+      endDate: filters.endDate,
+      rows,
+      totals: this.computeFigures(reportTasks)
+    };
+  }
+
+  private computeFigures(tasks: NotionTask[]): HoursFigures {
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const billedHours = tasks.reduce((sum, task) => sum + (task.billedHours || 0), 0);
+    const actualHours = tasks.reduce((sum, task) => sum + (task.actualHours || 0), 0);
+    const completedTasks = tasks.filter(task => mapTaskStatus(task.status) === 'completed').length;
+
+    return {
+      taskCount: tasks.length,
+      completedTasks,
+      billedHours: round(billedHours),
+      actualHours: round(actualHours),
+      variance: round(actualHours - billedHours),
+      completionRatio: tasks.length > 0 ? round(completedTasks / tasks.length) : null
+    };
+  }
+}
+
+export const reportsService = new ReportsService();
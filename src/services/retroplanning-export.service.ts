@@ -0,0 +1,112 @@
+/**
+ * Export du rétroplanning client en document HTML autonome
+ *
+ * Styles intégrés, sans ressource externe : le fichier peut être envoyé tel
+ * quel au client et s'imprime proprement en PDF depuis le navigateur.
+ */
+
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { ProjectRetroplanning, RetroplanningMilestone } from './retroplanning.service';
+
+const STATUS_LABELS: Record<NonNullable<RetroplanningMilestone['status']>, string> = {
+  not_started: 'À venir',
+  in_progress: 'En cours',
+  completed: 'Terminé',
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatDay = (day: string | null): string =>
+  day ? format(parseISO(day), 'd MMM yyyy', { locale: fr }) : 'À planifier';
+
+const STYLES = `
+  body { font-family: -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; color: #1f2933; margin: 32px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  .subtitle { color: #616e7c; margin: 0 0 24px; }
+  .summary { display: flex; gap: 32px; margin-bottom: 24px; font-size: 14px; }
+  .summary strong { display: block; font-size: 18px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { text-align: left; padding: 8px; border-bottom: 1px solid #e4e7eb; vertical-align: middle; }
+  th { background: #f5f7fa; font-weight: 600; }
+  .timeline { position: relative; height: 10px; background: #f0f4f8; border-radius: 5px; min-width: 160px; }
+  .timeline span { position: absolute; top: 0; bottom: 0; border-radius: 5px; background: #3e7bfa; min-width: 4px; }
+  .status { display: inline-block; padding: 2px 8px; border-radius: 10px; font-size: 12px; white-space: nowrap; }
+  .status-not_started { background: #e4e7eb; }
+  .status-in_progress { background: #fff3c4; }
+  .status-completed { background: #d1f7c4; }
+  .overdue { color: #cf1124; }
+  footer { margin-top: 24px; color: #9aa5b1; font-size: 11px; }
+  @media print { body { margin: 12mm; } tr { page-break-inside: avoid; } }
+`;
+
+class RetroplanningExportService {
+  /**
+   * Render a project retroplanning as a standalone HTML document
+   */
+  toHtml(retroplanning: ProjectRetroplanning): string {
+    const { project, client, milestones, progress } = retroplanning;
+    const title = `Rétroplanning — ${project.name}`;
+
+    const rows = milestones.map(milestone => `
+      <tr>
+        <td>${escapeHtml(milestone.title)}</td>
+        <td>${escapeHtml(milestone.teams.map(team => team.name).join(', ') || '—')}</td>
+        <td>${formatDay(milestone.startDate)}</td>
+        <td${milestone.overdue ? ' class="overdue"' : ''}>${milestone.startDate ? formatDay(milestone.endDate) : '—'}</td>
+        <td>${this.renderBar(milestone, retroplanning)}</td>
+        <td>${milestone.status ? `<span class="status status-${milestone.status}">${STATUS_LABELS[milestone.status]}</span>` : '—'}</td>
+      </tr>`).join('');
+
+    return `<!DOCTYPE html>
+<html lang="fr">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>${STYLES}</style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <p class="subtitle">${client ? `${escapeHtml(client.name)} · ` : ''}${retroplanning.startDate ? `du ${formatDay(retroplanning.startDate)} au ${formatDay(retroplanning.endDate)}` : 'Dates à planifier'}</p>
+  <div class="summary">
+    <div><strong>${progress.total}</strong>étapes</div>
+    <div><strong>${progress.completed}</strong>terminées</div>
+    <div><strong>${progress.ratio === null ? '—' : `${Math.round(progress.ratio * 100)} %`}</strong>d'avancement</div>
+  </div>
+  <table>
+    <thead>
+      <tr><th>Étape</th><th>Équipe</th><th>Début</th><th>Fin</th><th>Calendrier</th><th>Statut</th></tr>
+    </thead>
+    <tbody>${rows || '\n      <tr><td colspan="6">Aucune étape au rétroplanning.</td></tr>'}
+    </tbody>
+  </table>
+  <footer>Document généré le ${format(new Date(retroplanning.generatedAt), "d MMMM yyyy 'à' HH:mm", { locale: fr })}</footer>
+</body>
+</html>
+`;
+  }
+
+  /**
+   * Position of a milestone on the project period, as a horizontal bar
+   */
+  private renderBar(milestone: RetroplanningMilestone, retroplanning: ProjectRetroplanning): string {
+    if (!milestone.startDate || !milestone.endDate || !retroplanning.startDate || !retroplanning.endDate) {
+      return '';
+    }
+
+    const projectStart = parseISO(retroplanning.startDate);
+    const totalDays = differenceInCalendarDays(parseISO(retroplanning.endDate), projectStart) + 1;
+    const offset = differenceInCalendarDays(parseISO(milestone.startDate), projectStart) / totalDays * 100;
+    const width = (differenceInCalendarDays(parseISO(milestone.endDate), parseISO(milestone.startDate)) + 1) / totalDays * 100;
+
+    return `<div class="timeline"><span style="left: ${offset.toFixed(1)}%; width: ${width.toFixed(1)}%"></span></div>`;
+  }
+}
+
+export const retroplanningExportService = new RetroplanningExportService();
@@ -0,0 +1,123 @@
+/**
+ * Rétroplanning client d'un projet
+ *
+ * Ne retient que les tâches cochées « Ajouter au rétroplanning client » et les
+ * présente comme une suite de jalons ordonnés (dates, équipes, avancement),
+ * sans les informations internes (notes, heures, membres assignés).
+ */
+
+import { format } from 'date-fns';
+import notionService from './notion.service';
+import { entityService } from './notion/entity.service';
+import { mapTaskStatus } from '../mappers/notion.mapper';
+import { NotionTask } from '../types/notion.types';
+import { getTaskLastDay } from '../utils/taskDates';
+
+export interface RetroplanningMilestone {
+  id: string;
+  title: string;
+  startDate: string | null; // YYYY-MM-DD
+  endDate: string | null; // YYYY-MM-DD, inclusif
+  isAllDay: boolean;
+  status: 'not_started' | 'in_progress' | 'completed' | null;
+  overdue: boolean; // Échéance passée sans être terminée
+  teams: { id: string; name: string }[];
+}
+
+export interface ProjectRetroplanning {
+  project: { id: string; name: string; status: string };
+  client: { id: string; name: string } | null;
+  startDate: string | null;
+  endDate: string | null;
+  milestones: RetroplanningMilestone[];
+  progress: { total: number; completed: number; ratio: number | null };
+  generatedAt: string;
+}
+
+class RetroplanningService {
+  /**
+   * Client-facing timeline of a project
+   * Returns null when the project does not exist
+   */
+  async getProjectRetroplanning(projectId: string): Promise<ProjectRetroplanning | null> {
+    const projects = await entityService.getAllProjects();
+    const project = projects.find(p => p.id === projectId);
+
+    if (!project) {
+      return null;
+    }
+
+    const [tasks, clients, teams] = await Promise.all([
+      notionService.getProjectTasks(projectId, { clientPlanningOnly: true }),
+      entityService.getAllClients(),
+      entityService.getAllTeams()
+    ]);
+
+    const client = project.client ? clients.find(c => c.id === project.client) : undefined;
+    const teamNames = new Map(teams.map(team => [team.id, team.name]));
+    const today = format(new Date(), 'yyyy-MM-dd');
+
+    const milestones = tasks
+      // Le filtre Notion suffit, mais le cache peut contenir une tâche décochée entre-temps
+      .filter(task => task.clientPlanning !== false)
+      .map(task => this.toMilestone(task, teamNames, today))
+      .sort((a, b) => this.compareMilestones(a, b));
+
+    const scheduled = milestones.filter(milestone => milestone.startDate !== null);
+    const completed = milestones.filter(milestone => milestone.status === 'completed').length;
+
+    return {
+      project: { id: project.id, name: project.name, status: project.status },
+      client: client ? { id: client.id, name: client.name } : null,
+      startDate: scheduled[0]?.startDate ?? null,
+      endDate: scheduled.reduce<string | null>(
+        (last, milestone) => !last || milestone.endDate! > last ? milestone.endDate : last,
+        null
+      ),
+      milestones,
+      progress: {
+        total: milestones.length,
+        completed,
+        ratio: milestones.length > 0 ? Math.round(completed / milestones.length * 100) / 100 : null
+      },
+      generatedAt: new Date().toISOString()
+    };
+  }
+
+  private toMilestone(task: NotionTask, teamNames: Map<string, string>, today: string): RetroplanningMilestone {
+    const start = task.workPeriod?.startDate ? new Date(task.workPeriod.startDate) : null;
+    const lastDay = getTaskLastDay(task);
+    const status = mapTaskStatus(task.status);
+    const endDate = lastDay ? format(lastDay, 'yyyy-MM-dd') : null;
+
+    return {
+      id: task.id,
+      title: task.title,
+      startDate: start ? format(start, 'yyyy-MM-dd') : null,
+      endDate,
+      isAllDay: task.isAllDay ?? false,
+      status,
+      overdue: endDate !== null && endDate < today && status !== 'completed',
+      teams: (task.teams || []).map(id => ({ id, name: teamNames.get(id) || id }))
+    };
+  }
+
+  /**
+   * Chronological order; undated milestones go last
+   */
+  private compareMilestones(a: RetroplanningMilestone, b: RetroplanningMilestone): number {
+    if (a.startDate !== b.startDate) {
+      if (!a.startDate) return 1;
+      if (!b.startDate) return -1;
+      return a.startDate < b.startDate ? -1 : 1;
+    }
+
+    if (a.endDate !== b.endDate && a.endDate && b.endDate) {
+      return a.endDate < b.endDate ? -1 : 1;
+    }
+
+    return a.title.localeCompare(b.title, 'fr');
+  }
+}
+
+export const retroplanningService = new RetroplanningService();
@@ -1,24 +1,33 @@
 /**
  * Service de synchronisation asynchrone avec Notion
  * 
- * Pattern : Queue en mémoire avec retry automatique
+ * Pattern : Queue persistée dans MongoDB avec retry automatique
  * - Updates Redis immédiatement (< 100ms)
  * - Sync Notion en background
  * - Retry avec backoff exponentiel
- * - Notification en cas d'échec définitif
+ * - Dead-letter en cas d'échec définitif, rejouable par un admin
+ * - Reprise des items en attente au démarrage
+ * - IDs temporaires résolus vers l'ID Notion après création
+ * - Tâches, projets, clients et équipes
  */
 
 import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
 import logger from '../config/logger.config';
 import notionService from './notion.service';
 import { redisService } from './redis.service';
 import { UpdateTaskInput, CreateTaskInput } from '../types/notion.types';
 import { latencyMetricsService } from './latency-metrics.service';
+import { SyncQueueItemModel, SyncQueueEntityType } from '../models/SyncQueueItem.model';
+import { SyncDeadLetterModel } from '../models/SyncDeadLetter.model';
+import { tempIdRegistryService } from './temp-id-registry.service';
+import { WritableEntityType } from './notion/entity.service';
 
 interface QueueItem {
+  queueId: string;
   id: string;
   type: 'create' | 'update' | 'delete';
-  entityType: 'task' | 'project' | 'member';
+  entityType: SyncQueueEntityType;
   data: any;
   attempts: number;
   maxRetries: number;
@@ -27,8 +36,35 @@ interface QueueItem {
   error?: string;
 }
 
+/**
+ * Notion operations of the entities synced like tasks (projects, clients, teams)
+ */
+const ENTITY_SYNC: Record<WritableEntityType, {
+  create: (data: any) => Promise<{ id: string }>;
+  update: (id: string, data: any) => Promise<unknown>;
+  archive: (id: string) => Promise<void>;
+}> = {
+  project: {
+    create: data => notionService.createProject(data),
+    update: (id, data) => notionService.updateProject(id, data),
+    archive: id => notionService.archiveProject(id)
+  },
+  client: {
+    create: data => notionService.createClient(data),
+    update: (id, data) => notionService.updateClient(id, data),
+    archive: id => notionService.archiveClient(id)
+  },
+  team: {
+    create: data => notionService.createTeam(data),
+    update: (id, data) => notionService.updateTeam(id, data),
+    archive: id => notionService.archiveTeam(id)
+  }
+};
+
 class SyncQueueService extends EventEmitter {
   private queue: QueueItem[] = [];
+  // Items sortis de la file en attendant leur retry (backoff), par entité
+  private retrying = new Map<string, { item: QueueItem; timer: NodeJS.Timeout }>();
   private processing: boolean = false;
   private readonly MAX_QUEUE_SIZE = parseInt(process.env.SYNC_QUEUE_MAX_SIZE || '100');
   private readonly RATE_LIMIT_DELAY = parseInt(process.env.SYNC_RATE_LIMIT_DELAY || '350'); // ~3 req/sec for Notion
@@ -40,6 +76,7 @@ class SyncQueueService extends EventEmitter {
     processed: 0,
     failed: 0,
     retries: 0,
+    coalesced: 0,
     avgProcessingTime: 0
   };
 
@@ -61,9 +98,11 @@ class SyncQueueService extends EventEmitter {
       { ...taskData, id: tempId, _temporary: true },
       'task'
     );
+    await tempIdRegistryService.register(tempId);
 
     // Add to sync queue
-    const queued = this.addToQueue({
+    const queued = await this.addToQueue({
+      queueId: randomUUID(),
       id: tempId,
       type: 'create',
       entityType: 'task',
@@ -80,6 +119,9 @@ class SyncQueueService extends EventEmitter {
    * Add a task update to the queue
    */
   async queueTaskUpdate(taskId: string, updateData: UpdateTaskInput): Promise<boolean> {
+    // Un ID temporaire déjà synchronisé cible directement la page Notion
+    taskId = await tempIdRegistryService.resolveId(taskId);
+
     // Update Redis immediately
     const cachedTask = await redisService.get(`task:${taskId}`);
     if (cachedTask) {
@@ -92,6 +134,7 @@ class SyncQueueService extends EventEmitter {
 
     // Add to sync queue
     return this.addToQueue({
+      queueId: randomUUID(),
       id: taskId,
       type: 'update',
       entityType: 'task',
@@ -106,6 +149,8 @@ class SyncQueueService extends EventEmitter {
    * Add a task deletion to the queue
    */
   async queueTaskDelete(taskId: string): Promise<boolean> {
+    taskId = await tempIdRegistryService.resolveId(taskId);
+
     // Mark as deleted in Redis
     const cachedTask = await redisService.get(`task:${taskId}`);
     if (cachedTask) {
@@ -118,6 +163,7 @@ class SyncQueueService extends EventEmitter {
 
     // Add to sync queue
     return this.addToQueue({
+      queueId: randomUUID(),
       id: taskId,
       type: 'delete',
       entityType: 'task',
@@ -129,29 +175,104 @@ class SyncQueueService extends EventEmitter {
   }
 
   /**
-   * Add item to queue with overflow protection
+   * Add a project, client or team creation to the queue
+   */
+  async queueEntityCreate(entityType: WritableEntityType, data: any): Promise<{ id: string; queued: boolean }> {
+    const tempId = this.generateTempId();
+
+    await redisService.set(
+      `${entityType}:${tempId}`,
+      { ...data, id: tempId, _temporary: true },
+      entityType
+    );
+    await tempIdRegistryService.register(tempId, entityType);
+
+    const queued = await this.addToQueue({
+      queueId: randomUUID(),
+      id: tempId,
+      type: 'create',
+      entityType,
+      data,
+      attempts: 0,
+      maxRetries: this.MAX_RETRIES,
+      createdAt: new Date()
+    });
+
+    return { id: tempId, queued };
+  }
+
+  /**
+   * Add a project, client or team update to the queue
+   */
+  async queueEntityUpdate(entityType: WritableEntityType, entityId: string, updateData: any): Promise<boolean> {
+    entityId = await tempIdRegistryService.resolveId(entityId);
+
+    const cached = await redisService.get(`${entityType}:${entityId}`);
+    if (cached) {
+      await redisService.set(
+        `${entityType}:${entityId}`,
+        { ...cached, ...updateData, _pendingSync: true },
+        entityType
+      );
+    }
+
+    return this.addToQueue({
+      queueId: randomUUID(),
+      id: entityId,
+      type: 'update',
+      entityType,
+      data: updateData,
+      attempts: 0,
+      maxRetries: this.MAX_RETRIES,
+      createdAt: new Date()
+    });
+  }
+
+  /**
+   * Add a project, client or team archive to the queue
+   */
+  async queueEntityArchive(entityType: WritableEntityType, entityId: string): Promise<boolean> {
+    entityId = await tempIdRegistryService.resolveId(entityId);
+
+    await redisService.del(`${entityType}:${entityId}`);
+
+    return this.addToQueue({
+      queueId: randomUUID(),
+      id: entityId,
+      type: 'delete',
+      entityType,
+      data: {},
+      attempts: 0,
+      maxRetries: this.MAX_RETRIES,
+      createdAt: new Date()
+    });
+  }
+
+  /**
+   * Add item to queue, persisting it before it is processed
    */
-  private addToQueue(item: QueueItem): boolean {
+  private async addToQueue(item: QueueItem): Promise<boolean> {
+    // Fusionner avec les opérations encore en attente pour la même entité
+    if (await this.coalesce(item)) {
+      return true;
+    }
+
     if (this.queue.length >= this.MAX_QUEUE_SIZE) {
-      logger.warn('Sync queue is full, dropping oldest items', {
+      // Les items sont persistés : on ne jette plus rien, on signale juste la saturation
+      logger.warn('Sync queue is above its size threshold', {
         queueSize: this.queue.length,
         maxSize: this.MAX_QUEUE_SIZE
       });
-      
-      // Remove oldest 10% to make room
-      const toRemove = Math.ceil(this.MAX_QUEUE_SIZE * 0.1);
-      const removed = this.queue.splice(0, toRemove);
-      
-      // Emit event for dropped items
-      removed.forEach(droppedItem => {
-        this.emit('item:dropped', droppedItem);
-      });
+      this.emit('queue:overflow', { queueSize: this.queue.length });
     }
 
+    await this.persistItem(item);
+
     this.queue.push(item);
     this.metrics.queued++;
     
     logger.debug('Item added to sync queue', {
+      queueId: item.queueId,
       type: item.type,
       entityType: item.entityType,
       id: item.id,
@@ -166,6 +287,128 @@ class SyncQueueService extends EventEmitter {
     return true;
   }
 
+  /**
+   * Merge an incoming operation with pending ones for the same entity.
+   * Returns true when the incoming item has been absorbed and must not be queued.
+   * Items waiting in the queue or for their retry are considered (not the one being sent).
+   */
+  private async coalesce(item: QueueItem): Promise<boolean> {
+    const retrying = this.retrying.get(this.entityKey(item))?.item;
+    const pending = [
+      ...(retrying ? [retrying] : []),
+      ...this.queue.filter(queued => queued.id === item.id && queued.entityType === item.entityType)
+    ];
+    if (pending.length === 0) {
+      return false;
+    }
+
+    if (item.type === 'update') {
+      // La dernière opération en attente (create ou update) absorbe les nouveaux champs
+      const target = [...pending].reverse().find(queued => queued.type !== 'delete');
+      if (!target) {
+        return false;
+      }
+
+      target.data = this.mergeUpdateData(target.data, item.data);
+      this.metrics.coalesced++;
+      await this.persistItem(target);
+
+      logger.debug('Sync queue update coalesced', {
+        id: item.id,
+        into: target.queueId,
+        targetType: target.type
+      });
+      return true;
+    }
+
+    if (item.type === 'delete') {
+      // Les updates en attente deviennent inutiles
+      const obsolete = pending.filter(queued => queued.type !== 'delete');
+      const pendingCreate = obsolete.find(queued => queued.type === 'create');
+
+      if (obsolete.length > 0) {
+        this.queue = this.queue.filter(queued => !obsolete.includes(queued));
+        if (retrying && obsolete.includes(retrying)) {
+          this.cancelRetry(retrying);
+        }
+        await Promise.all(obsolete.map(queued => this.removePersistedItem(queued)));
+        this.metrics.coalesced += obsolete.length;
+      }
+
+      if (pendingCreate) {
+        // create + delete : rien à envoyer à Notion
+        this.metrics.coalesced++;
+        await redisService.del(`${item.entityType}:${item.id}`);
+        await tempIdRegistryService.markCancelled(item.id);
+
+        logger.info('Pending create cancelled by delete before sync', {
+          id: item.id,
+          cancelledOperations: obsolete.length + 1
+        });
+        this.emit('item:cancelled', { id: item.id, cancelled: obsolete.length + 1 });
+        return true;
+      }
+
+      // Un delete déjà en attente suffit
+      return pending.some(queued => queued.type === 'delete');
+    }
+
+    return false;
+  }
+
+  /**
+   * Merge two update payloads, the latest values winning (workPeriod merged field by field)
+   */
+  private mergeUpdateData(current: any, incoming: any): any {
+    const merged = { ...current, ...incoming };
+    if (current?.workPeriod && incoming?.workPeriod) {
+      merged.workPeriod = { ...current.workPeriod, ...incoming.workPeriod };
+    }
+    return merged;
+  }
+
+  /**
+   * Reload pending items persisted before a restart
+   */
+  async recover(): Promise<number> {
+    try {
+      const persisted = await SyncQueueItemModel.find().sort({ queuedAt: 1 }).lean();
+      const known = new Set([
+        ...this.queue.map(item => item.queueId),
+        ...[...this.retrying.values()].map(({ item }) => item.queueId)
+      ]);
+      let recovered = 0;
+
+      for (const doc of persisted) {
+        if (known.has(doc.queueId)) continue;
+
+        this.queue.push({
+          queueId: doc.queueId,
+          id: doc.entityId,
+          type: doc.type,
+          entityType: doc.entityType,
+          data: doc.data,
+          attempts: doc.attempts,
+          maxRetries: doc.maxRetries,
+          createdAt: doc.queuedAt,
+          ...(doc.lastAttempt && { lastAttempt: doc.lastAttempt }),
+          ...(doc.error && { error: doc.error })
+        });
+        recovered++;
+      }
+
+      if (recovered > 0) {
+        logger.info(`Recovered ${recovered} pending items into sync queue`);
+        this.startProcessing();
+      }
+
+      return recovered;
+    } catch (error) {
+      logger.error('Failed to recover persisted sync queue items', { error });
+      return 0;
+    }
+  }
+
   /**
    * Start processing queue items
    */
@@ -193,6 +436,31 @@ class SyncQueueService extends EventEmitter {
    * Process a single queue item
    */
   private async processItem(item: QueueItem) {
+    // Une opération plus ancienne sur la même entité attend son retry : on garde l'ordre
+    const retrying = this.retrying.get(this.entityKey(item));
+    if (retrying && retrying.item !== item) {
+      this.queue.push(item);
+      return;
+    }
+
+    // Les opérations sur un ID temporaire attendent la création de la page
+    if (item.type !== 'create' && tempIdRegistryService.isTempId(item.id)) {
+      const resolution = await tempIdRegistryService.resolve(item.id);
+
+      if (resolution?.notionId) {
+        item.id = resolution.notionId;
+        await this.persistItem(item);
+      } else if (!resolution || resolution.status === 'pending') {
+        this.queue.push(item);
+        return;
+      } else if (resolution.status === 'cancelled') {
+        // La tâche n'a jamais existé dans Notion
+        await this.removePersistedItem(item);
+        return;
+      }
+      // failed : Notion rejettera l'ID, l'item finira en dead-letter
+    }
+
     const startTime = Date.now();
     item.attempts++;
     item.lastAttempt = new Date();
@@ -215,6 +483,8 @@ class SyncQueueService extends EventEmitter {
             // Replace temp ID with real Notion ID in Redis
             await redisService.del(`task:${item.id}`);
             await redisService.set(`task:${result.id}`, result, 'task');
+            await tempIdRegistryService.markSynced(item.id, result.id);
+            await this.rewriteTempId(item.id, result.id);
             // Emit success event with mapping
             this.emit('task:created', { tempId: item.id, notionId: result.id, data: result });
             break;
@@ -233,8 +503,12 @@ class SyncQueueService extends EventEmitter {
             this.emit('task:deleted', { id: item.id });
             break;
         }
+      } else if (item.entityType in ENTITY_SYNC) {
+        result = await this.processEntityItem(item, item.entityType as WritableEntityType);
       }
 
+      await this.removePersistedItem(item);
+
       // Update metrics
       const processingTime = Date.now() - startTime;
       this.metrics.processed++;
@@ -285,9 +559,11 @@ class SyncQueueService extends EventEmitter {
         });
 
         this.metrics.retries++;
+        await this.updatePersistedItem(item);
         
-        // Requeue with delay
-        setTimeout(() => {
+        // Requeue with delay, the item stays visible to coalescing meanwhile
+        const timer = setTimeout(() => {
+          this.retrying.delete(this.entityKey(item));
           // Don't use addToQueue here to avoid resetting attempts
           this.queue.push(item);
           
@@ -296,6 +572,7 @@ class SyncQueueService extends EventEmitter {
             this.startProcessing();
           }
         }, backoffDelay);
+        this.retrying.set(this.entityKey(item), { item, timer });
 
         // Emit retry event
         this.emit('item:retry', { item, error: error.message, nextAttemptIn: backoffDelay });
@@ -313,6 +590,7 @@ class SyncQueueService extends EventEmitter {
 
         // Rollback Redis if needed
         await this.handleFailure(item);
+        await this.moveToDeadLetter(item);
 
         // Emit failure event
         this.emit('item:failed', { item, error: error.message });
@@ -320,6 +598,36 @@ class SyncQueueService extends EventEmitter {
     }
   }
 
+  /**
+   * Send a project, client or team operation to Notion and refresh its cached copy
+   */
+  private async processEntityItem(item: QueueItem, entityType: WritableEntityType): Promise<any> {
+    const operations = ENTITY_SYNC[entityType];
+    let result: any;
+
+    switch (item.type) {
+      case 'create':
+        result = await operations.create(item.data);
+        await redisService.del(`${entityType}:${item.id}`);
+        await tempIdRegistryService.markSynced(item.id, result.id);
+        await this.rewriteTempId(item.id, result.id);
+        this.emit(`${entityType}:created`, { tempId: item.id, notionId: result.id, data: result });
+        break;
+
+      case 'update':
+        result = await operations.update(item.id, item.data);
+        this.emit(`${entityType}:updated`, { id: item.id, data: result });
+        break;
+
+      case 'delete':
+        await operations.archive(item.id);
+        this.emit(`${entityType}:deleted`, { id: item.id });
+        break;
+    }
+
+    return result;
+  }
+
   /**
    * Handle permanent failure
    */
@@ -329,6 +637,7 @@ class SyncQueueService extends EventEmitter {
         case 'create':
           // Remove failed temp task from Redis
           await redisService.del(`task:${item.id}`);
+          await tempIdRegistryService.markFailed(item.id, item.error);
           break;
           
         case 'update':
@@ -354,6 +663,12 @@ class SyncQueueService extends EventEmitter {
           }
           break;
       }
+    } else {
+      // Projets, clients, équipes : on retire la copie optimiste, Notion reste la référence
+      await redisService.del(`${item.entityType}:${item.id}`);
+      if (item.type === 'create') {
+        await tempIdRegistryService.markFailed(item.id, item.error);
+      }
     }
   }
 
@@ -363,16 +678,21 @@ class SyncQueueService extends EventEmitter {
   getStatus() {
     const status = {
       queueLength: this.queue.length,
+      retrying: this.retrying.size,
       processing: this.processing,
       metrics: this.metrics,
-      items: this.queue.map(item => ({
+      // Les items en attente de retry restent des opérations en attente
+      items: [...[...this.retrying.values()].map(({ item }) => item), ...this.queue].map(item => ({
+        queueId: item.queueId,
         id: item.id,
         type: item.type,
         entityType: item.entityType,
         attempts: item.attempts,
+        maxRetries: item.maxRetries,
         createdAt: item.createdAt,
         lastAttempt: item.lastAttempt,
-        error: item.error
+        error: item.error,
+        data: item.data
       }))
     };
     
@@ -380,13 +700,81 @@ class SyncQueueService extends EventEmitter {
   }
 
   /**
-   * Clear the queue
+   * Get items that exhausted their retries
+   */
+  async getDeadLetters(limit: number = 50) {
+    const [count, items] = await Promise.all([
+      SyncDeadLetterModel.countDocuments({ status: 'failed' }),
+      SyncDeadLetterModel.find({ status: 'failed' })
+        .sort({ failedAt: -1 })
+        .limit(limit)
+        .lean()
+    ]);
+
+    return { count, items };
+  }
+
+  /**
+   * Requeue dead-letter items (all failed items when no IDs are given)
    */
-  clearQueue() {
-    const cleared = this.queue.length;
+  async retryDeadLetters(queueIds?: string[]): Promise<number> {
+    const filter: any = { status: 'failed' };
+    if (queueIds && queueIds.length > 0) {
+      filter.queueId = { $in: queueIds };
+    }
+
+    const deadLetters = await SyncDeadLetterModel.find(filter).sort({ failedAt: 1 });
+    let retried = 0;
+
+    for (const deadLetter of deadLetters) {
+      if (deadLetter.type === 'create') {
+        await tempIdRegistryService.register(deadLetter.entityId, deadLetter.entityType);
+      }
+
+      await this.addToQueue({
+        queueId: deadLetter.queueId,
+        id: deadLetter.entityId,
+        type: deadLetter.type,
+        entityType: deadLetter.entityType,
+        data: deadLetter.data,
+        attempts: 0,
+        maxRetries: this.MAX_RETRIES,
+        createdAt: deadLetter.queuedAt
+      });
+
+      deadLetter.status = 'retried';
+      deadLetter.retriedAt = new Date();
+      await deadLetter.save();
+      retried++;
+    }
+
+    logger.info(`Requeued ${retried} dead-letter items`);
+    return retried;
+  }
+
+  /**
+   * Clear the queue (and optionally the dead-letter collection)
+   */
+  async clearQueue(options: { includeDeadLetters?: boolean } = {}): Promise<{ cleared: number; deadLettersCleared: number }> {
+    const cleared = this.queue.length + this.retrying.size;
     this.queue = [];
-    logger.info(`Cleared ${cleared} items from sync queue`);
-    return cleared;
+    for (const { item } of [...this.retrying.values()]) {
+      this.cancelRetry(item);
+    }
+    let deadLettersCleared = 0;
+
+    try {
+      await SyncQueueItemModel.deleteMany({});
+      if (options.includeDeadLetters) {
+        const result = await SyncDeadLetterModel.deleteMany({});
+        deadLettersCleared = result.deletedCount || 0;
+      }
+    } catch (error) {
+      logger.error('Failed to clear persisted sync queue', { error });
+    }
+
+    logger.info(`Cleared ${cleared} items from sync queue`, { deadLettersCleared });
+    return { cleared, deadLettersCleared };
   }
 
   /**
@@ -397,6 +785,126 @@ class SyncQueueService extends EventEmitter {
     logger.info('SyncQueueService stopped');
   }
 
+  /**
+   * Point queued follow-up operations of a temp ID to the created Notion page
+   */
+  private async rewriteTempId(tempId: string, notionId: string): Promise<void> {
+    let rewritten = 0;
+    for (const queued of this.queue) {
+      if (queued.id === tempId) {
+        queued.id = notionId;
+        rewritten++;
+      }
+    }
+    for (const [key, entry] of [...this.retrying]) {
+      if (entry.item.id === tempId) {
+        this.retrying.delete(key);
+        entry.item.id = notionId;
+        this.retrying.set(this.entityKey(entry.item), entry);
+        rewritten++;
+      }
+    }
+
+    try {
+      await SyncQueueItemModel.updateMany({ entityId: tempId }, { $set: { entityId: notionId } });
+    } catch (error) {
+      logger.error('Failed to rewrite temp ID in persisted sync queue', { tempId, notionId, error });
+    }
+
+    if (rewritten > 0) {
+      logger.info('Queued operations rewritten to Notion ID', { tempId, notionId, rewritten });
+    }
+  }
+
+  /**
+   * Key of the entity targeted by an item
+   */
+  private entityKey(item: Pick<QueueItem, 'entityType' | 'id'>): string {
+    return `${item.entityType}:${item.id}`;
+  }
+
+  /**
+   * Drop an item waiting for its retry
+   */
+  private cancelRetry(item: QueueItem): void {
+    const key = this.entityKey(item);
+    const entry = this.retrying.get(key);
+    if (entry?.item === item) {
+      clearTimeout(entry.timer);
+      this.retrying.delete(key);
+    }
+  }
+
+  /**
+   * Persistence helpers - failures are logged, the in-memory queue keeps working
+   */
+  private async persistItem(item: QueueItem): Promise<void> {
+    try {
+      await SyncQueueItemModel.updateOne(
+        { queueId: item.queueId },
+        {
+          $set: {
+            entityId: item.id,
+            type: item.type,
+            entityType: item.entityType,
+            data: item.data,
+            attempts: item.attempts,
+            maxRetries: item.maxRetries,
+            queuedAt: item.createdAt
+          }
+        },
+        { upsert: true }
+      );
+    } catch (error) {
+      logger.error('Failed to persist sync queue item', { queueId: item.queueId, error });
+    }
+  }
+
+  private async updatePersistedItem(item: QueueItem): Promise<void> {
+    try {
+      await SyncQueueItemModel.updateOne(
+        { queueId: item.queueId },
+        {
+          $set: {
+            attempts: item.attempts,
+            lastAttempt: item.lastAttempt,
+            error: item.error
+          }
+        }
+      );
+    } catch (error) {
+      logger.error('Failed to update persisted sync queue item', { queueId: item.queueId, error });
+    }
+  }
+
+  private async removePersistedItem(item: QueueItem): Promise<void> {
+    try {
+      await SyncQueueItemModel.deleteOne({ queueId: item.queueId });
+    } catch (error) {
+      logger.error('Failed to remove persisted sync queue item', { queueId: item.queueId, error });
+    }
+  }
+
+  private async moveToDeadLetter(item: QueueItem): Promise<void> {
+    try {
+      await SyncDeadLetterModel.create({
+        queueId: item.queueId,
+        entityId: item.id,
+        type: item.type,
+        entityType: item.entityType,
+        data: item.data,
+        attempts: item.attempts,
+        maxRetries: item.maxRetries,
+        error: item.error,
+        queuedAt: item.createdAt,
+        failedAt: new Date()
+      });
+      await this.removePersistedItem(item);
+    } catch (error) {
+      logger.error('Failed to move sync queue item to dead-letter', { queueId: item.queueId, error });
+    }
+  }
+
   /**
    * Helper functions
    */
@@ -1,10 +1,31 @@
 import { ConflictLogModel } from "../models/ConflictLog.model";
-import { TaskSchedulingConflictModel } from "../models/TaskSchedulingConflict.model";
+import { ConfigModel } from "../models/Config.model";
+import {
+  TaskSchedulingConflictModel,
+  SCHEDULING_CONFLICT_TYPES,
+  SchedulingConflictType
+} from "../models/TaskSchedulingConflict.model";
 import { redisService } from "./redis.service";
+import { taskIndexService } from "./notion/task-index.service";
+import { memberScheduleService } from "./member-schedule.service";
+import { holidaysService } from "./holidays.service";
 import notionService from "./notion.service";
 import { NotionTask, NotionMember } from "../types/notion.types";
+import { conflictRulesService, ConflictRule, ConflictCandidate } from "./conflict-rules.service";
+import { conflictDecisionService } from "./conflict-decision.service";
 import { SchedulingConflict } from "../controllers/tasks/tasks-conflict.controller";
-import { parseISO, differenceInHours, format } from "date-fns";
+import {
+  parseISO,
+  differenceInHours,
+  differenceInMinutes,
+  format,
+  eachDayOfInterval,
+  isWeekend,
+  getISODay,
+  min as minDate,
+  max as maxDate
+} from "date-fns";
+import { getTaskLastDay } from "../utils/taskDates";
 
 export interface SyncStatus {
   synced: boolean;
@@ -17,10 +38,51 @@ export interface SyncStatus {
   };
 }
 
+export interface ConflictCheckOptions {
+  rules?: ConflictRule[]; // Règles à appliquer à la place du jeu actif (dry-run)
+}
+
+export interface TaskConflict extends SchedulingConflict {
+  taskId: string;
+  taskTitle: string;
+}
+
+export interface ConflictsSummary {
+  total: number;
+  byType: Record<string, number>;
+  bySeverity: Record<string, number>;
+}
+
+export interface ConflictRulesDryRun {
+  range: { startDate: string; endDate: string };
+  tasksEvaluated: number;
+  current: ConflictsSummary;
+  draft: ConflictsSummary;
+  added: TaskConflict[];
+  removed: TaskConflict[];
+  severityChanged: Array<TaskConflict & { previousSeverity: SchedulingConflict['severity'] }>;
+}
+
+type ConflictSeverity = SchedulingConflict['severity'];
+type CalendarConflictType = Extract<SchedulingConflictType, 'public_holiday' | 'weekend' | 'company_closure'>;
+
+/**
+ * Config keys (ConfigModel) holding the severity of calendar conflicts, with their defaults
+ */
+export const CALENDAR_CONFLICT_SEVERITY_CONFIG: Record<CalendarConflictType, { key: string; defaultValue: ConflictSeverity }> = {
+  public_holiday: { key: 'CONFLICT_SEVERITY_PUBLIC_HOLIDAY', defaultValue: 'high' },
+  company_closure: { key: 'CONFLICT_SEVERITY_COMPANY_CLOSURE', defaultValue: 'high' },
+  weekend: { key: 'CONFLICT_SEVERITY_WEEKEND', defaultValue: 'medium' }
+};
+
+const SEVERITY_CACHE_TTL_MS = 60000;
+
 /**
  * Service to handle task conflict detection and sync status
  */
 export class TasksConflictService {
+  private calendarSeverities: { values: Record<CalendarConflictType, ConflictSeverity>; expiresAt: number } | null = null;
+
   /**
    * Check for conflicts and build sync status for an entity
    */
@@ -70,10 +132,90 @@ export class TasksConflictService {
 
   /**
    * Check scheduling conflicts for a task
-   * Detects: overlaps, holidays, school periods, overload
+   * Detects: overlaps, holidays, school periods, overload, public holidays, weekends, company closures
+   * Candidates are filtered by the active conflict rules (or the given ones)
    */
-  async checkSchedulingConflicts(taskData: Partial<NotionTask>): Promise<SchedulingConflict[]> {
-    const conflicts: SchedulingConflict[] = [];
+  async checkSchedulingConflicts(
+    taskData: Partial<NotionTask>,
+    options: ConflictCheckOptions = {}
+  ): Promise<SchedulingConflict[]> {
+    const candidates = await this.collectConflictCandidates(taskData);
+    return conflictRulesService.applyRules(candidates, options.rules ?? await conflictRulesService.getActiveRules());
+  }
+
+  /**
+   * Check scheduling conflicts with provided tasks (no cache lookup)
+   * This is used when we already have the relevant tasks in memory
+   */
+  async checkSchedulingConflictsWithTasks(
+    taskData: Partial<NotionTask>, 
+    relevantTasks: NotionTask[],
+    options: ConflictCheckOptions = {}
+  ): Promise<SchedulingConflict[]> {
+    const candidates = await this.collectConflictCandidatesWithTasks(taskData, relevantTasks);
+    return conflictRulesService.applyRules(candidates, options.rules ?? await conflictRulesService.getActiveRules());
+  }
+
+  /**
+   * Re-evaluate the conflicts of a date range against a draft rule set,
+   * compared to the active rules. Nothing is saved.
+   */
+  async dryRunRules(rules: ConflictRule[], startDate: Date, endDate: Date): Promise<ConflictRulesDryRun> {
+    const [tasks, activeRules] = await Promise.all([
+      notionService.getTasksForCalendarView(startDate, endDate),
+      conflictRulesService.getActiveRules()
+    ]);
+
+    const current: TaskConflict[] = [];
+    const draft: TaskConflict[] = [];
+
+    for (const task of tasks) {
+      // Candidats calculés une seule fois, seules les règles changent
+      const candidates = await this.collectConflictCandidates(task);
+      const withTask = (conflict: SchedulingConflict): TaskConflict => ({ ...conflict, taskId: task.id, taskTitle: task.title });
+
+      current.push(...conflictRulesService.applyRules(candidates, activeRules).map(withTask));
+      draft.push(...conflictRulesService.applyRules(candidates, rules).map(withTask));
+    }
+
+    const keyOf = (conflict: TaskConflict) =>
+      [conflict.taskId, conflict.type, conflict.memberId, conflict.conflictingTaskId || '', conflict.message].join('|');
+    const currentByKey = new Map(current.map(conflict => [keyOf(conflict), conflict]));
+    const draftByKey = new Map(draft.map(conflict => [keyOf(conflict), conflict]));
+
+    return {
+      range: { startDate: format(startDate, 'yyyy-MM-dd'), endDate: format(endDate, 'yyyy-MM-dd') },
+      tasksEvaluated: tasks.length,
+      current: this.summarizeConflicts(current),
+      draft: this.summarizeConflicts(draft),
+      added: draft.filter(conflict => !currentByKey.has(keyOf(conflict))),
+      removed: current.filter(conflict => !draftByKey.has(keyOf(conflict))),
+      severityChanged: draft
+        .filter(conflict => {
+          const before = currentByKey.get(keyOf(conflict));
+          return before !== undefined && before.severity !== conflict.severity;
+        })
+        .map(conflict => ({ ...conflict, previousSeverity: currentByKey.get(keyOf(conflict))!.severity }))
+    };
+  }
+
+  private summarizeConflicts(conflicts: SchedulingConflict[]): ConflictsSummary {
+    const byType: Record<string, number> = Object.fromEntries(SCHEDULING_CONFLICT_TYPES.map(type => [type, 0]));
+    const bySeverity: Record<string, number> = { low: 0, medium: 0, high: 0 };
+
+    for (const conflict of conflicts) {
+      byType[conflict.type] = (byType[conflict.type] || 0) + 1;
+      bySeverity[conflict.severity] = (bySeverity[conflict.severity] || 0) + 1;
+    }
+
+    return { total: conflicts.length, byType, bySeverity };
+  }
+
+  /**
+   * Conflict candidates of a task, from the member/day task index
+   */
+  private async collectConflictCandidates(taskData: Partial<NotionTask>): Promise<ConflictCandidate[]> {
+    const candidates: ConflictCandidate[] = [];
     
     console.log('[CONFLICT DEBUG] Checking task:', {
       id: taskData.id,
@@ -86,13 +228,7 @@ export class TasksConflictService {
     // Skip if no members assigned or no work period
     if (!taskData.assignedMembers?.length || !taskData.workPeriod?.startDate || !taskData.workPeriod?.endDate) {
       console.log('[CONFLICT DEBUG] Skipping - missing data');
-      return conflicts;
-    }
-
-    // Skip conflict detection for remote tasks (télétravail)
-    if (taskData.taskType === 'remote') {
-      console.log('[CONFLICT DEBUG] Skipping - remote task');
-      return conflicts;
+      return candidates;
     }
 
     const taskStart = taskData.workPeriod.startDate instanceof Date 
@@ -116,69 +252,45 @@ export class TasksConflictService {
         const memberTasks = await this.getMemberTasks(memberId, taskStart, taskEnd);
         console.log(`[CONFLICT DEBUG] Found ${memberTasks.length} tasks for member`);
         
-        // Filter out current task and remote tasks
-        const otherTasks = memberTasks.filter(t => 
-          t.id !== taskData.id && 
-          t.taskType !== 'remote'
-        );
+        // Filter out current task
+        const otherTasks = memberTasks.filter(t => t.id !== taskData.id);
 
         // Check for overlapping tasks
         for (const otherTask of otherTasks) {
-          if (this.periodsOverlap(
-            { start: taskStart, end: taskEnd },
-            { 
-              start: otherTask.workPeriod.startDate!, 
-              end: otherTask.workPeriod.endDate! 
-            }
-          )) {
-            // Determine conflict type and severity
-            if (otherTask.taskType === 'holiday') {
-              conflicts.push({
-                type: 'holiday',
-                message: `${memberName} est en congé ce jour`,
-                memberId,
-                memberName,
-                conflictingTaskId: otherTask.id,
-                conflictingTaskTitle: otherTask.title,
-                severity: 'high'
-              });
-            } else if (otherTask.taskType === 'school') {
-              conflicts.push({
-                type: 'school',
-                message: `${memberName} est en formation ce jour`,
-                memberId,
-                memberName,
-                conflictingTaskId: otherTask.id,
-                conflictingTaskTitle: otherTask.title,
-                severity: 'medium'
-              });
-            } else {
-              conflicts.push({
-                type: 'overlap',
-                message: `${memberName} est déjà occupé avec "${otherTask.title}"`,
-                memberId,
-                memberName,
-                conflictingTaskId: otherTask.id,
-                conflictingTaskTitle: otherTask.title,
-                severity: 'medium'
-              });
-            }
+          const otherPeriod = { start: otherTask.workPeriod.startDate!, end: otherTask.workPeriod.endDate! };
+
+          if (this.periodsOverlap({ start: taskStart, end: taskEnd }, otherPeriod)) {
+            candidates.push(this.overlapCandidate(taskData, otherTask, memberId, memberName, { start: taskStart, end: taskEnd }, otherPeriod));
           }
         }
 
-        // Check for daily overload (> 8 hours)
+        const calendarCandidates = await this.checkCalendarDays(taskData, taskStart, taskEnd, memberId, memberName);
+        candidates.push(...calendarCandidates);
+        const calendarDates = new Set(calendarCandidates.map(candidate => candidate.conflict.date));
+
+        // Check for daily overload (au-delà de la capacité du membre ce jour-là)
         const dailyHours = await this.calculateDailyHours(memberId, taskStart, taskEnd, taskData.id);
         const taskHours = differenceInHours(taskEnd, taskStart);
         
         for (const [date, hours] of Object.entries(dailyHours)) {
-          if (hours + taskHours > 8) {
-            conflicts.push({
+          const capacity = memberScheduleService.getDailyCapacity(memberId, date);
+
+          // Jour non travaillé déjà signalé (férié, fermeture, repos) : pas de surcharge en double
+          if (capacity === 0 && calendarDates.has(date)) {
+            continue;
+          }
+
+          if (hours + taskHours > capacity) {
+            candidates.push(this.candidate(taskData, {
               type: 'overload',
-              message: `${memberName} dépasserait 8h de travail le ${date} (${hours + taskHours}h au total)`,
+              message: capacity > 0
+                ? `${memberName} dépasserait ${capacity}h de travail le ${date} (${hours + taskHours}h au total)`
+                : `${memberName} ne travaille pas le ${date} (${hours + taskHours}h planifiées)`,
               memberId,
               memberName,
-              severity: 'low'
-            });
+              severity: 'low',
+              date
+            }, { excessHours: hours + taskHours - capacity }));
           }
         }
       } catch (error) {
@@ -186,18 +298,17 @@ export class TasksConflictService {
       }
     }
 
-    return conflicts;
+    return candidates;
   }
 
   /**
-   * Check scheduling conflicts with provided tasks (no cache lookup)
-   * This is used when we already have the relevant tasks in memory
+   * Conflict candidates of a task among the provided tasks
    */
-  async checkSchedulingConflictsWithTasks(
-    taskData: Partial<NotionTask>, 
+  private async collectConflictCandidatesWithTasks(
+    taskData: Partial<NotionTask>,
     relevantTasks: NotionTask[]
-  ): Promise<SchedulingConflict[]> {
-    const conflicts: SchedulingConflict[] = [];
+  ): Promise<ConflictCandidate[]> {
+    const candidates: ConflictCandidate[] = [];
     
     console.log('[CONFLICT DEBUG] Checking with provided tasks:', {
       taskId: taskData.id,
@@ -209,12 +320,7 @@ export class TasksConflictService {
     
     // Skip if no members assigned or no work period
     if (!taskData.assignedMembers?.length || !taskData.workPeriod?.startDate || !taskData.workPeriod?.endDate) {
-      return conflicts;
-    }
-
-    // Skip conflict detection for remote tasks
-    if (taskData.taskType === 'remote') {
-      return conflicts;
+      return candidates;
     }
 
     const taskStart = taskData.workPeriod.startDate instanceof Date 
@@ -237,8 +343,7 @@ export class TasksConflictService {
       const memberTasks = relevantTasks.filter(t => 
         t.id !== taskData.id && 
         t.assignedMembers && 
-        t.assignedMembers.includes(memberId) &&
-        t.taskType !== 'remote'
+        t.assignedMembers.includes(memberId)
       );
       
       console.log(`[CONFLICT DEBUG] Found ${memberTasks.length} tasks for member`);
@@ -258,44 +363,185 @@ export class TasksConflictService {
             { start: taskStart, end: taskEnd },
             { start: otherStart, end: otherEnd }
           )) {
-            // Determine conflict type and severity
-            if (otherTask.taskType === 'holiday') {
-              conflicts.push({
-                type: 'holiday',
-                message: `${memberName} est en congé ce jour`,
-                memberId,
-                memberName,
-                conflictingTaskId: otherTask.id,
-                conflictingTaskTitle: otherTask.title,
-                severity: 'high'
-              });
-            } else if (otherTask.taskType === 'school') {
-              conflicts.push({
-                type: 'school',
-                message: `${memberName} est en formation ce jour`,
-                memberId,
-                memberName,
-                conflictingTaskId: otherTask.id,
-                conflictingTaskTitle: otherTask.title,
-                severity: 'medium'
-              });
-            } else {
-              conflicts.push({
-                type: 'overlap',
-                message: `${memberName} est déjà occupé avec "${otherTask.title}"`,
-                memberId,
-                memberName,
-                conflictingTaskId: otherTask.id,
-                conflictingTaskTitle: otherTask.title,
-                severity: 'medium'
-              });
-            }
+            candidates.push(this.overlapCandidate(
+              taskData,
+              otherTask,
+              memberId,
+              memberName,
+              { start: taskStart, end: taskEnd },
+              { start: otherStart, end: otherEnd }
+            ));
           }
         }
       }
+
+      candidates.push(...await this.checkCalendarDays(taskData, taskStart, taskEnd, memberId, memberName));
+    }
+
+    return candidates;
+  }
+
+  private candidate(
+    taskData: Partial<NotionTask>,
+    conflict: SchedulingConflict,
+    context: Partial<Pick<ConflictCandidate, 'otherTaskType' | 'overlapMinutes' | 'excessHours'>> = {}
+  ): ConflictCandidate {
+    return {
+      conflict,
+      taskType: taskData.taskType || 'task',
+      otherTaskType: null,
+      teams: taskData.teams || [],
+      ...context
+    };
+  }
+
+  /**
+   * Overlap with another task of the member: leave, training or plain overlap
+   */
+  private overlapCandidate(
+    taskData: Partial<NotionTask>,
+    otherTask: NotionTask,
+    memberId: string,
+    memberName: string,
+    taskPeriod: { start: Date; end: Date },
+    otherPeriod: { start: Date; end: Date }
+  ): ConflictCandidate {
+    const context = {
+      otherTaskType: otherTask.taskType || 'task',
+      overlapMinutes: differenceInMinutes(
+        minDate([taskPeriod.end, otherPeriod.end]),
+        maxDate([taskPeriod.start, otherPeriod.start])
+      )
+    };
+    const conflicting = {
+      memberId,
+      memberName,
+      conflictingTaskId: otherTask.id,
+      conflictingTaskTitle: otherTask.title
+    };
+
+    // Determine conflict type and severity
+    if (otherTask.taskType === 'holiday') {
+      return this.candidate(taskData, {
+        type: 'holiday',
+        message: `${memberName} est en congé ce jour`,
+        ...conflicting,
+        severity: 'high'
+      }, context);
+    }
+
+    if (otherTask.taskType === 'school') {
+      return this.candidate(taskData, {
+        type: 'school',
+        message: `${memberName} est en formation ce jour`,
+        ...conflicting,
+        severity: 'medium'
+      }, context);
+    }
+
+    return this.candidate(taskData, {
+      type: 'overlap',
+      message: `${memberName} est déjà occupé avec "${otherTask.title}"`,
+      ...conflicting,
+      severity: 'medium'
+    }, context);
+  }
+
+  /**
+   * Candidates on the days the task covers, at most one per day:
+   * public holiday, then company closure, then day off of the member (weekend).
+   * Les jours de repos suivent les jours travaillés de l'horaire du membre ; un jour
+   * de repos n'est signalé que si la tâche y commence ou y finit (une tâche qui l'enjambe ne l'occupe pas)
+   */
+  private async checkCalendarDays(
+    taskData: Partial<NotionTask>,
+    taskStart: Date,
+    taskEnd: Date,
+    memberId: string,
+    memberName: string
+  ): Promise<ConflictCandidate[]> {
+    if (taskEnd < taskStart) {
+      return [];
+    }
+
+    const lastDay = getTaskLastDay({
+      workPeriod: { startDate: taskStart, endDate: taskEnd },
+      isAllDay: taskData.isAllDay ?? false
+    })!;
+    const days = eachDayOfInterval({ start: taskStart, end: lastDay });
+    const severities = await this.getCalendarSeverities();
+    const candidates: ConflictCandidate[] = [];
+
+    days.forEach((day, index) => {
+      const date = format(day, 'yyyy-MM-dd');
+      const publicHoliday = holidaysService.getPublicHoliday(date);
+      const closure = publicHoliday ? null : holidaysService.getClosure(date);
+
+      if (publicHoliday) {
+        candidates.push(this.candidate(taskData, {
+          type: 'public_holiday',
+          message: `${memberName} est planifié un jour férié (${publicHoliday}, ${date})`,
+          memberId,
+          memberName,
+          severity: severities.public_holiday,
+          date
+        }));
+      } else if (closure) {
+        candidates.push(this.candidate(taskData, {
+          type: 'company_closure',
+          message: `${memberName} est planifié pendant une fermeture de l'entreprise (${closure.label}, ${date})`,
+          memberId,
+          memberName,
+          severity: severities.company_closure,
+          date
+        }));
+      } else if (
+        (index === 0 || index === days.length - 1) &&
+        !memberScheduleService.getScheduleForDate(memberId, date).workingDays.includes(getISODay(day))
+      ) {
+        candidates.push(this.candidate(taskData, {
+          type: 'weekend',
+          message: isWeekend(day)
+            ? `${memberName} est planifié un week-end (${date})`
+            : `${memberName} est planifié un jour non travaillé (${date})`,
+          memberId,
+          memberName,
+          severity: severities.weekend,
+          date
+        }));
+      }
+    });
+
+    return candidates;
+  }
+
+  /**
+   * Severities of calendar conflicts from ConfigModel (cached one minute)
+   * Falls back to the defaults when the config is missing or invalid
+   */
+  private async getCalendarSeverities(): Promise<Record<CalendarConflictType, ConflictSeverity>> {
+    if (this.calendarSeverities && this.calendarSeverities.expiresAt > Date.now()) {
+      return this.calendarSeverities.values;
+    }
+
+    const entries = Object.entries(CALENDAR_CONFLICT_SEVERITY_CONFIG) as Array<[CalendarConflictType, { key: string; defaultValue: ConflictSeverity }]>;
+    const values = Object.fromEntries(entries.map(([type, { defaultValue }]) => [type, defaultValue])) as Record<CalendarConflictType, ConflictSeverity>;
+
+    try {
+      const configs = await ConfigModel.find({ key: { $in: entries.map(([, { key }]) => key) } }).lean();
+
+      for (const [type, { key }] of entries) {
+        const value = configs.find(config => config.key === key)?.value;
+        if (value === 'low' || value === 'medium' || value === 'high') {
+          values[type] = value;
+        }
+      }
+    } catch (error) {
+      console.error('Error loading conflict severities, using defaults:', error);
     }
 
-    return conflicts;
+    this.calendarSeverities = { values, expiresAt: Date.now() + SEVERITY_CACHE_TTL_MS };
+    return values;
   }
 
   /**
@@ -348,30 +594,15 @@ export class TasksConflictService {
     endDate: Date
   ): Promise<NotionTask[]> {
     try {
-      // Use the exact same cache key as the frontend: 2025-08-26 to 2025-10-25
-      // This matches what we see in the logs: "[Progressive] Fetching range: 2025-08-26 to 2025-10-25"
-      const startKey = '2025-08-26';
-      const endKey = '2025-10-25';
-      const cacheKey = `tasks:calendar:start=${startKey}:end=${endKey}`;
+      // Index membre/jour sur la période exacte - CACHE ONLY to avoid rate limits
+      const memberTasks = await taskIndexService.getTasksForMembers([memberId], startDate, endDate);
       
-      console.log(`[CONFLICT DEBUG] Looking for cache key: ${cacheKey}`);
-      
-      // Get all tasks from the calendar cache
-      const cachedTasks = await redisService.get(cacheKey);
-      
-      if (!cachedTasks || !Array.isArray(cachedTasks)) {
-        console.debug(`[CONFLICT DEBUG] No cached tasks found for date range, skipping to avoid rate limit`);
+      if (!memberTasks) {
+        console.debug(`[CONFLICT DEBUG] Task index incomplete for date range, skipping to avoid rate limit`);
         return [];
       }
       
-      console.log(`[CONFLICT DEBUG] Found ${cachedTasks.length} total tasks in cache`);
-      
-      // Filter tasks for this specific member
-      const memberTasks = (cachedTasks as NotionTask[]).filter(task => 
-        task.assignedMembers && task.assignedMembers.includes(memberId)
-      );
-      
-      console.log(`[CONFLICT DEBUG] Filtered to ${memberTasks.length} tasks for member ${memberId}`);
+      console.log(`[CONFLICT DEBUG] Found ${memberTasks.length} indexed tasks for member ${memberId}`);
       
       return memberTasks;
     } catch (error) {
@@ -478,11 +709,15 @@ export class TasksConflictService {
 
   /**
    * Save conflicts to MongoDB for persistence
+   * Decisions taken on the same conflicts (acknowledged, ignored) are kept
    */
   async saveConflicts(taskId: string, conflicts: SchedulingConflict[]): Promise<void> {
     try {
       // Enrichir les conflits avant sauvegarde
-      const enrichedConflicts = await this.enrichConflictsWithMemberNames(conflicts);
+      const enrichedConflicts = await conflictDecisionService.applyDecisions(
+        taskId,
+        await this.enrichConflictsWithMemberNames(conflicts)
+      );
 
       // Use the bulk save method from the model
       await TaskSchedulingConflictModel.bulkSaveConflicts(taskId, enrichedConflicts);
@@ -513,7 +748,13 @@ export class TasksConflictService {
           memberName: conflict.memberName || undefined,
           conflictingTaskId: conflict.conflictingTaskId || undefined,
           conflictingTaskTitle: conflict.conflictingTaskTitle || undefined,
-          severity: conflict.severity
+          severity: conflict.severity,
+          date: conflict.date || undefined,
+          fingerprint: conflict.fingerprint || undefined,
+          status: conflict.status,
+          decisionReason: conflict.decisionReason || undefined,
+          decidedBy: conflict.decidedBy || undefined,
+          decidedAt: conflict.decidedAt || undefined
         } as SchedulingConflict);
         conflictsMap.set(conflict.taskId, taskConflicts);
       }
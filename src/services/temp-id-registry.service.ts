@@ -0,0 +1,136 @@
+/**
+ * Registre des IDs temporaires
+ *
+ * Une création async (?async=true) renvoie un ID `temp_...` avant que Notion
+ * n'ait créé la page. Ce registre garde la correspondance tempId -> ID Notion
+ * pour que le frontend et les opérations suivantes puissent la résoudre.
+ * - Mémoire pour les lookups fréquents
+ * - MongoDB pour survivre à un redémarrage (TTL 7 jours)
+ */
+
+import logger from '../config/logger.config';
+import { TempIdMappingModel, TempIdStatus } from '../models/TempIdMapping.model';
+import { SyncQueueEntityType } from '../models/SyncQueueItem.model';
+
+export interface TempIdResolution {
+  tempId: string;
+  notionId: string | null;
+  status: TempIdStatus;
+  error?: string;
+  syncedAt?: Date;
+}
+
+const TEMP_ID_PREFIX = 'temp_';
+
+class TempIdRegistryService {
+  private mappings: Map<string, TempIdResolution> = new Map();
+
+  /**
+   * Check whether an ID was generated by the sync queue
+   */
+  isTempId(id: string): boolean {
+    return id.startsWith(TEMP_ID_PREFIX);
+  }
+
+  /**
+   * Register a temp ID whose creation has been queued
+   */
+  async register(tempId: string, entityType: SyncQueueEntityType = 'task'): Promise<void> {
+    await this.save({ tempId, notionId: null, status: 'pending' }, entityType);
+  }
+
+  /**
+   * Record the Notion ID once the page has been created
+   */
+  async markSynced(tempId: string, notionId: string): Promise<void> {
+    await this.save({ tempId, notionId, status: 'synced', syncedAt: new Date() });
+  }
+
+  /**
+   * Record a creation that exhausted its retries
+   */
+  async markFailed(tempId: string, error?: string): Promise<void> {
+    await this.save({ tempId, notionId: null, status: 'failed', ...(error && { error }) });
+  }
+
+  /**
+   * Record a creation cancelled before sync (create + delete coalesced)
+   */
+  async markCancelled(tempId: string): Promise<void> {
+    await this.save({ tempId, notionId: null, status: 'cancelled' });
+  }
+
+  /**
+   * Get the mapping of a temp ID, or null if it is unknown
+   */
+  async resolve(tempId: string): Promise<TempIdResolution | null> {
+    const cached = this.mappings.get(tempId);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const doc = await TempIdMappingModel.findOne({ tempId }).lean();
+      if (!doc) {
+        return null;
+      }
+
+      const resolution: TempIdResolution = {
+        tempId: doc.tempId,
+        notionId: doc.notionId || null,
+        status: doc.status,
+        ...(doc.error && { error: doc.error }),
+        ...(doc.syncedAt && { syncedAt: doc.syncedAt })
+      };
+      this.mappings.set(tempId, resolution);
+      return resolution;
+    } catch (error) {
+      logger.error('Failed to resolve temp ID', { tempId, error });
+      return null;
+    }
+  }
+
+  /**
+   * Return the Notion ID for a synced temp ID, the given ID otherwise
+   */
+  async resolveId(id: string): Promise<string> {
+    if (!this.isTempId(id)) {
+      return id;
+    }
+
+    const resolution = await this.resolve(id);
+    return resolution?.notionId || id;
+  }
+
+  /**
+   * Clear the in-memory cache (mainly for tests)
+   */
+  clearCache(): void {
+    this.mappings.clear();
+  }
+
+  private async save(resolution: TempIdResolution, entityType?: SyncQueueEntityType): Promise<void> {
+    this.mappings.set(resolution.tempId, resolution);
+
+    try {
+      await TempIdMappingModel.updateOne(
+        { tempId: resolution.tempId },
+        {
+          $set: {
+            status: resolution.status,
+            ...(entityType && { entityType }),
+            ...(resolution.notionId && { notionId: resolution.notionId }),
+            ...(resolution.error && { error: resolution.error }),
+            ...(resolution.syncedAt && { syncedAt: resolution.syncedAt })
+          }
+        },
+        { upsert: true }
+      );
+    } catch (error) {
+      logger.error('Failed to persist temp ID mapping', { tempId: resolution.tempId, error });
+    }
+  }
+}
+
+export const tempIdRegistryService = new TempIdRegistryService();
+export default tempIdRegistryService;
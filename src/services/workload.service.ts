@@ -0,0 +1,288 @@
+/**
+ * Charge de travail des membres et des équipes
+ *
+ * Compare, jour par jour et semaine par semaine, les heures planifiées dans
+ * Notion à la capacité de chaque membre :
+ * - capacité = heures/jour x temps partiel, sur les jours travaillés uniquement,
+ *   selon l'horaire du membre en vigueur ce jour-là
+ * - jours fériés et absences (congés, formation) ramènent la capacité à 0
+ * - une tâche journée entière occupe une journée complète, une tâche horaire
+ *   compte ses heures du jour (plafonnées à une journée de travail)
+ * - le télétravail n'est ni une charge ni une absence
+ */
+
+import { eachDayOfInterval, format, getISODay, parseISO, startOfISOWeek, endOfISOWeek, max, min, endOfDay } from 'date-fns';
+import notionService from './notion.service';
+import { entityService } from './notion/entity.service';
+import { holidaysService, HolidayMap } from './holidays.service';
+import { memberScheduleService, MemberScheduleSettings } from './member-schedule.service';
+import { NotionTask } from '../types/notion.types';
+import { getTaskLastDay } from '../utils/taskDates';
+
+export interface WorkloadHours {
+  capacityHours: number;
+  plannedHours: number;
+  availableHours: number;
+  utilization: number | null; // planifié / capacité, null si capacité nulle
+  overloaded: boolean;
+}
+
+export interface MemberWorkloadDay extends WorkloadHours {
+  date: string;
+  isWorkingDay: boolean;
+  publicHoliday: string | null;
+  absence: 'holiday' | 'school' | null;
+}
+
+export interface TeamWorkloadDay extends WorkloadHours {
+  date: string;
+  membersAbsent: number;
+  membersOverloaded: number;
+}
+
+export interface WorkloadWeek extends WorkloadHours {
+  weekStart: string;
+  weekEnd: string;
+}
+
+export interface MemberWorkload {
+  memberId: string;
+  memberName: string;
+  schedules: MemberScheduleSettings[]; // Horaires appliqués sur la période
+  days: MemberWorkloadDay[];
+  weeks: WorkloadWeek[];
+  totals: WorkloadHours;
+}
+
+export interface TeamWorkload {
+  teamId: string;
+  teamName: string;
+  members: Omit<MemberWorkload, 'days'>[];
+  days: TeamWorkloadDay[];
+  weeks: WorkloadWeek[];
+  totals: WorkloadHours;
+}
+
+export interface WorkloadRange {
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+}
+
+class WorkloadService {
+  /**
+   * Workload of a single member over a date range
+   * Returns null when the member does not exist
+   */
+  async getMemberWorkload(memberId: string, range: WorkloadRange): Promise<MemberWorkload | null> {
+    const members = await entityService.getAllMembers();
+    const member = members.find(m => m.id === memberId);
+
+    if (!member) {
+      return null;
+    }
+
+    const tasks = await this.getTasks(range);
+    const holidays = this.getPublicHolidays(range);
+
+    return this.computeMemberWorkload(member.id, member.name, tasks, holidays, range);
+  }
+
+  /**
+   * Workload of every member of a team, plus the team aggregate
+   * Returns null when the team does not exist
+   */
+  async getTeamWorkload(teamId: string, range: WorkloadRange): Promise<TeamWorkload | null> {
+    const [teams, members] = await Promise.all([
+      entityService.getAllTeams(),
+      entityService.getAllMembers()
+    ]);
+    const team = teams.find(t => t.id === teamId);
+
+    if (!team) {
+      return null;
+    }
+
+    // Les membres sont rattachés à l'équipe côté membre comme côté équipe selon les bases Notion
+    const teamMembers = members.filter(m => m.teams?.includes(teamId) || team.members?.includes(m.id));
+
+    const tasks = await this.getTasks(range);
+    const holidays = this.getPublicHolidays(range);
+
+    const memberWorkloads = teamMembers.map(member =>
+      this.computeMemberWorkload(member.id, member.name, tasks, holidays, range)
+    );
+
+    const days: TeamWorkloadDay[] = this.getRangeDays(range).map((date, index) => {
+      const memberDays = memberWorkloads.map(workload => workload.days[index]!);
+      return {
+        date,
+        ...this.summarize(memberDays),
+        // Une équipe est en surcharge dès qu'un de ses membres l'est
+        overloaded: memberDays.some(day => day.overloaded),
+        membersAbsent: memberDays.filter(day => day.absence !== null).length,
+        membersOverloaded: memberDays.filter(day => day.overloaded).length
+      };
+    });
+
+    return {
+      teamId: team.id,
+      teamName: team.name,
+      members: memberWorkloads.map(({ days: _days, ...workload }) => workload),
+      days,
+      weeks: this.groupByWeek(days),
+      totals: this.summarize(days)
+    };
+  }
+
+  /**
+   * Compute the daily and weekly workload of a member from already loaded data
+   */
+  private computeMemberWorkload(
+    memberId: string,
+    memberName: string,
+    tasks: NotionTask[],
+    holidays: HolidayMap,
+    range: WorkloadRange
+  ): MemberWorkload {
+    const memberTasks = tasks.filter(task =>
+      task.assignedMembers?.includes(memberId) && task.taskType !== 'remote'
+    );
+    const days: MemberWorkloadDay[] = this.getRangeDays(range).map(date => {
+      const dayStart = parseISO(date);
+      const dayEnd = endOfDay(dayStart);
+      const schedule = memberScheduleService.getScheduleForDate(memberId, date);
+      const fullDayHours = schedule.dailyHours * schedule.partTimePercentage / 100;
+      const isWorkingDay = schedule.workingDays.includes(getISODay(dayStart));
+      const publicHoliday = holidays[date] || null;
+
+      let absence: MemberWorkloadDay['absence'] = null;
+      let plannedHours = 0;
+
+      for (const task of memberTasks) {
+        if (!this.coversDay(task, date)) {
+          continue;
+        }
+
+        if (task.taskType === 'holiday' || task.taskType === 'school') {
+          // Un congé prime sur une formation le même jour
+          absence = absence === 'holiday' ? 'holiday' : task.taskType;
+          continue;
+        }
+
+        plannedHours += task.isAllDay
+          ? fullDayHours
+          : Math.min(this.hoursWithinDay(task, dayStart, dayEnd), fullDayHours);
+      }
+
+      const capacityHours = isWorkingDay && !publicHoliday && !absence ? fullDayHours : 0;
+
+      return {
+        date,
+        isWorkingDay,
+        publicHoliday,
+        absence,
+        ...this.toHours(capacityHours, plannedHours)
+      };
+    });
+
+    return {
+      memberId,
+      memberName,
+      schedules: this.getRangeSchedules(memberId, range),
+      days,
+      weeks: this.groupByWeek(days),
+      totals: this.summarize(days)
+    };
+  }
+
+  /**
+   * Tasks overlapping the range, from the calendar cache
+   */
+  private async getTasks(range: WorkloadRange): Promise<NotionTask[]> {
+    return notionService.getTasksForCalendarView(
+      parseISO(range.startDate),
+      endOfDay(parseISO(range.endDate)),
+      { originalStartDate: range.startDate, originalEndDate: range.endDate }
+    );
+  }
+
+  private getPublicHolidays(range: WorkloadRange): HolidayMap {
+    return holidaysService.getHolidaysForRange(parseISO(range.startDate), parseISO(range.endDate));
+  }
+
+  private getRangeSchedules(memberId: string, range: WorkloadRange): MemberScheduleSettings[] {
+    const schedules: MemberScheduleSettings[] = [];
+
+    for (const date of this.getRangeDays(range)) {
+      const schedule = memberScheduleService.getScheduleForDate(memberId, date);
+      const last = schedules[schedules.length - 1];
+      if (!last || last.id !== schedule.id) {
+        schedules.push(schedule);
+      }
+    }
+
+    return schedules;
+  }
+
+  private getRangeDays(range: WorkloadRange): string[] {
+    return eachDayOfInterval({ start: parseISO(range.startDate), end: parseISO(range.endDate) })
+      .map(day => format(day, 'yyyy-MM-dd'));
+  }
+
+  /**
+   * Whether a task occupies a calendar day
+   */
+  private coversDay(task: NotionTask, date: string): boolean {
+    if (!task.workPeriod?.startDate) {
+      return false;
+    }
+
+    const start = new Date(task.workPeriod.startDate);
+    const lastDay = format(getTaskLastDay(task)!, 'yyyy-MM-dd');
+
+    return format(start, 'yyyy-MM-dd') <= date && lastDay >= date;
+  }
+
+  private hoursWithinDay(task: NotionTask, dayStart: Date, dayEnd: Date): number {
+    const start = new Date(task.workPeriod.startDate!);
+    const end = task.workPeriod.endDate ? new Date(task.workPeriod.endDate) : start;
+    const overlapMs = min([end, dayEnd]).getTime() - max([start, dayStart]).getTime();
+
+    return Math.max(0, overlapMs) / (60 * 60 * 1000);
+  }
+
+  private groupByWeek(days: (WorkloadHours & { date: string })[]): WorkloadWeek[] {
+    const weeks = new Map<string, (WorkloadHours & { date: string })[]>();
+
+    for (const day of days) {
+      const weekStart = format(startOfISOWeek(parseISO(day.date)), 'yyyy-MM-dd');
+      weeks.set(weekStart, [...(weeks.get(weekStart) || []), day]);
+    }
+
+    return Array.from(weeks.entries()).map(([weekStart, weekDays]) => ({
+      weekStart,
+      weekEnd: format(endOfISOWeek(parseISO(weekStart)), 'yyyy-MM-dd'),
+      ...this.summarize(weekDays)
+    }));
+  }
+
+  private summarize(entries: WorkloadHours[]): WorkloadHours {
+    const capacity = entries.reduce((sum, entry) => sum + entry.capacityHours, 0);
+    const planned = entries.reduce((sum, entry) => sum + entry.plannedHours, 0);
+    return this.toHours(capacity, planned);
+  }
+
+  private toHours(capacity: number, planned: number): WorkloadHours {
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    return {
+      capacityHours: round(capacity),
+      plannedHours: round(planned),
+      availableHours: round(Math.max(0, capacity - planned)),
+      utilization: capacity > 0 ? round(planned / capacity) : null,
+      overloaded: planned > capacity
+    };
+  }
+}
+
+export const workloadService = new WorkloadService();
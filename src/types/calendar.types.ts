@@ -0,0 +1,60 @@
+/**
+ * Types de la synchronisation avec un agenda externe (Google Calendar)
+ */
+
+/**
+ * Event boundary: `date` for all-day events (YYYY-MM-DD, end exclusive),
+ * `dateTime` (ISO 8601) for timed events
+ */
+export type CalendarEventTime = { date: string } | { dateTime: string };
+
+export interface CalendarEventPayload {
+  summary: string;
+  description: string;
+  start: CalendarEventTime;
+  end: CalendarEventTime;
+  taskId: string; // Stocké dans les propriétés privées de l'événement
+}
+
+export interface RemoteCalendarEvent {
+  id: string;
+  status: 'confirmed' | 'tentative' | 'cancelled';
+  summary: string;
+  start: CalendarEventTime | null;
+  end: CalendarEventTime | null;
+  taskId: string | null; // null pour les événements non créés par la synchro
+  updated: string | null;
+}
+
+export interface CalendarChanges {
+  events: RemoteCalendarEvent[];
+  nextSyncToken: string;
+}
+
+/**
+ * Calendar backend used by the sync service
+ * calendarId is the assignee email (their primary calendar)
+ */
+export interface CalendarProvider {
+  readonly name: string;
+  createEvent(calendarId: string, payload: CalendarEventPayload): Promise<RemoteCalendarEvent>;
+  updateEvent(calendarId: string, eventId: string, payload: CalendarEventPayload): Promise<RemoteCalendarEvent>;
+  /** Resolves even if the event is already gone */
+  deleteEvent(calendarId: string, eventId: string): Promise<void>;
+  /**
+   * Events changed since the sync token (every event without token)
+   * Throws a CalendarProviderError (410) when the token must be dropped
+   */
+  listChanges(calendarId: string, syncToken: string | null): Promise<CalendarChanges>;
+}
+
+export interface CalendarSyncRunResult {
+  skipped: boolean;
+  tasksChecked: number;
+  created: number;
+  updated: number;
+  deleted: number;
+  remoteChangesApplied: number;
+  conflicts: number; // Modifiés des deux côtés : Notion l'emporte
+  errors: string[];
+}
@@ -20,6 +20,7 @@ export interface NotionTask {
   isAllDay?: boolean; // Flag pour indiquer si c'est une tâche journée entière
   shouldSplitDaily?: boolean; // Flag pour indiquer si une tâche multi-jours doit être splittée en badges quotidiens
   notionUrl?: string | null; // URL de la page Notion
+  archived?: boolean; // Page archivée ou dans la corbeille Notion
   createdAt: Date;
   updatedAt: Date;
 }
@@ -38,6 +39,7 @@ export interface NotionProject {
   client: string | null;
   status: string;
   tasks: string[];
+  projectLeads: string[]; // Membres "Chef de projet" (relation vers Utilisateurs)
 }
 
 export interface NotionClient {
@@ -103,5 +105,67 @@ export interface UpdateTaskInput {
   billedHours?: number;
   actualHours?: number;
   addToCalendar?: boolean;
+  googleEventId?: string | null;
   clientPlanning?: boolean;
 }
+
+export interface CreateProjectInput {
+  name: string;
+  clientId?: string;
+  status?: string; // Valeur de la select Notion (ex. "En cours")
+}
+
+export interface UpdateProjectInput {
+  name?: string;
+  clientId?: string | null;
+  status?: string;
+}
+
+export interface CreateClientInput {
+  name: string;
+}
+
+export interface UpdateClientInput {
+  name?: string;
+}
+
+export interface CreateTeamInput {
+  name: string;
+  memberIds?: string[];
+}
+
+export interface UpdateTeamInput {
+  name?: string;
+  memberIds?: string[];
+}
+
+export interface TaskSearchFilters {
+  q?: string; // Texte libre sur le titre et les notes
+  status?: 'not_started' | 'in_progress' | 'completed';
+  taskType?: 'task' | 'holiday' | 'school' | 'remote';
+  projectId?: string;
+  clientId?: string;
+  teamId?: string;
+  memberId?: string;
+  startDate?: Date; // Tâches qui chevauchent [startDate, endDate]
+  endDate?: Date;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface TaskSearchFacets {
+  status: Record<string, number>;
+  taskType: Record<string, number>;
+  project: Record<string, number>;
+  client: Record<string, number>;
+  team: Record<string, number>;
+  member: Record<string, number>;
+}
+
+export interface TaskSearchResult {
+  tasks: NotionTask[];
+  total: number;
+  facets: TaskSearchFacets;
+  nextCursor: string | null;
+  hasMore: boolean;
+}
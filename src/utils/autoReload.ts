@@ -0,0 +1,48 @@
+import logger from '../config/logger.config';
+
+export interface AutoReloadOptions {
+  /** Nom de la configuration, utilisé dans les logs */
+  name: string;
+  /** Indique si la configuration a changé depuis le dernier chargement (autres instances) */
+  hasChanged: () => Promise<boolean>;
+  reload: () => Promise<void>;
+}
+
+/**
+ * Rechargement périodique d'une configuration gardée en mémoire par un service
+ */
+export class AutoReloader {
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly options: AutoReloadOptions) {}
+
+  /**
+   * Recharge uniquement si la configuration a changé
+   */
+  async reloadIfChanged(): Promise<boolean> {
+    try {
+      if (await this.options.hasChanged()) {
+        await this.options.reload();
+        return true;
+      }
+    } catch (error) {
+      logger.warn(`Failed to check ${this.options.name} version`, { error });
+    }
+    return false;
+  }
+
+  start(intervalMs = 60000): void {
+    this.stop();
+    this.timer = setInterval(() => {
+      this.reloadIfChanged().catch(() => undefined);
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,20 @@
+import { format } from 'date-fns';
+import { NotionTask } from '../types/notion.types';
+
+/**
+ * Last instant occupied by a task, null without start date.
+ * Une tâche horaire qui finit pile à minuit n'occupe pas le jour suivant :
+ * sa fin est ramenée à la veille (23:59:59.999).
+ */
+export function getTaskLastDay(task: Pick<NotionTask, 'workPeriod' | 'isAllDay'>): Date | null {
+  if (!task.workPeriod?.startDate) {
+    return null;
+  }
+
+  const start = new Date(task.workPeriod.startDate);
+  const end = task.workPeriod.endDate ? new Date(task.workPeriod.endDate) : start;
+
+  return !task.isAllDay && end > start && format(end, 'HH:mm:ss') === '00:00:00'
+    ? new Date(end.getTime() - 1)
+    : end;
+}
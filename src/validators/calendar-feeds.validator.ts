@@ -0,0 +1,15 @@
+import { z } from "zod";
+
+/**
+ * Validation schema for calendar feed creation
+ */
+export const createCalendarFeedSchema = z.object({
+  scope: z.enum(['member', 'team', 'project']),
+  targetId: z.string().min(1, "targetId is required"),
+  label: z.string().trim().max(100).optional()
+});
+
+/**
+ * Type exports for TypeScript
+ */
+export type CreateCalendarFeedInput = z.infer<typeof createCalendarFeedSchema>;
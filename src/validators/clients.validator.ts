@@ -0,0 +1,21 @@
+import { z } from "zod";
+
+/**
+ * Validation schema for creating a client
+ */
+export const createClientSchema = z.object({
+  name: z.string().trim().min(1, "Client name is required").max(200)
+});
+
+/**
+ * Validation schema for updating a client
+ */
+export const updateClientSchema = z.object({
+  name: z.string().trim().min(1, "Client name is required").max(200)
+});
+
+/**
+ * Type exports for TypeScript
+ */
+export type CreateClientRequest = z.infer<typeof createClientSchema>;
+export type UpdateClientRequest = z.infer<typeof updateClientSchema>;
@@ -0,0 +1,61 @@
+import { z } from "zod";
+import { parseISO, isValid, differenceInCalendarDays } from "date-fns";
+import { SCHEDULING_CONFLICT_TYPES } from "../models/TaskSchedulingConflict.model";
+
+const MAX_DRY_RUN_RANGE_DAYS = 93;
+
+const isoDay = (field: string) => z.string().regex(/^\d{4}-\d{2}-\d{2}$/, `Invalid ${field} format. Use YYYY-MM-DD`)
+  .refine((date) => isValid(parseISO(date)), `Invalid ${field}`);
+
+const taskType = z.enum(['task', 'holiday', 'school', 'remote']);
+
+/**
+ * Validation schema for a conflict rule
+ */
+export const conflictRuleSchema = z.object({
+  description: z.string().trim().max(300).optional(),
+  conflictTypes: z.array(z.enum(SCHEDULING_CONFLICT_TYPES)).default([]),
+  taskTypes: z.array(taskType).default([]),
+  otherTaskTypes: z.array(taskType).default([]),
+  teams: z.array(z.string().min(1)).default([]),
+  enabled: z.boolean().default(true),
+  severity: z.enum(['low', 'medium', 'high']).nullable().default(null),
+  minOverlapMinutes: z.number().int().min(0).nullable().default(null),
+  overloadToleranceHours: z.number().min(0).max(24).nullable().default(null)
+});
+
+/**
+ * Validation schema for creating a conflict rule set (draft)
+ */
+export const createConflictRuleSetSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  description: z.string().trim().max(500).optional(),
+  rules: z.array(conflictRuleSchema).max(100).optional()
+});
+
+/**
+ * Validation schema for updating a draft conflict rule set
+ */
+export const updateConflictRuleSetSchema = createConflictRuleSetSchema.partial()
+  .refine((data) => Object.keys(data).length > 0, "At least one field is required");
+
+/**
+ * Validation schema for a rule set dry run
+ */
+export const conflictRulesDryRunSchema = z.object({
+  startDate: isoDay('startDate'),
+  endDate: isoDay('endDate')
+})
+  .refine((data) => data.startDate <= data.endDate, "startDate must be before endDate")
+  .refine(
+    (data) => differenceInCalendarDays(parseISO(data.endDate), parseISO(data.startDate)) < MAX_DRY_RUN_RANGE_DAYS,
+    `Date range cannot exceed ${MAX_DRY_RUN_RANGE_DAYS} days`
+  );
+
+/**
+ * Type exports for TypeScript
+ */
+export type ConflictRuleInput = z.infer<typeof conflictRuleSchema>;
+export type CreateConflictRuleSetInput = z.infer<typeof createConflictRuleSetSchema>;
+export type UpdateConflictRuleSetInput = z.infer<typeof updateConflictRuleSetSchema>;
+export type ConflictRulesDryRunInput = z.infer<typeof conflictRulesDryRunSchema>;
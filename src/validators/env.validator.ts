@@ -13,6 +13,7 @@ export const envSchema = z.object({
   FRONTEND_URL: z.string().url().default('http://localhost:5173'),
   LOG_LEVEL: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
   API_BASE_URL: z.string().url().optional(),
+  HOLIDAYS_ZONE: z.enum(['metropole', 'alsace-moselle']).optional(),
 });
 
 /**
@@ -0,0 +1,49 @@
+import { z } from "zod";
+import { parseISO, isValid } from "date-fns";
+import { HOLIDAY_ZONES, MIN_HOLIDAY_YEAR, MAX_HOLIDAY_YEAR } from "../services/holidays.service";
+
+const isoDay = (field: string) => z.string().regex(/^\d{4}-\d{2}-\d{2}$/, `Invalid ${field} format. Use YYYY-MM-DD`)
+  .refine((date) => isValid(parseISO(date)), `Invalid ${field}`);
+
+const year = z.coerce.number().int().min(MIN_HOLIDAY_YEAR).max(MAX_HOLIDAY_YEAR);
+
+/**
+ * Validation schema for public holidays query params
+ */
+export const holidaysQuerySchema = z.object({
+  zone: z.enum(HOLIDAY_ZONES as [string, ...string[]]).optional()
+});
+
+/**
+ * Validation schema for listing company closures
+ */
+export const closuresQuerySchema = z.object({
+  year: year.optional()
+});
+
+/**
+ * Validation schema for creating a company closure
+ */
+export const createClosureSchema = z.object({
+  label: z.string().trim().min(1, "Label is required").max(200),
+  startDate: isoDay('startDate'),
+  endDate: isoDay('endDate')
+}).refine((data) => data.startDate <= data.endDate, "startDate must be before endDate");
+
+/**
+ * Validation schema for updating a company closure
+ */
+export const updateClosureSchema = z.object({
+  label: z.string().trim().min(1, "Label is required").max(200),
+  startDate: isoDay('startDate'),
+  endDate: isoDay('endDate')
+}).partial()
+  .refine((data) => Object.keys(data).length > 0, "At least one closure field is required");
+
+/**
+ * Type exports for TypeScript
+ */
+export type HolidaysQueryInput = z.infer<typeof holidaysQuerySchema>;
+export type ClosuresQueryInput = z.infer<typeof closuresQuerySchema>;
+export type CreateClosureInput = z.infer<typeof createClosureSchema>;
+export type UpdateClosureInput = z.infer<typeof updateClosureSchema>;
@@ -0,0 +1,15 @@
+import { z } from "zod";
+
+export const MAX_MEMBER_DETAIL_WEEKS = 12;
+
+/**
+ * Validation schema for the member detail query params
+ */
+export const memberDetailQuerySchema = z.object({
+  weeks: z.coerce.number().int().min(1).max(MAX_MEMBER_DETAIL_WEEKS).default(4)
+});
+
+/**
+ * Type exports for TypeScript
+ */
+export type MemberDetailQueryInput = z.infer<typeof memberDetailQuerySchema>;
@@ -0,0 +1,37 @@
+import { z } from "zod";
+
+/**
+ * Validation schema for the project retroplanning query params
+ */
+export const retroplanningQuerySchema = z.object({
+  format: z.enum(['json', 'html']).default('json'),
+  download: z.enum(['true', 'false']).default('false').transform((value) => value === 'true')
+});
+
+/**
+ * Validation schema for creating a project
+ */
+export const createProjectSchema = z.object({
+  name: z.string().trim().min(1, "Project name is required").max(200),
+  clientId: z.string().min(1).optional(),
+  status: z.string().trim().min(1).max(100).optional()
+});
+
+/**
+ * Validation schema for updating a project (clientId: null removes the client)
+ */
+export const updateProjectSchema = z.object({
+  name: z.string().trim().min(1).max(200).optional(),
+  clientId: z.string().min(1).nullable().optional(),
+  status: z.string().trim().min(1).max(100).optional()
+}).refine(
+  (data) => Object.keys(data).length > 0,
+  { message: "At least one field must be provided" }
+);
+
+/**
+ * Type exports for TypeScript
+ */
+export type RetroplanningQueryInput = z.infer<typeof retroplanningQuerySchema>;
+export type CreateProjectRequest = z.infer<typeof createProjectSchema>;
+export type UpdateProjectRequest = z.infer<typeof updateProjectSchema>;
@@ -0,0 +1,31 @@
+import { z } from "zod";
+import { parseISO, isValid, differenceInCalendarDays } from "date-fns";
+
+const MAX_REPORT_RANGE_DAYS = 366;
+
+const isoDay = (field: string) => z.string().regex(/^\d{4}-\d{2}-\d{2}$/, `Invalid ${field} format. Use YYYY-MM-DD`)
+  .refine((date) => isValid(parseISO(date)), `Invalid ${field}`);
+
+/**
+ * Validation schema for the hours report query params
+ */
+export const hoursReportQuerySchema = z.object({
+  startDate: isoDay('startDate'),
+  endDate: isoDay('endDate'),
+  groupBy: z.enum(['project', 'client', 'team', 'member']).default('project'),
+  projectId: z.string().optional(),
+  clientId: z.string().optional(),
+  teamId: z.string().optional(),
+  memberId: z.string().optional(),
+  format: z.enum(['json', 'csv', 'xlsx']).default('json')
+})
+  .refine((data) => data.startDate <= data.endDate, "startDate must be before endDate")
+  .refine(
+    (data) => differenceInCalendarDays(parseISO(data.endDate), parseISO(data.startDate)) < MAX_REPORT_RANGE_DAYS,
+    `Date range cannot exceed ${MAX_REPORT_RANGE_DAYS} days`
+  );
+
+/**
+ * Type exports for TypeScript
+ */
+export type HoursReportQueryInput = z.infer<typeof hoursReportQuerySchema>;
@@ -74,10 +74,57 @@ export const batchUpdateSchema = z.object({
   }))
 });
 
+/**
+ * Validation schema for task search query params
+ */
+export const taskSearchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200).optional(),
+  status: z.enum(['not_started', 'in_progress', 'completed']).optional(),
+  taskType: z.enum(['task', 'holiday', 'school', 'remote']).optional(),
+  projectId: z.string().optional(),
+  clientId: z.string().optional(),
+  teamId: z.string().optional(),
+  memberId: z.string().optional(),
+  startDate: z.string().refine((date) => {
+    const parsed = parseISO(date);
+    return isValid(parsed);
+  }, "Invalid startDate format. Use ISO 8601 format (YYYY-MM-DD)").optional(),
+  endDate: z.string().refine((date) => {
+    const parsed = parseISO(date);
+    return isValid(parsed);
+  }, "Invalid endDate format. Use ISO 8601 format (YYYY-MM-DD)").optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  cursor: z.string().optional()
+});
+
+/**
+ * Validation schema for the unplanned tasks backlog query params
+ */
+export const unplannedTasksQuerySchema = z.object({
+  sortBy: z.enum(['createdAt', 'project']).default('createdAt'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  teamId: z.string().optional()
+});
+
+/**
+ * Validation schema for a decision on a scheduling conflict
+ */
+export const conflictDecisionSchema = z.object({
+  fingerprint: z.string().min(1, "Conflict fingerprint is required"),
+  decision: z.enum(['acknowledged', 'ignored', 'reopened']),
+  reason: z.string().trim().max(500).optional()
+}).refine(
+  (data) => data.decision !== 'ignored' || !!data.reason,
+  { message: "A reason is required to ignore a conflict", path: ['reason'] }
+);
+
 /**
  * Type exports for TypeScript
  */
 export type CalendarQueryInput = z.infer<typeof calendarQuerySchema>;
 export type CreateTaskInput = z.infer<typeof createTaskSchema>;
 export type UpdateTaskInput = z.infer<typeof updateTaskSchema>;
-export type BatchUpdateInput = z.infer<typeof batchUpdateSchema>;
\ No newline at end of file
+export type BatchUpdateInput = z.infer<typeof batchUpdateSchema>;
+export type TaskSearchQueryInput = z.infer<typeof taskSearchQuerySchema>;
+export type UnplannedTasksQueryInput = z.infer<typeof unplannedTasksQuerySchema>;
+export type ConflictDecisionInput = z.infer<typeof conflictDecisionSchema>;
@@ -0,0 +1,26 @@
+import { z } from "zod";
+
+/**
+ * Validation schema for creating a team
+ */
+export const createTeamSchema = z.object({
+  name: z.string().trim().min(1, "Team name is required").max(200),
+  memberIds: z.array(z.string().min(1)).optional()
+});
+
+/**
+ * Validation schema for updating a team (memberIds replaces the whole member list)
+ */
+export const updateTeamSchema = z.object({
+  name: z.string().trim().min(1).max(200).optional(),
+  memberIds: z.array(z.string().min(1)).optional()
+}).refine(
+  (data) => Object.keys(data).length > 0,
+  { message: "At least one field must be provided" }
+);
+
+/**
+ * Type exports for TypeScript
+ */
+export type CreateTeamRequest = z.infer<typeof createTeamSchema>;
+export type UpdateTeamRequest = z.infer<typeof updateTeamSchema>;
@@ -0,0 +1,63 @@
+import { z } from "zod";
+import { parseISO, isValid, differenceInCalendarDays } from "date-fns";
+
+const MAX_WORKLOAD_RANGE_DAYS = 366;
+
+const isoDay = (field: string) => z.string().regex(/^\d{4}-\d{2}-\d{2}$/, `Invalid ${field} format. Use YYYY-MM-DD`)
+  .refine((date) => isValid(parseISO(date)), `Invalid ${field}`);
+
+const time = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Invalid time format. Use HH:mm");
+
+const scheduleFields = {
+  workingDays: z.array(z.number().int().min(1).max(7)).max(7)
+    .refine((days) => new Set(days).size === days.length, "Working days must be unique"),
+  dailyHours: z.number().min(0).max(24),
+  partTimePercentage: z.number().min(0).max(100),
+  startTime: time,
+  endTime: time,
+  effectiveFrom: isoDay('effectiveFrom').nullable(),
+  effectiveTo: isoDay('effectiveTo').nullable()
+};
+
+/**
+ * Validation schema for workload query params
+ */
+export const workloadQuerySchema = z.object({
+  startDate: isoDay('startDate'),
+  endDate: isoDay('endDate')
+})
+  .refine((data) => data.startDate <= data.endDate, "startDate must be before endDate")
+  .refine(
+    (data) => differenceInCalendarDays(parseISO(data.endDate), parseISO(data.startDate)) < MAX_WORKLOAD_RANGE_DAYS,
+    `Date range cannot exceed ${MAX_WORKLOAD_RANGE_DAYS} days`
+  );
+
+/**
+ * Validation schema for a member capacity update
+ */
+export const memberCapacitySchema = z.object({
+  workingDays: scheduleFields.workingDays.optional(),
+  dailyHours: scheduleFields.dailyHours.optional(),
+  partTimePercentage: scheduleFields.partTimePercentage.optional()
+}).refine((data) => Object.keys(data).length > 0, "At least one capacity setting is required");
+
+/**
+ * Validation schema for creating a member schedule (admin)
+ */
+export const createMemberScheduleSchema = z.object(scheduleFields).partial().extend({
+  memberId: z.string().min(1, "Member ID is required")
+});
+
+/**
+ * Validation schema for updating a member schedule (admin)
+ */
+export const updateMemberScheduleSchema = z.object(scheduleFields).partial()
+  .refine((data) => Object.keys(data).length > 0, "At least one schedule setting is required");
+
+/**
+ * Type exports for TypeScript
+ */
+export type WorkloadQueryInput = z.infer<typeof workloadQuerySchema>;
+export type MemberCapacityInput = z.infer<typeof memberCapacitySchema>;
+export type CreateMemberScheduleInput = z.infer<typeof createMemberScheduleSchema>;
+export type UpdateMemberScheduleInput = z.infer<typeof updateMemberScheduleSchema>;
@@ -0,0 +1,32 @@
+/**
+ * Fabrique de tâches Notion pour les tests unitaires
+ */
+
+type TaskDate = Date | string | null;
+type TaskOverrides = Record<string, any>;
+
+/**
+ * Tâche horaire sans projet ni assigné, le titre reprend l'ID
+ */
+export const makeTask = (id: string, start: TaskDate, end: TaskDate, overrides: TaskOverrides = {}): any => ({
+  id,
+  title: id,
+  taskType: 'task',
+  status: 'Pas commencé',
+  isAllDay: false,
+  projectId: null,
+  teams: [],
+  assignedMembers: [],
+  notes: '',
+  billedHours: null,
+  actualHours: null,
+  workPeriod: { startDate: start, endDate: end },
+  ...overrides,
+});
+
+/**
+ * makeTask avec les valeurs par défaut propres à une suite de tests
+ */
+export const taskFactory = (defaults: TaskOverrides) =>
+  (id: string, start: TaskDate, end: TaskDate, overrides: TaskOverrides = {}): any =>
+    makeTask(id, start, end, { ...defaults, ...overrides });
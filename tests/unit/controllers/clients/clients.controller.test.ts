@@ -0,0 +1,106 @@
+import { Request, Response, NextFunction } from 'express';
+
+const mockEntityService = {
+  createClient: jest.fn(),
+  updateClient: jest.fn(),
+  archiveClient: jest.fn(),
+};
+
+const mockSyncQueueService = {
+  queueEntityCreate: jest.fn(),
+  queueEntityUpdate: jest.fn(),
+  queueEntityArchive: jest.fn(),
+};
+
+const mockTempIdRegistryService = {
+  resolveId: jest.fn(),
+  isTempId: jest.fn(),
+};
+
+jest.mock('../../../../src/services/notion/entity.service', () => ({
+  entityService: mockEntityService
+}));
+
+jest.mock('../../../../src/services/sync-queue.service', () => ({
+  syncQueueService: mockSyncQueueService
+}));
+
+jest.mock('../../../../src/services/temp-id-registry.service', () => ({
+  tempIdRegistryService: mockTempIdRegistryService
+}));
+
+jest.mock('../../../../src/models/Config.model', () => ({ ConfigModel: {} }));
+jest.mock('../../../../src/services/client-overview.service', () => ({
+  clientOverviewService: {},
+  CLIENT_OVERVIEW_MONTHS: 12
+}));
+
+import clientsController from '../../../../src/controllers/clients/clients.controller';
+
+describe('ClientsController writes', () => {
+  let mockResponse: Partial<Response>;
+  let mockNext: NextFunction;
+
+  const makeRequest = (overrides: Record<string, any> = {}): Request => ({
+    params: {},
+    query: {},
+    body: {},
+    ...overrides,
+  } as unknown as Request);
+
+  beforeEach(() => {
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    };
+    mockNext = jest.fn();
+    mockTempIdRegistryService.resolveId.mockImplementation(async (id: string) => id === 'temp_1_abc' ? 'notion-c1' : id);
+    mockTempIdRegistryService.isTempId.mockImplementation((id: string) => id.startsWith('temp_'));
+    mockSyncQueueService.queueEntityCreate.mockResolvedValue({ id: 'temp_2_def' });
+  });
+
+  it('should reject a client without name', async () => {
+    await clientsController.updateClient(makeRequest({ params: { id: 'c1' }, body: {} }), mockResponse as Response, mockNext);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(400);
+    expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ success: false, error: 'Invalid request data' }));
+    expect(mockEntityService.updateClient).not.toHaveBeenCalled();
+  });
+
+  it('should queue the creation with ?async=true', async () => {
+    await clientsController.createClient(
+      makeRequest({ query: { async: 'true' }, body: { name: 'Acme' } }),
+      mockResponse as Response,
+      mockNext
+    );
+
+    expect(mockSyncQueueService.queueEntityCreate).toHaveBeenCalledWith('client', { name: 'Acme' });
+    expect(mockResponse.status).toHaveBeenCalledWith(201);
+    expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({
+      data: { id: 'temp_2_def', name: 'Acme', _temporary: true, _pendingSync: true },
+      meta: { mode: 'async', tempId: 'temp_2_def' }
+    }));
+  });
+
+  it('should archive the Notion page of a temporary ID already synced', async () => {
+    await clientsController.archiveClient(makeRequest({ params: { id: 'temp_1_abc' } }), mockResponse as Response, mockNext);
+
+    expect(mockEntityService.archiveClient).toHaveBeenCalledWith('notion-c1');
+    expect(mockSyncQueueService.queueEntityArchive).not.toHaveBeenCalled();
+    expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ meta: { mode: 'sync' } }));
+  });
+
+  it('should queue the update of a client whose creation is still pending', async () => {
+    await clientsController.updateClient(
+      makeRequest({ params: { id: 'temp_3_ghi' }, body: { name: 'Acme' } }),
+      mockResponse as Response,
+      mockNext
+    );
+
+    expect(mockSyncQueueService.queueEntityUpdate).toHaveBeenCalledWith('client', 'temp_3_ghi', { name: 'Acme' });
+    expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({
+      data: { id: 'temp_3_ghi', name: 'Acme', _pendingSync: true },
+      meta: { mode: 'async' }
+    }));
+  });
+});
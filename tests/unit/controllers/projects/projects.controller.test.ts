@@ -0,0 +1,134 @@
+import { Request, Response, NextFunction } from 'express';
+
+const mockEntityService = {
+  createProject: jest.fn(),
+  updateProject: jest.fn(),
+  archiveProject: jest.fn(),
+};
+
+const mockSyncQueueService = {
+  queueEntityCreate: jest.fn(),
+  queueEntityUpdate: jest.fn(),
+  queueEntityArchive: jest.fn(),
+};
+
+const mockTempIdRegistryService = {
+  resolveId: jest.fn(),
+  isTempId: jest.fn(),
+};
+
+jest.mock('../../../../src/services/notion/entity.service', () => ({
+  entityService: mockEntityService
+}));
+
+jest.mock('../../../../src/services/sync-queue.service', () => ({
+  syncQueueService: mockSyncQueueService
+}));
+
+jest.mock('../../../../src/services/temp-id-registry.service', () => ({
+  tempIdRegistryService: mockTempIdRegistryService
+}));
+
+jest.mock('../../../../src/services/retroplanning.service', () => ({ retroplanningService: {} }));
+jest.mock('../../../../src/services/retroplanning-export.service', () => ({ retroplanningExportService: {} }));
+jest.mock('../../../../src/services/project-detail.service', () => ({ projectDetailService: {} }));
+
+import projectsController from '../../../../src/controllers/projects/projects.controller';
+
+describe('ProjectsController writes', () => {
+  let mockResponse: Partial<Response>;
+  let mockNext: NextFunction;
+
+  const makeRequest = (overrides: Record<string, any> = {}): Request => ({
+    params: {},
+    query: {},
+    body: {},
+    ...overrides,
+  } as unknown as Request);
+
+  beforeEach(() => {
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    };
+    mockNext = jest.fn();
+    mockTempIdRegistryService.resolveId.mockImplementation(async (id: string) => id === 'temp_1_abc' ? 'notion-p1' : id);
+    mockTempIdRegistryService.isTempId.mockImplementation((id: string) => id.startsWith('temp_'));
+    mockSyncQueueService.queueEntityCreate.mockResolvedValue({ id: 'temp_2_def' });
+    mockEntityService.createProject.mockResolvedValue({ id: 'notion-p2', name: 'Refonte' });
+    mockEntityService.updateProject.mockImplementation(async (id: string, input: any) => ({ id, ...input }));
+  });
+
+  it('should reject an invalid project with the validation details', async () => {
+    await projectsController.createProject(makeRequest({ body: { name: '  ' } }), mockResponse as Response, mockNext);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(400);
+    expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({
+      success: false,
+      error: 'Invalid request data',
+      details: expect.any(Array)
+    }));
+    expect(mockEntityService.createProject).not.toHaveBeenCalled();
+  });
+
+  it('should queue the creation with ?async=true and answer with the temporary ID', async () => {
+    await projectsController.createProject(
+      makeRequest({ query: { async: 'true' }, body: { name: 'Refonte' } }),
+      mockResponse as Response,
+      mockNext
+    );
+
+    expect(mockSyncQueueService.queueEntityCreate).toHaveBeenCalledWith('project', { name: 'Refonte' });
+    expect(mockEntityService.createProject).not.toHaveBeenCalled();
+    expect(mockResponse.status).toHaveBeenCalledWith(201);
+    expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({
+      data: { id: 'temp_2_def', name: 'Refonte', _temporary: true, _pendingSync: true },
+      meta: { mode: 'async', tempId: 'temp_2_def' }
+    }));
+  });
+
+  it('should create the project synchronously by default', async () => {
+    await projectsController.createProject(makeRequest({ body: { name: 'Refonte' } }), mockResponse as Response, mockNext);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(201);
+    expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({
+      data: { id: 'notion-p2', name: 'Refonte' },
+      meta: { mode: 'sync' }
+    }));
+  });
+
+  it('should update the Notion page of a temporary ID already synced', async () => {
+    await projectsController.updateProject(
+      makeRequest({ params: { id: 'temp_1_abc' }, body: { status: 'En cours' } }),
+      mockResponse as Response,
+      mockNext
+    );
+
+    expect(mockEntityService.updateProject).toHaveBeenCalledWith('notion-p1', { status: 'En cours' });
+    expect(mockSyncQueueService.queueEntityUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should queue writes on a project whose creation is still pending', async () => {
+    await projectsController.archiveProject(makeRequest({ params: { id: 'temp_3_ghi' } }), mockResponse as Response, mockNext);
+
+    expect(mockSyncQueueService.queueEntityArchive).toHaveBeenCalledWith('project', 'temp_3_ghi');
+    expect(mockEntityService.archiveProject).not.toHaveBeenCalled();
+    expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({
+      message: 'Project archive queued',
+      meta: { mode: 'async' }
+    }));
+  });
+
+  it('should pass Notion errors to the error handler', async () => {
+    const error = new Error('Notion unavailable');
+    mockEntityService.updateProject.mockRejectedValue(error);
+
+    await projectsController.updateProject(
+      makeRequest({ params: { id: 'p1' }, body: { name: 'Refonte' } }),
+      mockResponse as Response,
+      mockNext
+    );
+
+    expect(mockNext).toHaveBeenCalledWith(error);
+  });
+});
@@ -0,0 +1,104 @@
+import { Request, Response } from 'express';
+import { TaskReadController } from '../../../../src/controllers/tasks/task-read.controller';
+
+// Mock all services
+jest.mock('../../../../src/services/notion.service', () => ({
+  __esModule: true,
+  default: {
+    getUnplannedTasks: jest.fn(),
+    batchResolveRelations: jest.fn(),
+  }
+}));
+
+jest.mock('../../../../src/services/tasks-conflict.service', () => ({
+  tasksConflictService: {}
+}));
+
+jest.mock('../../../../src/services/temp-id-registry.service', () => ({
+  tempIdRegistryService: {}
+}));
+
+jest.mock('../../../../src/services/sync-queue.service', () => ({
+  __esModule: true,
+  default: {}
+}));
+
+// Import mocked services
+import notionService from '../../../../src/services/notion.service';
+
+const backlog = [
+  { id: 't1', projectId: 'p2', createdAt: '2025-03-01T10:00:00.000Z', projectData: { id: 'p2', name: 'Site web' }, involvedTeamIds: ['team-dev'] },
+  { id: 't2', projectId: null, createdAt: '2025-03-03T10:00:00.000Z', projectData: null, involvedTeamIds: ['team-crea'] },
+  { id: 't3', projectId: 'p1', createdAt: '2025-03-02T10:00:00.000Z', projectData: { id: 'p1', name: 'Logo' }, involvedTeamIds: ['team-crea', 'team-dev'] },
+];
+
+describe('TaskReadController', () => {
+  let controller: TaskReadController;
+  let mockResponse: Partial<Response>;
+  let mockJson: jest.Mock;
+  let mockStatus: jest.Mock;
+
+  const request = (query: Record<string, string> = {}) => ({ query } as unknown as Request);
+  const returnedIds = () => mockJson.mock.calls[0][0].data.tasks.map((task: any) => task.id);
+
+  beforeEach(() => {
+    controller = new TaskReadController();
+
+    mockJson = jest.fn();
+    mockStatus = jest.fn().mockReturnValue({ json: mockJson });
+    mockResponse = { status: mockStatus, json: mockJson };
+
+    (notionService.getUnplannedTasks as jest.Mock).mockResolvedValue(backlog.map(({ projectData, involvedTeamIds, ...task }) => task));
+    (notionService.batchResolveRelations as jest.Mock).mockResolvedValue({
+      resolvedTasks: backlog.map(task => ({ ...task }))
+    });
+
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getUnplannedTasks', () => {
+    it('should return the resolved backlog, newest first by default', async () => {
+      await controller.getUnplannedTasks(request(), mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(200);
+      expect(returnedIds()).toEqual(['t2', 't3', 't1']);
+      expect(notionService.batchResolveRelations).toHaveBeenCalledWith({
+        tasks: expect.arrayContaining([expect.objectContaining({ id: 't1' })])
+      });
+    });
+
+    it('should sort by project name with tasks without project last', async () => {
+      await controller.getUnplannedTasks(request({ sortBy: 'project', order: 'asc' }), mockResponse as Response);
+
+      expect(returnedIds()).toEqual(['t3', 't1', 't2']);
+    });
+
+    it('should filter by team through direct or member relations', async () => {
+      await controller.getUnplannedTasks(request({ teamId: 'team-dev' }), mockResponse as Response);
+
+      const body = mockJson.mock.calls[0][0];
+      expect(returnedIds()).toEqual(['t3', 't1']);
+      expect(body.data.count).toBe(2);
+      expect(body.meta.total).toBe(3);
+    });
+
+    it('should reject an unknown sort field', async () => {
+      await controller.getUnplannedTasks(request({ sortBy: 'title' }), mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(400);
+      expect(notionService.getUnplannedTasks).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 when Notion fails', async () => {
+      (notionService.getUnplannedTasks as jest.Mock).mockRejectedValue(new Error('Notion down'));
+
+      await controller.getUnplannedTasks(request(), mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(500);
+    });
+  });
+});
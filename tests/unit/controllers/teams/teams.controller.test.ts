@@ -0,0 +1,103 @@
+import { Request, Response, NextFunction } from 'express';
+
+const mockEntityService = {
+  createTeam: jest.fn(),
+  updateTeam: jest.fn(),
+  archiveTeam: jest.fn(),
+};
+
+const mockSyncQueueService = {
+  queueEntityCreate: jest.fn(),
+  queueEntityUpdate: jest.fn(),
+  queueEntityArchive: jest.fn(),
+};
+
+const mockTempIdRegistryService = {
+  resolveId: jest.fn(),
+  isTempId: jest.fn(),
+};
+
+jest.mock('../../../../src/services/notion/entity.service', () => ({
+  entityService: mockEntityService
+}));
+
+jest.mock('../../../../src/services/sync-queue.service', () => ({
+  syncQueueService: mockSyncQueueService
+}));
+
+jest.mock('../../../../src/services/temp-id-registry.service', () => ({
+  tempIdRegistryService: mockTempIdRegistryService
+}));
+
+jest.mock('../../../../src/services/workload.service', () => ({ workloadService: {} }));
+
+import teamsController from '../../../../src/controllers/teams/teams.controller';
+
+describe('TeamsController writes', () => {
+  let mockResponse: Partial<Response>;
+  let mockNext: NextFunction;
+
+  const makeRequest = (overrides: Record<string, any> = {}): Request => ({
+    params: {},
+    query: {},
+    body: {},
+    ...overrides,
+  } as unknown as Request);
+
+  beforeEach(() => {
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    };
+    mockNext = jest.fn();
+    mockTempIdRegistryService.resolveId.mockImplementation(async (id: string) => id === 'temp_1_abc' ? 'notion-t1' : id);
+    mockTempIdRegistryService.isTempId.mockImplementation((id: string) => id.startsWith('temp_'));
+    mockSyncQueueService.queueEntityCreate.mockResolvedValue({ id: 'temp_2_def' });
+    mockEntityService.createTeam.mockResolvedValue({ id: 'notion-t2', name: 'Dev', members: [] });
+    mockEntityService.updateTeam.mockImplementation(async (id: string, input: any) => ({ id, ...input }));
+  });
+
+  it('should reject an update without any field', async () => {
+    await teamsController.updateTeam(makeRequest({ params: { id: 't1' }, body: {} }), mockResponse as Response, mockNext);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(400);
+    expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ success: false, error: 'Invalid request data' }));
+  });
+
+  it('should queue the creation with ?async=true', async () => {
+    await teamsController.createTeam(
+      makeRequest({ query: { async: 'true' }, body: { name: 'Dev', memberIds: ['m1'] } }),
+      mockResponse as Response,
+      mockNext
+    );
+
+    expect(mockSyncQueueService.queueEntityCreate).toHaveBeenCalledWith('team', { name: 'Dev', memberIds: ['m1'] });
+    expect(mockEntityService.createTeam).not.toHaveBeenCalled();
+    expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ meta: { mode: 'async', tempId: 'temp_2_def' } }));
+  });
+
+  it('should update the Notion page of a temporary ID already synced', async () => {
+    await teamsController.updateTeam(
+      makeRequest({ params: { id: 'temp_1_abc' }, body: { memberIds: ['m1', 'm2'] } }),
+      mockResponse as Response,
+      mockNext
+    );
+
+    expect(mockEntityService.updateTeam).toHaveBeenCalledWith('notion-t1', { memberIds: ['m1', 'm2'] });
+    expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({
+      data: { id: 'notion-t1', memberIds: ['m1', 'm2'] },
+      meta: { mode: 'sync' }
+    }));
+  });
+
+  it('should queue the archive with ?async=true', async () => {
+    await teamsController.archiveTeam(
+      makeRequest({ params: { id: 't1' }, query: { async: 'true' } }),
+      mockResponse as Response,
+      mockNext
+    );
+
+    expect(mockSyncQueueService.queueEntityArchive).toHaveBeenCalledWith('team', 't1');
+    expect(mockEntityService.archiveTeam).not.toHaveBeenCalled();
+  });
+});
@@ -19,10 +19,22 @@ jest.mock('../../../src/models/NotionConfig.model', () => ({
   NotionConfigModel: mockNotionConfig
 }));
 
+const mockWebhookEvent = {
+  findOneAndUpdate: jest.fn(),
+  findOne: jest.fn(),
+  updateOne: jest.fn(),
+  countDocuments: jest.fn(),
+  find: jest.fn(),
+};
+
 jest.mock('../../../src/models/SyncLog.model', () => ({
   SyncLogModel: mockSyncLog
 }));
 
+jest.mock('../../../src/models/WebhookEvent.model', () => ({
+  WebhookEventModel: mockWebhookEvent
+}));
+
 // Mock Redis service
 jest.mock('../../../src/services/redis.service', () => ({
   redisService: {
@@ -30,6 +42,16 @@ jest.mock('../../../src/services/redis.service', () => ({
   }
 }));
 
+// Mock task cache patch service
+const mockTaskCachePatchService = {
+  refreshTask: jest.fn(),
+  removeTask: jest.fn(),
+};
+
+jest.mock('../../../src/services/notion/task-cache-patch.service', () => ({
+  taskCachePatchService: mockTaskCachePatchService
+}));
+
 import { WebhookController } from '../../../src/controllers/webhook.controller';
 import { redisService } from '../../../src/services/redis.service';
 
@@ -59,6 +81,10 @@ describe('WebhookController', () => {
     jest.spyOn(console, 'log').mockImplementation(() => {});
     jest.spyOn(console, 'error').mockImplementation(() => {});
 
+    // First delivery of every event by default
+    mockWebhookEvent.findOneAndUpdate.mockResolvedValue(null);
+    mockWebhookEvent.updateOne.mockResolvedValue({});
+
     // Setup mock aggregation chains
     mockSyncLog.find.mockReturnValue({
       sort: jest.fn().mockReturnValue({
@@ -122,8 +148,16 @@ describe('WebhookController', () => {
       expect(redisService.invalidatePattern).not.toHaveBeenCalled();
     });
 
-    it('should process valid webhook and invalidate cache', async () => {
-      (redisService.invalidatePattern as jest.Mock).mockResolvedValue(undefined);
+    it('should process valid task webhook and patch the cached task', async () => {
+      const cachePatch = {
+        entityId: 'page-123',
+        action: 'upserted',
+        windowsScanned: 3,
+        windowsPatched: 2,
+        windowsLeft: 1,
+        indexUpdated: true
+      };
+      mockTaskCachePatchService.refreshTask.mockResolvedValue(cachePatch);
       mockSyncLog.create.mockResolvedValue({});
 
       await controller.handleNotionWebhook(mockRequest as Request, mockResponse as Response);
@@ -132,12 +166,11 @@ describe('WebhookController', () => {
       expect(mockStatus).toHaveBeenCalledWith(200);
       expect(mockJson).toHaveBeenCalledWith({ received: true });
 
-      // Should invalidate cache for Task entity (database-456 maps to traffic)
-      expect(redisService.invalidatePattern).toHaveBeenCalledWith('tasks:*');
-      expect(redisService.invalidatePattern).toHaveBeenCalledWith('tasks:calendar:*');
-      expect(redisService.invalidatePattern).toHaveBeenCalledWith('task:page-123');
+      // Task pages are patched, calendar windows are no longer wiped
+      expect(mockTaskCachePatchService.refreshTask).toHaveBeenCalledWith('page-123');
+      expect(redisService.invalidatePattern).not.toHaveBeenCalled();
 
-      // Should create sync log
+      // Should create sync log with the patch outcome
       expect(mockSyncLog.create).toHaveBeenCalledWith({
         entityType: 'Task',
         databaseId: 'database-456',
@@ -149,9 +182,49 @@ describe('WebhookController', () => {
         startTime: expect.any(Date),
         endTime: expect.any(Date),
         duration: expect.any(Number),
+        cachePatch,
       });
     });
 
+    it('should read the page ID from the entity of Notion events', async () => {
+      mockRequest.body = {
+        type: 'page.deleted',
+        entity: { id: 'page-999', type: 'page' },
+        data: { parent: { id: 'database-456' } }
+      };
+      mockTaskCachePatchService.removeTask.mockResolvedValue({
+        entityId: 'page-999',
+        action: 'removed',
+        windowsScanned: 2,
+        windowsPatched: 0,
+        windowsLeft: 2,
+        indexUpdated: true
+      });
+      mockSyncLog.create.mockResolvedValue({});
+
+      await controller.handleNotionWebhook(mockRequest as Request, mockResponse as Response);
+
+      expect(mockTaskCachePatchService.removeTask).toHaveBeenCalledWith('page-999');
+      expect(mockTaskCachePatchService.refreshTask).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to invalidation when the cache patch fails', async () => {
+      mockTaskCachePatchService.refreshTask.mockRejectedValue(new Error('Notion unavailable'));
+      (redisService.invalidatePattern as jest.Mock).mockResolvedValue(undefined);
+      mockSyncLog.create.mockResolvedValue({});
+
+      await controller.handleNotionWebhook(mockRequest as Request, mockResponse as Response);
+
+      expect(redisService.invalidatePattern).toHaveBeenCalledWith('tasks:calendar:*');
+      expect(redisService.invalidatePattern).toHaveBeenCalledWith('task:page-123');
+      expect(mockSyncLog.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          syncStatus: 'partial',
+          syncErrors: ['Notion unavailable']
+        })
+      );
+    });
+
     it('should handle webhook for different entity types', async () => {
       // Test Project entity
       mockRequest.body.data.parent.id = 'database-789';
@@ -205,6 +278,7 @@ describe('WebhookController', () => {
     });
 
     it('should handle cache invalidation errors gracefully', async () => {
+      mockRequest.body.data.parent.id = 'database-789';
       const cacheError = new Error('Redis connection failed');
       (redisService.invalidatePattern as jest.Mock).mockRejectedValue(cacheError);
       mockSyncLog.create.mockResolvedValue({});
@@ -248,12 +322,12 @@ describe('WebhookController', () => {
         }
       });
 
-      (redisService.invalidatePattern as jest.Mock).mockResolvedValue(undefined);
+      mockTaskCachePatchService.refreshTask.mockResolvedValue({ entityId: 'page-123', action: 'upserted' });
       mockSyncLog.create.mockResolvedValue({});
 
       await controller.handleNotionWebhook(mockRequest as Request, mockResponse as Response);
 
-      expect(redisService.invalidatePattern).toHaveBeenCalledWith('tasks:*');
+      expect(mockTaskCachePatchService.refreshTask).toHaveBeenCalledWith('page-123');
       expect(mockSyncLog.create).toHaveBeenCalledWith(
         expect.objectContaining({
           entityType: 'Task',
@@ -521,4 +595,116 @@ describe('WebhookController', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('webhook event deduplication', () => {
+    beforeEach(() => {
+      mockRequest = {
+        body: {
+          id: 'evt-001',
+          type: 'page.properties_updated',
+          entity: { id: 'page-123', type: 'page' },
+          data: { parent: { id: 'database-456' } }
+        },
+        headers: {}
+      };
+
+      mockNotionConfig.findOne.mockResolvedValue({
+        isActive: true,
+        databases: { traffic: { id: 'database-456' } }
+      });
+      mockTaskCachePatchService.refreshTask.mockResolvedValue({ entityId: 'page-123', action: 'upserted' });
+      mockSyncLog.create.mockResolvedValue({});
+    });
+
+    it('should store the delivery keyed on the Notion event ID', async () => {
+      await controller.handleNotionWebhook(mockRequest as Request, mockResponse as Response);
+
+      expect(mockWebhookEvent.findOneAndUpdate).toHaveBeenCalledWith(
+        { eventId: 'evt-001' },
+        expect.objectContaining({ $inc: { deliveries: 1 } }),
+        { upsert: true, new: false }
+      );
+      expect(mockSyncLog.create).toHaveBeenCalledWith(
+        expect.objectContaining({ webhookEventId: 'evt-001' })
+      );
+      expect(mockWebhookEvent.updateOne).toHaveBeenCalledWith(
+        { eventId: 'evt-001' },
+        expect.objectContaining({ $set: expect.objectContaining({ status: 'processed' }) })
+      );
+    });
+
+    it('should ignore a redelivered event that was already processed', async () => {
+      mockWebhookEvent.findOneAndUpdate.mockResolvedValue({ eventId: 'evt-001', status: 'processed' });
+
+      await controller.handleNotionWebhook(mockRequest as Request, mockResponse as Response);
+
+      expect(mockJson).toHaveBeenCalledWith({ received: true });
+      expect(mockTaskCachePatchService.refreshTask).not.toHaveBeenCalled();
+      expect(mockSyncLog.create).not.toHaveBeenCalled();
+    });
+
+    it('should reprocess a redelivered event that previously failed', async () => {
+      mockWebhookEvent.findOneAndUpdate.mockResolvedValue({ eventId: 'evt-001', status: 'failed' });
+
+      await controller.handleNotionWebhook(mockRequest as Request, mockResponse as Response);
+
+      expect(mockTaskCachePatchService.refreshTask).toHaveBeenCalledWith('page-123');
+    });
+
+    it('should use a payload fingerprint when Notion sends no event ID', async () => {
+      delete mockRequest.body.id;
+
+      await controller.handleNotionWebhook(mockRequest as Request, mockResponse as Response);
+
+      expect(mockWebhookEvent.findOneAndUpdate).toHaveBeenCalledWith(
+        { eventId: expect.stringMatching(/^sha256:[0-9a-f]{64}$/) },
+        expect.any(Object),
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe('replayWebhookEvent', () => {
+    it('should replay the stored payload against the handler', async () => {
+      mockRequest = { params: { eventId: 'evt-001' } };
+      mockWebhookEvent.findOneAndUpdate.mockResolvedValue({
+        eventId: 'evt-001',
+        replayCount: 2,
+        payload: {
+          id: 'evt-001',
+          type: 'page.properties_updated',
+          entity: { id: 'page-123' },
+          data: { parent: { id: 'database-456' } }
+        }
+      });
+      mockNotionConfig.findOne.mockResolvedValue({
+        isActive: true,
+        databases: { traffic: { id: 'database-456' } }
+      });
+      mockTaskCachePatchService.refreshTask.mockResolvedValue({ entityId: 'page-123', action: 'upserted' });
+      mockSyncLog.create.mockResolvedValue({});
+
+      await controller.replayWebhookEvent(mockRequest as Request, mockResponse as Response);
+
+      expect(mockTaskCachePatchService.refreshTask).toHaveBeenCalledWith('page-123');
+      expect(mockJson).toHaveBeenCalledWith({
+        success: true,
+        data: expect.objectContaining({
+          eventId: 'evt-001',
+          replayCount: 2,
+          status: 'processed',
+          entityType: 'Task'
+        })
+      });
+    });
+
+    it('should return 404 for an unknown event', async () => {
+      mockRequest = { params: { eventId: 'missing' } };
+      mockWebhookEvent.findOneAndUpdate.mockResolvedValue(null);
+
+      await controller.replayWebhookEvent(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(404);
+    });
+  });
+});
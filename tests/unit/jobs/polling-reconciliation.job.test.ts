@@ -0,0 +1,165 @@
+const mockSyncLogModel = {
+  isWebhookHealthy: jest.fn(),
+  findOne: jest.fn(),
+  create: jest.fn(),
+};
+
+const mockNotion = {
+  databases: { query: jest.fn() },
+};
+
+const mockRedisService = {
+  del: jest.fn(),
+  invalidatePattern: jest.fn(),
+};
+
+const mockTaskCachePatchService = {
+  applyTask: jest.fn(),
+  removeTask: jest.fn(),
+};
+
+jest.mock('../../../src/models/SyncLog.model', () => ({
+  SyncLogModel: mockSyncLogModel
+}));
+
+jest.mock('../../../src/config/notion.config', () => ({
+  notion: mockNotion,
+  DATABASES: { traffic: 'db-tasks', projects: 'db-projects', users: 'db-members', teams: 'db-teams', clients: 'db-clients' }
+}));
+
+jest.mock('../../../src/middleware/rate-limit.middleware', () => ({
+  notionRateLimiter: { scheduleLowPriority: (fn: () => Promise<any>) => fn() }
+}));
+
+jest.mock('../../../src/utils/retryWithBackoff', () => ({
+  retryWithBackoff: (fn: () => Promise<any>) => fn()
+}));
+
+jest.mock('../../../src/services/redis.service', () => ({
+  redisService: mockRedisService
+}));
+
+jest.mock('../../../src/services/notion/task-cache-patch.service', () => ({
+  taskCachePatchService: mockTaskCachePatchService
+}));
+
+jest.mock('../../../src/mappers/notion.mapper', () => ({
+  notionPageToTask: (page: any) => ({ id: page.id, title: page.id })
+}));
+
+import { pollingReconciliationJob } from '../../../src/jobs/polling-reconciliation.job';
+
+const lastLog = (log: any) => ({ sort: () => ({ lean: () => Promise.resolve(log) }) });
+
+describe('PollingReconciliationJob', () => {
+  const lastPollingUpdate = new Date('2025-03-03T10:00:00.000Z');
+
+  beforeEach(() => {
+    mockSyncLogModel.isWebhookHealthy.mockImplementation(async (entityType: string) => entityType !== 'Task');
+    mockSyncLogModel.findOne.mockImplementation((query: any) =>
+      lastLog(query.syncMethod === 'polling' ? { lastPollingUpdate } : null)
+    );
+    mockSyncLogModel.create.mockResolvedValue({});
+    mockNotion.databases.query.mockResolvedValue({ results: [], has_more: false, next_cursor: null });
+    mockTaskCachePatchService.applyTask.mockResolvedValue(undefined);
+    mockTaskCachePatchService.removeTask.mockResolvedValue(undefined);
+    mockRedisService.del.mockResolvedValue(undefined);
+    mockRedisService.invalidatePattern.mockResolvedValue(undefined);
+  });
+
+  it('should skip entity types whose webhook is healthy', async () => {
+    const results = await pollingReconciliationJob.runOnce();
+
+    expect(results.filter(result => result.skipped).map(result => result.entityType))
+      .toEqual(['Project', 'Member', 'Team', 'Client']);
+    expect(mockNotion.databases.query).toHaveBeenCalledTimes(1);
+    expect(mockNotion.databases.query).toHaveBeenCalledWith(expect.objectContaining({ database_id: 'db-tasks' }));
+  });
+
+  it('should poll every entity type when forced', async () => {
+    const results = await pollingReconciliationJob.runOnce({ force: true });
+
+    expect(results.every(result => !result.skipped)).toBe(true);
+    expect(mockNotion.databases.query).toHaveBeenCalledTimes(5);
+  });
+
+  it('should only fetch pages edited since the last poll, minus one minute', async () => {
+    mockNotion.databases.query
+      .mockResolvedValueOnce({ results: [{ id: 't1' }], has_more: true, next_cursor: 'cursor-2' })
+      .mockResolvedValueOnce({ results: [{ id: 't2', archived: true }], has_more: false, next_cursor: null });
+
+    const [result] = await pollingReconciliationJob.runOnce();
+
+    expect(mockNotion.databases.query).toHaveBeenNthCalledWith(1, expect.objectContaining({
+      filter: { timestamp: 'last_edited_time', last_edited_time: { on_or_after: '2025-03-03T09:59:00.000Z' } }
+    }));
+    expect(mockNotion.databases.query).toHaveBeenNthCalledWith(2, expect.objectContaining({ start_cursor: 'cursor-2' }));
+    expect(mockTaskCachePatchService.applyTask).toHaveBeenCalledWith({ id: 't1', title: 't1' });
+    expect(mockTaskCachePatchService.removeTask).toHaveBeenCalledWith('t2');
+    expect(result).toMatchObject({ entityType: 'Task', itemsProcessed: 2, itemsFailed: 0 });
+  });
+
+  it('should record each run in a polling SyncLog', async () => {
+    mockNotion.databases.query.mockResolvedValue({ results: [{ id: 't1' }], has_more: false, next_cursor: null });
+
+    await pollingReconciliationJob.runOnce();
+
+    expect(mockSyncLogModel.create).toHaveBeenCalledWith(expect.objectContaining({
+      entityType: 'Task',
+      databaseId: 'db-tasks',
+      syncMethod: 'polling',
+      syncStatus: 'success',
+      itemsProcessed: 1,
+      itemsFailed: 0,
+      lastPollingUpdate: expect.any(Date)
+    }));
+  });
+
+  it('should isolate page and entity failures', async () => {
+    mockSyncLogModel.isWebhookHealthy.mockResolvedValue(false);
+    mockNotion.databases.query.mockImplementation(async ({ database_id }: any) => {
+      if (database_id === 'db-members') throw new Error('Notion unavailable');
+      return database_id === 'db-tasks'
+        ? { results: [{ id: 't1' }, { id: 't2' }], has_more: false, next_cursor: null }
+        : { results: [{ id: `${database_id}-page` }], has_more: false, next_cursor: null };
+    });
+    mockTaskCachePatchService.applyTask.mockImplementation(async (task: any) => {
+      if (task.id === 't1') throw new Error('Invalid page');
+    });
+
+    const results = await pollingReconciliationJob.runOnce();
+
+    expect(results.map(result => [result.entityType, result.itemsProcessed, result.itemsFailed])).toEqual([
+      ['Task', 1, 1],
+      ['Project', 1, 0],
+      ['Member', 0, 0],
+      ['Team', 1, 0],
+      ['Client', 1, 0],
+    ]);
+    expect(mockSyncLogModel.create).toHaveBeenCalledWith(expect.objectContaining({
+      entityType: 'Task', syncStatus: 'partial', syncErrors: ['t1: Invalid page']
+    }));
+    const memberLog = mockSyncLogModel.create.mock.calls.find(([log]) => log.entityType === 'Member')![0];
+    expect(memberLog).toMatchObject({ syncStatus: 'failed', syncErrors: ['Notion unavailable'] });
+    expect(memberLog.lastPollingUpdate).toBeUndefined();
+    expect(mockRedisService.del).toHaveBeenCalledWith('project:db-projects-page');
+    expect(mockRedisService.invalidatePattern).toHaveBeenCalledWith('projects:*');
+    expect(mockRedisService.invalidatePattern).not.toHaveBeenCalledWith('users:*');
+  });
+
+  it('should invalidate the cached lists built from the changed entities', async () => {
+    mockNotion.databases.query.mockImplementation(async ({ database_id }: any) => (
+      database_id === 'db-projects' || database_id === 'db-members'
+        ? { results: [{ id: `${database_id}-page` }], has_more: false, next_cursor: null }
+        : { results: [], has_more: false, next_cursor: null }
+    ));
+
+    await pollingReconciliationJob.runOnce({ force: true });
+
+    expect(mockRedisService.invalidatePattern.mock.calls.map(([pattern]) => pattern)).toEqual([
+      'projects:*',
+      'tasks:*',
+      'users:*',
+    ]);
+  });
+});
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { ZodError } from 'zod';
 import { errorHandler, createError, notFoundHandler } from '../../../src/middleware/error.middleware';
+import { NotionAPIError } from '../../../src/errors/NotionAPIError';
 
 // Logger is already mocked globally in setup.ts
 
@@ -96,6 +97,21 @@ describe('Error Middleware', () => {
       });
     });
 
+    it('should keep the status of Notion API errors', () => {
+      const notionError = NotionAPIError.fromError({ status: 404 });
+
+      errorHandler(notionError, mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: {
+          message: 'Ressource non trouvée dans Notion.',
+        },
+        timestamp: expect.any(String),
+      });
+    });
+
     it('should include stack trace in development', () => {
       const originalEnv = process.env.NODE_ENV;
       process.env.NODE_ENV = 'development';
@@ -0,0 +1,153 @@
+const mockAccessScopeService = {
+  getScope: jest.fn(),
+  isReadOnly: jest.fn(),
+  canEditProject: jest.fn(),
+  canEditTask: jest.fn(),
+};
+
+jest.mock('../../../src/services/access-scope.service', () => ({
+  accessScopeService: mockAccessScopeService,
+  READ_ONLY_SCOPE_ERROR: 'Read-only access',
+  TASK_OUT_OF_SCOPE_ERROR: 'Task is outside your projects'
+}));
+
+import { Response, NextFunction } from 'express';
+import { authorizeTaskWrite, ScopedRequest } from '../../../src/middleware/scope.middleware';
+import { UserRole } from '../../../src/models/User.model';
+
+// Logger is already mocked globally in setup.ts
+
+const chefScope = { role: UserRole.CHEF_PROJET, memberId: 'm1', allProjects: false, projectIds: ['p1'] };
+
+describe('Scope Middleware', () => {
+  let mockResponse: Partial<Response>;
+  let mockNext: NextFunction;
+
+  const makeRequest = (overrides: Partial<ScopedRequest> = {}): ScopedRequest => ({
+    method: 'PUT',
+    path: '/tasks/t1',
+    params: {},
+    body: {},
+    user: { userId: 'u1', email: 'chef@example.com', role: UserRole.CHEF_PROJET },
+    ...overrides,
+  } as ScopedRequest);
+
+  beforeEach(() => {
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    };
+    mockNext = jest.fn();
+    mockAccessScopeService.getScope.mockResolvedValue(chefScope);
+    mockAccessScopeService.isReadOnly.mockReturnValue(false);
+    mockAccessScopeService.canEditProject.mockImplementation((_scope: any, projectId: string) => projectId === 'p1');
+    mockAccessScopeService.canEditTask.mockImplementation(async (_scope: any, taskId: string) => taskId === 't1');
+  });
+
+  describe('authorizeTaskWrite', () => {
+    it('should reject read-only users', async () => {
+      mockAccessScopeService.getScope.mockResolvedValue({ ...chefScope, role: UserRole.DIRECTION, projectIds: [] });
+      mockAccessScopeService.isReadOnly.mockReturnValue(true);
+
+      await authorizeTaskWrite(makeRequest({ params: { id: 't1' } }), mockResponse as Response, mockNext);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(mockResponse.json).toHaveBeenCalledWith({ success: false, message: 'Read-only access' });
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+
+    it('should let project managers update tasks of their projects', async () => {
+      const req = makeRequest({ params: { id: 't1' }, body: { title: 'Maquettes' } });
+
+      await authorizeTaskWrite(req, mockResponse as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalled();
+      expect(req.accessScope).toEqual(chefScope);
+    });
+
+    it('should reject moving a task to a project the user does not lead', async () => {
+      await authorizeTaskWrite(
+        makeRequest({ params: { id: 't1' }, body: { projectId: 'p2' } }),
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+
+    it('should reject task creation outside the projects of the user', async () => {
+      await authorizeTaskWrite(
+        makeRequest({ method: 'POST', body: { title: 'Nouvelle tâche' } }),
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(mockAccessScopeService.canEditProject).toHaveBeenCalledWith(chefScope, undefined);
+    });
+
+    it('should reject the whole batch and list the tasks out of scope', async () => {
+      await authorizeTaskWrite(
+        makeRequest({
+          method: 'POST',
+          body: { updates: [{ id: 't1', data: { status: 'completed' } }, { id: 't2', data: { status: 'completed' } }] }
+        }),
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        message: 'Task is outside your projects',
+        forbiddenTaskIds: ['t2'],
+      });
+    });
+
+    it('should reject conflict decisions on tasks outside the projects of the user', async () => {
+      await authorizeTaskWrite(
+        makeRequest({
+          method: 'POST',
+          path: '/tasks/t2/conflicts/decisions',
+          params: { id: 't2' },
+          body: { fingerprint: 'overlap:m1:t3', decision: 'acknowledged' }
+        }),
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        message: 'Task is outside your projects',
+        forbiddenTaskIds: ['t2'],
+      });
+    });
+
+    it('should allow conflict decisions on tasks of the projects of the user', async () => {
+      await authorizeTaskWrite(
+        makeRequest({
+          method: 'POST',
+          path: '/tasks/t1/conflicts/decisions',
+          params: { id: 't1' },
+          body: { fingerprint: 'overlap:m1:t3', decision: 'acknowledged' }
+        }),
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockNext).toHaveBeenCalled();
+      expect(mockAccessScopeService.canEditProject).not.toHaveBeenCalled();
+    });
+
+    it('should not check tasks for managers', async () => {
+      mockAccessScopeService.getScope.mockResolvedValue({ role: UserRole.ADMIN, memberId: null, allProjects: true, projectIds: [] });
+
+      await authorizeTaskWrite(makeRequest({ params: { id: 't2' } }), mockResponse as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalled();
+      expect(mockAccessScopeService.canEditTask).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,111 @@
+const mockNotionService = {
+  getTask: jest.fn(),
+};
+
+const mockEntityService = {
+  getAllProjects: jest.fn(),
+};
+
+const mockUserModel = {
+  findById: jest.fn(),
+};
+
+const mockRedisService = {
+  get: jest.fn(),
+};
+
+const mockTempIdRegistry = {
+  resolveId: jest.fn(),
+  isTempId: jest.fn(),
+};
+
+jest.mock('../../../src/services/notion.service', () => ({
+  __esModule: true,
+  default: mockNotionService
+}));
+
+jest.mock('../../../src/services/notion/entity.service', () => ({
+  entityService: mockEntityService
+}));
+
+jest.mock('../../../src/models/User.model', () => ({
+  ...jest.requireActual('../../../src/models/User.model'),
+  UserModel: mockUserModel
+}));
+
+jest.mock('../../../src/services/redis.service', () => ({
+  redisService: mockRedisService
+}));
+
+jest.mock('../../../src/services/temp-id-registry.service', () => ({
+  tempIdRegistryService: mockTempIdRegistry
+}));
+
+import { accessScopeService } from '../../../src/services/access-scope.service';
+import { UserRole } from '../../../src/models/User.model';
+
+const account = (user: any) => ({ select: () => ({ lean: () => Promise.resolve(user) }) });
+
+describe('AccessScopeService', () => {
+  beforeEach(() => {
+    mockEntityService.getAllProjects.mockResolvedValue([
+      { id: 'p1', name: 'Refonte', client: null, status: 'En cours', tasks: [], projectLeads: ['m1'] },
+      { id: 'p2', name: 'Appli', client: null, status: 'En cours', tasks: [], projectLeads: ['m2'] },
+    ]);
+    mockUserModel.findById.mockReturnValue(account({ memberId: 'm1' }));
+    mockTempIdRegistry.resolveId.mockImplementation(async (id: string) => id);
+    mockTempIdRegistry.isTempId.mockImplementation((id: string) => id.startsWith('temp_'));
+  });
+
+  describe('getScope', () => {
+    it('should give managers write access to every task', async () => {
+      const scope = await accessScopeService.getScope({ userId: 'u1', role: UserRole.TRAFFIC_MANAGER });
+
+      expect(scope.allProjects).toBe(true);
+      expect(mockUserModel.findById).not.toHaveBeenCalled();
+    });
+
+    it('should limit project managers to the projects led by their member', async () => {
+      const scope = await accessScopeService.getScope({ userId: 'u1', role: UserRole.CHEF_PROJET });
+
+      expect(mockUserModel.findById).toHaveBeenCalledWith('u1');
+      expect(scope).toEqual({ role: UserRole.CHEF_PROJET, memberId: 'm1', allProjects: false, projectIds: ['p1'] });
+    });
+
+    it('should make direction and unlinked project managers read-only', async () => {
+      mockUserModel.findById.mockReturnValue(account({}));
+
+      const direction = await accessScopeService.getScope({ userId: 'u2', role: UserRole.DIRECTION });
+      const unlinked = await accessScopeService.getScope({ userId: 'u1', role: UserRole.CHEF_PROJET });
+
+      expect(accessScopeService.isReadOnly(direction)).toBe(true);
+      expect(accessScopeService.isReadOnly(unlinked)).toBe(true);
+      expect(mockEntityService.getAllProjects).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('canEditTask', () => {
+    const scope = { role: UserRole.CHEF_PROJET, memberId: 'm1', allProjects: false, projectIds: ['p1'] };
+
+    it('should check the project of the task', async () => {
+      mockNotionService.getTask.mockImplementation(async (id: string) => ({ id, projectId: id === 't1' ? 'p1' : 'p2' }));
+
+      await expect(accessScopeService.canEditTask(scope, 't1')).resolves.toBe(true);
+      await expect(accessScopeService.canEditTask(scope, 't2')).resolves.toBe(false);
+    });
+
+    it('should read tasks waiting for sync from the cache', async () => {
+      mockRedisService.get.mockResolvedValue({ id: 'temp_1', projectId: 'p1', _temporary: true });
+
+      await expect(accessScopeService.canEditTask(scope, 'temp_1')).resolves.toBe(true);
+      expect(mockRedisService.get).toHaveBeenCalledWith('task:temp_1');
+      expect(mockNotionService.getTask).not.toHaveBeenCalled();
+    });
+
+    it('should refuse tasks that cannot be loaded', async () => {
+      mockNotionService.getTask.mockRejectedValue(new Error('Not found'));
+
+      await expect(accessScopeService.canEditTask(scope, 't9')).resolves.toBe(false);
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import crypto from 'crypto';
+
+const mockNotionService = {
+  getTasksForCalendarView: jest.fn(),
+};
+
+const mockEntityService = {
+  getAllMembers: jest.fn(),
+  getAllTeams: jest.fn(),
+  getAllProjects: jest.fn(),
+};
+
+const mockFeedModel = {
+  create: jest.fn(),
+  find: jest.fn(),
+  findOne: jest.fn(),
+  findById: jest.fn(),
+  updateOne: jest.fn(),
+};
+
+jest.mock('../../../src/services/notion.service', () => ({
+  __esModule: true,
+  default: mockNotionService
+}));
+
+jest.mock('../../../src/services/notion/entity.service', () => ({
+  entityService: mockEntityService
+}));
+
+jest.mock('../../../src/models/CalendarFeedToken.model', () => ({
+  CalendarFeedTokenModel: mockFeedModel
+}));
+
+import {
+  calendarFeedService,
+  FEED_TARGET_NOT_FOUND_ERROR,
+  FEED_FORBIDDEN_ERROR
+} from '../../../src/services/calendar-feed.service';
+import { icsExportService } from '../../../src/services/ics-export.service';
+import { UserRole } from '../../../src/models/User.model';
+import { taskFactory } from '../../helpers/task.factory';
+
+const makeTask = taskFactory({
+  projectId: 'p1',
+  teams: ['team-a'],
+  assignedMembers: ['m1'],
+  shouldSplitDaily: false,
+  notionUrl: null,
+  updatedAt: new Date(Date.UTC(2025, 2, 1)),
+});
+
+const eventsOf = (ics: string) => ics.split('BEGIN:VEVENT').slice(1);
+
+describe('IcsExportService', () => {
+  it('exports timed tasks in UTC', () => {
+    const ics = icsExportService.tasksToIcs([
+      makeTask('t1', new Date(Date.UTC(2025, 2, 3, 8, 30)), new Date(Date.UTC(2025, 2, 3, 10)))
+    ], { name: 'Alice' });
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+    expect(ics).toContain('DTSTART:20250303T083000Z\r\n');
+    expect(ics).toContain('DTEND:20250303T100000Z\r\n');
+    expect(ics).toContain('UID:t1@matter-traffic\r\n');
+  });
+
+  it('exports all-day tasks as one date range with an exclusive end', () => {
+    const ics = icsExportService.tasksToIcs([
+      makeTask('t1', new Date(2025, 2, 3, 12), new Date(2025, 2, 5, 12), { isAllDay: true })
+    ], { name: 'Alice' });
+
+    expect(eventsOf(ics)).toHaveLength(1);
+    expect(ics).toContain('DTSTART;VALUE=DATE:20250303\r\n');
+    expect(ics).toContain('DTEND;VALUE=DATE:20250306\r\n');
+  });
+
+  it('splits holiday-like tasks into one event per day', () => {
+    const ics = icsExportService.tasksToIcs([
+      makeTask('h1', new Date(2025, 2, 3, 12), new Date(2025, 2, 5, 12), { isAllDay: true, shouldSplitDaily: true, taskType: 'holiday' })
+    ], { name: 'Alice' });
+
+    const events = eventsOf(ics);
+    expect(events).toHaveLength(3);
+    expect(events[1]).toContain('UID:h1-20250304@matter-traffic');
+    expect(events[1]).toContain('DTSTART;VALUE=DATE:20250304');
+    expect(events[1]).toContain('DTEND;VALUE=DATE:20250305');
+    expect(events[1]).toContain('CATEGORIES:Congé');
+  });
+
+  it('escapes text and folds long lines', () => {
+    const ics = icsExportService.tasksToIcs([
+      makeTask('t1', new Date(Date.UTC(2025, 2, 3, 8)), new Date(Date.UTC(2025, 2, 3, 9)), {
+        title: 'Réunion; client, suivi',
+        notes: 'Ligne 1\nLigne 2 ' + 'x'.repeat(120)
+      })
+    ], { name: 'Alice', projectNames: new Map([['p1', 'Site web']]) });
+
+    expect(ics).toContain('SUMMARY:Réunion\\; client\\, suivi\r\n');
+    expect(ics).toContain('DESCRIPTION:Projet : Site web\\nLigne 1\\nLigne 2 ');
+    for (const line of ics.split('\r\n')) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    }
+  });
+});
+
+describe('CalendarFeedService', () => {
+  const token = 'a'.repeat(64);
+  const storedFeed = {
+    _id: 'feed-1',
+    tokenHash: crypto.createHash('sha256').update(token).digest('hex'),
+    scope: 'team',
+    targetId: 'team-a',
+    ownerId: 'user-1',
+    revokedAt: null,
+    lastAccessedAt: null,
+    createdAt: new Date()
+  };
+
+  beforeEach(() => {
+    mockEntityService.getAllMembers.mockResolvedValue([{ id: 'm1', name: 'Alice', email: '', teams: [], tasks: [] }]);
+    mockEntityService.getAllTeams.mockResolvedValue([{ id: 'team-a', name: 'Dev', members: [] }]);
+    mockEntityService.getAllProjects.mockResolvedValue([{ id: 'p1', name: 'Site web', client: null, status: '', tasks: [] }]);
+    mockNotionService.getTasksForCalendarView.mockResolvedValue([
+      makeTask('dev-task', new Date(Date.UTC(2025, 2, 3, 8)), new Date(Date.UTC(2025, 2, 3, 9))),
+      makeTask('crea-task', new Date(Date.UTC(2025, 2, 3, 8)), new Date(Date.UTC(2025, 2, 3, 9)), { teams: ['team-b'] }),
+    ]);
+    mockFeedModel.updateOne.mockResolvedValue({});
+    mockFeedModel.create.mockImplementation(async (doc: any) => ({
+      _id: 'feed-1',
+      toObject: () => ({ _id: 'feed-1', ...doc, createdAt: new Date() })
+    }));
+  });
+
+  it('stores only the token hash and returns the clear token once', async () => {
+    const { feed, token: created } = await calendarFeedService.createFeed('user-1', { scope: 'member', targetId: 'm1' });
+
+    expect(created).toMatch(/^[0-9a-f]{64}$/);
+    const stored = mockFeedModel.create.mock.calls[0][0];
+    expect(stored.tokenHash).toBe(crypto.createHash('sha256').update(created).digest('hex'));
+    expect(stored).not.toHaveProperty('token');
+    expect(feed).not.toHaveProperty('tokenHash');
+  });
+
+  it('rejects feeds for unknown targets', async () => {
+    await expect(calendarFeedService.createFeed('user-1', { scope: 'project', targetId: 'nope' }))
+      .rejects.toThrow(FEED_TARGET_NOT_FOUND_ERROR);
+    expect(mockFeedModel.create).not.toHaveBeenCalled();
+  });
+
+  it('renders only the tasks of the feed scope', async () => {
+    mockFeedModel.findOne.mockReturnValue({ lean: () => Promise.resolve(storedFeed) });
+
+    const result = await calendarFeedService.renderFeed(token);
+
+    expect(mockFeedModel.findOne).toHaveBeenCalledWith({ tokenHash: storedFeed.tokenHash, revokedAt: null });
+    expect(result!.name).toBe('Matter — Dev');
+    expect(result!.ics).toContain('UID:dev-task@matter-traffic');
+    expect(result!.ics).not.toContain('crea-task');
+    expect(mockFeedModel.updateOne).toHaveBeenCalled();
+  });
+
+  it('returns null for unknown or revoked tokens', async () => {
+    mockFeedModel.findOne.mockReturnValue({ lean: () => Promise.resolve(null) });
+
+    expect(await calendarFeedService.renderFeed('unknown')).toBeNull();
+    expect(mockNotionService.getTasksForCalendarView).not.toHaveBeenCalled();
+  });
+
+  it('lets only the owner or an admin revoke a feed', async () => {
+    const makeDoc = () => ({ ...storedFeed, save: jest.fn(), toObject() { return { ...this }; } });
+
+    mockFeedModel.findById.mockResolvedValue(makeDoc());
+    await expect(calendarFeedService.revokeFeed('feed-1', { userId: 'user-2', role: UserRole.TRAFFIC_MANAGER }))
+      .rejects.toThrow(FEED_FORBIDDEN_ERROR);
+
+    const doc = makeDoc();
+    mockFeedModel.findById.mockResolvedValue(doc);
+    const revoked = await calendarFeedService.revokeFeed('feed-1', { userId: 'admin', role: UserRole.ADMIN });
+    expect(doc.save).toHaveBeenCalled();
+    expect(revoked!.revokedAt).toBeInstanceOf(Date);
+  });
+});
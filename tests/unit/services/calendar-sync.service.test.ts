@@ -0,0 +1,377 @@
+import http from 'http';
+import crypto from 'crypto';
+import { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+
+/**
+ * The sync runs against a local fake of the Google Calendar API (OAuth token
+ * endpoint + events with incremental sync tokens), through the real provider.
+ * Notion and MongoDB are replaced by in-memory stores.
+ */
+
+// ----- In-memory Notion -----
+const tasks = new Map<string, any>();
+const notionUpdates: { taskId: string; input: any }[] = [];
+
+jest.mock('../../../src/services/notion.service', () => ({
+  __esModule: true,
+  default: {
+    // Les tâches archivées ne remontent plus dans les requêtes de la base
+    getTasksForCalendarView: async () => Array.from(tasks.values()).filter(task => !task.archived).map(task => ({ ...task })),
+    getTask: async (taskId: string) => ({ ...tasks.get(taskId) }),
+    updateTask: async (taskId: string, input: any) => {
+      notionUpdates.push({ taskId, input });
+      const task = tasks.get(taskId);
+      if (input.title !== undefined) task.title = input.title;
+      if (input.googleEventId !== undefined) task.googleEventId = input.googleEventId;
+      if (input.workPeriod) {
+        task.workPeriod = { startDate: new Date(input.workPeriod.startDate), endDate: new Date(input.workPeriod.endDate) };
+      }
+      return { ...task };
+    }
+  }
+}));
+
+jest.mock('../../../src/services/notion/entity.service', () => ({
+  entityService: {
+    getAllMembers: async () => [
+      { id: 'm1', name: 'Alice', email: 'alice@example.com', teams: [], tasks: [] },
+      { id: 'm2', name: 'Bob', email: 'Bob@example.com', teams: [], tasks: [] },
+      { id: 'm3', name: 'Sans email', email: '', teams: [], tasks: [] },
+    ]
+  }
+}));
+
+// ----- In-memory MongoDB -----
+const links: any[] = [];
+const states: any[] = [];
+
+const matches = (doc: any, filter: any) => Object.entries(filter).every(([key, value]: [string, any]) => {
+  if (value && typeof value === 'object' && '$in' in value) return value.$in.includes(doc[key]);
+  if (value && typeof value === 'object' && '$nin' in value) return !value.$nin.includes(doc[key]);
+  return doc[key] === value;
+});
+const clone = (doc: any) => (doc ? JSON.parse(JSON.stringify(doc)) : null);
+
+jest.mock('../../../src/models/CalendarEventLink.model', () => ({
+  CalendarEventLinkModel: {
+    distinct: async (field: string, filter: any = {}) => [...new Set(links.filter(link => matches(link, filter)).map(link => link[field]))],
+    find: (filter: any) => ({ lean: async () => links.filter(link => matches(link, filter)).map(clone) }),
+    findOne: (filter: any) => ({ lean: async () => clone(links.find(link => matches(link, filter))) }),
+    create: async (doc: any) => {
+      const link = { _id: `link-${links.length + 1}-${doc.memberId}`, status: 'active', ...clone(doc) };
+      links.push(link);
+      return link;
+    },
+    updateOne: async (filter: any, update: any) => {
+      const link = links.find(candidate => matches(candidate, filter));
+      if (link) Object.assign(link, clone(update.$set));
+    },
+    deleteOne: async (filter: any) => {
+      const index = links.findIndex(link => matches(link, filter));
+      if (index >= 0) links.splice(index, 1);
+    },
+    countDocuments: async (filter: any) => links.filter(link => matches(link, filter)).length
+  }
+}));
+
+jest.mock('../../../src/models/CalendarSyncState.model', () => ({
+  CalendarSyncStateModel: {
+    findOne: (filter: any) => ({ lean: async () => clone(states.find(state => matches(state, filter))) }),
+    updateOne: async (filter: any, update: any) => {
+      const state = states.find(candidate => matches(candidate, filter));
+      if (state) Object.assign(state, update.$set);
+      else states.push({ ...filter, ...update.$set });
+    },
+    find: () => ({ sort: () => ({ select: () => ({ lean: async () => clone(states) }) }) })
+  }
+}));
+
+import { calendarSyncService } from '../../../src/services/calendar/calendar-sync.service';
+import { GoogleCalendarProvider } from '../../../src/services/calendar/google-calendar.provider';
+import { taskFactory } from '../../helpers/task.factory';
+
+// ----- Fake Google Calendar server -----
+class FakeGoogleCalendar {
+  calendars = new Map<string, Map<string, any>>();
+  sequence = 0;
+  expiredTokens = new Set<string>();
+  private server: http.Server;
+
+  constructor(private readonly publicKey: string) {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+  }
+
+  async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  events(calendarId: string): any[] {
+    return Array.from(this.calendars.get(calendarId)?.values() || []);
+  }
+
+  /** Simulate a change made by the user in their calendar app */
+  editEvent(calendarId: string, eventId: string, changes: any): void {
+    Object.assign(this.calendars.get(calendarId)!.get(eventId), changes, { seq: ++this.sequence });
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const url = new URL(req.url!, 'http://fake');
+      const send = (status: number, body?: any) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(body === undefined ? undefined : JSON.stringify(body));
+      };
+
+      if (url.pathname === '/token') {
+        const assertion = new URLSearchParams(raw).get('assertion')!;
+        const claims = jwt.verify(assertion, this.publicKey, { algorithms: ['RS256'] }) as any;
+        return send(200, { access_token: `token-${claims.sub}`, expires_in: 3600 });
+      }
+
+      const match = url.pathname.match(/^\/calendars\/([^/]+)\/events(?:\/([^/]+))?$/);
+      if (!match) return send(404, { error: { message: 'Not found' } });
+
+      const calendarId = decodeURIComponent(match[1]!);
+      const eventId = match[2] && decodeURIComponent(match[2]);
+      if (req.headers.authorization !== `Bearer token-${calendarId}`) {
+        return send(401, { error: { message: 'Invalid credentials' } });
+      }
+
+      const calendar = this.calendars.get(calendarId) || new Map<string, any>();
+      this.calendars.set(calendarId, calendar);
+      const body = raw ? JSON.parse(raw) : null;
+      const view = ({ seq: _seq, ...event }: any) => event;
+
+      if (req.method === 'GET') {
+        const syncToken = url.searchParams.get('syncToken');
+        if (syncToken && this.expiredTokens.has(syncToken)) {
+          return send(410, { error: { message: 'Sync token is no longer valid' } });
+        }
+        const since = syncToken ? Number(syncToken.replace('seq-', '')) : -1;
+        return send(200, {
+          items: Array.from(calendar.values()).filter(event => event.seq > since).map(view),
+          nextSyncToken: `seq-${this.sequence}`
+        });
+      }
+
+      if (req.method === 'POST') {
+        const event = { ...body, id: `evt-${crypto.randomBytes(4).toString('hex')}`, status: 'confirmed', seq: ++this.sequence };
+        calendar.set(event.id, event);
+        return send(200, view(event));
+      }
+
+      const existing = eventId ? calendar.get(eventId) : undefined;
+      if (!existing || existing.status === 'cancelled') {
+        return send(existing ? 410 : 404, { error: { message: 'Not found' } });
+      }
+
+      if (req.method === 'PATCH') {
+        Object.assign(existing, body, { seq: ++this.sequence });
+        return send(200, view(existing));
+      }
+
+      if (req.method === 'DELETE') {
+        Object.assign(existing, { status: 'cancelled', seq: ++this.sequence });
+        res.writeHead(204);
+        return res.end();
+      }
+
+      return send(405, { error: { message: 'Method not allowed' } });
+    });
+  }
+}
+
+const baseTask = taskFactory({
+  title: 'Atelier client',
+  projectId: 'p1',
+  assignedMembers: ['m1', 'm2', 'm3'],
+  notes: 'Préparer la démo',
+  addToCalendar: true,
+  googleEventId: null,
+  notionUrl: 'https://notion.so/task-1',
+});
+
+const makeTask = (overrides: Record<string, any> = {}) => baseTask(
+  'task-1',
+  new Date('2030-03-04T09:00:00.000Z'),
+  new Date('2030-03-04T11:00:00.000Z'),
+  overrides
+);
+
+describe('CalendarSyncService (fake Google Calendar server)', () => {
+  let fake: FakeGoogleCalendar;
+  let privateKey: string;
+  let publicKey: string;
+
+  beforeAll(() => {
+    ({ privateKey, publicKey } = crypto.generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+      publicKeyEncoding: { type: 'spki', format: 'pem' }
+    }));
+  });
+
+  beforeEach(async () => {
+    tasks.clear();
+    notionUpdates.length = 0;
+    links.length = 0;
+    states.length = 0;
+
+    fake = new FakeGoogleCalendar(publicKey);
+    const baseUrl = await fake.start();
+    calendarSyncService.setProvider(new GoogleCalendarProvider({
+      clientEmail: 'sync@test.iam.gserviceaccount.com',
+      privateKey,
+      apiUrl: baseUrl,
+      tokenUrl: `${baseUrl}/token`
+    }));
+
+    tasks.set('task-1', makeTask());
+  });
+
+  afterEach(async () => {
+    await fake.stop();
+  });
+
+  it('creates one event per assignee with an email and stores the event ID on the task', async () => {
+    const result = await calendarSyncService.runSync();
+
+    expect(result).toMatchObject({ created: 2, updated: 0, deleted: 0, errors: [] });
+    const [aliceEvent] = fake.events('alice@example.com');
+    expect(aliceEvent).toMatchObject({
+      summary: 'Atelier client',
+      start: { dateTime: '2030-03-04T09:00:00.000Z' },
+      end: { dateTime: '2030-03-04T11:00:00.000Z' },
+      extendedProperties: { private: { matterTaskId: 'task-1' } }
+    });
+    expect(fake.events('bob@example.com')).toHaveLength(1);
+    expect(tasks.get('task-1').googleEventId).toBe(aliceEvent.id);
+
+    // Rien n'a changé : aucune écriture au passage suivant
+    const second = await calendarSyncService.runSync();
+    expect(second).toMatchObject({ created: 0, updated: 0, deleted: 0, remoteChangesApplied: 0, errors: [] });
+  });
+
+  it('exports all-day tasks as date events with an exclusive end', async () => {
+    tasks.set('task-1', makeTask({
+      isAllDay: true,
+      workPeriod: { startDate: new Date(2030, 2, 4, 12), endDate: new Date(2030, 2, 6, 12) }
+    }));
+
+    await calendarSyncService.runSync();
+
+    expect(fake.events('alice@example.com')[0]).toMatchObject({
+      start: { date: '2030-03-04' },
+      end: { date: '2030-03-07' }
+    });
+  });
+
+  it('pushes Notion changes to every assignee event', async () => {
+    await calendarSyncService.runSync();
+    tasks.get('task-1').title = 'Atelier client (v2)';
+
+    const result = await calendarSyncService.runSync();
+
+    expect(result).toMatchObject({ created: 0, updated: 2 });
+    expect(fake.events('alice@example.com')[0].summary).toBe('Atelier client (v2)');
+    expect(fake.events('bob@example.com')[0].summary).toBe('Atelier client (v2)');
+  });
+
+  it('writes calendar-side edits back to Notion and propagates them to the other assignees', async () => {
+    await calendarSyncService.runSync();
+    const [aliceEvent] = fake.events('alice@example.com');
+    fake.editEvent('alice@example.com', aliceEvent.id, {
+      start: { dateTime: '2030-03-05T14:00:00+01:00' },
+      end: { dateTime: '2030-03-05T16:00:00+01:00' }
+    });
+
+    const result = await calendarSyncService.runSync();
+
+    expect(result).toMatchObject({ remoteChangesApplied: 1, updated: 1, conflicts: 0, errors: [] });
+    expect(notionUpdates).toContainEqual({
+      taskId: 'task-1',
+      input: { workPeriod: { startDate: '2030-03-05T13:00:00.000Z', endDate: '2030-03-05T15:00:00.000Z' } }
+    });
+    expect(fake.events('bob@example.com')[0].start).toEqual({ dateTime: '2030-03-05T13:00:00.000Z' });
+
+    const third = await calendarSyncService.runSync();
+    expect(third).toMatchObject({ remoteChangesApplied: 0, updated: 0 });
+  });
+
+  it('keeps the Notion version when the task and the event both changed', async () => {
+    await calendarSyncService.runSync();
+    const [aliceEvent] = fake.events('alice@example.com');
+    fake.editEvent('alice@example.com', aliceEvent.id, { summary: 'Renommé dans Google' });
+    tasks.get('task-1').title = 'Renommé dans Notion';
+
+    const result = await calendarSyncService.runSync();
+
+    expect(result).toMatchObject({ conflicts: 1, remoteChangesApplied: 0, updated: 2 });
+    expect(tasks.get('task-1').title).toBe('Renommé dans Notion');
+    expect(fake.events('alice@example.com')[0].summary).toBe('Renommé dans Notion');
+  });
+
+  it('does not recreate an event deleted by the assignee', async () => {
+    await calendarSyncService.runSync();
+    const [bobEvent] = fake.events('bob@example.com');
+    fake.editEvent('bob@example.com', bobEvent.id, { status: 'cancelled' });
+
+    const result = await calendarSyncService.runSync();
+
+    expect(result).toMatchObject({ created: 0, errors: [] });
+    expect(links.find(link => link.memberId === 'm2').status).toBe('deleted_remotely');
+    expect(fake.events('bob@example.com').filter(event => event.status !== 'cancelled')).toHaveLength(0);
+  });
+
+  it('deletes the events and clears the event ID when the task is unflagged', async () => {
+    await calendarSyncService.runSync();
+    tasks.get('task-1').addToCalendar = false;
+
+    const result = await calendarSyncService.runSync();
+
+    expect(result).toMatchObject({ deleted: 2, errors: [] });
+    expect(fake.events('alice@example.com')[0].status).toBe('cancelled');
+    expect(links).toHaveLength(0);
+    expect(tasks.get('task-1').googleEventId).toBeNull();
+  });
+
+  it('deletes the events of a task archived in Notion', async () => {
+    await calendarSyncService.runSync();
+    tasks.get('task-1').archived = true;
+    notionUpdates.length = 0;
+
+    const result = await calendarSyncService.runSync();
+
+    expect(result).toMatchObject({ deleted: 2, errors: [] });
+    expect(fake.events('alice@example.com')[0].status).toBe('cancelled');
+    expect(fake.events('bob@example.com')[0].status).toBe('cancelled');
+    expect(links).toHaveLength(0);
+    expect(notionUpdates).toEqual([]);
+
+    const third = await calendarSyncService.runSync();
+    expect(third).toMatchObject({ tasksChecked: 0, deleted: 0 });
+  });
+
+  it('falls back to a full resync when the sync token expired', async () => {
+    await calendarSyncService.runSync();
+    await calendarSyncService.runSync();
+    const expiredToken = states.find(state => state.calendarId === 'alice@example.com').syncToken;
+    fake.expiredTokens.add(expiredToken);
+    const [aliceEvent] = fake.events('alice@example.com');
+    fake.editEvent('alice@example.com', aliceEvent.id, { summary: 'Atelier déplacé' });
+
+    const result = await calendarSyncService.runSync();
+
+    expect(result).toMatchObject({ remoteChangesApplied: 1, errors: [] });
+    expect(tasks.get('task-1').title).toBe('Atelier déplacé');
+    expect(states.find(state => state.calendarId === 'alice@example.com').syncToken).not.toBe(expiredToken);
+  });
+});
@@ -0,0 +1,106 @@
+const mockNotionService = {
+  batchLoadClients: jest.fn(),
+  batchLoadMembers: jest.fn(),
+  getProjectTasks: jest.fn(),
+};
+
+const mockEntityService = {
+  getAllProjects: jest.fn(),
+};
+
+jest.mock('../../../src/services/notion.service', () => ({
+  __esModule: true,
+  default: mockNotionService
+}));
+
+jest.mock('../../../src/services/notion/entity.service', () => ({
+  entityService: mockEntityService
+}));
+
+import { addDays, format, startOfDay, startOfMonth, subMonths } from 'date-fns';
+import { clientOverviewService } from '../../../src/services/client-overview.service';
+import { taskFactory } from '../../helpers/task.factory';
+
+// Dates relatives à aujourd'hui : la vue couvre les 12 derniers mois
+const today = startOfDay(new Date());
+const at = (days: number, hour = 0) => new Date(addDays(today, days).getTime() + hour * 60 * 60 * 1000);
+const day = (days: number) => format(addDays(today, days), 'yyyy-MM-dd');
+const monthsAgo = (months: number) => new Date(startOfMonth(subMonths(today, months)).getTime() + 9 * 60 * 60 * 1000);
+
+const makeTask = taskFactory({ status: 'not_started', clientPlanning: false });
+
+describe('ClientOverviewService', () => {
+  beforeEach(() => {
+    mockNotionService.batchLoadClients.mockResolvedValue([{ id: 'c1', name: 'ACME', projects: ['p3'] }]);
+    mockEntityService.getAllProjects.mockResolvedValue([
+      { id: 'p1', name: 'Site', client: 'c1', status: 'En cours', tasks: [] },
+      { id: 'p2', name: 'Autre client', client: 'c2', status: 'En cours', tasks: [] },
+      { id: 'p3', name: 'Appli', client: null, status: 'Terminé', tasks: [] },
+    ]);
+    mockNotionService.getProjectTasks.mockResolvedValue([]);
+    mockNotionService.batchLoadMembers.mockImplementation(async (ids: string[]) => ids.map(id => ({
+      id,
+      name: id === 'm1' ? 'Alice' : 'Bob',
+      email: `${id}@example.com`,
+      teams: [],
+    })));
+  });
+
+  it('should return null when the client does not exist', async () => {
+    mockNotionService.batchLoadClients.mockResolvedValue([null]);
+
+    await expect(clientOverviewService.getClientOverview('unknown')).resolves.toBeNull();
+    expect(mockEntityService.getAllProjects).not.toHaveBeenCalled();
+  });
+
+  it('should list the active projects linked from either side of the relation', async () => {
+    const overview = await clientOverviewService.getClientOverview('c1');
+
+    expect(mockNotionService.getProjectTasks.mock.calls.map(call => call[0])).toEqual(['p1', 'p3']);
+    expect(overview!.projectCount).toBe(2);
+    expect(overview!.activeProjects).toEqual([{ id: 'p1', name: 'Site', status: 'En cours', taskCount: 0 }]);
+    expect(overview!.monthlyHours).toHaveLength(12);
+    expect(overview!.monthlyHours[11]!.month).toBe(format(today, 'yyyy-MM'));
+  });
+
+  it('should keep upcoming client planning tasks as milestones', async () => {
+    mockNotionService.getProjectTasks.mockImplementation(async (projectId: string) => projectId === 'p1'
+      ? [
+        makeTask('later', at(10, 9), at(10, 12), { clientPlanning: true }),
+        makeTask('sooner', at(2, 9), at(2, 12), { clientPlanning: true }),
+        makeTask('internal', at(1, 9), at(1, 12)),
+        // Une tâche qui finit à minuit n'occupe pas le jour suivant
+        makeTask('ended', at(-2, 9), at(0), { clientPlanning: true }),
+      ]
+      : []);
+
+    const overview = await clientOverviewService.getClientOverview('c1');
+
+    expect(overview!.upcomingMilestones.map(milestone => milestone.id)).toEqual(['sooner', 'later']);
+    expect(overview!.upcomingMilestones[0]).toEqual(expect.objectContaining({
+      project: { id: 'p1', name: 'Site' },
+      startDate: day(2),
+      endDate: day(2)
+    }));
+  });
+
+  it('should sum hours per month and rank the most involved members', async () => {
+    mockNotionService.getProjectTasks.mockImplementation(async (projectId: string) => projectId === 'p1'
+      ? [
+        makeTask('recent', today, today, { assignedMembers: ['m1', 'm2'], billedHours: 8, actualHours: 6 }),
+        makeTask('older', monthsAgo(3), monthsAgo(3), { assignedMembers: ['m1'], billedHours: 4, actualHours: 5 }),
+        makeTask('too-old', monthsAgo(14), monthsAgo(14), { assignedMembers: ['m2'], billedHours: 100, actualHours: 100 }),
+      ]
+      : []);
+
+    const overview = await clientOverviewService.getClientOverview('c1');
+
+    expect(overview!.monthlyHours[11]).toEqual({ month: format(today, 'yyyy-MM'), billedHours: 8, actualHours: 6 });
+    expect(overview!.monthlyHours[8]).toEqual(expect.objectContaining({ billedHours: 4, actualHours: 5 }));
+    expect(overview!.totalHours).toEqual({ billedHours: 12, actualHours: 11 });
+    expect(overview!.topMembers).toEqual([
+      { id: 'm1', name: 'Alice', email: 'm1@example.com', taskCount: 2, actualHours: 11 },
+      { id: 'm2', name: 'Bob', email: 'm2@example.com', taskCount: 1, actualHours: 6 },
+    ]);
+  });
+});
@@ -0,0 +1,195 @@
+const mockDecisionModel = {
+  find: jest.fn(),
+  create: jest.fn(),
+};
+
+const mockConflictModel = {
+  find: jest.fn(),
+  findOne: jest.fn(),
+  updateMany: jest.fn(),
+};
+
+jest.mock('../../../src/models/ConflictDecision.model', () => ({
+  ConflictDecisionModel: mockDecisionModel
+}));
+
+jest.mock('../../../src/models/TaskSchedulingConflict.model', () => ({
+  TaskSchedulingConflictModel: mockConflictModel
+}));
+
+import {
+  conflictDecisionService,
+  getConflictFingerprint,
+  CONFLICT_NOT_FOUND_ERROR,
+  CONFLICT_REASON_REQUIRED_ERROR
+} from '../../../src/services/conflict-decision.service';
+import { SchedulingConflict } from '../../../src/controllers/tasks/tasks-conflict.controller';
+
+const lean = (result: any) => ({ lean: () => Promise.resolve(result) });
+const sorted = (result: any) => ({ sort: () => lean(result) });
+const sortedAndLimited = (result: any) => ({ sort: () => ({ limit: () => lean(result) }) });
+
+const overlap: SchedulingConflict = {
+  type: 'overlap',
+  message: 'Alice a déjà une tâche',
+  memberId: 'm1',
+  conflictingTaskId: 't2',
+  severity: 'medium'
+};
+
+const weekend: SchedulingConflict = {
+  type: 'weekend',
+  message: 'Samedi',
+  memberId: 'm1',
+  date: '2025-05-10',
+  severity: 'medium'
+};
+
+const decision = (overrides: any) => ({
+  _id: 'd1',
+  taskId: 't1',
+  fingerprint: 'overlap:m1:t2',
+  conflictType: 'overlap',
+  memberId: 'm1',
+  createdAt: new Date('2025-05-01T10:00:00Z'),
+  ...overrides
+});
+
+describe('ConflictDecisionService', () => {
+  beforeEach(() => {
+    mockConflictModel.updateMany.mockResolvedValue({});
+  });
+
+  describe('getConflictFingerprint', () => {
+    it('should identify overlaps by the conflicting task and calendar conflicts by day', () => {
+      expect(getConflictFingerprint(overlap)).toBe('overlap:m1:t2');
+      expect(getConflictFingerprint(weekend)).toBe('weekend:m1:2025-05-10');
+    });
+  });
+
+  describe('recordDecision', () => {
+    it('should require a reason to ignore a conflict', async () => {
+      await expect(conflictDecisionService.recordDecision(
+        't1',
+        { fingerprint: 'overlap:m1:t2', decision: 'ignored', reason: '  ' },
+        { email: 'pm@example.com' }
+      )).rejects.toThrow(CONFLICT_REASON_REQUIRED_ERROR);
+
+      expect(mockDecisionModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject fingerprints matching no conflict of the task', async () => {
+      mockConflictModel.findOne.mockReturnValue(lean(null));
+
+      await expect(conflictDecisionService.recordDecision(
+        't1',
+        { fingerprint: 'overlap:m1:t9', decision: 'acknowledged' },
+        { email: 'pm@example.com' },
+        [overlap]
+      )).rejects.toThrow(CONFLICT_NOT_FOUND_ERROR);
+    });
+
+    it('should record a decision on a detected conflict and update stored ones', async () => {
+      mockConflictModel.findOne.mockReturnValue(lean(null));
+      mockDecisionModel.create.mockImplementation(async (data: any) => ({
+        ...data,
+        createdAt: new Date('2025-05-01T10:00:00Z'),
+        toObject() { return { _id: 'd1', ...data, createdAt: this.createdAt }; }
+      }));
+
+      const entry = await conflictDecisionService.recordDecision(
+        't1',
+        { fingerprint: 'overlap:m1:t2', decision: 'ignored', reason: 'Réunion décalée' },
+        { userId: 'u1', email: 'pm@example.com' },
+        [overlap]
+      );
+
+      expect(mockDecisionModel.create).toHaveBeenCalledWith(expect.objectContaining({
+        taskId: 't1',
+        conflictType: 'overlap',
+        memberId: 'm1',
+        decision: 'ignored',
+        reason: 'Réunion décalée',
+        actorId: 'u1',
+        actorEmail: 'pm@example.com'
+      }));
+      expect(mockConflictModel.updateMany).toHaveBeenCalledWith(
+        { taskId: 't1', fingerprint: 'overlap:m1:t2', status: { $ne: 'resolved' } },
+        { $set: expect.objectContaining({ status: 'ignored', decisionReason: 'Réunion décalée', decidedBy: 'pm@example.com' }) }
+      );
+      expect(entry).toEqual(expect.objectContaining({ id: 'd1', decision: 'ignored', actorEmail: 'pm@example.com' }));
+    });
+
+    it('should set stored conflicts back to active when reopened', async () => {
+      mockConflictModel.findOne.mockReturnValue(lean({ ...overlap, taskId: 't1', fingerprint: 'overlap:m1:t2' }));
+      mockDecisionModel.create.mockImplementation(async (data: any) => ({
+        toObject: () => ({ _id: 'd2', ...data, createdAt: new Date() })
+      }));
+
+      await conflictDecisionService.recordDecision(
+        't1',
+        { fingerprint: 'overlap:m1:t2', decision: 'reopened' },
+        { email: 'pm@example.com' }
+      );
+
+      expect(mockConflictModel.updateMany).toHaveBeenCalledWith(
+        expect.any(Object),
+        { $set: { status: 'active' }, $unset: { decisionReason: 1, decidedBy: 1, decidedAt: 1 } }
+      );
+    });
+  });
+
+  describe('applyDecisions', () => {
+    it('should apply the latest decision of each conflict', async () => {
+      mockDecisionModel.find.mockReturnValue(sorted([
+        decision({ _id: 'd3', decision: 'ignored', reason: 'Prévu', actorEmail: 'pm@example.com' }),
+        decision({ _id: 'd2', decision: 'acknowledged' }),
+        decision({ _id: 'd1', fingerprint: 'weekend:m1:2025-05-10', conflictType: 'weekend', decision: 'reopened' })
+      ]));
+
+      const conflicts = await conflictDecisionService.applyDecisions('t1', [overlap, weekend]);
+
+      expect(conflicts).toEqual([
+        expect.objectContaining({ fingerprint: 'overlap:m1:t2', status: 'ignored', decisionReason: 'Prévu', decidedBy: 'pm@example.com' }),
+        expect.objectContaining({ fingerprint: 'weekend:m1:2025-05-10', status: 'active' })
+      ]);
+      expect(conflicts[1]).not.toHaveProperty('decisionReason');
+    });
+
+    it('should keep conflicts active when decisions cannot be loaded', async () => {
+      mockDecisionModel.find.mockReturnValue({ sort: () => ({ lean: () => Promise.reject(new Error('db down')) }) });
+
+      const conflicts = await conflictDecisionService.applyDecisions('t1', [overlap]);
+
+      expect(conflicts).toEqual([expect.objectContaining({ fingerprint: 'overlap:m1:t2', status: 'active' })]);
+    });
+
+    it('should not query decisions without conflicts', async () => {
+      await expect(conflictDecisionService.applyDecisions('t1', [])).resolves.toEqual([]);
+      expect(mockDecisionModel.find).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getHistory', () => {
+    it('should return stored conflicts and decisions of the task', async () => {
+      mockConflictModel.find.mockReturnValue(sortedAndLimited([{
+        ...overlap,
+        taskId: 't1',
+        status: 'resolved',
+        detectedAt: new Date('2025-04-30T08:00:00Z'),
+        resolvedAt: new Date('2025-05-02T08:00:00Z')
+      }]));
+      mockDecisionModel.find.mockReturnValue(sortedAndLimited([decision({ decision: 'acknowledged' })]));
+
+      const history = await conflictDecisionService.getHistory('t1');
+
+      expect(history.taskId).toBe('t1');
+      expect(history.conflicts).toEqual([expect.objectContaining({
+        fingerprint: 'overlap:m1:t2',
+        status: 'resolved',
+        resolvedAt: new Date('2025-05-02T08:00:00Z')
+      })]);
+      expect(history.decisions).toEqual([expect.objectContaining({ id: 'd1', decision: 'acknowledged' })]);
+    });
+  });
+});
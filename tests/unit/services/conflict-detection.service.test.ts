@@ -1,6 +1,6 @@
 // Mock services - must be defined before mocking
-const mockRedisService = {
-  get: jest.fn(),
+const mockTaskIndexService = {
+  getTasksForMembers: jest.fn(),
 };
 
 const mockNotionService = {
@@ -17,8 +17,8 @@ const mockNotionRateLimiter = {
 };
 
 // Mock dependencies
-jest.mock('../../../src/services/redis.service', () => ({
-  redisService: mockRedisService
+jest.mock('../../../src/services/notion/task-index.service', () => ({
+  taskIndexService: mockTaskIndexService
 }));
 
 jest.mock('../../../src/services/notion.service', () => ({
@@ -94,13 +94,15 @@ describe('ConflictDetectionService', () => {
         }
       ];
 
-      mockRedisService.get.mockResolvedValue(cachedTasks);
+      mockTaskIndexService.getTasksForMembers.mockResolvedValue(cachedTasks);
       mockTasksConflictService.checkSchedulingConflictsWithTasks.mockResolvedValue(expectedConflicts);
 
       const conflicts = await service.detectCreateConflicts(taskData);
 
-      expect(mockRedisService.get).toHaveBeenCalledWith(
-        'tasks:calendar:start=2025-08-26:end=2025-10-25'
+      expect(mockTaskIndexService.getTasksForMembers).toHaveBeenCalledWith(
+        taskData.assignedMembers,
+        taskData.workPeriod.startDate,
+        taskData.workPeriod.endDate
       );
       expect(mockTasksConflictService.checkSchedulingConflictsWithTasks).toHaveBeenCalledWith(
         taskData,
@@ -133,14 +135,14 @@ describe('ConflictDetectionService', () => {
         }
       ];
 
-      mockRedisService.get.mockResolvedValue(null); // No cache
+      mockTaskIndexService.getTasksForMembers.mockResolvedValue(null); // Index incomplete
       mockNotionRateLimiter.scheduleHighPriority.mockImplementation(async (fn) => fn());
       mockNotionService.getTasksForCalendarView.mockResolvedValue(notionTasks);
       mockTasksConflictService.checkSchedulingConflictsWithTasks.mockResolvedValue(expectedConflicts);
 
       const conflicts = await service.detectCreateConflicts(taskData);
 
-      expect(mockRedisService.get).toHaveBeenCalled();
+      expect(mockTaskIndexService.getTasksForMembers).toHaveBeenCalled();
       expect(mockNotionRateLimiter.scheduleHighPriority).toHaveBeenCalled();
       expect(mockNotionService.getTasksForCalendarView).toHaveBeenCalledWith(
         new Date(taskData.workPeriod.startDate),
@@ -163,7 +165,7 @@ describe('ConflictDetectionService', () => {
       const conflicts = await service.detectCreateConflicts(taskDataWithoutPeriod);
 
       expect(conflicts).toEqual([]);
-      expect(mockRedisService.get).not.toHaveBeenCalled();
+      expect(mockTaskIndexService.getTasksForMembers).not.toHaveBeenCalled();
       expect(mockNotionService.getTasksForCalendarView).not.toHaveBeenCalled();
     });
 
@@ -180,14 +182,14 @@ describe('ConflictDetectionService', () => {
       const conflicts = await service.detectCreateConflicts(taskDataWithoutMembers);
 
       expect(conflicts).toEqual([]);
-      expect(mockRedisService.get).not.toHaveBeenCalled();
+      expect(mockTaskIndexService.getTasksForMembers).not.toHaveBeenCalled();
       expect(mockNotionService.getTasksForCalendarView).not.toHaveBeenCalled();
     });
 
     it('should handle Notion service errors gracefully', async () => {
       const notionError = new Error('Notion API rate limit exceeded');
       
-      mockRedisService.get.mockResolvedValue(null);
+      mockTaskIndexService.getTasksForMembers.mockResolvedValue(null);
       mockNotionRateLimiter.scheduleHighPriority.mockImplementation(async (fn) => fn());
       mockNotionService.getTasksForCalendarView.mockRejectedValue(notionError);
 
@@ -220,7 +222,7 @@ describe('ConflictDetectionService', () => {
         }
       ];
 
-      mockRedisService.get.mockResolvedValue(cachedTasks);
+      mockTaskIndexService.getTasksForMembers.mockResolvedValue(cachedTasks);
       mockTasksConflictService.checkSchedulingConflictsWithTasks.mockResolvedValue([]);
 
       await service.detectCreateConflicts(taskData);
@@ -269,7 +271,7 @@ describe('ConflictDetectionService', () => {
         }
       ];
 
-      mockRedisService.get.mockResolvedValue(cachedTasks);
+      mockTaskIndexService.getTasksForMembers.mockResolvedValue(cachedTasks);
       mockTasksConflictService.checkSchedulingConflictsWithTasks.mockResolvedValue(expectedConflicts);
 
       const result = await service.detectUpdateConflictsAsync(taskId, updateData, currentTask);
@@ -306,7 +308,7 @@ describe('ConflictDetectionService', () => {
         }
       ];
 
-      mockRedisService.get.mockResolvedValue(null);
+      mockTaskIndexService.getTasksForMembers.mockResolvedValue(null);
       mockNotionRateLimiter.scheduleHighPriority.mockImplementation(async (fn) => fn());
       mockNotionRateLimiter.getStats.mockReturnValue({ pending: 0, completed: 1 });
       mockNotionService.getTasksForCalendarView.mockResolvedValue(notionTasks);
@@ -331,7 +333,7 @@ describe('ConflictDetectionService', () => {
 
       expect(result.conflicts).toEqual([]);
       expect(result.method).toBe('none');
-      expect(mockRedisService.get).not.toHaveBeenCalled();
+      expect(mockTaskIndexService.getTasksForMembers).not.toHaveBeenCalled();
     });
 
     it('should exclude current task from conflict detection', async () => {
@@ -346,7 +348,7 @@ describe('ConflictDetectionService', () => {
         }
       ];
 
-      mockRedisService.get.mockResolvedValue(cachedTasks);
+      mockTaskIndexService.getTasksForMembers.mockResolvedValue(cachedTasks);
       mockTasksConflictService.checkSchedulingConflictsWithTasks.mockResolvedValue([]);
 
       await service.detectUpdateConflictsAsync(taskId, updateData, currentTask);
@@ -360,7 +362,7 @@ describe('ConflictDetectionService', () => {
 
     it('should handle errors in async conflict detection gracefully', async () => {
       const error = new Error('Conflict detection failed');
-      mockRedisService.get.mockRejectedValue(error);
+      mockTaskIndexService.getTasksForMembers.mockRejectedValue(error);
 
       const result = await service.detectUpdateConflictsAsync(taskId, updateData, currentTask);
 
@@ -402,7 +404,7 @@ describe('ConflictDetectionService', () => {
         }
       ];
 
-      mockRedisService.get.mockResolvedValue(cachedTasks);
+      mockTaskIndexService.getTasksForMembers.mockResolvedValue(cachedTasks);
       mockTasksConflictService.checkSchedulingConflictsWithTasks.mockResolvedValue(expectedConflicts);
 
       const conflicts = await service.detectUpdateConflictsSync(taskId, updateData);
@@ -425,7 +427,7 @@ describe('ConflictDetectionService', () => {
         }
       ];
 
-      mockRedisService.get.mockResolvedValue(null);
+      mockTaskIndexService.getTasksForMembers.mockResolvedValue(null);
       mockNotionRateLimiter.scheduleHighPriority.mockImplementation(async (fn) => fn());
       mockNotionRateLimiter.getStats.mockReturnValue({ pending: 0, completed: 1 });
       mockNotionService.getTasksForCalendarView.mockResolvedValue(notionTasks);
@@ -444,7 +446,7 @@ describe('ConflictDetectionService', () => {
     it('should handle Notion errors gracefully in sync mode', async () => {
       const notionError = new Error('Notion sync error');
       
-      mockRedisService.get.mockResolvedValue(null);
+      mockTaskIndexService.getTasksForMembers.mockResolvedValue(null);
       mockNotionRateLimiter.scheduleHighPriority.mockImplementation(async (fn) => fn());
       mockNotionService.getTasksForCalendarView.mockRejectedValue(notionError);
 
@@ -475,7 +477,7 @@ describe('ConflictDetectionService', () => {
         }
       };
 
-      mockRedisService.get.mockResolvedValue([]);
+      mockTaskIndexService.getTasksForMembers.mockResolvedValue([]);
       mockTasksConflictService.checkSchedulingConflictsWithTasks.mockResolvedValue([]);
 
       await service.detectUpdateConflictsSync(taskId, updateData, currentTask);
@@ -0,0 +1,165 @@
+const mockRuleSetModel = {
+  find: jest.fn(),
+  findOne: jest.fn(),
+  findById: jest.fn(),
+  findByIdAndUpdate: jest.fn(),
+  findByIdAndDelete: jest.fn(),
+  updateMany: jest.fn(),
+  create: jest.fn(),
+};
+
+jest.mock('../../../src/models/ConflictRuleSet.model', () => ({
+  ConflictRuleSetModel: mockRuleSetModel
+}));
+
+import {
+  conflictRulesService,
+  ConflictCandidate,
+  ConflictRule,
+  DEFAULT_CONFLICT_RULES,
+  RULE_SET_NOT_DRAFT_ERROR,
+  RULE_SET_ACTIVE_ERROR
+} from '../../../src/services/conflict-rules.service';
+
+const lean = (result: any) => ({ lean: () => Promise.resolve(result) });
+
+const rule = (overrides: Partial<ConflictRule>): ConflictRule => ({
+  conflictTypes: [],
+  taskTypes: [],
+  otherTaskTypes: [],
+  teams: [],
+  enabled: true,
+  severity: null,
+  minOverlapMinutes: null,
+  overloadToleranceHours: null,
+  ...overrides,
+});
+
+const candidate = (type: any, overrides: Partial<ConflictCandidate> = {}): ConflictCandidate => ({
+  conflict: { type, message: type, memberId: 'm1', severity: 'medium' },
+  taskType: 'task',
+  otherTaskType: null,
+  teams: ['team-a'],
+  ...overrides,
+});
+
+describe('ConflictRulesService', () => {
+  beforeEach(() => {
+    (conflictRulesService as any).activeRules = null;
+  });
+
+  describe('applyRules', () => {
+    it('should keep candidates matching no rule as detected', () => {
+      const conflicts = conflictRulesService.applyRules([candidate('overlap')], [rule({ conflictTypes: ['holiday'], enabled: false })]);
+
+      expect(conflicts).toEqual([expect.objectContaining({ type: 'overlap', severity: 'medium' })]);
+    });
+
+    it('should let the first matching rule decide', () => {
+      const rules = [
+        rule({ conflictTypes: ['holiday'], teams: ['team-a'], severity: 'low' }),
+        rule({ conflictTypes: ['holiday'], enabled: false }),
+      ];
+
+      const conflicts = conflictRulesService.applyRules([
+        candidate('holiday', { otherTaskType: 'holiday' }),
+        candidate('holiday', { otherTaskType: 'holiday', teams: ['team-b'] }),
+      ], rules);
+
+      expect(conflicts).toEqual([expect.objectContaining({ type: 'holiday', severity: 'low' })]);
+    });
+
+    it('should only match conflicting task types on overlaps', () => {
+      const rules = [rule({ otherTaskTypes: ['school'], enabled: false })];
+
+      const conflicts = conflictRulesService.applyRules([
+        candidate('school', { otherTaskType: 'school' }),
+        candidate('weekend'),
+      ], rules);
+
+      expect(conflicts.map(conflict => conflict.type)).toEqual(['weekend']);
+    });
+
+    it('should apply overlap and overload thresholds', () => {
+      const rules = [
+        rule({ conflictTypes: ['overlap'], minOverlapMinutes: 30 }),
+        rule({ conflictTypes: ['overload'], overloadToleranceHours: 1 }),
+      ];
+
+      const conflicts = conflictRulesService.applyRules([
+        candidate('overlap', { otherTaskType: 'task', overlapMinutes: 15 }),
+        candidate('overlap', { otherTaskType: 'task', overlapMinutes: 45 }),
+        candidate('overload', { excessHours: 1 }),
+        candidate('overload', { excessHours: 2 }),
+      ], rules);
+
+      expect(conflicts).toHaveLength(2);
+      expect(conflicts.map(conflict => conflict.type)).toEqual(['overlap', 'overload']);
+    });
+
+    it('should skip remote work and leaves on days off with the default rules', () => {
+      const conflicts = conflictRulesService.applyRules([
+        candidate('overlap', { taskType: 'remote', otherTaskType: 'task' }),
+        candidate('overlap', { otherTaskType: 'remote' }),
+        candidate('public_holiday', { taskType: 'holiday' }),
+        candidate('public_holiday'),
+      ], DEFAULT_CONFLICT_RULES);
+
+      expect(conflicts.map(conflict => conflict.type)).toEqual(['public_holiday']);
+    });
+  });
+
+  describe('getActiveRules', () => {
+    it('should use the default rules when no rule set is active', async () => {
+      mockRuleSetModel.findOne.mockReturnValue(lean(null));
+
+      expect(await conflictRulesService.getActiveRules()).toBe(DEFAULT_CONFLICT_RULES);
+    });
+
+    it('should normalize the rules of the active rule set', async () => {
+      mockRuleSetModel.findOne.mockReturnValue(lean({
+        _id: 'rs1',
+        name: 'Custom',
+        status: 'active',
+        rules: [{ conflictTypes: ['weekend'], enabled: false }],
+      }));
+
+      expect(await conflictRulesService.getActiveRules()).toEqual([rule({ conflictTypes: ['weekend'], enabled: false })]);
+    });
+  });
+
+  describe('rule set lifecycle', () => {
+    it('should refuse to edit a rule set that is not a draft', async () => {
+      mockRuleSetModel.findById.mockReturnValue(lean({ _id: 'rs1', status: 'active' }));
+
+      await expect(conflictRulesService.updateRuleSet('rs1', { name: 'Renamed' })).rejects.toThrow(RULE_SET_NOT_DRAFT_ERROR);
+      expect(mockRuleSetModel.findByIdAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to delete the active rule set', async () => {
+      mockRuleSetModel.findById.mockReturnValue(lean({ _id: 'rs1', status: 'active' }));
+
+      await expect(conflictRulesService.deleteRuleSet('rs1')).rejects.toThrow(RULE_SET_ACTIVE_ERROR);
+    });
+
+    it('should archive the previous rule set on activation and reload the rules', async () => {
+      const draft = { _id: 'rs2', name: 'Nouvelles règles', status: 'draft', rules: [{ conflictTypes: ['weekend'], enabled: false }] };
+      mockRuleSetModel.findById.mockReturnValue(lean(draft));
+      mockRuleSetModel.updateMany.mockResolvedValue({});
+      mockRuleSetModel.findByIdAndUpdate.mockReturnValue(lean({ ...draft, status: 'active', activatedAt: new Date() }));
+      mockRuleSetModel.findOne.mockReturnValue(lean(null));
+      await conflictRulesService.getActiveRules();
+
+      const activated = await conflictRulesService.activateRuleSet('rs2', 'admin@example.com');
+
+      expect(activated).toMatchObject({ id: 'rs2', status: 'active' });
+      expect(mockRuleSetModel.updateMany).toHaveBeenCalledWith(
+        { status: 'active', _id: { $ne: 'rs2' } },
+        { $set: { status: 'archived' } }
+      );
+
+      mockRuleSetModel.findOne.mockReturnValue(lean({ ...draft, status: 'active' }));
+      expect(await conflictRulesService.getActiveRules()).toEqual([rule({ conflictTypes: ['weekend'], enabled: false })]);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+const mockNotion = {
+  pages: { create: jest.fn(), update: jest.fn() },
+};
+
+const mockCacheManagerService = {
+  invalidateCachePattern: jest.fn(),
+  deleteCacheKey: jest.fn(),
+  setCache: jest.fn(),
+};
+
+jest.mock('../../../src/config/notion.config', () => ({
+  notion: mockNotion,
+  DATABASES: { traffic: 'db-tasks', projects: 'db-projects', users: 'db-members', teams: 'db-teams', clients: 'db-clients' }
+}));
+
+jest.mock('../../../src/services/notion/cache-manager.service', () => ({
+  cacheManagerService: mockCacheManagerService
+}));
+
+jest.mock('../../../src/utils/retryWithBackoff', () => ({
+  retryWithBackoff: (fn: () => Promise<any>) => fn()
+}));
+
+jest.mock('../../../src/mappers/notion.mapper', () => ({
+  notionPageToProject: (page: any) => ({ id: page.id, name: 'Refonte' }),
+  notionPageToClient: (page: any) => ({ id: page.id, name: 'Acme' }),
+  notionPageToTeam: (page: any) => ({ id: page.id, name: 'Dev' }),
+  createNotionProjectProperties: (input: any) => ({ project: input }),
+  createNotionClientProperties: (input: any) => ({ client: input }),
+  createNotionTeamProperties: (input: any) => ({ team: input }),
+}));
+
+import { EntityService } from '../../../src/services/notion/entity.service';
+import { NotionAPIError } from '../../../src/errors/NotionAPIError';
+
+describe('EntityService writes', () => {
+  let service: EntityService;
+
+  const invalidatedPatterns = () => mockCacheManagerService.invalidateCachePattern.mock.calls.map(([pattern]) => pattern).sort();
+
+  beforeEach(() => {
+    mockNotion.pages.create.mockImplementation(async () => ({ id: 'page-1' }));
+    mockNotion.pages.update.mockImplementation(async ({ page_id }: any) => ({ id: page_id }));
+    mockCacheManagerService.invalidateCachePattern.mockResolvedValue(undefined);
+    mockCacheManagerService.deleteCacheKey.mockResolvedValue(undefined);
+    mockCacheManagerService.setCache.mockResolvedValue(undefined);
+    // Nouvelle instance : pas d'attente du throttle entre les tests
+    service = new EntityService();
+  });
+
+  it('should create the page in the entity database and cache it', async () => {
+    const project = await service.createProject({ name: 'Refonte', clientId: 'c1' });
+
+    expect(mockNotion.pages.create).toHaveBeenCalledWith({
+      parent: { database_id: 'db-projects' },
+      properties: { project: { name: 'Refonte', clientId: 'c1' } }
+    });
+    expect(project).toEqual({ id: 'page-1', name: 'Refonte' });
+    expect(invalidatedPatterns()).toEqual(['clients:*', 'projects:*']);
+    expect(mockCacheManagerService.setCache).toHaveBeenCalledWith('project:page-1', project, 'projects');
+  });
+
+  it('should update the page and re-cache the written entity', async () => {
+    await service.updateClient('client-1', { name: 'Acme' });
+
+    expect(mockNotion.pages.update).toHaveBeenCalledWith({ page_id: 'client-1', properties: { client: { name: 'Acme' } } });
+    expect(invalidatedPatterns()).toEqual(['clients:*', 'projects:*']);
+    expect(mockCacheManagerService.deleteCacheKey).toHaveBeenCalledWith('client:client-1');
+    expect(mockCacheManagerService.setCache).toHaveBeenCalledWith('client:client-1', { id: 'client-1', name: 'Acme' }, 'clients');
+  });
+
+  it('should archive the page and drop its cache without re-caching it', async () => {
+    await service.archiveTeam('team-1');
+
+    expect(mockNotion.pages.update).toHaveBeenCalledWith({ page_id: 'team-1', archived: true });
+    expect(invalidatedPatterns()).toEqual(['teams:*', 'users:*']);
+    expect(mockCacheManagerService.deleteCacheKey).toHaveBeenCalledWith('team:team-1');
+    expect(mockCacheManagerService.setCache).not.toHaveBeenCalled();
+  });
+
+  it('should wrap Notion errors and leave the caches untouched', async () => {
+    mockNotion.pages.update.mockRejectedValue({ status: 404, message: 'Not found' });
+
+    await expect(service.updateProject('missing', { name: 'Refonte' })).rejects.toBeInstanceOf(NotionAPIError);
+    expect(mockCacheManagerService.invalidateCachePattern).not.toHaveBeenCalled();
+    expect(mockCacheManagerService.setCache).not.toHaveBeenCalled();
+  });
+});
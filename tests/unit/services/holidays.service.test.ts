@@ -0,0 +1,134 @@
+const mockClosureModel = {
+  find: jest.fn(),
+  findById: jest.fn(),
+  findOne: jest.fn(),
+  create: jest.fn(),
+  findByIdAndUpdate: jest.fn(),
+  findByIdAndDelete: jest.fn(),
+  countDocuments: jest.fn(),
+};
+
+jest.mock('../../../src/models/CompanyClosure.model', () => ({
+  CompanyClosureModel: mockClosureModel
+}));
+
+import { holidaysService, getEasterSunday, CLOSURE_PERIOD_ERROR } from '../../../src/services/holidays.service';
+
+// Requêtes Mongoose chaînables (.sort().select().lean())
+const query = (result: any): any => {
+  const chain: any = {
+    sort: () => chain,
+    select: () => chain,
+    lean: () => Promise.resolve(result),
+  };
+  return chain;
+};
+
+describe('HolidaysService', () => {
+  describe('getEasterSunday', () => {
+    it.each([
+      [2024, 2, 31],
+      [2025, 3, 20],
+      [2026, 3, 5],
+      [2038, 3, 25],
+      [2285, 2, 22],
+    ])('should compute Easter %i', (year, month, day) => {
+      expect(getEasterSunday(year)).toEqual(new Date(year, month, day));
+    });
+  });
+
+  describe('getHolidays', () => {
+    it('should return the 11 metropolitan holidays with Easter-based dates', () => {
+      const holidays = holidaysService.getHolidays(2025, 'metropole');
+
+      expect(Object.keys(holidays)).toHaveLength(11);
+      expect(holidays).toMatchObject({
+        '2025-01-01': '1er janvier',
+        '2025-04-21': 'Lundi de Pâques',
+        '2025-05-29': 'Ascension',
+        '2025-06-09': 'Lundi de Pentecôte',
+        '2025-07-14': '14 juillet',
+        '2025-12-25': 'Jour de Noël',
+      });
+      expect(Object.keys(holidays)).toEqual([...Object.keys(holidays)].sort());
+    });
+
+    it('should add Good Friday and St Stephen for Alsace-Moselle', () => {
+      const holidays = holidaysService.getHolidays(2024, 'alsace-moselle');
+
+      expect(Object.keys(holidays)).toHaveLength(13);
+      expect(holidays['2024-03-29']).toBe('Vendredi saint');
+      expect(holidays['2024-12-26']).toBe('26 décembre');
+      expect(holidaysService.getHolidays(2024, 'metropole')['2024-03-29']).toBeUndefined();
+    });
+
+    it('should use HOLIDAYS_ZONE by default', () => {
+      process.env.HOLIDAYS_ZONE = 'alsace-moselle';
+      try {
+        expect(holidaysService.getPublicHoliday('2025-12-26')).toBe('26 décembre');
+      } finally {
+        delete process.env.HOLIDAYS_ZONE;
+      }
+      expect(holidaysService.getPublicHoliday('2025-12-26')).toBeNull();
+    });
+  });
+
+  describe('getHolidaysForRange', () => {
+    it('should return the holidays of a range spanning two years', () => {
+      const holidays = holidaysService.getHolidaysForRange(new Date(2025, 11, 20), new Date(2026, 0, 10), 'metropole');
+
+      expect(holidays).toEqual({ '2025-12-25': 'Jour de Noël', '2026-01-01': '1er janvier' });
+    });
+  });
+
+  describe('company closures', () => {
+    const closures = [
+      { _id: 'c1', label: 'Pont de l\'Ascension', startDate: '2025-05-30', endDate: '2025-05-30' },
+      { _id: 'c2', label: 'Fermeture annuelle', startDate: '2025-12-24', endDate: '2026-01-02' },
+    ];
+
+    beforeEach(async () => {
+      mockClosureModel.find.mockReturnValue(query(closures));
+      mockClosureModel.countDocuments.mockResolvedValue(closures.length);
+      mockClosureModel.findOne.mockReturnValue(query({ updatedAt: new Date(2025, 0, 1) }));
+      await holidaysService.reload();
+    });
+
+    it('should find the closure covering a day', () => {
+      expect(holidaysService.getClosure('2025-12-31')).toMatchObject({ id: 'c2', label: 'Fermeture annuelle' });
+      expect(holidaysService.getClosure('2025-05-29')).toBeNull();
+    });
+
+    it('should expand closures over a range', () => {
+      const closed = holidaysService.getClosuresForRange(new Date(2025, 11, 30), new Date(2026, 0, 5));
+
+      expect(closed).toEqual({
+        '2025-12-30': 'Fermeture annuelle',
+        '2025-12-31': 'Fermeture annuelle',
+        '2026-01-01': 'Fermeture annuelle',
+        '2026-01-02': 'Fermeture annuelle',
+      });
+    });
+
+    it('should reject a closure ending before it starts', async () => {
+      await expect(holidaysService.createClosure({ label: 'Erreur', startDate: '2025-08-15', endDate: '2025-08-01' }))
+        .rejects.toThrow(CLOSURE_PERIOD_ERROR);
+      expect(mockClosureModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should reload the closures after a creation', async () => {
+      const created = { _id: 'c3', label: 'Pont du 8 mai', startDate: '2026-05-08', endDate: '2026-05-08' };
+      mockClosureModel.create.mockResolvedValue({ _id: 'c3', toObject: () => created });
+      mockClosureModel.find.mockReturnValue(query([...closures, created]));
+
+      const closure = await holidaysService.createClosure(
+        { label: 'Pont du 8 mai', startDate: '2026-05-08', endDate: '2026-05-08' },
+        'admin@example.com'
+      );
+
+      expect(closure).toEqual({ id: 'c3', label: 'Pont du 8 mai', startDate: '2026-05-08', endDate: '2026-05-08', updatedAt: undefined });
+      expect(mockClosureModel.create).toHaveBeenCalledWith(expect.objectContaining({ updatedBy: 'admin@example.com' }));
+      expect(holidaysService.getClosure('2026-05-08')).toMatchObject({ id: 'c3' });
+    });
+  });
+});
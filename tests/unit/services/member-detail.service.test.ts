@@ -0,0 +1,137 @@
+const mockNotionService = {
+  getTasksForCalendarView: jest.fn(),
+};
+
+const mockEntityService = {
+  getAllMembers: jest.fn(),
+  getAllTeams: jest.fn(),
+  getAllProjects: jest.fn(),
+};
+
+const mockUserModel = {
+  findOne: jest.fn(),
+};
+
+const mockConflictModel = {
+  findActiveForMember: jest.fn(),
+};
+
+jest.mock('../../../src/services/notion.service', () => ({
+  __esModule: true,
+  default: mockNotionService
+}));
+
+jest.mock('../../../src/services/notion/entity.service', () => ({
+  entityService: mockEntityService
+}));
+
+jest.mock('../../../src/models/User.model', () => ({
+  UserModel: mockUserModel
+}));
+
+jest.mock('../../../src/models/TaskSchedulingConflict.model', () => ({
+  TaskSchedulingConflictModel: mockConflictModel
+}));
+
+import { addDays, format, startOfDay } from 'date-fns';
+import { memberDetailService } from '../../../src/services/member-detail.service';
+import { taskFactory } from '../../helpers/task.factory';
+
+// Dates relatives à aujourd'hui : la fiche couvre les semaines à venir
+const today = startOfDay(new Date());
+const at = (days: number, hour = 0) => new Date(addDays(today, days).getTime() + hour * 60 * 60 * 1000);
+const day = (days: number) => format(addDays(today, days), 'yyyy-MM-dd');
+
+const makeTask = taskFactory({ status: 'not_started', assignedMembers: ['m1'] });
+
+const userQuery = (user: any) => ({ select: () => ({ lean: () => Promise.resolve(user) }) });
+
+describe('MemberDetailService', () => {
+  beforeEach(() => {
+    mockEntityService.getAllMembers.mockResolvedValue([
+      { id: 'm1', name: 'Alice', email: 'alice@example.com', teams: ['team-a'], tasks: [] },
+    ]);
+    mockEntityService.getAllTeams.mockResolvedValue([
+      { id: 'team-a', name: 'Créa', members: [] },
+      { id: 'team-b', name: 'Dev', members: ['m1'] },
+      { id: 'team-c', name: 'Compta', members: [] },
+    ]);
+    mockEntityService.getAllProjects.mockResolvedValue([
+      { id: 'p1', name: 'Refonte', client: null, status: 'En cours', tasks: [] },
+    ]);
+    mockNotionService.getTasksForCalendarView.mockResolvedValue([]);
+    mockUserModel.findOne.mockReturnValue(userQuery(null));
+    mockConflictModel.findActiveForMember.mockResolvedValue([]);
+  });
+
+  it('should return null when the member does not exist', async () => {
+    await expect(memberDetailService.getMemberDetail('unknown', { weeks: 4 })).resolves.toBeNull();
+    expect(mockNotionService.getTasksForCalendarView).not.toHaveBeenCalled();
+  });
+
+  it('should resolve the teams of the member from both sides of the relation', async () => {
+    const detail = await memberDetailService.getMemberDetail('m1', { weeks: 4 });
+
+    expect(detail!.teams).toEqual([
+      { id: 'team-a', name: 'Créa' },
+      { id: 'team-b', name: 'Dev' },
+    ]);
+    expect(detail!.range).toEqual({ startDate: day(0), endDate: day(27) });
+  });
+
+  it('should split the member tasks into upcoming tasks, absences and remote days', async () => {
+    mockNotionService.getTasksForCalendarView.mockResolvedValue([
+      makeTask('later', at(3, 9), at(3, 12), { projectId: 'p1' }),
+      makeTask('sooner', at(1, 9), at(1, 12)),
+      makeTask('leave', at(5), at(7), { taskType: 'holiday', isAllDay: true }),
+      makeTask('remote', at(2), at(4), { taskType: 'remote' }),
+      makeTask('other-member', at(1, 9), at(1, 12), { assignedMembers: ['m2'] }),
+    ]);
+
+    const detail = await memberDetailService.getMemberDetail('m1', { weeks: 2 });
+
+    expect(detail!.upcomingTasks.map(task => task.id)).toEqual(['sooner', 'later']);
+    expect(detail!.upcomingTasks[1]!.project).toEqual({ id: 'p1', name: 'Refonte' });
+    expect(detail!.absences.map(task => task.id)).toEqual(['leave']);
+    // Une tâche qui finit à minuit n'occupe pas le jour suivant
+    expect(detail!.remoteDays).toEqual([day(2), day(3)]);
+  });
+
+  it('should include the linked application user and active conflicts', async () => {
+    mockUserModel.findOne.mockReturnValue(userQuery({
+      _id: 'u1',
+      email: 'alice@example.com',
+      firstName: 'Alice',
+      lastName: 'Martin',
+      role: 'user',
+    }));
+    mockConflictModel.findActiveForMember.mockResolvedValue([{
+      taskId: 't1',
+      type: 'overlap',
+      severity: 'medium',
+      status: 'acknowledged',
+      message: 'Alice a déjà une tâche',
+      conflictingTaskId: 't2',
+      detectedAt: new Date('2025-04-01T08:00:00Z'),
+    }]);
+    mockNotionService.getTasksForCalendarView.mockResolvedValue([
+      makeTask('t1', at(1, 9), at(1, 12)),
+      makeTask('other-member', at(1, 9), at(1, 12), { assignedMembers: ['m2'] }),
+    ]);
+
+    const detail = await memberDetailService.getMemberDetail('m1', { weeks: 4 });
+
+    expect(mockUserModel.findOne).toHaveBeenCalledWith({ memberId: 'm1' });
+    // Seuls les conflits des tâches de la période ou datés dans la période, en nombre borné
+    expect(mockConflictModel.findActiveForMember).toHaveBeenCalledWith('m1', {
+      taskIds: ['t1'],
+      startDate: day(0),
+      endDate: day(27),
+      limit: 200
+    });
+    expect(detail!.user).toEqual(expect.objectContaining({ id: 'u1', role: 'user', lastLogin: null }));
+    expect(detail!.conflicts).toEqual([
+      expect.objectContaining({ taskId: 't1', type: 'overlap', status: 'acknowledged', conflictingTaskId: 't2' }),
+    ]);
+  });
+});
@@ -0,0 +1,100 @@
+const mockScheduleModel = {
+  find: jest.fn(),
+  findById: jest.fn(),
+  findOne: jest.fn(),
+  findByIdAndUpdate: jest.fn(),
+  findByIdAndDelete: jest.fn(),
+  countDocuments: jest.fn(),
+  create: jest.fn(),
+};
+
+jest.mock('../../../src/models/MemberSchedule.model', () => ({
+  ...jest.requireActual('../../../src/models/MemberSchedule.model'),
+  MemberScheduleModel: mockScheduleModel
+}));
+
+import { memberScheduleService, SCHEDULE_OVERLAP_ERROR } from '../../../src/services/member-schedule.service';
+
+// Chaînes mongoose : find().sort().lean(), findOne().sort().select().lean()
+const query = (result: any) => {
+  const chain: any = {};
+  chain.sort = jest.fn(() => chain);
+  chain.select = jest.fn(() => chain);
+  chain.lean = jest.fn(() => Promise.resolve(result));
+  return chain;
+};
+
+const stored = [
+  { _id: 's1', memberId: 'm1', workingDays: [1, 2, 3, 4, 5], dailyHours: 8, partTimePercentage: 100,
+    startTime: '09:00', endTime: '18:00', effectiveFrom: null, effectiveTo: '2025-03-31' },
+  { _id: 's2', memberId: 'm1', workingDays: [1, 2, 4, 5], dailyHours: 7, partTimePercentage: 80,
+    startTime: '08:30', endTime: '17:00', effectiveFrom: '2025-04-01', effectiveTo: null },
+];
+
+describe('MemberScheduleService', () => {
+  beforeEach(async () => {
+    mockScheduleModel.find.mockImplementation((filter: any = {}) =>
+      query(filter.memberId ? stored.filter(s => s.memberId === filter.memberId) : stored)
+    );
+    mockScheduleModel.countDocuments.mockResolvedValue(stored.length);
+    mockScheduleModel.findOne.mockReturnValue(query({ updatedAt: new Date('2025-04-01') }));
+
+    await memberScheduleService.reload();
+  });
+
+  describe('getScheduleForDate', () => {
+    it('should pick the schedule in effect on that day', () => {
+      expect(memberScheduleService.getScheduleForDate('m1', '2025-03-31').id).toBe('s1');
+      expect(memberScheduleService.getScheduleForDate('m1', '2025-04-01').id).toBe('s2');
+    });
+
+    it('should fall back to the default schedule', () => {
+      const schedule = memberScheduleService.getScheduleForDate('unknown', '2025-04-01');
+
+      expect(schedule).toMatchObject({ id: null, isDefault: true, dailyHours: 8, startTime: '07:00', endTime: '22:00' });
+    });
+  });
+
+  describe('getDailyCapacity', () => {
+    it('should apply part time and days off', () => {
+      expect(memberScheduleService.getDailyCapacity('m1', '2025-03-26')).toBe(8); // mercredi, ancien horaire
+      expect(memberScheduleService.getDailyCapacity('m1', '2025-04-02')).toBe(0); // mercredi non travaillé
+      expect(memberScheduleService.getDailyCapacity('m1', '2025-04-03')).toBeCloseTo(5.6);
+      expect(memberScheduleService.getDailyCapacity('unknown', '2025-04-05')).toBe(0); // samedi
+    });
+  });
+
+  describe('getWorkingWindow', () => {
+    it('should return the working hours of the member', () => {
+      expect(memberScheduleService.getWorkingWindow('m1', '2025-04-03')).toEqual({ start: [8, 30], end: [17, 0] });
+      expect(memberScheduleService.getWorkingWindow(undefined, '2025-04-03')).toEqual({ start: [7, 0], end: [22, 0] });
+    });
+  });
+
+  describe('createSchedule', () => {
+    it('should reject a period overlapping another schedule', async () => {
+      await expect(memberScheduleService.createSchedule('m1', { effectiveFrom: '2025-06-01' }))
+        .rejects.toThrow(SCHEDULE_OVERLAP_ERROR);
+      expect(mockScheduleModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should create a schedule on a free period', async () => {
+      mockScheduleModel.create.mockImplementation(async (doc: any) => ({
+        _id: 's3',
+        toObject: () => ({ _id: 's3', ...doc })
+      }));
+
+      const schedule = await memberScheduleService.createSchedule('m2', { dailyHours: 6, effectiveFrom: '2025-05-01' }, 'admin@test.fr');
+
+      expect(mockScheduleModel.create).toHaveBeenCalledWith(expect.objectContaining({
+        memberId: 'm2',
+        dailyHours: 6,
+        workingDays: [1, 2, 3, 4, 5],
+        effectiveFrom: '2025-05-01',
+        effectiveTo: null,
+        updatedBy: 'admin@test.fr'
+      }));
+      expect(schedule).toMatchObject({ id: 's3', memberId: 'm2', dailyHours: 6 });
+    });
+  });
+});
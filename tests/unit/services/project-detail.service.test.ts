@@ -0,0 +1,126 @@
+const mockNotionService = {
+  batchLoadProjects: jest.fn(),
+  batchLoadClients: jest.fn(),
+  batchLoadMembers: jest.fn(),
+  batchLoadTeams: jest.fn(),
+  getProjectTasks: jest.fn(),
+};
+
+const mockConflictModel = {
+  findActiveForTasks: jest.fn(),
+};
+
+jest.mock('../../../src/services/notion.service', () => ({
+  __esModule: true,
+  default: mockNotionService
+}));
+
+jest.mock('../../../src/models/TaskSchedulingConflict.model', () => ({
+  TaskSchedulingConflictModel: mockConflictModel
+}));
+
+import { projectDetailService } from '../../../src/services/project-detail.service';
+import { taskFactory } from '../../helpers/task.factory';
+
+const makeTask = taskFactory({ status: 'not_started', projectId: 'p1' });
+
+describe('ProjectDetailService', () => {
+  beforeEach(() => {
+    mockNotionService.batchLoadProjects.mockResolvedValue([
+      { id: 'p1', name: 'Refonte', client: 'c1', status: 'En cours', tasks: [] },
+    ]);
+    mockNotionService.batchLoadClients.mockResolvedValue([{ id: 'c1', name: 'ACME', projects: ['p1'] }]);
+    mockNotionService.batchLoadMembers.mockImplementation(async (ids: string[]) => ids.map(id => ({
+      id,
+      name: id === 'm1' ? 'Alice' : 'Bob',
+      email: `${id}@example.com`,
+      teams: [],
+    })));
+    mockNotionService.batchLoadTeams.mockImplementation(async (ids: string[]) => ids.map(id => ({
+      id,
+      name: id === 'team-a' ? 'Créa' : 'Dev',
+      members: [],
+    })));
+    mockNotionService.getProjectTasks.mockResolvedValue([]);
+    mockConflictModel.findActiveForTasks.mockResolvedValue([]);
+  });
+
+  it('should return null when the project does not exist', async () => {
+    mockNotionService.batchLoadProjects.mockResolvedValue([null]);
+
+    await expect(projectDetailService.getProjectDetail('unknown')).resolves.toBeNull();
+    expect(mockNotionService.getProjectTasks).not.toHaveBeenCalled();
+  });
+
+  it('should group tasks by status and team and sum hours', async () => {
+    mockNotionService.getProjectTasks.mockResolvedValue([
+      makeTask('design', '2025-03-03T09:00:00', '2025-03-04T18:00:00', {
+        status: 'completed', teams: ['team-a'], assignedMembers: ['m1'], billedHours: 10, actualHours: 12
+      }),
+      makeTask('build', '2025-03-10T09:00:00', '2025-03-14T18:00:00', {
+        status: 'in_progress', teams: ['team-a', 'team-b'], assignedMembers: ['m1', 'm2'], billedHours: 20, actualHours: 5
+      }),
+      makeTask('backlog', null, null, { status: null }),
+    ]);
+
+    const detail = await projectDetailService.getProjectDetail('p1');
+
+    expect(detail!.client).toEqual({ id: 'c1', name: 'ACME' });
+    expect(detail!.hours).toEqual({ billedHours: 30, actualHours: 17, remainingHours: 13 });
+    expect(detail!.progress).toEqual({ total: 3, completed: 1, ratio: 0.33 });
+    expect(detail!.tasksByStatus.completed.map(task => task.id)).toEqual(['design']);
+    expect(detail!.tasksByStatus.unknown.map(task => task.id)).toEqual(['backlog']);
+    expect(detail!.tasksByTeam.map(group => [group.team?.name ?? null, group.tasks.map(task => task.id)])).toEqual([
+      ['Créa', ['design', 'build']],
+      ['Dev', ['build']],
+      [null, ['backlog']],
+    ]);
+    expect(detail!.tasksByTeam[1]).toEqual(expect.objectContaining({ billedHours: 20, actualHours: 5, remainingHours: 15 }));
+    expect(detail!.members).toEqual([
+      { id: 'm1', name: 'Alice', email: 'm1@example.com', taskCount: 2 },
+      { id: 'm2', name: 'Bob', email: 'm2@example.com', taskCount: 1 },
+    ]);
+  });
+
+  it('should span from the first task start to the last task end', async () => {
+    mockNotionService.getProjectTasks.mockResolvedValue([
+      makeTask('long', '2025-03-03T09:00:00', '2025-03-20T18:00:00'),
+      // Une tâche qui finit à minuit n'occupe pas le jour suivant
+      makeTask('late', '2025-03-18T09:00:00', '2025-03-22T00:00:00'),
+      makeTask('undated', null, null),
+    ]);
+
+    const detail = await projectDetailService.getProjectDetail('p1');
+
+    expect(detail!.startDate).toBe('2025-03-03');
+    expect(detail!.endDate).toBe('2025-03-21');
+    expect(detail!.tasksByStatus.not_started.map(task => task.id)).toEqual(['long', 'late', 'undated']);
+  });
+
+  it('should include open conflicts of the project tasks', async () => {
+    mockNotionService.batchLoadProjects.mockResolvedValue([
+      { id: 'p1', name: 'Refonte', client: null, status: 'En cours', tasks: [] },
+    ]);
+    mockNotionService.getProjectTasks.mockResolvedValue([
+      makeTask('t1', '2025-03-03T09:00:00', '2025-03-03T12:00:00', { assignedMembers: ['m1'] }),
+    ]);
+    mockConflictModel.findActiveForTasks.mockResolvedValue([{
+      taskId: 't1',
+      type: 'overlap',
+      severity: 'medium',
+      status: 'active',
+      message: 'Alice a déjà une tâche',
+      memberId: 'm1',
+      memberName: 'Alice',
+    }]);
+
+    const detail = await projectDetailService.getProjectDetail('p1');
+
+    expect(mockNotionService.batchLoadClients).not.toHaveBeenCalled();
+    expect(mockConflictModel.findActiveForTasks).toHaveBeenCalledWith(['t1']);
+    expect(detail!.client).toBeNull();
+    expect(detail!.conflicts).toEqual([
+      expect.objectContaining({ taskId: 't1', type: 'overlap', memberName: 'Alice' }),
+    ]);
+  });
+});
@@ -0,0 +1,129 @@
+// Mock NotionConfig model - must be defined before mocking
+const mockFindOne = jest.fn();
+
+jest.mock('../../../src/models/NotionConfig.model', () => ({
+  __esModule: true,
+  default: { findOne: mockFindOne },
+  NotionConfigModel: { findOne: mockFindOne },
+}));
+
+import {
+  PropertyMappingService,
+  resolvePropertyMappings,
+} from '../../../src/services/notion/property-mapping.service';
+import { TASK_PROPERTY_IDS, PROJECT_PROPERTY_IDS } from '../../../src/config/notion.config';
+
+const mockConfigQuery = (config: any) => ({
+  select: jest.fn().mockReturnValue({
+    lean: jest.fn().mockResolvedValue(config),
+  }),
+});
+
+describe('resolvePropertyMappings', () => {
+  it('should fall back to hardcoded property names when no mapping is stored', () => {
+    const resolved = resolvePropertyMappings([]);
+
+    expect(resolved.traffic).toEqual(TASK_PROPERTY_IDS);
+    expect(resolved.projects).toEqual(PROJECT_PROPERTY_IDS);
+  });
+
+  it('should resolve auto-detected application fields to mapper keys', () => {
+    const resolved = resolvePropertyMappings([
+      {
+        databaseName: 'traffic',
+        mappedFieldsCount: 3,
+        fields: [
+          { applicationField: 'taskName', notionProperty: 'Titre', notionType: 'title', isRequired: true },
+          { applicationField: 'users', notionProperty: 'Assignés', notionType: 'relation', isRequired: true },
+          { applicationField: 'comment', notionProperty: 'Notes', notionType: 'rich_text', isRequired: false },
+        ],
+      },
+      {
+        databaseName: 'projects',
+        mappedFieldsCount: 1,
+        fields: [
+          { applicationField: 'status', notionProperty: 'Statut', notionType: 'status', isRequired: true },
+        ],
+      },
+    ]);
+
+    expect(resolved.traffic.title).toBe('Titre');
+    expect(resolved.traffic.assignedMembers).toBe('Assignés');
+    expect(resolved.traffic.notes).toBe('Notes');
+    expect(resolved.traffic.workPeriod).toBe(TASK_PROPERTY_IDS.workPeriod);
+    expect(resolved.projects.status).toBe('Statut');
+  });
+
+  it('should ignore unknown fields and unknown databases', () => {
+    const resolved = resolvePropertyMappings([
+      {
+        databaseName: 'traffic',
+        mappedFieldsCount: 1,
+        fields: [
+          { applicationField: 'some_custom_column', notionProperty: 'Custom', notionType: 'rich_text', isRequired: false },
+        ],
+      },
+      {
+        databaseName: 'invoices',
+        mappedFieldsCount: 1,
+        fields: [
+          { applicationField: 'title', notionProperty: 'Facture', notionType: 'title', isRequired: true },
+        ],
+      },
+    ]);
+
+    expect(resolved.traffic).toEqual(TASK_PROPERTY_IDS);
+  });
+});
+
+describe('PropertyMappingService', () => {
+  let service: PropertyMappingService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new PropertyMappingService();
+  });
+
+  it('should hot reload property names from the stored config', async () => {
+    mockFindOne.mockReturnValueOnce(
+      mockConfigQuery({
+        version: 2,
+        mappings: [
+          {
+            databaseName: 'traffic',
+            fields: [
+              { applicationField: 'workPeriod', notionProperty: 'Dates', notionType: 'date', isRequired: true },
+            ],
+          },
+        ],
+      })
+    );
+
+    expect(service.task.workPeriod).toBe(TASK_PROPERTY_IDS.workPeriod);
+
+    await service.reload();
+
+    expect(service.task.workPeriod).toBe('Dates');
+    expect(service.getStatus().version).toBe(2);
+  });
+
+  it('should keep the current mapping when loading fails', async () => {
+    mockFindOne.mockImplementationOnce(() => {
+      throw new Error('Mongo down');
+    });
+
+    await service.reload();
+
+    expect(service.task).toEqual(TASK_PROPERTY_IDS);
+  });
+
+  it('should only reload when the config version changed', async () => {
+    mockFindOne
+      .mockReturnValueOnce(mockConfigQuery({ version: 1 }))
+      .mockReturnValueOnce(mockConfigQuery({ version: 1, mappings: [] }))
+      .mockReturnValueOnce(mockConfigQuery({ version: 1 }));
+
+    await expect(service.reloadIfChanged()).resolves.toBe(true);
+    await expect(service.reloadIfChanged()).resolves.toBe(false);
+  });
+});
@@ -25,6 +25,10 @@ const createMockRedis = () => ({
   ping: jest.fn(),
   flushdb: jest.fn(),
   ttl: jest.fn(),
+  hset: jest.fn(),
+  hdel: jest.fn(),
+  hgetall: jest.fn(),
+  expire: jest.fn(),
 });
 
 describe('RedisService', () => {
@@ -276,6 +280,29 @@ describe('RedisService', () => {
     });
   });
 
+  describe('Hash Operations', () => {
+    it('should set serialized fields and only apply the TTL to hashes without one', async () => {
+      await service.hashSet('tasks:index:day:2025-03-02', { t1: { id: 't1' } }, 'tasks');
+
+      expect(mockRedis.hset).toHaveBeenCalledWith('tasks:index:day:2025-03-02', { t1: JSON.stringify({ id: 't1' }) });
+      expect(mockRedis.expire).toHaveBeenCalledWith('tasks:index:day:2025-03-02', 3600, 'NX');
+    });
+
+    it('should delete hash fields', async () => {
+      await service.hashDelete('tasks:index:day:2025-03-02', 't1');
+
+      expect(mockRedis.hdel).toHaveBeenCalledWith('tasks:index:day:2025-03-02', 't1');
+    });
+
+    it('should parse hash fields and return null for missing hashes', async () => {
+      mockRedis.hgetall.mockResolvedValueOnce({ t1: JSON.stringify({ id: 't1' }), t2: { id: 't2' } });
+      mockRedis.hgetall.mockResolvedValueOnce(null);
+
+      expect(await service.hashGetAll('tasks:index:day:2025-03-02')).toEqual({ t1: { id: 't1' }, t2: { id: 't2' } });
+      expect(await service.hashGetAll('tasks:index:day:2025-03-03')).toBeNull();
+    });
+  });
+
   describe('Health Check', () => {
     it('should return healthy when ping succeeds', async () => {
       mockRedis.ping.mockResolvedValue('PONG');
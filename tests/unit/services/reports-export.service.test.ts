@@ -0,0 +1,96 @@
+import ExcelJS from 'exceljs';
+import { reportsExportService } from '../../../src/services/reports-export.service';
+import { HoursReport } from '../../../src/services/reports.service';
+
+const makeReport = (names: string[]): HoursReport => ({
+  groupBy: 'client',
+  startDate: '2025-03-01',
+  endDate: '2025-03-31',
+  rows: names.map((name, index) => ({
+    key: `c${index}`,
+    name,
+    taskCount: 2,
+    completedTasks: 1,
+    billedHours: 10,
+    actualHours: 7.5,
+    variance: -2.5,
+    completionRatio: 0.5,
+  })),
+  totals: {
+    taskCount: names.length * 2,
+    completedTasks: names.length,
+    billedHours: names.length * 10,
+    actualHours: names.length * 7.5,
+    variance: names.length * -2.5,
+    completionRatio: 0.5,
+  },
+});
+
+describe('ReportsExportService', () => {
+  describe('hoursReportToCsv', () => {
+    it('should start with a BOM and end every line with CRLF', () => {
+      const csv = reportsExportService.hoursReportToCsv(makeReport(['Acme']));
+
+      expect(csv.startsWith('\uFEFFClient,')).toBe(true);
+      expect(csv.endsWith('\r\n')).toBe(true);
+      expect(csv.split('\r\n')).toHaveLength(4);
+    });
+
+    it('should quote separators, quotes and line breaks', () => {
+      const csv = reportsExportService.hoursReportToCsv(makeReport(['Dupont, "Fils"', 'Ligne\nsuivante']));
+      const lines = csv.replace('\uFEFF', '').split('\r\n');
+
+      expect(lines[1]).toBe('"Dupont, ""Fils""",2,1,10,7.5,-2.5,0.5');
+      expect(lines[2]).toBe('"Ligne\nsuivante",2,1,10,7.5,-2.5,0.5');
+    });
+
+    it('should neutralize names the spreadsheet would read as formulas', () => {
+      const csv = reportsExportService.hoursReportToCsv(
+        makeReport(['=HYPERLINK("http://evil.test")', '+33 Agence', '-Remise', '@SUM(A1)'])
+      );
+      const names = csv.replace('\uFEFF', '').split('\r\n').slice(1, 5).map(line => line.slice(0, line.lastIndexOf(',2,1,')));
+
+      expect(names).toEqual([
+        `"'=HYPERLINK(""http://evil.test"")"`,
+        `'+33 Agence`,
+        `'-Remise`,
+        `'@SUM(A1)`,
+      ]);
+    });
+
+    it('should keep negative figures as numbers and end with the totals row', () => {
+      const csv = reportsExportService.hoursReportToCsv(makeReport(['Acme', 'Bolt']));
+      const lines = csv.trim().split('\r\n');
+
+      expect(lines[lines.length - 1]).toBe('Total,4,2,20,15,-5,0.5');
+    });
+  });
+
+  describe('hoursReportToXlsx', () => {
+    const load = async (report: HoursReport) => {
+      const workbook = new ExcelJS.Workbook();
+      await workbook.xlsx.load(await reportsExportService.hoursReportToXlsx(report) as any);
+      return workbook.getWorksheet('Heures')!;
+    };
+
+    it('should write headers, rows and a bold totals row', async () => {
+      const sheet = await load(makeReport(['Acme', 'Bolt']));
+
+      expect(sheet.getRow(1).values).toEqual([
+        undefined, 'Client', 'Tâches', 'Tâches terminées', 'Heures vendues', 'Heures passées', 'Écart (h)', 'Avancement'
+      ]);
+      expect(sheet.getRow(3).getCell(1).value).toBe('Bolt');
+      expect(sheet.getRow(4).getCell(1).value).toBe('Total');
+      expect(sheet.getRow(4).getCell(5).value).toBe(15);
+      expect(sheet.getRow(4).font?.bold).toBe(true);
+      expect(sheet.getRow(6).getCell(1).value).toBe('Période du 2025-03-01 au 2025-03-31');
+    });
+
+    it('should store names as plain text', async () => {
+      const sheet = await load(makeReport(['=1+1']));
+
+      expect(sheet.getRow(2).getCell(1).value).toBe('=1+1');
+      expect(sheet.getRow(2).getCell(1).type).toBe(ExcelJS.ValueType.String);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import ExcelJS from 'exceljs';
+
+const mockNotionService = {
+  getTasksForCalendarView: jest.fn(),
+};
+
+const mockEntityService = {
+  getAllProjects: jest.fn(),
+  getAllClients: jest.fn(),
+  getAllTeams: jest.fn(),
+  getAllMembers: jest.fn(),
+};
+
+jest.mock('../../../src/services/notion.service', () => ({
+  __esModule: true,
+  default: mockNotionService
+}));
+
+jest.mock('../../../src/services/notion/entity.service', () => ({
+  entityService: mockEntityService
+}));
+
+import { reportsService } from '../../../src/services/reports.service';
+import { reportsExportService } from '../../../src/services/reports-export.service';
+import { taskFactory } from '../../helpers/task.factory';
+
+const reportTask = taskFactory({ projectId: 'p1', teams: ['team-a'], assignedMembers: ['m1'], billedHours: 0, actualHours: 0 });
+const marchTask = (id: string, day: number, overrides: Record<string, any> = {}) =>
+  reportTask(id, new Date(2025, 2, day, 9).toISOString(), new Date(2025, 2, day, 12).toISOString(), overrides);
+
+const period = { startDate: '2025-03-01', endDate: '2025-03-31' };
+
+describe('ReportsService', () => {
+  beforeEach(() => {
+    mockEntityService.getAllProjects.mockResolvedValue([
+      { id: 'p1', name: 'Site web', client: 'c1', status: 'active', tasks: [] },
+      { id: 'p2', name: 'Identité, "Logo"', client: 'c2', status: 'active', tasks: [] },
+    ]);
+    mockEntityService.getAllClients.mockResolvedValue([
+      { id: 'c1', name: 'Acme', projects: [] },
+      { id: 'c2', name: 'Bolt', projects: [] },
+    ]);
+    mockEntityService.getAllTeams.mockResolvedValue([
+      { id: 'team-a', name: 'Dev', members: [] },
+      { id: 'team-b', name: 'Créa', members: [] },
+    ]);
+    mockEntityService.getAllMembers.mockResolvedValue([
+      { id: 'm1', name: 'Alice', email: '', teams: [], tasks: [] },
+    ]);
+    mockNotionService.getTasksForCalendarView.mockResolvedValue([
+      marchTask('t1', 3, { billedHours: 10, actualHours: 12, status: 'Terminé' }),
+      marchTask('t2', 10, { billedHours: 6, actualHours: 4, teams: ['team-a', 'team-b'] }),
+      marchTask('t3', 12, { projectId: 'p2', billedHours: 20, actualHours: 15, teams: ['team-b'], status: 'Terminé' }),
+      marchTask('t4', 14, { projectId: null, teams: [], assignedMembers: [], billedHours: 1, actualHours: 2 }),
+      marchTask('conges', 17, { taskType: 'holiday', billedHours: 7 }),
+      // Commence en février : appartient au rapport du mois précédent
+      marchTask('fevrier', 0, { billedHours: 100 }),
+    ]);
+  });
+
+  describe('getHoursReport', () => {
+    it('should group hours by client through the task project', async () => {
+      const report = await reportsService.getHoursReport({ ...period, groupBy: 'client' });
+
+      expect(report.rows).toEqual([
+        { key: 'c2', name: 'Bolt', taskCount: 1, completedTasks: 1, billedHours: 20, actualHours: 15, variance: -5, completionRatio: 1 },
+        { key: 'c1', name: 'Acme', taskCount: 2, completedTasks: 1, billedHours: 16, actualHours: 16, variance: 0, completionRatio: 0.5 },
+        { key: null, name: 'Sans client', taskCount: 1, completedTasks: 0, billedHours: 1, actualHours: 2, variance: 1, completionRatio: 0 },
+      ]);
+      expect(report.totals).toMatchObject({ taskCount: 4, billedHours: 37, actualHours: 33, variance: -4 });
+    });
+
+    it('should count a multi-team task in each team but once in the totals', async () => {
+      const report = await reportsService.getHoursReport({ ...period, groupBy: 'team' });
+      const row = (name: string) => report.rows.find(r => r.name === name)!;
+
+      expect(row('Dev')).toMatchObject({ taskCount: 2, billedHours: 16 });
+      expect(row('Créa')).toMatchObject({ taskCount: 2, billedHours: 26 });
+      expect(row('Sans équipe')).toMatchObject({ taskCount: 1 });
+      expect(report.totals.billedHours).toBe(37);
+    });
+
+    it('should apply filters', async () => {
+      const report = await reportsService.getHoursReport({ ...period, groupBy: 'project', teamId: 'team-b' });
+
+      expect(report.rows.map(r => r.key)).toEqual(['p2', 'p1']);
+      expect(report.totals.taskCount).toBe(2);
+    });
+  });
+
+  describe('exports', () => {
+    it('should export CSV with escaped names and a total line', async () => {
+      const report = await reportsService.getHoursReport({ ...period, groupBy: 'project' });
+      const csv = reportsExportService.hoursReportToCsv(report);
+      const lines = csv.replace('\uFEFF', '').trim().split('\r\n');
+
+      expect(lines[0]).toBe('Projet,Tâches,Tâches terminées,Heures vendues,Heures passées,Écart (h),Avancement');
+      expect(lines[1]).toBe('"Identité, ""Logo""",1,1,20,15,-5,1');
+      expect(lines[lines.length - 1]).toBe('Total,4,2,37,33,-4,0.5');
+    });
+
+    it('should export a readable XLSX workbook', async () => {
+      const report = await reportsService.getHoursReport({ ...period, groupBy: 'member' });
+      const buffer = await reportsExportService.hoursReportToXlsx(report);
+
+      const workbook = new ExcelJS.Workbook();
+      await workbook.xlsx.load(buffer as any);
+      const sheet = workbook.getWorksheet('Heures')!;
+
+      expect(sheet.getRow(1).getCell(1).value).toBe('Membre');
+      expect(sheet.getRow(2).getCell(1).value).toBe('Alice');
+      expect(sheet.getRow(2).getCell(4).value).toBe(36);
+      expect(sheet.getRow(4).getCell(1).value).toBe('Total');
+    });
+  });
+});
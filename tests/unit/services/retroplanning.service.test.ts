@@ -0,0 +1,101 @@
+const mockNotionService = {
+  getProjectTasks: jest.fn(),
+};
+
+const mockEntityService = {
+  getAllProjects: jest.fn(),
+  getAllClients: jest.fn(),
+  getAllTeams: jest.fn(),
+};
+
+jest.mock('../../../src/services/notion.service', () => ({
+  __esModule: true,
+  default: mockNotionService
+}));
+
+jest.mock('../../../src/services/notion/entity.service', () => ({
+  entityService: mockEntityService
+}));
+
+import { retroplanningService } from '../../../src/services/retroplanning.service';
+import { retroplanningExportService } from '../../../src/services/retroplanning-export.service';
+import { taskFactory } from '../../helpers/task.factory';
+
+const makeTask = taskFactory({
+  projectId: 'p1',
+  teams: ['team-a'],
+  assignedMembers: ['m1'],
+  clientPlanning: true,
+  isAllDay: true,
+  notes: 'note interne',
+});
+
+describe('RetroplanningService', () => {
+  beforeEach(() => {
+    mockEntityService.getAllProjects.mockResolvedValue([
+      { id: 'p1', name: 'Site <web>', client: 'c1', status: 'En cours', tasks: [] },
+    ]);
+    mockEntityService.getAllClients.mockResolvedValue([
+      { id: 'c1', name: 'Acme', projects: [] },
+    ]);
+    mockEntityService.getAllTeams.mockResolvedValue([
+      { id: 'team-a', name: 'Dev', members: [] },
+      { id: 'team-b', name: 'Créa', members: [] },
+    ]);
+    mockNotionService.getProjectTasks.mockResolvedValue([
+      makeTask('Recette', '2030-05-10', '2030-05-14'),
+      makeTask('À planifier', null, null),
+      makeTask('Maquettes', '2030-03-01', '2030-03-20', { teams: ['team-b'], status: 'Terminé' }),
+      makeTask('Kick-off', '2020-01-06', null, { isAllDay: false, status: 'A valider' }),
+      makeTask('Décoché', '2030-01-01', '2030-01-02', { clientPlanning: false }),
+    ]);
+  });
+
+  it('returns null when the project does not exist', async () => {
+    expect(await retroplanningService.getProjectRetroplanning('unknown')).toBeNull();
+    expect(mockNotionService.getProjectTasks).not.toHaveBeenCalled();
+  });
+
+  it('orders client-planning tasks chronologically with undated milestones last', async () => {
+    const retroplanning = await retroplanningService.getProjectRetroplanning('p1');
+
+    expect(mockNotionService.getProjectTasks).toHaveBeenCalledWith('p1', { clientPlanningOnly: true });
+    expect(retroplanning!.milestones.map(m => m.title)).toEqual(['Kick-off', 'Maquettes', 'Recette', 'À planifier']);
+    expect(retroplanning!.startDate).toBe('2020-01-06');
+    expect(retroplanning!.endDate).toBe('2030-05-14');
+    expect(retroplanning!.client).toEqual({ id: 'c1', name: 'Acme' });
+    expect(retroplanning!.progress).toEqual({ total: 4, completed: 1, ratio: 0.25 });
+  });
+
+  it('exposes team names, mapped status and overdue flag without internal fields', async () => {
+    const retroplanning = await retroplanningService.getProjectRetroplanning('p1');
+    const [kickOff, maquettes] = retroplanning!.milestones;
+
+    expect(kickOff).toEqual({
+      id: 'Kick-off',
+      title: 'Kick-off',
+      startDate: '2020-01-06',
+      endDate: '2020-01-06',
+      isAllDay: false,
+      status: 'in_progress',
+      overdue: true,
+      teams: [{ id: 'team-a', name: 'Dev' }]
+    });
+    expect(maquettes!.status).toBe('completed');
+    expect(maquettes!.teams).toEqual([{ id: 'team-b', name: 'Créa' }]);
+    expect(maquettes).not.toHaveProperty('notes');
+  });
+
+  it('renders an escaped standalone HTML document', async () => {
+    const retroplanning = await retroplanningService.getProjectRetroplanning('p1');
+    const html = retroplanningExportService.toHtml(retroplanning!);
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('Rétroplanning — Site &lt;web&gt;');
+    expect(html).not.toContain('<web>');
+    expect(html).toContain('Acme');
+    expect(html).toContain('status-completed');
+    expect(html).toContain('À planifier');
+    expect(html).not.toContain('note interne');
+  });
+});
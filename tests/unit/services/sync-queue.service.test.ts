@@ -0,0 +1,487 @@
+process.env.SYNC_RATE_LIMIT_DELAY = '0';
+
+const mockNotionService = {
+  createTask: jest.fn(),
+  updateTask: jest.fn(),
+  archiveTask: jest.fn(),
+  createProject: jest.fn(),
+  updateProject: jest.fn(),
+  archiveProject: jest.fn(),
+  createClient: jest.fn(),
+  archiveClient: jest.fn(),
+};
+
+const mockRedisService = {
+  get: jest.fn(),
+  set: jest.fn(),
+  del: jest.fn(),
+};
+
+const mockSyncQueueItemModel = {
+  updateOne: jest.fn(),
+  updateMany: jest.fn(),
+  deleteOne: jest.fn(),
+  deleteMany: jest.fn(),
+  find: jest.fn(),
+};
+
+jest.mock('../../../src/services/notion.service', () => ({
+  __esModule: true,
+  default: mockNotionService
+}));
+
+jest.mock('../../../src/services/redis.service', () => ({
+  redisService: mockRedisService
+}));
+
+jest.mock('../../../src/services/latency-metrics.service', () => ({
+  latencyMetricsService: {
+    recordNotionLatency: jest.fn(),
+    recordQueueLatency: jest.fn(),
+    recordRedisLatency: jest.fn()
+  }
+}));
+
+jest.mock('../../../src/models/SyncQueueItem.model', () => ({
+  SyncQueueItemModel: mockSyncQueueItemModel
+}));
+
+const mockDeadLetterModel = {
+  create: jest.fn(),
+  find: jest.fn(),
+  deleteMany: jest.fn(),
+};
+
+jest.mock('../../../src/models/SyncDeadLetter.model', () => ({
+  SyncDeadLetterModel: mockDeadLetterModel
+}));
+
+const mockTempIdMappingModel = {
+  updateOne: jest.fn(),
+  findOne: jest.fn(),
+};
+
+jest.mock('../../../src/models/TempIdMapping.model', () => ({
+  TempIdMappingModel: mockTempIdMappingModel
+}));
+
+import { syncQueueService } from '../../../src/services/sync-queue.service';
+import { tempIdRegistryService } from '../../../src/services/temp-id-registry.service';
+
+describe('SyncQueueService coalescing', () => {
+  let releaseNotion: () => void;
+
+  beforeEach(async () => {
+    mockRedisService.get.mockResolvedValue(null);
+    mockRedisService.set.mockResolvedValue(undefined);
+    mockRedisService.del.mockResolvedValue(undefined);
+    mockSyncQueueItemModel.updateOne.mockResolvedValue({});
+    mockSyncQueueItemModel.deleteOne.mockResolvedValue({});
+    mockSyncQueueItemModel.deleteMany.mockResolvedValue({});
+    mockSyncQueueItemModel.updateMany.mockResolvedValue({});
+    mockTempIdMappingModel.updateOne.mockResolvedValue({});
+    mockTempIdMappingModel.findOne.mockReturnValue({ lean: jest.fn().mockResolvedValue(null) });
+    tempIdRegistryService.clearCache();
+
+    // Keep the first item "in flight" so that the next ones stay in the queue
+    const inFlight = new Promise<void>(resolve => { releaseNotion = resolve; });
+    const slowCall = async (id: string) => {
+      await inFlight;
+      return { id };
+    };
+    mockNotionService.updateTask.mockImplementation(slowCall);
+    mockNotionService.archiveTask.mockImplementation(slowCall);
+    mockNotionService.createTask.mockImplementation(async () => {
+      await inFlight;
+      return { id: 'notion-id' };
+    });
+
+    await syncQueueService.clearQueue();
+  });
+
+  afterEach(async () => {
+    await syncQueueService.clearQueue();
+    releaseNotion();
+    // Let the processing loop drain before the next test
+    while (syncQueueService.getStatus().processing) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+  });
+
+  const pendingItems = () => syncQueueService.getStatus().items;
+  const coalescedCount = () => syncQueueService.getStatus().metrics.coalesced;
+  const metrics = () => ({ ...syncQueueService.getStatus().metrics });
+
+  it('should merge successive updates of the same task into one pending item', async () => {
+    const before = coalescedCount();
+
+    await syncQueueService.queueTaskUpdate('blocker', { title: 'in flight' });
+    await syncQueueService.queueTaskUpdate('task-1', { title: 'First' });
+    await syncQueueService.queueTaskUpdate('task-1', {
+      workPeriod: { startDate: '2025-03-03T09:00:00.000Z', endDate: '2025-03-03T12:00:00.000Z' }
+    });
+    await syncQueueService.queueTaskUpdate('task-1', {
+      workPeriod: { endDate: '2025-03-03T14:00:00.000Z' } as any
+    });
+
+    const items = pendingItems();
+    expect(items).toHaveLength(1);
+    expect(items[0]!.data).toEqual({
+      title: 'First',
+      workPeriod: { startDate: '2025-03-03T09:00:00.000Z', endDate: '2025-03-03T14:00:00.000Z' }
+    });
+    expect(coalescedCount() - before).toBe(2);
+  });
+
+  it('should send the merged update once without retrying', async () => {
+    const before = metrics();
+
+    await syncQueueService.queueTaskUpdate('blocker', { title: 'in flight' });
+    await syncQueueService.queueTaskUpdate('task-3', { title: 'First' });
+    await syncQueueService.queueTaskUpdate('task-3', { notes: 'Brief' });
+
+    releaseNotion();
+    while (syncQueueService.getStatus().processing || syncQueueService.getStatus().queueLength > 0) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+
+    expect(mockNotionService.updateTask).toHaveBeenCalledTimes(2);
+    expect(mockNotionService.updateTask).toHaveBeenCalledWith('task-3', { title: 'First', notes: 'Brief' });
+    expect(metrics().processed - before.processed).toBe(2);
+    expect(metrics().retries).toBe(before.retries);
+    expect(metrics().failed).toBe(before.failed);
+  });
+
+  it('should fold an update into the pending create of a temporary task', async () => {
+    await syncQueueService.queueTaskUpdate('blocker', { title: 'in flight' });
+    const { id } = await syncQueueService.queueTaskCreate({ title: 'Draft' } as any);
+    await syncQueueService.queueTaskUpdate(id, { title: 'Final' });
+
+    const items = pendingItems();
+    expect(items).toHaveLength(1);
+    expect(items[0]!.type).toBe('create');
+    expect(items[0]!.data.title).toBe('Final');
+  });
+
+  it('should cancel a pending create followed by a delete', async () => {
+    const before = coalescedCount();
+
+    await syncQueueService.queueTaskUpdate('blocker', { title: 'in flight' });
+    const { id } = await syncQueueService.queueTaskCreate({ title: 'Draft' } as any);
+    await syncQueueService.queueTaskUpdate(id, { title: 'Final' });
+    await syncQueueService.queueTaskDelete(id);
+
+    expect(pendingItems()).toHaveLength(0);
+    expect(coalescedCount() - before).toBe(3);
+    expect(mockRedisService.del).toHaveBeenCalledWith(`task:${id}`);
+  });
+
+  it('should drop pending updates when the task gets deleted', async () => {
+    await syncQueueService.queueTaskUpdate('blocker', { title: 'in flight' });
+    await syncQueueService.queueTaskUpdate('task-2', { title: 'Renamed' });
+    await syncQueueService.queueTaskDelete('task-2');
+
+    const items = pendingItems();
+    expect(items).toHaveLength(1);
+    expect(items[0]!.type).toBe('delete');
+    expect(mockSyncQueueItemModel.deleteOne).toHaveBeenCalled();
+  });
+});
+
+describe('SyncQueueService temporary IDs', () => {
+  beforeEach(async () => {
+    mockRedisService.get.mockResolvedValue(null);
+    mockRedisService.set.mockResolvedValue(undefined);
+    mockRedisService.del.mockResolvedValue(undefined);
+    mockSyncQueueItemModel.updateOne.mockResolvedValue({});
+    mockSyncQueueItemModel.updateMany.mockResolvedValue({});
+    mockSyncQueueItemModel.deleteOne.mockResolvedValue({});
+    mockSyncQueueItemModel.deleteMany.mockResolvedValue({});
+    mockTempIdMappingModel.updateOne.mockResolvedValue({});
+    mockTempIdMappingModel.findOne.mockReturnValue({ lean: jest.fn().mockResolvedValue(null) });
+    tempIdRegistryService.clearCache();
+
+    await syncQueueService.clearQueue();
+  });
+
+  const waitForIdleQueue = async () => {
+    while (syncQueueService.getStatus().processing || syncQueueService.getStatus().queueLength > 0) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+  };
+
+  it('should map the temp ID to the Notion ID and rewrite queued follow-up operations', async () => {
+    const before = { ...syncQueueService.getStatus().metrics };
+    let releaseCreate: () => void = () => undefined;
+    const createDone = new Promise<void>(resolve => { releaseCreate = resolve; });
+    mockNotionService.createTask.mockImplementation(async () => {
+      await createDone;
+      return { id: 'notion-page-1' };
+    });
+    mockNotionService.updateTask.mockImplementation(async (id: string) => ({ id }));
+
+    const { id: tempId } = await syncQueueService.queueTaskCreate({ title: 'Draft' } as any);
+    // La création est en cours d'envoi : l'update reste en queue sous l'ID temporaire
+    await syncQueueService.queueTaskUpdate(tempId, { title: 'Final' });
+    expect(syncQueueService.getStatus().items[0]!.id).toBe(tempId);
+
+    releaseCreate();
+    await waitForIdleQueue();
+
+    expect(mockNotionService.updateTask).toHaveBeenCalledWith('notion-page-1', { title: 'Final' });
+    expect(mockSyncQueueItemModel.updateMany).toHaveBeenCalledWith(
+      { entityId: tempId },
+      { $set: { entityId: 'notion-page-1' } }
+    );
+    expect(await tempIdRegistryService.resolve(tempId)).toEqual(
+      expect.objectContaining({ notionId: 'notion-page-1', status: 'synced' })
+    );
+    expect(syncQueueService.getStatus().metrics.processed - before.processed).toBe(2);
+    expect(syncQueueService.getStatus().metrics.retries).toBe(before.retries);
+  });
+
+  it('should target the Notion ID directly once the temp ID is resolved', async () => {
+    const before = { ...syncQueueService.getStatus().metrics };
+    mockNotionService.updateTask.mockImplementation(async (id: string) => ({ id }));
+    await tempIdRegistryService.markSynced('temp_1_abc', 'notion-page-2');
+
+    await syncQueueService.queueTaskUpdate('temp_1_abc', { title: 'Renamed' });
+    await waitForIdleQueue();
+
+    expect(mockNotionService.updateTask).toHaveBeenCalledWith('notion-page-2', { title: 'Renamed' });
+    expect(syncQueueService.getStatus().metrics.processed - before.processed).toBe(1);
+    expect(syncQueueService.getStatus().metrics.retries).toBe(before.retries);
+  });
+});
+
+describe('SyncQueueService entities', () => {
+  beforeEach(async () => {
+    mockRedisService.get.mockResolvedValue(null);
+    mockRedisService.set.mockResolvedValue(undefined);
+    mockRedisService.del.mockResolvedValue(undefined);
+    mockSyncQueueItemModel.updateOne.mockResolvedValue({});
+    mockSyncQueueItemModel.updateMany.mockResolvedValue({});
+    mockSyncQueueItemModel.deleteOne.mockResolvedValue({});
+    mockSyncQueueItemModel.deleteMany.mockResolvedValue({});
+    mockTempIdMappingModel.updateOne.mockResolvedValue({});
+    mockTempIdMappingModel.findOne.mockReturnValue({ lean: jest.fn().mockResolvedValue(null) });
+    tempIdRegistryService.clearCache();
+
+    await syncQueueService.clearQueue();
+  });
+
+  const waitForIdleQueue = async () => {
+    while (syncQueueService.getStatus().processing || syncQueueService.getStatus().queueLength > 0) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+  };
+
+  it('should create a project in Notion and send follow-up updates to the created page', async () => {
+    const before = { ...syncQueueService.getStatus().metrics };
+    let releaseCreate: () => void = () => undefined;
+    const createDone = new Promise<void>(resolve => { releaseCreate = resolve; });
+    mockNotionService.createProject.mockImplementation(async () => {
+      await createDone;
+      return { id: 'notion-project-1' };
+    });
+    mockNotionService.updateProject.mockImplementation(async (id: string) => ({ id }));
+
+    const { id: tempId } = await syncQueueService.queueEntityCreate('project', { name: 'Refonte' });
+    await syncQueueService.queueEntityUpdate('project', tempId, { status: 'En cours' });
+
+    expect(mockRedisService.set).toHaveBeenCalledWith(
+      `project:${tempId}`,
+      expect.objectContaining({ name: 'Refonte', _temporary: true }),
+      'project'
+    );
+    expect(mockTempIdMappingModel.updateOne).toHaveBeenCalledWith(
+      { tempId },
+      { $set: expect.objectContaining({ status: 'pending', entityType: 'project' }) },
+      { upsert: true }
+    );
+
+    releaseCreate();
+    await waitForIdleQueue();
+
+    expect(mockNotionService.createProject).toHaveBeenCalledWith({ name: 'Refonte' });
+    expect(mockNotionService.updateProject).toHaveBeenCalledWith('notion-project-1', { status: 'En cours' });
+    expect(mockNotionService.createTask).not.toHaveBeenCalled();
+    expect(syncQueueService.getStatus().metrics.processed - before.processed).toBe(2);
+    expect(syncQueueService.getStatus().metrics.retries).toBe(before.retries);
+  });
+
+  it('should cancel a pending client create followed by an archive', async () => {
+    let releaseBlocker: () => void = () => undefined;
+    const blocker = new Promise<void>(resolve => { releaseBlocker = resolve; });
+    mockNotionService.archiveProject.mockImplementation(async () => { await blocker; });
+
+    await syncQueueService.queueEntityArchive('project', 'project-in-flight');
+    const { id } = await syncQueueService.queueEntityCreate('client', { name: 'Amundi' });
+    await syncQueueService.queueEntityArchive('client', id);
+
+    expect(syncQueueService.getStatus().items).toHaveLength(0);
+    expect(mockRedisService.del).toHaveBeenCalledWith(`client:${id}`);
+
+    releaseBlocker();
+    await waitForIdleQueue();
+
+    expect(mockNotionService.createClient).not.toHaveBeenCalled();
+    expect(mockNotionService.archiveClient).not.toHaveBeenCalled();
+    expect(syncQueueService.getStatus().metrics.retries).toBe(0);
+  });
+});
+
+describe('SyncQueueService persistence', () => {
+  beforeEach(async () => {
+    mockRedisService.get.mockResolvedValue(null);
+    mockRedisService.set.mockResolvedValue(undefined);
+    mockRedisService.del.mockResolvedValue(undefined);
+    mockSyncQueueItemModel.updateOne.mockResolvedValue({});
+    mockSyncQueueItemModel.updateMany.mockResolvedValue({});
+    mockSyncQueueItemModel.deleteOne.mockResolvedValue({});
+    mockSyncQueueItemModel.deleteMany.mockResolvedValue({});
+    mockDeadLetterModel.create.mockResolvedValue({});
+    mockDeadLetterModel.deleteMany.mockResolvedValue({ deletedCount: 0 });
+    mockTempIdMappingModel.updateOne.mockResolvedValue({});
+    mockTempIdMappingModel.findOne.mockReturnValue({ lean: jest.fn().mockResolvedValue(null) });
+    tempIdRegistryService.clearCache();
+
+    await syncQueueService.clearQueue();
+  });
+
+  const waitForIdleQueue = async () => {
+    while (syncQueueService.getStatus().processing || syncQueueService.getStatus().queueLength > 0) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+  };
+
+  const persisted = (entityId: string, overrides: Record<string, any> = {}) => ({
+    queueId: `q-${entityId}`,
+    entityId,
+    type: 'update',
+    entityType: 'task',
+    data: { title: entityId },
+    attempts: 0,
+    maxRetries: 3,
+    queuedAt: new Date('2025-03-03T09:00:00Z'),
+    ...overrides,
+  });
+
+  it('should persist queued items and remove them once synced', async () => {
+    mockNotionService.updateTask.mockImplementation(async (id: string) => ({ id }));
+
+    await syncQueueService.queueTaskUpdate('task-1', { title: 'Renamed' });
+
+    expect(mockSyncQueueItemModel.updateOne).toHaveBeenCalledWith(
+      { queueId: expect.any(String) },
+      { $set: expect.objectContaining({ entityId: 'task-1', type: 'update', entityType: 'task', data: { title: 'Renamed' }, attempts: 0 }) },
+      { upsert: true }
+    );
+    const { queueId } = mockSyncQueueItemModel.updateOne.mock.calls[0]![0];
+
+    await waitForIdleQueue();
+
+    expect(mockSyncQueueItemModel.deleteOne).toHaveBeenCalledWith({ queueId });
+  });
+
+  it('should recover persisted items in queue order at startup', async () => {
+    const sort = jest.fn().mockReturnValue({
+      lean: jest.fn().mockResolvedValue([persisted('t1'), persisted('t2'), persisted('t3')])
+    });
+    mockSyncQueueItemModel.find.mockReturnValue({ sort });
+    mockNotionService.updateTask.mockImplementation(async (id: string) => ({ id }));
+
+    await expect(syncQueueService.recover()).resolves.toBe(3);
+    await waitForIdleQueue();
+
+    expect(sort).toHaveBeenCalledWith({ queuedAt: 1 });
+    expect(mockNotionService.updateTask.mock.calls.map(call => call[0])).toEqual(['t1', 't2', 't3']);
+  });
+
+  it('should move an item to the dead-letter collection after its last retry', async () => {
+    const before = { ...syncQueueService.getStatus().metrics };
+    mockSyncQueueItemModel.find.mockReturnValue({
+      sort: () => ({ lean: () => Promise.resolve([persisted('t9', { attempts: 2 })]) })
+    });
+    mockNotionService.updateTask.mockRejectedValue(new Error('Notion down'));
+    mockRedisService.get.mockResolvedValue({ id: 't9', title: 'Cached' });
+
+    await syncQueueService.recover();
+    await waitForIdleQueue();
+
+    expect(mockDeadLetterModel.create).toHaveBeenCalledWith(expect.objectContaining({
+      queueId: 'q-t9',
+      entityId: 't9',
+      type: 'update',
+      attempts: 3,
+      error: 'Notion down'
+    }));
+    expect(mockSyncQueueItemModel.deleteOne).toHaveBeenCalledWith({ queueId: 'q-t9' });
+    expect(mockRedisService.set).toHaveBeenCalledWith(
+      'task:t9',
+      expect.objectContaining({ _syncError: true, _syncErrorMsg: 'Notion down' }),
+      'task'
+    );
+    expect(syncQueueService.getStatus().metrics.failed - before.failed).toBe(1);
+    expect(syncQueueService.getStatus().metrics.retries).toBe(before.retries);
+  });
+
+  it('should cancel a create waiting for its retry when the task gets deleted', async () => {
+    mockNotionService.createTask.mockRejectedValue(new Error('Notion down'));
+
+    const { id } = await syncQueueService.queueTaskCreate({ title: 'Draft' } as any);
+    await waitForIdleQueue();
+
+    // Le create a échoué une fois et attend son backoff hors de la file
+    expect(syncQueueService.getStatus().retrying).toBe(1);
+    expect(syncQueueService.getStatus().items).toEqual([expect.objectContaining({ id, type: 'create', attempts: 1 })]);
+    const { queueId } = mockSyncQueueItemModel.updateOne.mock.calls[0]![0];
+
+    await syncQueueService.queueTaskDelete(id);
+
+    expect(syncQueueService.getStatus().retrying).toBe(0);
+    expect(syncQueueService.getStatus().items).toHaveLength(0);
+    expect(mockSyncQueueItemModel.deleteOne).toHaveBeenCalledWith({ queueId });
+    expect(mockTempIdMappingModel.updateOne).toHaveBeenCalledWith(
+      { tempId: id },
+      { $set: expect.objectContaining({ status: 'cancelled' }) },
+      { upsert: true }
+    );
+    expect(mockNotionService.archiveTask).not.toHaveBeenCalled();
+    expect(mockNotionService.createTask).toHaveBeenCalledTimes(1);
+  });
+
+  it('should replay dead-letter items with fresh attempts', async () => {
+    const deadLetter = {
+      ...persisted('temp_1_abc', { type: 'create', entityType: 'project', data: { name: 'Refonte' }, attempts: 3 }),
+      status: 'failed',
+      save: jest.fn().mockResolvedValue(undefined),
+    };
+    mockDeadLetterModel.find.mockReturnValue({ sort: jest.fn().mockResolvedValue([deadLetter]) });
+    mockNotionService.createProject.mockResolvedValue({ id: 'notion-project-9' });
+
+    await expect(syncQueueService.retryDeadLetters(['q-temp_1_abc'])).resolves.toBe(1);
+    await waitForIdleQueue();
+
+    expect(mockDeadLetterModel.find).toHaveBeenCalledWith({ status: 'failed', queueId: { $in: ['q-temp_1_abc'] } });
+    expect(deadLetter.status).toBe('retried');
+    expect(deadLetter.save).toHaveBeenCalled();
+    expect(mockTempIdMappingModel.updateOne).toHaveBeenCalledWith(
+      { tempId: 'temp_1_abc' },
+      { $set: expect.objectContaining({ status: 'pending', entityType: 'project' }) },
+      { upsert: true }
+    );
+    expect(mockNotionService.createProject).toHaveBeenCalledWith({ name: 'Refonte' });
+  });
+
+  it('should only clear dead letters when asked to', async () => {
+    mockDeadLetterModel.deleteMany.mockResolvedValue({ deletedCount: 4 });
+
+    await expect(syncQueueService.clearQueue()).resolves.toEqual({ cleared: 0, deadLettersCleared: 0 });
+    expect(mockDeadLetterModel.deleteMany).not.toHaveBeenCalled();
+
+    await expect(syncQueueService.clearQueue({ includeDeadLetters: true })).resolves.toEqual({ cleared: 0, deadLettersCleared: 4 });
+    expect(mockSyncQueueItemModel.deleteMany).toHaveBeenCalledWith({});
+    expect(mockDeadLetterModel.deleteMany).toHaveBeenCalledWith({});
+  });
+});
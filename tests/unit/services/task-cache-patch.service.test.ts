@@ -0,0 +1,132 @@
+// In-memory Redis mock - must be defined before mocking
+const store = new Map<string, any>();
+const mockRedisService = {
+  get: jest.fn(),
+  set: jest.fn(),
+  del: jest.fn(),
+  keys: jest.fn(),
+  invalidatePattern: jest.fn(),
+};
+
+const mockTaskIndexService = {
+  upsertTask: jest.fn(),
+  removeTask: jest.fn(),
+};
+
+const mockNotion = {
+  pages: { retrieve: jest.fn() }
+};
+
+jest.mock('../../../src/services/redis.service', () => ({
+  redisService: mockRedisService
+}));
+
+jest.mock('../../../src/services/notion/task-index.service', () => ({
+  taskIndexService: mockTaskIndexService
+}));
+
+jest.mock('../../../src/config/notion.config', () => ({
+  notion: mockNotion,
+  DATABASES: {}
+}));
+
+jest.mock('../../../src/mappers/notion.mapper', () => ({
+  notionPageToTask: (page: any) => page.task
+}));
+
+import { TaskCachePatchService } from '../../../src/services/notion/task-cache-patch.service';
+import { taskFactory } from '../../helpers/task.factory';
+
+const makeTask = taskFactory({ assignedMembers: ['m1'] });
+
+const MARCH = 'tasks:calendar:start=2025-03-01:end=2025-03-31';
+const APRIL = 'tasks:calendar:start=2025-04-01:end=2025-04-30';
+
+describe('TaskCachePatchService', () => {
+  let service: TaskCachePatchService;
+
+  beforeEach(() => {
+    store.clear();
+    mockRedisService.get.mockImplementation(async (key: string) =>
+      store.has(key) ? JSON.parse(store.get(key)) : null
+    );
+    mockRedisService.set.mockImplementation(async (key: string, value: any) => {
+      store.set(key, JSON.stringify(value));
+    });
+    mockRedisService.del.mockImplementation(async (key: string) => {
+      store.delete(key);
+    });
+    mockRedisService.keys.mockImplementation(async () =>
+      Array.from(store.keys()).filter(key => key.startsWith('tasks:calendar:'))
+    );
+    mockRedisService.invalidatePattern.mockResolvedValue(undefined);
+    mockTaskIndexService.upsertTask.mockResolvedValue(undefined);
+    mockTaskIndexService.removeTask.mockResolvedValue(undefined);
+
+    service = new TaskCachePatchService();
+  });
+
+  it('should move a rescheduled task to the windows it now overlaps', async () => {
+    const previous = makeTask('t1', '2025-03-10T09:00:00.000Z', '2025-03-10T12:00:00.000Z');
+    store.set(MARCH, JSON.stringify([previous, makeTask('t2', '2025-03-20T09:00:00.000Z', '2025-03-20T12:00:00.000Z')]));
+    store.set(APRIL, JSON.stringify([]));
+    store.set('task:t1', JSON.stringify(previous));
+
+    const moved = makeTask('t1', '2025-04-02T09:00:00.000Z', '2025-04-02T12:00:00.000Z');
+    const result = await service.applyTask(moved);
+
+    expect(result).toEqual({
+      entityId: 't1',
+      action: 'upserted',
+      windowsScanned: 2,
+      windowsPatched: 1,
+      windowsLeft: 1,
+      indexUpdated: true
+    });
+    expect(JSON.parse(store.get(MARCH)).map((t: any) => t.id)).toEqual(['t2']);
+    expect(JSON.parse(store.get(APRIL)).map((t: any) => t.id)).toEqual(['t1']);
+    expect(mockTaskIndexService.upsertTask).toHaveBeenCalledWith(moved, previous);
+    // Calendar windows are patched, never wiped
+    expect(mockRedisService.invalidatePattern).not.toHaveBeenCalledWith('tasks:calendar:*');
+  });
+
+  it('should keep window order when inserting a new task', async () => {
+    store.set(MARCH, JSON.stringify([
+      makeTask('t1', '2025-03-05T09:00:00.000Z', '2025-03-05T12:00:00.000Z'),
+      makeTask('t3', '2025-03-25T09:00:00.000Z', '2025-03-25T12:00:00.000Z'),
+    ]));
+
+    await service.applyTask(makeTask('t2', '2025-03-15T09:00:00.000Z', '2025-03-15T12:00:00.000Z'));
+
+    expect(JSON.parse(store.get(MARCH)).map((t: any) => t.id)).toEqual(['t1', 't2', 't3']);
+  });
+
+  it('should remove an archived page from every window', async () => {
+    const task = makeTask('t1', '2025-03-31T09:00:00.000Z', '2025-04-01T12:00:00.000Z');
+    store.set(MARCH, JSON.stringify([task]));
+    store.set(APRIL, JSON.stringify([task]));
+    store.set('task:t1', JSON.stringify(task));
+    mockNotion.pages.retrieve.mockResolvedValue({ id: 't1', archived: true });
+
+    const result = await service.refreshTask('t1');
+
+    expect(result.action).toBe('removed');
+    expect(result.windowsLeft).toBe(2);
+    expect(JSON.parse(store.get(MARCH))).toEqual([]);
+    expect(JSON.parse(store.get(APRIL))).toEqual([]);
+    expect(store.has('task:t1')).toBe(false);
+    expect(mockTaskIndexService.removeTask).toHaveBeenCalledWith('t1', task);
+  });
+
+  it('should report an index update failure without failing the patch', async () => {
+    store.set(MARCH, JSON.stringify([]));
+    mockTaskIndexService.upsertTask.mockRejectedValue(new Error('Redis down'));
+
+    const result = await service.applyTask(makeTask('t1', '2025-03-10T09:00:00.000Z', '2025-03-10T12:00:00.000Z'));
+
+    expect(result.indexUpdated).toBe(false);
+    expect(result.windowsPatched).toBe(1);
+    expect(JSON.parse(store.get(MARCH)).map((t: any) => t.id)).toEqual(['t1']);
+    expect(mockRedisService.invalidatePattern).toHaveBeenCalledWith('tasks:unplanned:*');
+  });
+});
@@ -0,0 +1,159 @@
+// In-memory Redis mock - must be defined before mocking
+const store = new Map<string, any>();
+const hashes = new Map<string, Map<string, string>>();
+const mockRedisService = {
+  get: jest.fn(),
+  set: jest.fn(),
+  del: jest.fn(),
+  hashSet: jest.fn(),
+  hashDelete: jest.fn(),
+  hashGetAll: jest.fn(),
+};
+
+// Laisse les autres écritures s'intercaler, comme des allers-retours réseau
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+jest.mock('../../../src/services/redis.service', () => ({
+  redisService: mockRedisService
+}));
+
+import { TaskIndexService } from '../../../src/services/notion/task-index.service';
+import { makeTask } from '../../helpers/task.factory';
+
+describe('TaskIndexService', () => {
+  let service: TaskIndexService;
+
+  beforeEach(() => {
+    store.clear();
+    hashes.clear();
+    mockRedisService.get.mockImplementation(async (key: string) =>
+      store.has(key) ? JSON.parse(store.get(key)) : null
+    );
+    mockRedisService.set.mockImplementation(async (key: string, value: any) => {
+      store.set(key, JSON.stringify(value));
+    });
+    mockRedisService.del.mockImplementation(async (key: string) => {
+      store.delete(key);
+      hashes.delete(key);
+    });
+    mockRedisService.hashSet.mockImplementation(async (key: string, fields: Record<string, any>) => {
+      await tick();
+      const hash = hashes.get(key) || new Map<string, string>();
+      Object.entries(fields).forEach(([field, value]) => hash.set(field, JSON.stringify(value)));
+      hashes.set(key, hash);
+    });
+    mockRedisService.hashDelete.mockImplementation(async (key: string, ...fields: string[]) => {
+      await tick();
+      fields.forEach(field => hashes.get(key)?.delete(field));
+    });
+    mockRedisService.hashGetAll.mockImplementation(async (key: string) => {
+      const hash = hashes.get(key);
+      return hash && hash.size > 0
+        ? Object.fromEntries(Array.from(hash.entries()).map(([field, value]) => [field, JSON.parse(value)]))
+        : null;
+    });
+    service = new TaskIndexService();
+  });
+
+  it('should list every UTC day of a task work period', () => {
+    const days = service.getTaskDays(makeTask('t1', '2025-03-30T09:00:00.000Z', '2025-04-01T12:00:00.000Z'));
+
+    expect(days).toEqual(['2025-03-30', '2025-03-31', '2025-04-01']);
+  });
+
+  it('should return null when a day of the period has not been indexed', async () => {
+    await service.indexWindow([], new Date('2025-03-01T00:00:00.000Z'), new Date('2025-03-02T23:59:59.999Z'));
+
+    const result = await service.getTasksForMembers(
+      ['m1'],
+      '2025-03-02T09:00:00.000Z',
+      '2025-03-03T17:00:00.000Z'
+    );
+
+    expect(result).toBeNull();
+  });
+
+  it('should only mark days fully contained in the calendar window as covered', async () => {
+    await service.indexWindow([], new Date('2025-03-01T12:00:00.000Z'), new Date('2025-03-03T00:00:00.000Z'));
+
+    expect(hashes.has('tasks:index:day:2025-03-01')).toBe(false);
+    expect(hashes.has('tasks:index:day:2025-03-02')).toBe(true);
+    expect(hashes.has('tasks:index:day:2025-03-03')).toBe(false);
+  });
+
+  it('should return the members tasks for exactly the requested period', async () => {
+    const tasks = [
+      makeTask('t1', '2025-03-02T09:00:00.000Z', '2025-03-02T12:00:00.000Z', { assignedMembers: ['m1'] }),
+      makeTask('t2', '2025-03-02T09:00:00.000Z', '2025-03-02T12:00:00.000Z', { assignedMembers: ['m2'] }),
+      makeTask('t3', '2025-03-04T09:00:00.000Z', '2025-03-05T12:00:00.000Z', { assignedMembers: ['m1', 'm2'] }),
+    ];
+    await service.indexWindow(tasks, new Date('2025-03-01T00:00:00.000Z'), new Date('2025-03-31T23:59:59.999Z'));
+
+    const result = await service.getTasksForMembers(
+      ['m1'],
+      '2025-03-02T00:00:00.000Z',
+      '2025-03-05T00:00:00.000Z',
+      't-current'
+    );
+
+    expect(result!.map(t => t.id).sort()).toEqual(['t1', 't3']);
+  });
+
+  it('should move an updated task to its new days and drop archived tasks', async () => {
+    const task = makeTask('t1', '2025-03-02T09:00:00.000Z', '2025-03-02T12:00:00.000Z', { assignedMembers: ['m1'] });
+    await service.indexWindow([task], new Date('2025-03-01T00:00:00.000Z'), new Date('2025-03-31T23:59:59.999Z'));
+
+    await service.upsertTask(makeTask('t1', '2025-03-10T09:00:00.000Z', '2025-03-10T12:00:00.000Z', { assignedMembers: ['m1'] }));
+
+    expect(await service.getTasksForMembers(['m1'], '2025-03-02T00:00:00.000Z', '2025-03-02T23:00:00.000Z')).toEqual([]);
+    expect(
+      (await service.getTasksForMembers(['m1'], '2025-03-10T00:00:00.000Z', '2025-03-10T23:00:00.000Z'))!.map(t => t.id)
+    ).toEqual(['t1']);
+
+    await service.removeTask('t1');
+
+    expect(await service.getTasksForMembers(['m1'], '2025-03-10T00:00:00.000Z', '2025-03-10T23:00:00.000Z')).toEqual([]);
+  });
+
+  it('should keep concurrent writes to the same day', async () => {
+    await service.indexWindow([], new Date('2025-03-01T00:00:00.000Z'), new Date('2025-03-31T23:59:59.999Z'));
+
+    await Promise.all([
+      service.upsertTask(makeTask('t1', '2025-03-04T09:00:00.000Z', '2025-03-04T12:00:00.000Z', { assignedMembers: ['m1'] })),
+      service.upsertTask(makeTask('t2', '2025-03-04T14:00:00.000Z', '2025-03-04T17:00:00.000Z', { assignedMembers: ['m1'] })),
+    ]);
+
+    expect(
+      (await service.getTasksForMembers(['m1'], '2025-03-04T00:00:00.000Z', '2025-03-04T23:00:00.000Z'))!.map(t => t.id).sort()
+    ).toEqual(['t1', 't2']);
+  });
+
+  it('should keep the days of each task under its own key', async () => {
+    const task = makeTask('t1', '2025-03-02T09:00:00.000Z', '2025-03-03T12:00:00.000Z', { assignedMembers: ['m1'] });
+    await service.indexWindow([task], new Date('2025-03-01T00:00:00.000Z'), new Date('2025-03-31T23:59:59.999Z'));
+
+    expect(JSON.parse(store.get('tasks:index:task:t1'))).toEqual(['2025-03-02', '2025-03-03']);
+    expect(store.has('tasks:index:task-days')).toBe(false);
+
+    await service.removeTask('t1');
+
+    expect(store.has('tasks:index:task:t1')).toBe(false);
+    expect(hashes.get('tasks:index:day:2025-03-02')!.has('t1')).toBe(false);
+    expect(hashes.get('tasks:index:day:2025-03-03')!.has('t1')).toBe(false);
+  });
+
+  it('should drop the affected days and rethrow when an update fails', async () => {
+    const task = makeTask('t1', '2025-03-02T09:00:00.000Z', '2025-03-02T12:00:00.000Z', { assignedMembers: ['m1'] });
+    await service.indexWindow([task], new Date('2025-03-01T00:00:00.000Z'), new Date('2025-03-31T23:59:59.999Z'));
+    mockRedisService.hashSet.mockRejectedValueOnce(new Error('Redis down'));
+
+    await expect(
+      service.upsertTask(makeTask('t1', '2025-03-10T09:00:00.000Z', '2025-03-10T12:00:00.000Z', { assignedMembers: ['m1'] }))
+    ).rejects.toThrow('Redis down');
+
+    // Les jours touchés ne sont plus couverts : la lecture retombe sur Notion
+    expect(await service.getTasksForMembers(['m1'], '2025-03-02T00:00:00.000Z', '2025-03-02T23:00:00.000Z')).toBeNull();
+    expect(await service.getTasksForMembers(['m1'], '2025-03-10T00:00:00.000Z', '2025-03-10T23:00:00.000Z')).toBeNull();
+    expect(await service.getTasksForMembers(['m1'], '2025-03-03T00:00:00.000Z', '2025-03-03T23:00:00.000Z')).toEqual([]);
+  });
+});
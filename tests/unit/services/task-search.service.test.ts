@@ -0,0 +1,115 @@
+const mockNotion = {
+  databases: { query: jest.fn() }
+};
+
+const mockEntityService = {
+  getAllProjects: jest.fn(),
+};
+
+jest.mock('../../../src/config/notion.config', () => ({
+  ...jest.requireActual('../../../src/config/notion.config'),
+  notion: mockNotion,
+  DATABASES: { traffic: 'traffic-db' }
+}));
+
+jest.mock('../../../src/services/notion/entity.service', () => ({
+  entityService: mockEntityService
+}));
+
+// Cache désactivé : chaque recherche interroge le mock Notion
+jest.mock('../../../src/services/notion/cache-manager.service', () => ({
+  cacheManagerService: {
+    getCachedOrFetch: (_key: string, _type: string, fetchFn: () => Promise<any>) => fetchFn()
+  }
+}));
+
+jest.mock('../../../src/mappers/notion.mapper', () => ({
+  ...jest.requireActual('../../../src/mappers/notion.mapper'),
+  notionPageToTask: (page: any) => page.task
+}));
+
+import { TaskService } from '../../../src/services/notion/task.service';
+import { TASK_PROPERTY_IDS } from '../../../src/config/notion.config';
+import { makeTask } from '../../helpers/task.factory';
+
+const searchTask = (id: string, overrides: Record<string, any> = {}) =>
+  makeTask(id, '2025-03-10T09:00:00.000Z', '2025-03-10T12:00:00.000Z', overrides);
+
+describe('TaskService.searchTasks', () => {
+  let service: TaskService;
+
+  beforeEach(() => {
+    service = new TaskService();
+    (service as any).minTimeBetweenCalls = 0;
+    mockEntityService.getAllProjects.mockResolvedValue([
+      { id: 'p1', name: 'Site', client: 'c1', status: 'active', tasks: [] },
+      { id: 'p2', name: 'Logo', client: 'c2', status: 'active', tasks: [] },
+    ]);
+    mockNotion.databases.query.mockResolvedValue({
+      results: [
+        { task: searchTask('t1', { projectId: 'p1', status: 'Terminé', teams: ['team-a'], assignedMembers: ['m1'] }) },
+        { task: searchTask('t2', { projectId: 'p2', teams: ['team-a'], assignedMembers: ['m1', 'm2'] }) },
+        { task: searchTask('t3', { projectId: 'p1', taskType: 'holiday', assignedMembers: ['m2'],
+          workPeriod: { startDate: '2025-04-01T00:00:00.000Z', endDate: '2025-04-02T00:00:00.000Z' } }) },
+      ],
+      has_more: false,
+      next_cursor: null,
+    });
+  });
+
+  it('should send free text to Notion on both title and notes', async () => {
+    await service.searchTasks({ q: 'logo', memberId: 'm1' });
+
+    const query = mockNotion.databases.query.mock.calls[0][0];
+    expect(query.filter.and).toEqual(expect.arrayContaining([
+      {
+        or: [
+          { property: TASK_PROPERTY_IDS.title, title: { contains: 'logo' } },
+          { property: TASK_PROPERTY_IDS.notes, rich_text: { contains: 'logo' } },
+        ]
+      },
+      { property: TASK_PROPERTY_IDS.assignedMembers, relation: { contains: 'm1' } },
+    ]));
+  });
+
+  it('should apply facet filters and count facets over every match', async () => {
+    const result = await service.searchTasks({ clientId: 'c1' });
+
+    expect(result.tasks.map(t => t.id)).toEqual(['t1', 't3']);
+    expect(result.total).toBe(2);
+    expect(result.facets.status).toEqual({ completed: 1, not_started: 1 });
+    expect(result.facets.taskType).toEqual({ task: 1, holiday: 1 });
+    expect(result.facets.client).toEqual({ c1: 2 });
+    expect(result.facets.member).toEqual({ m1: 1, m2: 1 });
+  });
+
+  it('should match our status values against Notion status names', async () => {
+    const result = await service.searchTasks({ status: 'completed', teamId: 'team-a' });
+
+    expect(result.tasks.map(t => t.id)).toEqual(['t1']);
+  });
+
+  it('should keep tasks overlapping the requested period', async () => {
+    const result = await service.searchTasks({
+      startDate: new Date('2025-04-02T00:00:00.000Z'),
+      endDate: new Date('2025-04-30T23:59:59.999Z'),
+    });
+
+    expect(result.tasks.map(t => t.id)).toEqual(['t3']);
+  });
+
+  it('should paginate with an opaque cursor', async () => {
+    const first = await service.searchTasks({ limit: 2 });
+    expect(first.tasks.map(t => t.id)).toEqual(['t1', 't2']);
+    expect(first.hasMore).toBe(true);
+
+    const second = await service.searchTasks({ limit: 2, cursor: first.nextCursor! });
+    expect(second.tasks.map(t => t.id)).toEqual(['t3']);
+    expect(second.hasMore).toBe(false);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('should reject an invalid cursor', async () => {
+    await expect(service.searchTasks({ cursor: 'not-a-cursor' })).rejects.toThrow('Invalid search cursor');
+  });
+});
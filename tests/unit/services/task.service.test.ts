@@ -0,0 +1,96 @@
+const mockNotion = {
+  pages: { create: jest.fn(), update: jest.fn() },
+};
+
+const mockCacheManagerService = {
+  invalidateCachePattern: jest.fn(),
+  deleteCacheKey: jest.fn(),
+  setCache: jest.fn(),
+};
+
+const mockTaskIndexService = {
+  upsertTask: jest.fn(),
+  removeTask: jest.fn(),
+};
+
+const mockRedisService = {
+  get: jest.fn(),
+};
+
+jest.mock('../../../src/config/notion.config', () => ({
+  notion: mockNotion,
+  DATABASES: { traffic: 'db-tasks', projects: 'db-projects', users: 'db-members', teams: 'db-teams', clients: 'db-clients' }
+}));
+
+jest.mock('../../../src/services/notion/cache-manager.service', () => ({
+  cacheManagerService: mockCacheManagerService
+}));
+
+jest.mock('../../../src/services/notion/task-index.service', () => ({
+  taskIndexService: mockTaskIndexService
+}));
+
+jest.mock('../../../src/services/notion/entity.service', () => ({
+  entityService: {}
+}));
+
+jest.mock('../../../src/services/redis.service', () => ({
+  redisService: mockRedisService
+}));
+
+jest.mock('../../../src/utils/retryWithBackoff', () => ({
+  retryWithBackoff: (fn: () => Promise<any>) => fn()
+}));
+
+jest.mock('../../../src/mappers/notion.mapper', () => ({
+  notionPageToTask: (page: any) => ({ id: page.id, title: 'Maquettes' }),
+  createNotionTaskProperties: (input: any) => ({ task: input }),
+}));
+
+import { TaskService } from '../../../src/services/notion/task.service';
+
+describe('TaskService writes', () => {
+  let service: TaskService;
+
+  const invalidatedPatterns = () => mockCacheManagerService.invalidateCachePattern.mock.calls.map(([pattern]) => pattern).sort();
+
+  beforeEach(() => {
+    mockNotion.pages.create.mockImplementation(async () => ({ id: 'task-1' }));
+    mockNotion.pages.update.mockImplementation(async ({ page_id }: any) => ({ id: page_id }));
+    mockCacheManagerService.invalidateCachePattern.mockResolvedValue(undefined);
+    mockCacheManagerService.deleteCacheKey.mockResolvedValue(undefined);
+    mockCacheManagerService.setCache.mockResolvedValue(undefined);
+    mockTaskIndexService.upsertTask.mockResolvedValue(undefined);
+    mockTaskIndexService.removeTask.mockResolvedValue(undefined);
+    mockRedisService.get.mockResolvedValue(null);
+    // Nouvelle instance : pas d'attente du throttle entre les tests
+    service = new TaskService();
+  });
+
+  it('should invalidate the unplanned backlog when a task is created', async () => {
+    await service.createTask({ title: 'Maquettes', workPeriod: { startDate: '', endDate: '' } });
+
+    expect(invalidatedPatterns()).toEqual(['tasks:calendar:*', 'tasks:list:*', 'tasks:unplanned:*']);
+  });
+
+  it('should invalidate the unplanned backlog when a task gets dates', async () => {
+    await service.updateTask('task-1', { workPeriod: { startDate: '2025-03-03', endDate: '2025-03-04' } });
+
+    expect(invalidatedPatterns()).toEqual(['tasks:calendar:*', 'tasks:list:*', 'tasks:unplanned:*']);
+    expect(mockCacheManagerService.setCache).toHaveBeenCalledWith('task:task-1', { id: 'task-1', title: 'Maquettes' }, 'task');
+  });
+
+  it('should invalidate the unplanned backlog when a task is archived', async () => {
+    await service.archiveTask('task-1');
+
+    expect(mockNotion.pages.update).toHaveBeenCalledWith({ page_id: 'task-1', archived: true });
+    expect(invalidatedPatterns()).toEqual(['tasks:calendar:*', 'tasks:list:*', 'tasks:unplanned:*']);
+  });
+
+  it('should not fail the write when the task index cannot be updated', async () => {
+    mockTaskIndexService.upsertTask.mockRejectedValue(new Error('Redis down'));
+
+    await expect(service.updateTask('task-1', { title: 'Maquettes' })).resolves.toEqual({ id: 'task-1', title: 'Maquettes' });
+    expect(mockTaskIndexService.upsertTask).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,267 @@
+const mockRedisService = {
+  get: jest.fn(),
+};
+
+jest.mock('../../../src/services/redis.service', () => ({
+  redisService: mockRedisService
+}));
+
+const mockTaskIndexService = {
+  getTasksForMembers: jest.fn(),
+};
+
+const mockNotionService = {
+  getTasksForCalendarView: jest.fn(),
+};
+
+jest.mock('../../../src/services/notion/task-index.service', () => ({
+  taskIndexService: mockTaskIndexService
+}));
+
+jest.mock('../../../src/services/notion.service', () => ({
+  __esModule: true,
+  default: mockNotionService
+}));
+
+const mockRuleSetModel = {
+  findOne: jest.fn(),
+};
+
+jest.mock('../../../src/models/ConflictRuleSet.model', () => ({
+  ConflictRuleSetModel: mockRuleSetModel
+}));
+
+const mockConfigModel = {
+  find: jest.fn(),
+};
+
+jest.mock('../../../src/models/Config.model', () => ({
+  ConfigModel: mockConfigModel
+}));
+
+import { tasksConflictService } from '../../../src/services/tasks-conflict.service';
+import { holidaysService } from '../../../src/services/holidays.service';
+import { conflictRulesService } from '../../../src/services/conflict-rules.service';
+import { memberScheduleService } from '../../../src/services/member-schedule.service';
+import { taskFactory } from '../../helpers/task.factory';
+
+const makeTask = taskFactory({ title: 'Tournage', assignedMembers: ['m1'] });
+
+describe('TasksConflictService', () => {
+  beforeEach(() => {
+    mockRedisService.get.mockResolvedValue({ id: 'm1', name: 'Alice', email: '', teams: [], tasks: [] });
+    mockConfigModel.find.mockReturnValue({ lean: () => Promise.resolve([]) });
+    mockRuleSetModel.findOne.mockReturnValue({ lean: () => Promise.resolve(null) });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    // Sévérités et règles relues à chaque test
+    (tasksConflictService as any).calendarSeverities = null;
+    (conflictRulesService as any).activeRules = null;
+  });
+
+  describe('public holidays', () => {
+    it('should flag a task scheduled on a public holiday', async () => {
+      const conflicts = await tasksConflictService.checkSchedulingConflictsWithTasks(
+        makeTask('task-1', new Date(2025, 4, 1, 9), new Date(2025, 4, 1, 12)),
+        []
+      );
+
+      expect(conflicts).toEqual([
+        expect.objectContaining({ type: 'public_holiday', memberId: 'm1', memberName: 'Alice', severity: 'high' })
+      ]);
+      expect(conflicts[0]!.message).toContain('1er mai');
+    });
+
+    it('should flag every public holiday covered by a multi-day task', async () => {
+      const conflicts = await tasksConflictService.checkSchedulingConflictsWithTasks(
+        makeTask('task-1', new Date(2025, 4, 1), new Date(2025, 4, 9)),
+        []
+      );
+
+      expect(conflicts.map(conflict => conflict.message)).toEqual([
+        expect.stringContaining('2025-05-01'),
+        expect.stringContaining('2025-05-08'),
+      ]);
+    });
+
+    it('should not count the day an all-day task ends at midnight', async () => {
+      const conflicts = await tasksConflictService.checkSchedulingConflictsWithTasks(
+        makeTask('task-1', new Date(2025, 4, 7), new Date(2025, 4, 8)),
+        []
+      );
+
+      expect(conflicts).toEqual([]);
+    });
+
+    it('should ignore leaves placed on a public holiday', async () => {
+      const conflicts = await tasksConflictService.checkSchedulingConflictsWithTasks(
+        makeTask('task-1', new Date(2025, 4, 1), new Date(2025, 4, 2), { taskType: 'holiday' }),
+        []
+      );
+
+      expect(conflicts).toEqual([]);
+    });
+  });
+
+  describe('weekends', () => {
+    it('should flag a task scheduled on a Saturday', async () => {
+      const conflicts = await tasksConflictService.checkSchedulingConflictsWithTasks(
+        makeTask('task-1', new Date(2025, 3, 12, 10), new Date(2025, 3, 12, 12)),
+        []
+      );
+
+      expect(conflicts).toEqual([
+        expect.objectContaining({ type: 'weekend', severity: 'medium', message: expect.stringContaining('2025-04-12') })
+      ]);
+    });
+
+    it('should not flag a weekend a task only spans', async () => {
+      const conflicts = await tasksConflictService.checkSchedulingConflictsWithTasks(
+        makeTask('task-1', new Date(2025, 3, 10), new Date(2025, 3, 16)),
+        []
+      );
+
+      expect(conflicts).toEqual([]);
+    });
+
+    it('should follow the working days of the member schedule', async () => {
+      const defaults = memberScheduleService.getScheduleForDate('m1', '2025-04-12');
+      const schedule = jest.spyOn(memberScheduleService, 'getScheduleForDate')
+        .mockReturnValue({ ...defaults, workingDays: [2, 3, 4, 5, 6] });
+
+      try {
+        const saturday = await tasksConflictService.checkSchedulingConflictsWithTasks(
+          makeTask('task-1', new Date(2025, 3, 12, 10), new Date(2025, 3, 12, 12)),
+          []
+        );
+        const monday = await tasksConflictService.checkSchedulingConflictsWithTasks(
+          makeTask('task-1', new Date(2025, 3, 14, 10), new Date(2025, 3, 14, 12)),
+          []
+        );
+
+        expect(saturday).toEqual([]);
+        expect(monday).toEqual([
+          expect.objectContaining({ type: 'weekend', message: expect.stringContaining('jour non travaillé (2025-04-14)') })
+        ]);
+      } finally {
+        schedule.mockRestore();
+      }
+    });
+
+    it('should not add an overload on a day off already flagged', async () => {
+      mockTaskIndexService.getTasksForMembers.mockResolvedValue([
+        makeTask('task-2', new Date(2025, 3, 12, 8), new Date(2025, 3, 12, 9))
+      ]);
+
+      const conflicts = await tasksConflictService.checkSchedulingConflicts(
+        makeTask('task-1', new Date(2025, 3, 12, 10), new Date(2025, 3, 12, 12))
+      );
+
+      expect(conflicts.map(conflict => conflict.type)).toEqual(['weekend']);
+    });
+
+    it('should use the severity configured in ConfigModel', async () => {
+      mockConfigModel.find.mockReturnValue({
+        lean: () => Promise.resolve([
+          { key: 'CONFLICT_SEVERITY_WEEKEND', value: 'low' },
+          { key: 'CONFLICT_SEVERITY_PUBLIC_HOLIDAY', value: 'extreme' },
+        ])
+      });
+
+      const weekend = await tasksConflictService.checkSchedulingConflictsWithTasks(
+        makeTask('task-1', new Date(2025, 3, 13, 10), new Date(2025, 3, 13, 12)),
+        []
+      );
+      const publicHoliday = await tasksConflictService.checkSchedulingConflictsWithTasks(
+        makeTask('task-1', new Date(2025, 4, 1, 10), new Date(2025, 4, 1, 12)),
+        []
+      );
+
+      expect(weekend[0]).toMatchObject({ type: 'weekend', severity: 'low' });
+      // Valeur invalide : sévérité par défaut
+      expect(publicHoliday[0]).toMatchObject({ type: 'public_holiday', severity: 'high' });
+    });
+  });
+
+  describe('company closures', () => {
+    it('should flag a task scheduled on a closed day', async () => {
+      jest.spyOn(holidaysService, 'getClosure').mockImplementation(date =>
+        date === '2025-08-14'
+          ? { id: 'c1', label: 'Pont du 15 août', startDate: '2025-08-14', endDate: '2025-08-14' }
+          : null
+      );
+
+      const conflicts = await tasksConflictService.checkSchedulingConflictsWithTasks(
+        makeTask('task-1', new Date(2025, 7, 13, 9), new Date(2025, 7, 15, 18)),
+        []
+      );
+
+      expect(conflicts).toEqual([
+        expect.objectContaining({ type: 'company_closure', severity: 'high', message: expect.stringContaining('Pont du 15 août') }),
+        expect.objectContaining({ type: 'public_holiday', message: expect.stringContaining('Assomption') }),
+      ]);
+    });
+  });
+
+  describe('conflict rules', () => {
+    const at = (hour: number) => new Date(2025, 3, 14, hour);
+    const shoot = makeTask('task-1', at(9), at(12), { id: 'A', title: 'Tournage' });
+    const meeting = makeTask('task-1', at(10), at(11), { id: 'B', title: 'Réunion' });
+    const remote = makeTask('task-1', at(0), new Date(2025, 3, 15), { id: 'C', title: 'Télétravail', taskType: 'remote' });
+
+    it('should never raise conflicts for remote work with the default rules', async () => {
+      expect(await tasksConflictService.checkSchedulingConflictsWithTasks(remote, [shoot, meeting])).toEqual([]);
+      expect(await tasksConflictService.checkSchedulingConflictsWithTasks(shoot, [remote])).toEqual([]);
+    });
+
+    it('should apply the rules of the active rule set', async () => {
+      mockRuleSetModel.findOne.mockReturnValue({
+        lean: () => Promise.resolve({
+          _id: 'rs1',
+          name: 'Équipe vidéo',
+          status: 'active',
+          rules: [{ conflictTypes: ['overlap'], teams: ['video'], severity: 'high' }]
+        })
+      });
+
+      const conflicts = await tasksConflictService.checkSchedulingConflictsWithTasks(
+        { ...shoot, teams: ['video'] },
+        [meeting, remote]
+      );
+
+      // Le télétravail n'est plus exclu par ce jeu de règles
+      expect(conflicts.map(conflict => [conflict.conflictingTaskId, conflict.severity])).toEqual([
+        ['B', 'high'],
+        ['C', 'high'],
+      ]);
+    });
+
+    it('should compare a draft rule set to the active rules on a date range', async () => {
+      mockNotionService.getTasksForCalendarView.mockResolvedValue([shoot, meeting, remote]);
+      mockTaskIndexService.getTasksForMembers.mockResolvedValue([shoot, meeting, remote]);
+
+      const result = await tasksConflictService.dryRunRules(
+        [{
+          conflictTypes: ['overlap'],
+          taskTypes: [],
+          otherTaskTypes: [],
+          teams: [],
+          enabled: true,
+          severity: null,
+          minOverlapMinutes: 120,
+          overloadToleranceHours: null
+        }],
+        new Date(2025, 3, 14),
+        new Date(2025, 3, 14, 23, 59)
+      );
+      const pairs = (conflicts: any[]) => conflicts.map(conflict => [conflict.taskId, conflict.conflictingTaskId]);
+
+      expect(result.tasksEvaluated).toBe(3);
+      expect(result.current).toMatchObject({ total: 2, byType: expect.objectContaining({ overlap: 2 }) });
+      // Chevauchement d'une heure sous le seuil ; le télétravail n'est plus exclu (journée entière en surcharge)
+      expect(pairs(result.removed)).toEqual([['A', 'B'], ['B', 'A']]);
+      expect(pairs(result.added)).toEqual([['A', 'C'], ['C', 'A'], ['C', undefined]]);
+      expect(result.added[2]).toMatchObject({ type: 'overload' });
+      expect(result.severityChanged).toEqual([]);
+    });
+  });
+});
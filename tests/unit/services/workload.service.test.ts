@@ -0,0 +1,127 @@
+const mockNotionService = {
+  getTasksForCalendarView: jest.fn(),
+};
+
+const mockEntityService = {
+  getAllMembers: jest.fn(),
+  getAllTeams: jest.fn(),
+};
+
+const mockHolidaysService = {
+  getHolidaysForRange: jest.fn(),
+};
+
+const mockMemberScheduleService = {
+  getScheduleForDate: jest.fn(),
+};
+
+jest.mock('../../../src/services/notion.service', () => ({
+  __esModule: true,
+  default: mockNotionService
+}));
+
+jest.mock('../../../src/services/notion/entity.service', () => ({
+  entityService: mockEntityService
+}));
+
+jest.mock('../../../src/services/holidays.service', () => ({
+  holidaysService: mockHolidaysService
+}));
+
+jest.mock('../../../src/services/member-schedule.service', () => ({
+  memberScheduleService: mockMemberScheduleService
+}));
+
+import { workloadService } from '../../../src/services/workload.service';
+import { taskFactory } from '../../helpers/task.factory';
+
+// Dates locales pour rester indépendant du fuseau de la machine de test
+const at = (day: number, hour = 0) => new Date(2025, 3, day, hour);
+
+const makeTask = taskFactory({ assignedMembers: ['m1'] });
+
+const range = { startDate: '2025-04-14', endDate: '2025-04-27' };
+
+describe('WorkloadService', () => {
+  beforeEach(() => {
+    mockEntityService.getAllMembers.mockResolvedValue([
+      { id: 'm1', name: 'Alice', email: '', teams: ['team-a'], tasks: [] },
+      { id: 'm2', name: 'Bruno', email: '', teams: ['team-a'], tasks: [] },
+    ]);
+    mockEntityService.getAllTeams.mockResolvedValue([
+      { id: 'team-a', name: 'Créa', members: [] },
+    ]);
+    mockHolidaysService.getHolidaysForRange.mockReturnValue({ '2025-04-21': 'Lundi de Pâques' });
+    mockMemberScheduleService.getScheduleForDate.mockImplementation((memberId: string, date: string) => {
+      if (memberId === 'm1') {
+        return { id: 's1', memberId, workingDays: [1, 2, 3, 4], dailyHours: 8, partTimePercentage: 100, isDefault: false };
+      }
+      // m2 passe de mi-temps à temps plein au 22 avril
+      return date < '2025-04-22'
+        ? { id: 's2', memberId, workingDays: [1, 2, 3, 4, 5], dailyHours: 8, partTimePercentage: 50, isDefault: false }
+        : { id: 's3', memberId, workingDays: [1, 2, 3, 4, 5], dailyHours: 8, partTimePercentage: 100, isDefault: false };
+    });
+    mockNotionService.getTasksForCalendarView.mockResolvedValue([
+      makeTask('timed', at(14, 9), at(14, 13)),
+      makeTask('all-day', at(15, 7), at(15, 22), { isAllDay: true }),
+      makeTask('conges', at(16), at(16), { taskType: 'holiday', isAllDay: true }),
+      makeTask('remote', at(17), at(17), { taskType: 'remote', isAllDay: true }),
+      makeTask('ferie', at(21, 10), at(21, 12)),
+      makeTask('m2-long', at(22, 9), at(23, 18), { assignedMembers: ['m2'] }),
+    ]);
+  });
+
+  describe('getMemberWorkload', () => {
+    it('should compare planned hours to the member capacity day by day', async () => {
+      const workload = await workloadService.getMemberWorkload('m1', range);
+      const day = (date: string) => workload!.days.find(d => d.date === date)!;
+
+      expect(workload!.days).toHaveLength(14);
+      expect(day('2025-04-14')).toMatchObject({ capacityHours: 8, plannedHours: 4, availableHours: 4, utilization: 0.5 });
+      expect(day('2025-04-15')).toMatchObject({ capacityHours: 8, plannedHours: 8, overloaded: false });
+      expect(day('2025-04-16')).toMatchObject({ capacityHours: 0, absence: 'holiday' });
+      expect(day('2025-04-17')).toMatchObject({ capacityHours: 8, plannedHours: 0 });
+      expect(day('2025-04-18')).toMatchObject({ isWorkingDay: false, capacityHours: 0 });
+      expect(day('2025-04-21')).toMatchObject({
+        publicHoliday: 'Lundi de Pâques',
+        capacityHours: 0,
+        plannedHours: 2,
+        utilization: null,
+        overloaded: true
+      });
+    });
+
+    it('should aggregate by ISO week', async () => {
+      const workload = await workloadService.getMemberWorkload('m1', range);
+
+      expect(workload!.weeks).toEqual([
+        expect.objectContaining({ weekStart: '2025-04-14', weekEnd: '2025-04-20', capacityHours: 24, plannedHours: 12 }),
+        expect.objectContaining({ weekStart: '2025-04-21', weekEnd: '2025-04-27', capacityHours: 24, plannedHours: 2 }),
+      ]);
+      expect(workload!.totals).toMatchObject({ capacityHours: 48, plannedHours: 14, availableHours: 34 });
+    });
+
+    it('should return null for an unknown member', async () => {
+      expect(await workloadService.getMemberWorkload('unknown', range)).toBeNull();
+    });
+  });
+
+  describe('getTeamWorkload', () => {
+    it('should sum member capacities and cap multi-day tasks at a working day', async () => {
+      const workload = await workloadService.getTeamWorkload('team-a', range);
+      const day = (date: string) => workload!.days.find(d => d.date === date)!;
+
+      expect(workload!.members.map(member => member.memberId)).toEqual(['m1', 'm2']);
+      // m2 à mi-temps : 4h de capacité ; à temps plein à partir du 22, la tâche de 2 jours compte 8h par jour
+      expect(day('2025-04-14')).toMatchObject({ capacityHours: 12, plannedHours: 4 });
+      expect(day('2025-04-16')).toMatchObject({ capacityHours: 4, membersAbsent: 1 });
+      expect(day('2025-04-22')).toMatchObject({ capacityHours: 16, plannedHours: 8 });
+      expect(day('2025-04-21')).toMatchObject({ overloaded: true, membersOverloaded: 1 });
+      expect(workload!.members[1]!.schedules.map(schedule => schedule.id)).toEqual(['s2', 's3']);
+    });
+
+    it('should return null for an unknown team', async () => {
+      expect(await workloadService.getTeamWorkload('unknown', range)).toBeNull();
+    });
+  });
+});